@@ -0,0 +1,143 @@
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import * as zlib from 'zlib';
+import { ActivityLogsArchiveService } from './activity-logs-archive.service';
+import { ActivityLogs } from '../entities/entities/ActivityLogs';
+import { ActivityLogArchives } from '../entities/entities/ActivityLogArchives';
+import { Companies } from '../entities/entities/Companies';
+import { AuthUser } from '../common/interfaces/auth-user.interface';
+import { toNdjsonLine } from './log-export';
+
+describe('ActivityLogsArchiveService', () => {
+  const companyAdmin: AuthUser = {
+    id: 1,
+    sub: 1,
+    email: 'admin@test.com',
+    companyId: 3,
+    roles: ['company_admin'],
+  };
+
+  const createService = (archives: Partial<ActivityLogArchives>[] = []) => {
+    const execute = jest.fn();
+    const insertBuilder = {
+      insert: jest.fn().mockReturnThis(),
+      into: jest.fn().mockReturnThis(),
+      values: jest.fn().mockReturnThis(),
+      orIgnore: jest.fn().mockReturnThis(),
+      execute,
+    };
+    const manager = {
+      query: jest.fn(),
+      update: jest.fn(),
+      createQueryBuilder: jest.fn(() => insertBuilder),
+    };
+    const logsRepo = {
+      manager: {
+        transaction: jest.fn((work: (m: typeof manager) => Promise<unknown>) =>
+          work(manager),
+        ),
+      },
+    } as unknown as Repository<ActivityLogs>;
+    const archiveQuery = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue(archives),
+    };
+    const archivesRepo = {
+      find: jest.fn().mockResolvedValue(archives),
+      createQueryBuilder: jest.fn(() => archiveQuery),
+    } as unknown as Repository<ActivityLogArchives>;
+    const configService = {
+      get: jest.fn((_key: string, fallback: unknown) => fallback),
+    } as unknown as ConfigService;
+
+    return {
+      service: new ActivityLogsArchiveService(
+        logsRepo,
+        archivesRepo,
+        {} as Repository<Companies>,
+        configService,
+      ),
+      manager,
+      insertBuilder,
+      archivesRepo,
+      archiveQuery,
+    };
+  };
+
+  it('company_admin cannot restore another company', async () => {
+    const { service } = createService();
+
+    await expect(
+      service.restore(companyAdmin, {
+        from: new Date('2025-01-01'),
+        to: new Date('2025-02-01'),
+        companyId: 9,
+      }),
+    ).rejects.toThrow('Not allowed to restore logs of another company');
+  });
+
+  it('restores whole batches with their original ids', async () => {
+    const row = {
+      id: 41,
+      createdAt: new Date('2025-01-05T10:00:00.000Z'),
+      companyId: 3,
+      reason: 'AUDIT',
+      hash: 'abc',
+    } as ActivityLogs;
+    const payload = zlib.gzipSync(toNdjsonLine(row));
+    const { service, manager, insertBuilder, archiveQuery } = createService([
+      { id: 2, companyId: 3, payload, restoredAt: null },
+    ]);
+
+    const result = await service.restore(companyAdmin, {
+      from: new Date('2025-01-01'),
+      to: new Date('2025-02-01'),
+    });
+
+    expect(archiveQuery.where).toHaveBeenCalledWith(
+      'a.companyId = :companyId',
+      {
+        companyId: 3,
+      },
+    );
+    expect(insertBuilder.values).toHaveBeenCalledWith([
+      expect.objectContaining({
+        id: 41,
+        hash: 'abc',
+        createdAt: new Date('2025-01-05T10:00:00.000Z'),
+      }),
+    ]);
+    expect(manager.update).toHaveBeenCalledWith(
+      ActivityLogArchives,
+      2,
+      expect.objectContaining({ restoredUntil: result.restoredUntil }),
+    );
+    expect(result).toEqual(expect.objectContaining({ archives: 1, rows: 1 }));
+  });
+
+  it('only extends the window of an already restored batch', async () => {
+    const { service, insertBuilder } = createService([
+      { id: 2, companyId: 3, restoredAt: new Date() },
+    ]);
+
+    const result = await service.restore(companyAdmin, {
+      from: new Date('2025-01-01'),
+      to: new Date('2025-02-01'),
+    });
+
+    expect(insertBuilder.execute).not.toHaveBeenCalled();
+    expect(result.rows).toBe(0);
+  });
+
+  it('lists only the archives of the requester company', async () => {
+    const { service, archivesRepo } = createService();
+
+    await service.findArchives(companyAdmin, 9);
+
+    expect(archivesRepo.find).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { companyId: 3 } }),
+    );
+  });
+});
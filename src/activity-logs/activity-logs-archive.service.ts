@@ -0,0 +1,359 @@
+import { ForbiddenException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, IsNull, LessThan, Not, Repository } from 'typeorm';
+import { promisify } from 'util';
+import * as zlib from 'zlib';
+import { ActivityLogs } from 'src/entities/entities/ActivityLogs';
+import { ActivityLogArchives } from 'src/entities/entities/ActivityLogArchives';
+import { Companies } from 'src/entities/entities/Companies';
+import { AuthUser } from 'src/common/interfaces/auth-user.interface';
+import { ActivityLogArchiveSummary, ArchiveRestoreResult } from './interfaces';
+import { EXPORT_COLUMNS, ExportRow, toNdjsonLine } from './log-export';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+@Injectable()
+export class ActivityLogsArchiveService {
+  private readonly logger = new Logger(ActivityLogsArchiveService.name);
+
+  constructor(
+    @InjectRepository(ActivityLogs)
+    private readonly logsRepo: Repository<ActivityLogs>,
+    @InjectRepository(ActivityLogArchives)
+    private readonly archivesRepo: Repository<ActivityLogArchives>,
+    @InjectRepository(Companies)
+    private readonly companiesRepo: Repository<Companies>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  private isSuperAdmin(requester: AuthUser): boolean {
+    return (requester.roles || [])
+      .map((r) => String(r).toLowerCase().trim())
+      .includes('super_admin');
+  }
+
+  private get defaultRetentionDays(): number {
+    return Number(this.configService.get('ACTIVITY_LOG_RETENTION_DAYS', 365));
+  }
+
+  private get batchSize(): number {
+    return Number(this.configService.get('ACTIVITY_LOG_ARCHIVE_BATCH', 5000));
+  }
+
+  private toSummary(archive: ActivityLogArchives): ActivityLogArchiveSummary {
+    return {
+      id: archive.id,
+      companyId: archive.companyId,
+      firstLogId: archive.firstLogId,
+      lastLogId: archive.lastLogId,
+      fromDate: archive.fromDate,
+      toDate: archive.toDate,
+      rowCount: archive.rowCount,
+      createdAt: archive.createdAt,
+      restoredAt: archive.restoredAt,
+      restoredUntil: archive.restoredUntil,
+    };
+  }
+
+  // Same lock key as ActivityLogsService.logEvent so archiving never races
+  // with rows being appended to the chain
+  private async lockChain(manager: EntityManager, companyId: number | null) {
+    await manager.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+      `activity_logs:${companyId ?? 'system'}`,
+    ]);
+  }
+
+  /**
+   * Cron job: nightly retention run. Expired rows are moved into compressed
+   * archive batches and temporarily restored rows are dropped again.
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_1AM)
+  async handleRetention(): Promise<void> {
+    this.logger.log('Running activity log retention job...');
+
+    const released = await this.releaseExpiredRestores();
+
+    const chains = await this.logsRepo
+      .createQueryBuilder('log')
+      .select('DISTINCT log.companyId', 'companyId')
+      .getRawMany<{ companyId: number | null }>();
+
+    let archivedRows = 0;
+    for (const { companyId } of chains) {
+      try {
+        archivedRows += await this.archiveChain(companyId);
+      } catch (error) {
+        this.logger.error(
+          `Failed to archive activity logs of company ${companyId ?? 'system'}`,
+          error instanceof Error ? error.stack : String(error),
+        );
+      }
+    }
+
+    this.logger.log(
+      `Archived ${archivedRows} activity logs, released ${released} restored batches`,
+    );
+  }
+
+  /**
+   * Move the rows of one chain that are past the company's retention into
+   * archive batches. The newest row always stays so new entries keep
+   * linking to it.
+   */
+  async archiveChain(companyId: number | null): Promise<number> {
+    let retentionDays = this.defaultRetentionDays;
+    if (companyId) {
+      const company = await this.companiesRepo.findOne({
+        where: { id: companyId },
+      });
+      retentionDays = company?.logRetentionDays ?? retentionDays;
+    }
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+    let total = 0;
+    for (;;) {
+      const archived = await this.logsRepo.manager.transaction(
+        async (manager) => {
+          await this.lockChain(manager, companyId);
+
+          const queryBuilder = manager
+            .getRepository(ActivityLogs)
+            .createQueryBuilder('log')
+            .where('log.createdAt < :cutoff', { cutoff })
+            // Skip rows that are only here because an archive was restored
+            .andWhere(
+              `NOT EXISTS (SELECT 1 FROM activity_log_archives a
+                WHERE a.company_id IS NOT DISTINCT FROM log.company_id
+                AND log.id BETWEEN a.first_log_id AND a.last_log_id)`,
+            )
+            .andWhere(
+              `log.id < (SELECT MAX(h.id) FROM activity_logs h
+                WHERE h.company_id IS NOT DISTINCT FROM log.company_id)`,
+            )
+            .orderBy('log.id', 'ASC')
+            .take(this.batchSize);
+
+          if (companyId) {
+            queryBuilder.andWhere('log.companyId = :companyId', { companyId });
+          } else {
+            queryBuilder.andWhere('log.companyId IS NULL');
+          }
+
+          const rows = await queryBuilder.getMany();
+          if (!rows.length) return 0;
+
+          const payload = await gzip(
+            rows.map((row) => toNdjsonLine(row)).join(''),
+          );
+          const first = rows[0];
+          const last = rows[rows.length - 1];
+
+          await manager.getRepository(ActivityLogArchives).save({
+            companyId,
+            firstLogId: first.id,
+            lastLogId: last.id,
+            fromDate: first.createdAt ?? new Date(0),
+            toDate: last.createdAt ?? new Date(0),
+            rowCount: rows.length,
+            firstPrevHash: first.prevHash,
+            lastHash: last.hash,
+            payload,
+          });
+          await manager.delete(
+            ActivityLogs,
+            rows.map((row) => row.id),
+          );
+
+          return rows.length;
+        },
+      );
+
+      total += archived;
+      if (archived < this.batchSize) break;
+    }
+
+    return total;
+  }
+
+  // Drop restored copies whose investigation window has passed; the
+  // archive batch itself is kept
+  async releaseExpiredRestores(): Promise<number> {
+    const expired = await this.archivesRepo.find({
+      where: { restoredUntil: LessThan(new Date()) },
+    });
+
+    for (const archive of expired) {
+      await this.logsRepo.manager.transaction(async (manager) => {
+        await this.lockChain(manager, archive.companyId);
+        await manager
+          .createQueryBuilder()
+          .delete()
+          .from(ActivityLogs)
+          .where('id BETWEEN :first AND :last', {
+            first: archive.firstLogId,
+            last: archive.lastLogId,
+          })
+          .andWhere(
+            archive.companyId
+              ? 'company_id = :companyId'
+              : 'company_id IS NULL',
+            { companyId: archive.companyId },
+          )
+          .execute();
+        await manager.update(ActivityLogArchives, archive.id, {
+          restoredAt: null,
+          restoredUntil: null,
+        });
+      });
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * List archive batches visible to the requester (payload omitted)
+   */
+  async findArchives(
+    requester: AuthUser,
+    companyId?: number,
+  ): Promise<ActivityLogArchiveSummary[]> {
+    const scopedCompanyId = this.isSuperAdmin(requester)
+      ? companyId
+      : requester.companyId;
+    if (!this.isSuperAdmin(requester) && !scopedCompanyId) return [];
+
+    const archives = await this.archivesRepo.find({
+      select: [
+        'id',
+        'companyId',
+        'firstLogId',
+        'lastLogId',
+        'fromDate',
+        'toDate',
+        'rowCount',
+        'createdAt',
+        'restoredAt',
+        'restoredUntil',
+      ],
+      where: scopedCompanyId ? { companyId: scopedCompanyId } : {},
+      order: { fromDate: 'ASC' },
+    });
+
+    return archives.map((a) => this.toSummary(a));
+  }
+
+  /**
+   * Copy every archive batch overlapping [from, to) back into activity_logs
+   * with its original ids and hashes, so the rows show up in the regular
+   * queries and the chain verifies. The copies are dropped again after
+   * ACTIVITY_LOG_RESTORE_DAYS; whole batches are restored to keep the
+   * chain contiguous.
+   */
+  async restore(
+    requester: AuthUser,
+    range: { from: Date; to: Date; companyId?: number | null },
+  ): Promise<ArchiveRestoreResult> {
+    let companyId: number | null;
+    if (this.isSuperAdmin(requester)) {
+      companyId = range.companyId ?? null;
+    } else {
+      if (!requester.companyId) {
+        throw new ForbiddenException('User has no company assigned');
+      }
+      if (range.companyId && range.companyId !== requester.companyId) {
+        throw new ForbiddenException(
+          'Not allowed to restore logs of another company',
+        );
+      }
+      companyId = requester.companyId;
+    }
+
+    const restoreDays = Number(
+      this.configService.get('ACTIVITY_LOG_RESTORE_DAYS', 7),
+    );
+    const restoredUntil = new Date(
+      Date.now() + restoreDays * 24 * 60 * 60 * 1000,
+    );
+
+    const archives = await this.archivesRepo
+      .createQueryBuilder('a')
+      .where(companyId ? 'a.companyId = :companyId' : 'a.companyId IS NULL', {
+        companyId,
+      })
+      .andWhere('a.fromDate < :to', { to: range.to })
+      .andWhere('a.toDate >= :from', { from: range.from })
+      .orderBy('a.firstLogId', 'ASC')
+      .getMany();
+
+    let rows = 0;
+    for (const archive of archives) {
+      await this.logsRepo.manager.transaction(async (manager) => {
+        await this.lockChain(manager, archive.companyId);
+
+        // Already restored: just extend the window
+        if (!archive.restoredAt) {
+          const records = await this.readPayload(archive.payload);
+          for (let i = 0; i < records.length; i += 500) {
+            await manager
+              .createQueryBuilder()
+              .insert()
+              .into(ActivityLogs)
+              .values(records.slice(i, i + 500))
+              .orIgnore()
+              .execute();
+          }
+          rows += records.length;
+        }
+
+        await manager.update(ActivityLogArchives, archive.id, {
+          restoredAt: archive.restoredAt ?? new Date(),
+          restoredUntil,
+        });
+      });
+    }
+
+    return {
+      archives: archives.length,
+      rows,
+      restoredUntil: archives.length ? restoredUntil : null,
+    };
+  }
+
+  private async readPayload(payload: Buffer): Promise<Partial<ActivityLogs>[]> {
+    const text = (await gunzip(payload)).toString('utf8');
+    return text
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => {
+        const record = JSON.parse(line) as ExportRow;
+        const row: Record<string, unknown> = {};
+        for (const column of EXPORT_COLUMNS) {
+          row[column] = record[column] ?? null;
+        }
+        row.createdAt = record.createdAt
+          ? new Date(record.createdAt as string)
+          : null;
+        return row as Partial<ActivityLogs>;
+      });
+  }
+
+  /**
+   * Chain links of the archived batches of one company, used to bridge the
+   * gaps left in activity_logs when verifying the hash chain
+   */
+  async findChainLinks(
+    companyId: number | null,
+  ): Promise<Map<string | null, string>> {
+    const archives = await this.archivesRepo.find({
+      select: ['firstPrevHash', 'lastHash'],
+      where: {
+        companyId: companyId ?? IsNull(),
+        lastHash: Not(IsNull()),
+      },
+    });
+    return new Map(archives.map((a) => [a.firstPrevHash, a.lastHash]));
+  }
+}
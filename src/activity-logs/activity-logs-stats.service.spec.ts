@@ -0,0 +1,146 @@
+import { ConfigService } from '@nestjs/config';
+import type Redis from 'ioredis';
+import { Repository } from 'typeorm';
+import {
+  ActivityLogsStatsService,
+  detectSpike,
+} from './activity-logs-stats.service';
+import { ActivityLogs } from '../entities/entities/ActivityLogs';
+import { AuthUser } from '../common/interfaces/auth-user.interface';
+import { NotificationsGateway } from '../notifications/notifications.gateway';
+
+describe('ActivityLogsStatsService', () => {
+  const companyAdmin: AuthUser = {
+    id: 1,
+    sub: 1,
+    email: 'admin@test.com',
+    companyId: 3,
+    roles: ['company_admin'],
+  };
+
+  const createService = (
+    rawRows: unknown[] = [],
+    config: Record<string, unknown> = {},
+  ) => {
+    const queryBuilder = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      addGroupBy: jest.fn().mockReturnThis(),
+      having: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      getCount: jest.fn().mockResolvedValue(0),
+      getRawMany: jest.fn().mockResolvedValue(rawRows),
+    };
+    const repo = {
+      createQueryBuilder: jest.fn(() => queryBuilder),
+    } as unknown as Repository<ActivityLogs>;
+    const configService = {
+      get: jest.fn((key: string, fallback: unknown) => config[key] ?? fallback),
+    } as unknown as ConfigService;
+    const gateway = { emitSecurityAlert: jest.fn() };
+    const redis = { set: jest.fn().mockResolvedValue('OK') };
+
+    return {
+      service: new ActivityLogsStatsService(
+        repo,
+        configService,
+        gateway as unknown as NotificationsGateway,
+        redis as unknown as Redis,
+      ),
+      queryBuilder,
+      gateway,
+      redis,
+    };
+  };
+
+  it('flags the latest bucket as a spike against the window average', () => {
+    const latestBucket = new Date('2026-01-01T03:00:00.000Z');
+    const timeline = [
+      { bucket: new Date('2026-01-01T00:00:00.000Z'), count: 2 },
+      { bucket: new Date('2026-01-01T01:00:00.000Z'), count: 4 },
+      { bucket: latestBucket, count: 30 },
+    ];
+
+    expect(detectSpike(timeline, 4, 3, 10, latestBucket)).toEqual({
+      detected: true,
+      latest: 30,
+      baseline: 2,
+    });
+    expect(detectSpike(timeline, 4, 3, 50, latestBucket).detected).toBe(false);
+  });
+
+  it('scopes company_admin stats to their own company', async () => {
+    const { service, queryBuilder } = createService();
+
+    const stats = await service.getForbiddenStats(companyAdmin, {
+      from: new Date('2026-01-01T00:00:00.000Z'),
+      to: new Date('2026-01-02T00:00:00.000Z'),
+      bucket: 'hour',
+      companyId: 9,
+      top: 10,
+    });
+
+    expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+      'log.companyId = :companyId',
+      { companyId: 3 },
+    );
+    expect(stats.companyId).toBe(3);
+    expect(stats.total).toBe(0);
+  });
+
+  it('buckets the timeline in UTC, like the spike detection', async () => {
+    const { service, queryBuilder } = createService([
+      { bucket: '2026-01-01T00:00:00.000Z', count: '4' },
+    ]);
+    queryBuilder.getCount.mockResolvedValue(4);
+
+    const stats = await service.getForbiddenStats(companyAdmin, {
+      from: new Date('2026-01-01T00:00:00.000Z'),
+      to: new Date('2026-01-03T00:00:00.000Z'),
+      bucket: 'day',
+      top: 10,
+    });
+
+    expect(queryBuilder.select).toHaveBeenCalledWith(
+      "date_trunc('day', log.createdAt AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'",
+      'bucket',
+    );
+    expect(stats.timeline[0].bucket).toEqual(
+      new Date('2026-01-01T00:00:00.000Z'),
+    );
+  });
+
+  it('does not send alerts when no threshold is configured', async () => {
+    const { service, queryBuilder } = createService();
+
+    await expect(service.checkAlertThresholds()).resolves.toBe(0);
+    expect(queryBuilder.getRawMany).not.toHaveBeenCalled();
+  });
+
+  it('alerts a company once per window', async () => {
+    const { service, gateway, redis } = createService(
+      [{ companyId: 3, count: '75' }],
+      { SECURITY_ALERT_THRESHOLD: 50 },
+    );
+
+    await expect(service.checkAlertThresholds()).resolves.toBe(1);
+    expect(redis.set).toHaveBeenCalledWith(
+      'security:alert:3',
+      '1',
+      'EX',
+      3600,
+      'NX',
+    );
+    expect(gateway.emitSecurityAlert).toHaveBeenCalledWith(
+      expect.objectContaining({ companyId: 3, count: 75, threshold: 50 }),
+    );
+
+    redis.set.mockResolvedValueOnce(null);
+    await expect(service.checkAlertThresholds()).resolves.toBe(0);
+    expect(gateway.emitSecurityAlert).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,307 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import type Redis from 'ioredis';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { ActivityLogs } from 'src/entities/entities/ActivityLogs';
+import { AuthUser } from 'src/common/interfaces/auth-user.interface';
+import { NotificationsGateway } from 'src/notifications/notifications.gateway';
+import {
+  SecurityOffender,
+  SecurityStats,
+  SecurityStatsParams,
+  SpikeInfo,
+  StatsBucket,
+  TimelineBucket,
+} from './interfaces';
+
+const BUCKET_MS: Record<StatsBucket, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Compare the most recent bucket of a timeline against the average of the
+ * preceding buckets. Buckets without attempts are missing from the timeline
+ * and count as zero.
+ */
+export function detectSpike(
+  timeline: TimelineBucket[],
+  bucketCount: number,
+  factor: number,
+  minCount: number,
+  latestBucket: Date,
+): SpikeInfo {
+  const latest =
+    timeline.find((t) => t.bucket.getTime() === latestBucket.getTime())
+      ?.count ?? 0;
+  const previous = timeline.reduce((sum, t) => sum + t.count, 0) - latest;
+  const baseline = bucketCount > 1 ? previous / (bucketCount - 1) : 0;
+
+  return {
+    detected: latest >= minCount && latest > baseline * factor,
+    latest,
+    baseline: Math.round(baseline * 100) / 100,
+  };
+}
+
+@Injectable()
+export class ActivityLogsStatsService {
+  private readonly logger = new Logger(ActivityLogsStatsService.name);
+
+  constructor(
+    @InjectRepository(ActivityLogs)
+    private readonly repo: Repository<ActivityLogs>,
+    private readonly configService: ConfigService,
+    private readonly notificationsGateway: NotificationsGateway,
+    @Inject('REDIS_CLIENT')
+    private readonly redis: Redis,
+  ) {}
+
+  private getNumber(name: string, fallback: number): number {
+    return Number(this.configService.get(name, fallback));
+  }
+
+  private isSuperAdmin(requester: AuthUser): boolean {
+    return (requester.roles || [])
+      .map((r) => String(r).toLowerCase().trim())
+      .includes('super_admin');
+  }
+
+  // FORBIDDEN rows of the window, optionally limited to one company
+  private forbiddenQuery(
+    from: Date,
+    to: Date,
+    companyId?: number,
+  ): SelectQueryBuilder<ActivityLogs> {
+    const queryBuilder = this.repo
+      .createQueryBuilder('log')
+      .where('log.reason = :reason', { reason: 'FORBIDDEN' })
+      .andWhere('log.createdAt >= :from', { from })
+      .andWhere('log.createdAt < :to', { to });
+
+    if (companyId) {
+      queryBuilder.andWhere('log.companyId = :companyId', { companyId });
+    }
+    return queryBuilder;
+  }
+
+  private async findOffenders(
+    from: Date,
+    to: Date,
+    companyId: number | undefined,
+    top: number,
+  ): Promise<SecurityOffender[]> {
+    const rows = await this.forbiddenQuery(from, to, companyId)
+      .select('log.userId', 'userId')
+      .addSelect('MAX(log.username)', 'username')
+      .addSelect('log.ipAddress', 'ipAddress')
+      .addSelect('COUNT(*)', 'count')
+      .addSelect('COUNT(DISTINCT log.api)', 'apis')
+      .addSelect('MAX(log.createdAt)', 'lastSeen')
+      .groupBy('log.userId')
+      .addGroupBy('log.ipAddress')
+      .orderBy('count', 'DESC')
+      .limit(top)
+      .getRawMany<{
+        userId: number | null;
+        username: string | null;
+        ipAddress: string;
+        count: string;
+        apis: string;
+        lastSeen: Date;
+      }>();
+
+    return rows.map((row) => ({
+      userId: row.userId,
+      username: row.username,
+      ipAddress: row.ipAddress,
+      count: Number(row.count),
+      apis: Number(row.apis),
+      lastSeen: row.lastSeen,
+    }));
+  }
+
+  /**
+   * Summarise forbidden access attempts over [from, to): counts per user,
+   * IP, API path and time bucket, the top offending user/IP pairs and
+   * whether the latest bucket is a spike compared to the rest of the window.
+   */
+  async getForbiddenStats(
+    requester: AuthUser,
+    params: SecurityStatsParams,
+  ): Promise<SecurityStats> {
+    const { from, to, bucket, top } = params;
+    const companyId = this.isSuperAdmin(requester)
+      ? params.companyId
+      : requester.companyId;
+
+    const bucketMs = BUCKET_MS[bucket];
+    const bucketCount = Math.max(
+      1,
+      Math.ceil((to.getTime() - from.getTime()) / bucketMs),
+    );
+    // Buckets are UTC on both sides (see the date_trunc below); the latest
+    // bucket is the one containing the end of the window
+    const latestBucket = new Date(
+      Math.floor((to.getTime() - 1) / bucketMs) * bucketMs,
+    );
+
+    const empty: SecurityStats = {
+      companyId: companyId ?? null,
+      from,
+      to,
+      bucket,
+      total: 0,
+      byUser: [],
+      byIp: [],
+      byApi: [],
+      timeline: [],
+      topOffenders: [],
+      spike: { detected: false, latest: 0, baseline: 0 },
+    };
+    if (!this.isSuperAdmin(requester) && !companyId) return empty;
+
+    const total = await this.forbiddenQuery(from, to, companyId).getCount();
+    if (!total) return empty;
+
+    const byUser = await this.forbiddenQuery(from, to, companyId)
+      .select('log.userId', 'userId')
+      .addSelect('MAX(log.username)', 'username')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('log.userId')
+      .orderBy('count', 'DESC')
+      .limit(top)
+      .getRawMany<{
+        userId: number | null;
+        username: string | null;
+        count: string;
+      }>();
+
+    const byIp = await this.forbiddenQuery(from, to, companyId)
+      .select('log.ipAddress', 'ipAddress')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('log.ipAddress')
+      .orderBy('count', 'DESC')
+      .limit(top)
+      .getRawMany<{ ipAddress: string; count: string }>();
+
+    const byApi = await this.forbiddenQuery(from, to, companyId)
+      .select('log.api', 'api')
+      .addSelect('UPPER(log.method)', 'method')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('log.api')
+      .addGroupBy('UPPER(log.method)')
+      .orderBy('count', 'DESC')
+      .limit(top)
+      .getRawMany<{ api: string; method: string; count: string }>();
+
+    // bucket is one of BUCKET_MS' keys, never user input. Truncate in UTC
+    // rather than the session time zone so day buckets match latestBucket
+    const timelineRows = await this.forbiddenQuery(from, to, companyId)
+      .select(
+        `date_trunc('${bucket}', log.createdAt AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'`,
+        'bucket',
+      )
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('bucket')
+      .orderBy('bucket', 'ASC')
+      .getRawMany<{ bucket: Date; count: string }>();
+
+    const timeline = timelineRows.map((row) => ({
+      bucket: new Date(row.bucket),
+      count: Number(row.count),
+    }));
+
+    return {
+      ...empty,
+      total,
+      byUser: byUser.map((row) => ({
+        userId: row.userId,
+        username: row.username,
+        count: Number(row.count),
+      })),
+      byIp: byIp.map((row) => ({
+        ipAddress: row.ipAddress,
+        count: Number(row.count),
+      })),
+      byApi: byApi.map((row) => ({
+        api: row.api,
+        method: row.method,
+        count: Number(row.count),
+      })),
+      timeline,
+      topOffenders: await this.findOffenders(from, to, companyId, top),
+      spike: detectSpike(
+        timeline,
+        bucketCount,
+        this.getNumber('SECURITY_SPIKE_FACTOR', 3),
+        this.getNumber('SECURITY_SPIKE_MIN_COUNT', 10),
+        latestBucket,
+      ),
+    };
+  }
+
+  /**
+   * Cron job: push a security:alert to the admins of every company whose
+   * forbidden attempts within the alert window reached
+   * SECURITY_ALERT_THRESHOLD (0 disables alerts). A company is alerted at
+   * most once per window.
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async checkAlertThresholds(): Promise<number> {
+    const threshold = this.getNumber('SECURITY_ALERT_THRESHOLD', 0);
+    if (threshold <= 0) return 0;
+
+    const windowMinutes = this.getNumber('SECURITY_ALERT_WINDOW_MINUTES', 60);
+    const to = new Date();
+    const from = new Date(to.getTime() - windowMinutes * 60 * 1000);
+
+    const companies = await this.forbiddenQuery(from, to)
+      .select('log.companyId', 'companyId')
+      .addSelect('COUNT(*)', 'count')
+      .andWhere('log.companyId IS NOT NULL')
+      .groupBy('log.companyId')
+      .having('COUNT(*) >= :threshold', { threshold })
+      .getRawMany<{ companyId: number; count: string }>();
+
+    let alerted = 0;
+    for (const { companyId, count } of companies) {
+      try {
+        // Shared across instances so only one of them sends the alert
+        const first = await this.redis.set(
+          `security:alert:${companyId}`,
+          '1',
+          'EX',
+          windowMinutes * 60,
+          'NX',
+        );
+        if (!first) continue;
+
+        const offenders = await this.findOffenders(from, to, companyId, 5);
+        this.notificationsGateway.emitSecurityAlert({
+          companyId,
+          count: Number(count),
+          threshold,
+          windowMinutes,
+          topOffenders: offenders.map((o) => ({
+            userId: o.userId,
+            username: o.username,
+            ipAddress: o.ipAddress,
+            count: o.count,
+          })),
+          detectedAt: to,
+        });
+        alerted++;
+      } catch (error) {
+        this.logger.error(
+          `Failed to send security alert for company ${companyId}`,
+          error instanceof Error ? error.stack : String(error),
+        );
+      }
+    }
+
+    return alerted;
+  }
+}
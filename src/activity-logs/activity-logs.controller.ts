@@ -1,23 +1,64 @@
-import { Controller, Get, Param, Query, Req, UseGuards } from '@nestjs/common';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Logger,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { pipeline } from 'stream/promises';
 import { AuthGuard } from '@nestjs/passport';
 import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
 import { ActivityLogsService } from './activity-logs.service';
+import { ActivityLogsArchiveService } from './activity-logs-archive.service';
+import { ActivityLogsStatsService } from './activity-logs-stats.service';
+import { RestoreArchiveDto } from './dto/restore-archive.dto';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
 import type { RequestWithUser } from '../common/interfaces/request-with-user.interface';
 import { ApiResponse } from '../common/utils/api-response';
+import { ExportFormat, StatsBucket } from './interfaces';
+import { createExportTransform, EXPORT_FORMATS } from './log-export';
 
 /**
  * Controller for querying user activity logs.
  *
  * All routes are JWT-protected and intended for administrative users.
  */
-@UseGuards(AuthGuard('jwt'))
+@UseGuards(AuthGuard(['jwt', 'api-key', 'oauth']))
 @ApiTags('activity-logs')
 @ApiBearerAuth('JWT')
 @Controller('activity-logs')
 export class ActivityLogsController {
-  constructor(private readonly activityLogsService: ActivityLogsService) {}
+  private readonly logger = new Logger(ActivityLogsController.name);
+
+  constructor(
+    private readonly activityLogsService: ActivityLogsService,
+    private readonly archiveService: ActivityLogsArchiveService,
+    private readonly statsService: ActivityLogsStatsService,
+  ) {}
+
+  // Page size between 1 and 100, default 20
+  private parseLimit(value: string | undefined) {
+    const limit = value ? parseInt(value, 10) : 20;
+    return Math.min(Math.max(isNaN(limit) ? 20 : limit, 1), 100);
+  }
+
+  private parseDate(value: string | undefined, name: string) {
+    if (!value) return undefined;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`${name} must be a valid ISO date`);
+    }
+    return date;
+  }
 
   /**
    * Get a paginated list of activity logs visible to the current user.
@@ -27,9 +68,18 @@ export class ActivityLogsController {
    * @param limit - Page size (defaults to 20).
    * @param method - Optional HTTP method filter.
    * @param search - Optional free-text search filter.
+   * @param action - Optional audit action filter (e.g. `user.update`).
+   * @param entityType - Optional audited entity type filter (e.g. `user`).
+   * @param from - Optional inclusive lower bound on createdAt (ISO date).
+   * @param to - Optional exclusive upper bound on createdAt (ISO date).
+   * @param userId - Optional acting user filter.
+   * @param reason - Optional reason code filter (e.g. `FORBIDDEN`).
+   * @param ipAddress - Optional client IP filter.
+   * @param cursor - Optional `meta.nextCursor` of the previous page; switches
+   *   to keyset pagination and ignores `page`.
    * @returns API response with paginated activity logs.
    */
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
   @Roles('super_admin', 'company_admin')
   @Get('getAll')
   async findAll(
@@ -38,12 +88,28 @@ export class ActivityLogsController {
     @Query('limit') limit?: string,
     @Query('method') method?: string,
     @Query('search') search?: string,
+    @Query('action') action?: string,
+    @Query('entityType') entityType?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('userId') userId?: string,
+    @Query('reason') reason?: string,
+    @Query('ipAddress') ipAddress?: string,
+    @Query('cursor') cursor?: string,
   ) {
     const result = await this.activityLogsService.findAllWithAccess(req.user, {
       page: page ? parseInt(page, 10) : 1,
-      limit: limit ? parseInt(limit, 10) : 20,
+      limit: this.parseLimit(limit),
+      cursor,
       method,
       search,
+      action,
+      entityType,
+      from: this.parseDate(from, 'from'),
+      to: this.parseDate(to, 'to'),
+      userId: userId ? parseInt(userId, 10) : undefined,
+      reason,
+      ipAddress,
     });
     return ApiResponse.success(
       'Activity logs retrieved successfully',
@@ -53,20 +119,213 @@ export class ActivityLogsController {
   }
 
   /**
-   * Get activity logs for a specific user.
+   * Stream the activity logs visible to the current user as CSV or NDJSON.
+   *
+   * Rows are read through a database cursor and written as they arrive, so
+   * large ranges do not have to fit in memory.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param res - Response the export is streamed to.
+   * @param format - `csv` (default) or `ndjson`.
+   * @param from - Optional inclusive lower bound on createdAt (ISO date).
+   * @param to - Optional exclusive upper bound on createdAt (ISO date).
+   */
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
+  @Roles('super_admin', 'company_admin')
+  @Get('export')
+  async export(
+    @Req() req: RequestWithUser,
+    @Res() res: Response,
+    @Query('format') format: string = 'csv',
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      throw new BadRequestException(
+        `format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+      );
+    }
+    const exportFormat = format as ExportFormat;
+
+    const rows = await this.activityLogsService.streamForExport(req.user, {
+      from: this.parseDate(from, 'from'),
+      to: this.parseDate(to, 'to'),
+    });
+
+    const filename = `activity-logs-${new Date().toISOString().slice(0, 10)}.${exportFormat}`;
+    res.setHeader(
+      'Content-Type',
+      exportFormat === 'csv'
+        ? 'text/csv; charset=utf-8'
+        : 'application/x-ndjson; charset=utf-8',
+    );
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    try {
+      await pipeline(rows, createExportTransform(exportFormat), res);
+    } catch (error) {
+      // Headers are already sent; all we can do is cut the response short
+      this.logger.warn(
+        `Activity log export aborted: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      res.destroy();
+    }
+  }
+
+  /**
+   * Summarise forbidden access attempts (`FORBIDDEN` logs) over a window:
+   * counts per user, IP, API path and hour/day, top offenders and a spike
+   * flag for the latest bucket.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param from - Optional start of the window (defaults to 24h before `to`).
+   * @param to - Optional end of the window (defaults to now).
+   * @param bucket - `hour` (default) or `day`.
+   * @param companyId - Optional company filter (super_admin only).
+   * @param top - Entries per grouping (1-50, default 10).
+   * @returns API response with the security stats.
+   */
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
+  @Roles('super_admin', 'company_admin')
+  @Get('stats')
+  async stats(
+    @Req() req: RequestWithUser,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('bucket') bucket?: string,
+    @Query('companyId') companyId?: string,
+    @Query('top') top?: string,
+  ) {
+    const statsBucket = (bucket || 'hour') as StatsBucket;
+    if (!['hour', 'day'].includes(statsBucket)) {
+      throw new BadRequestException('bucket must be one of: hour, day');
+    }
+
+    const end = this.parseDate(to, 'to') ?? new Date();
+    const start =
+      this.parseDate(from, 'from') ??
+      new Date(end.getTime() - 24 * 60 * 60 * 1000);
+    if (start >= end) {
+      throw new BadRequestException('from must be before to');
+    }
+    const topCount = top ? parseInt(top, 10) : 10;
+
+    const data = await this.statsService.getForbiddenStats(req.user, {
+      from: start,
+      to: end,
+      bucket: statsBucket,
+      companyId: companyId ? parseInt(companyId, 10) : undefined,
+      top: Math.min(Math.max(isNaN(topCount) ? 10 : topCount, 1), 50),
+    });
+    return ApiResponse.success(
+      'Security stats retrieved successfully',
+      200,
+      data,
+    );
+  }
+
+  /**
+   * Verify the tamper-evident hash chain of the activity logs and report
+   * the first broken link of each company chain.
+   *
+   * @param companyId - Optional company to limit the check to.
+   * @returns API response with the verification report.
+   */
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
+  @Roles('super_admin')
+  @Get('verify')
+  async verify(@Query('companyId') companyId?: string) {
+    const data = await this.activityLogsService.verifyChains(
+      companyId ? parseInt(companyId, 10) : undefined,
+    );
+    return ApiResponse.success(
+      data.valid
+        ? 'Activity log chain verified successfully'
+        : 'Activity log chain is broken',
+      200,
+      data,
+    );
+  }
+
+  /**
+   * List archived activity log batches visible to the current user.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param companyId - Optional company filter (super_admin only).
+   * @returns API response with the archive batches (without payload).
+   */
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
+  @Roles('super_admin', 'company_admin')
+  @Get('archives')
+  async findArchives(
+    @Req() req: RequestWithUser,
+    @Query('companyId') companyId?: string,
+  ) {
+    const data = await this.archiveService.findArchives(
+      req.user,
+      companyId ? parseInt(companyId, 10) : undefined,
+    );
+    return ApiResponse.success('Archives retrieved successfully', 200, data);
+  }
+
+  /**
+   * Temporarily restore the archived batches overlapping a date range so
+   * they can be investigated with the regular log endpoints.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param body - Date range and optional company.
+   * @returns API response with the number of restored batches and rows.
+   */
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
+  @Roles('super_admin', 'company_admin')
+  @Post('archives/restore')
+  async restoreArchives(
+    @Req() req: RequestWithUser,
+    @Body() body: RestoreArchiveDto,
+  ) {
+    const from = new Date(body.from);
+    const to = new Date(body.to);
+    if (from >= to) {
+      throw new BadRequestException('from must be before to');
+    }
+
+    const data = await this.archiveService.restore(req.user, {
+      from,
+      to,
+      companyId: body.companyId,
+    });
+    return ApiResponse.success('Archives restored successfully', 200, data);
+  }
+
+  /**
+   * Get a page of activity logs for a specific user.
+   * company_admin only sees the logs of their own company.
    *
    * @param req - Authenticated request providing the current user.
    * @param userId - Target user ID.
+   * @param limit - Page size (defaults to 20).
+   * @param cursor - Optional `meta.nextCursor` of the previous page.
+   * @param from - Optional inclusive lower bound on createdAt (ISO date).
+   * @param to - Optional exclusive upper bound on createdAt (ISO date).
    * @returns API response with the user's activity logs.
    */
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
   @Roles('super_admin', 'company_admin')
   @Get('user/:userId')
   async findByUser(
     @Req() req: RequestWithUser,
-    @Param('userId') userId: number,
+    @Param('userId', ParseIntPipe) userId: number,
+    @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
   ) {
-    const data = await this.activityLogsService.findByUser(+userId);
+    const data = await this.activityLogsService.findByUser(req.user, userId, {
+      limit: this.parseLimit(limit),
+      cursor,
+      from: this.parseDate(from, 'from'),
+      to: this.parseDate(to, 'to'),
+    });
     return ApiResponse.success(
       'Activity logs retrieved successfully',
       200,
@@ -1,14 +1,29 @@
 import { Global, Module } from '@nestjs/common';
 import { ActivityLogsService } from './activity-logs.service';
+import { AuditService } from './audit.service';
+import { ActivityLogsArchiveService } from './activity-logs-archive.service';
+import { ActivityLogsStatsService } from './activity-logs-stats.service';
 import { ActivityLogsController } from './activity-logs.controller';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ActivityLogs } from 'src/entities/entities/ActivityLogs';
+import { ActivityLogArchives } from 'src/entities/entities/ActivityLogArchives';
+import { Companies } from 'src/entities/entities/Companies';
+import { NotificationsModule } from 'src/notifications/notifications.module';
 
 @Global()
 @Module({
-  imports: [TypeOrmModule.forFeature([ActivityLogs])],
-  providers: [ActivityLogsService],
+  imports: [
+    TypeOrmModule.forFeature([ActivityLogs, ActivityLogArchives, Companies]),
+    // security:alert pushes
+    NotificationsModule,
+  ],
+  providers: [
+    ActivityLogsService,
+    AuditService,
+    ActivityLogsArchiveService,
+    ActivityLogsStatsService,
+  ],
   controllers: [ActivityLogsController],
-  exports: [ActivityLogsService],
+  exports: [ActivityLogsService, AuditService],
 })
 export class ActivityLogsModule {}
@@ -1,5 +1,9 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { Repository } from 'typeorm';
 import { ActivityLogsService } from './activity-logs.service';
+import { ActivityLogs } from '../entities/entities/ActivityLogs';
+import { computeLogHash } from './log-chain';
+import { ActivityLogsArchiveService } from './activity-logs-archive.service';
 
 describe('ActivityLogsService', () => {
   let service: ActivityLogsService;
@@ -16,3 +20,174 @@ describe('ActivityLogsService', () => {
     expect(service).toBeDefined();
   });
 });
+
+describe('ActivityLogsService hash chain', () => {
+  const buildRow = (
+    id: number,
+    prevHash: string | null,
+    overrides: Partial<ActivityLogs> = {},
+  ): ActivityLogs => {
+    const row = {
+      id,
+      userId: 1,
+      username: 'admin@test.com',
+      companyId: 3,
+      ipAddress: '10.0.0.1',
+      api: '/users/update/5',
+      method: 'PUT',
+      reason: 'AUDIT',
+      action: 'user.update',
+      entityType: 'user',
+      entityId: '5',
+      changes: null,
+      createdAt: new Date(Date.UTC(2026, 0, 1, 0, 0, id)),
+      prevHash,
+      hash: null,
+    } as ActivityLogs;
+    row.hash = computeLogHash(row, prevHash);
+    return Object.assign(row, overrides);
+  };
+
+  const createService = (
+    rows: ActivityLogs[],
+    archiveLinks = new Map<string | null, string>(),
+  ) => {
+    const repo = {
+      find: jest.fn().mockResolvedValueOnce(rows).mockResolvedValueOnce([]),
+    } as unknown as Repository<ActivityLogs>;
+    const archiveService = {
+      findChainLinks: jest.fn().mockResolvedValue(archiveLinks),
+    } as unknown as ActivityLogsArchiveService;
+    return new ActivityLogsService(repo, archiveService);
+  };
+
+  it('accepts an intact chain and skips legacy rows', async () => {
+    const legacy = { ...buildRow(1, null), hash: null } as ActivityLogs;
+    const first = buildRow(2, null);
+    const second = buildRow(3, first.hash);
+
+    const result = await createService([legacy, first, second]).verifyChain(3);
+
+    expect(result).toEqual({
+      companyId: 3,
+      valid: true,
+      checked: 2,
+      legacy: 1,
+      brokenAt: null,
+    });
+  });
+
+  it('reports an edited row', async () => {
+    const first = buildRow(1, null);
+    const second = buildRow(2, first.hash, { api: '/edited' });
+
+    const result = await createService([first, second]).verifyChain(3);
+
+    expect(result.valid).toBe(false);
+    expect(result.brokenAt).toEqual(
+      expect.objectContaining({ id: 2, reason: 'HASH_MISMATCH' }),
+    );
+  });
+
+  it('reports a deleted row through the broken link', async () => {
+    const first = buildRow(1, null);
+    const second = buildRow(2, first.hash);
+    const third = buildRow(3, second.hash);
+
+    const result = await createService([first, third]).verifyChain(3);
+
+    expect(result.brokenAt).toEqual({
+      id: 3,
+      reason: 'PREV_HASH_MISMATCH',
+      expected: first.hash,
+      actual: second.hash,
+    });
+  });
+
+  it('bridges gaps left by archived batches', async () => {
+    const first = buildRow(1, null);
+    const second = buildRow(2, first.hash);
+    const third = buildRow(3, second.hash);
+
+    // rows 1 and 2 were archived in one batch
+    const result = await createService(
+      [third],
+      new Map<string | null, string>([[null, second.hash]]),
+    ).verifyChain(3);
+
+    expect(result.valid).toBe(true);
+    expect(result.checked).toBe(1);
+  });
+});
+
+describe('ActivityLogsService pagination', () => {
+  const companyAdmin = {
+    id: 1,
+    sub: 1,
+    email: 'admin@test.com',
+    companyId: 3,
+    roles: ['company_admin'],
+  };
+
+  const createService = (rows: Partial<ActivityLogs>[] = []) => {
+    const queryBuilder = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      skip: jest.fn().mockReturnThis(),
+      take: jest.fn().mockReturnThis(),
+      getCount: jest.fn().mockResolvedValue(rows.length),
+      getMany: jest.fn().mockResolvedValue(rows),
+    };
+    const repo = {
+      createQueryBuilder: jest.fn(() => queryBuilder),
+    } as unknown as Repository<ActivityLogs>;
+    return {
+      service: new ActivityLogsService(repo, {} as ActivityLogsArchiveService),
+      queryBuilder,
+    };
+  };
+
+  it('scopes the logs of a user to the company of a company_admin', async () => {
+    const { service, queryBuilder } = createService();
+
+    await service.findByUser(companyAdmin, 5);
+
+    expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+      'log.companyId = :companyId',
+      { companyId: 3 },
+    );
+    expect(queryBuilder.andWhere).toHaveBeenCalledWith('log.userId = :userId', {
+      userId: 5,
+    });
+  });
+
+  it('returns a cursor that continues after the last row', async () => {
+    const rows = [3, 2, 1].map((id) => ({
+      id,
+      createdAt: new Date(Date.UTC(2026, 0, 1, 0, 0, id)),
+    }));
+    const { service, queryBuilder } = createService(rows);
+
+    const page = await service.findAllPaginated({
+      limit: 2,
+      cursor: Buffer.from(
+        JSON.stringify({ createdAt: rows[0].createdAt, id: 3 }),
+      ).toString('base64url'),
+    });
+
+    expect(queryBuilder.take).toHaveBeenLastCalledWith(3);
+    expect(page.data).toHaveLength(2);
+    expect(page.meta.total).toBeUndefined();
+    expect(page.meta.nextCursor).not.toBeNull();
+  });
+
+  it('rejects a malformed cursor', async () => {
+    const { service } = createService();
+
+    await expect(
+      service.findAllPaginated({ cursor: 'not-a-cursor' }),
+    ).rejects.toThrow('Invalid cursor');
+  });
+});
@@ -1,18 +1,60 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { Readable } from 'stream';
 import { InjectRepository } from '@nestjs/typeorm';
 import { ActivityLogs } from 'src/entities/entities/ActivityLogs';
-import { Repository } from 'typeorm';
+import { IsNull, MoreThan, Repository } from 'typeorm';
 import { AuthUser } from 'src/common/interfaces/auth-user.interface';
-import { PaginationParams, PaginatedResult } from './interfaces';
+import {
+  ActivityLogEntry,
+  ChainVerificationReport,
+  ChainVerificationResult,
+  ExportParams,
+  PaginationParams,
+  PaginatedResult,
+} from './interfaces';
+import { computeLogHash } from './log-chain';
+import { EXPORT_COLUMNS } from './log-export';
+import { ActivityLogsArchiveService } from './activity-logs-archive.service';
 
 // Re-export for backward compatibility
 export { PaginationParams, PaginatedResult } from './interfaces';
 
+interface LogCursor {
+  createdAt: string;
+  id: number;
+}
+
+function encodeCursor(log: ActivityLogs): string {
+  const cursor: LogCursor = {
+    createdAt: (log.createdAt ?? new Date(0)).toISOString(),
+    id: log.id,
+  };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string): LogCursor {
+  try {
+    const cursor = JSON.parse(
+      Buffer.from(value, 'base64url').toString('utf8'),
+    ) as LogCursor;
+    if (
+      Number.isInteger(cursor.id) &&
+      !isNaN(new Date(cursor.createdAt).getTime())
+    ) {
+      return cursor;
+    }
+  } catch {
+    // fall through
+  }
+  throw new BadRequestException('Invalid cursor');
+}
+
 @Injectable()
 export class ActivityLogsService {
   constructor(
     @InjectRepository(ActivityLogs)
     private repo: Repository<ActivityLogs>,
+    private readonly archiveService: ActivityLogsArchiveService,
   ) {}
 
   async logForbiddenAccess(data: {
@@ -23,15 +65,163 @@ export class ActivityLogsService {
     api: string;
     method: string;
   }) {
-    const log = this.repo.create({
+    await this.logEvent({
       ...data,
       reason: 'FORBIDDEN',
     });
+  }
+
+  // Record a security-relevant event with an explicit reason code
+  // Rows are appended to the per-company hash chain; the advisory lock keeps
+  // concurrent writers of the same chain from forking it
+  async logEvent(entry: ActivityLogEntry) {
+    const companyId = entry.companyId ?? null;
+
+    await this.repo.manager.transaction(async (manager) => {
+      await manager.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+        `activity_logs:${companyId ?? 'system'}`,
+      ]);
+
+      const repo = manager.getRepository(ActivityLogs);
+      const last = await repo.findOne({
+        where: { companyId: companyId ?? IsNull() },
+        order: { id: 'DESC' },
+      });
+
+      const log = repo.create({
+        ...entry,
+        companyId,
+        createdAt: new Date(),
+      });
+      log.prevHash = last?.hash ?? null;
+      log.hash = computeLogHash(log, log.prevHash);
 
-    await this.repo.save(log);
+      await repo.save(log);
+    });
   }
 
-  // Get paginated logs with filters
+  /**
+   * Walk one company's chain (null for logs without a company) in id order
+   * and report the first row whose hash or link does not match.
+   * Gaps left by archived batches are bridged through the archive links.
+   * Deleting the newest rows cannot be detected from the chain alone.
+   */
+  async verifyChain(
+    companyId: number | null,
+    batchSize = 1000,
+  ): Promise<ChainVerificationResult> {
+    const result: ChainVerificationResult = {
+      companyId,
+      valid: true,
+      checked: 0,
+      legacy: 0,
+      brokenAt: null,
+    };
+
+    const archiveLinks = await this.archiveService.findChainLinks(companyId);
+
+    let prevHash: string | null = null;
+    let started = false;
+    let lastId = 0;
+
+    for (;;) {
+      const rows = await this.repo.find({
+        where: { companyId: companyId ?? IsNull(), id: MoreThan(lastId) },
+        order: { id: 'ASC' },
+        take: batchSize,
+      });
+      if (!rows.length) break;
+
+      for (const row of rows) {
+        lastId = row.id;
+
+        // Rows from before the chain was introduced
+        if (!started && !row.hash) {
+          result.legacy++;
+          continue;
+        }
+        started = true;
+
+        if (!row.hash) {
+          result.brokenAt = {
+            id: row.id,
+            reason: 'MISSING_HASH',
+            expected: null,
+            actual: null,
+          };
+        } else if (
+          row.prevHash !== prevHash &&
+          !this.bridgesArchives(archiveLinks, prevHash, row.prevHash)
+        ) {
+          result.brokenAt = {
+            id: row.id,
+            reason: 'PREV_HASH_MISMATCH',
+            expected: prevHash,
+            actual: row.prevHash,
+          };
+        } else {
+          const expected = computeLogHash(row, row.prevHash);
+          if (expected !== row.hash) {
+            result.brokenAt = {
+              id: row.id,
+              reason: 'HASH_MISMATCH',
+              expected,
+              actual: row.hash,
+            };
+          }
+        }
+
+        if (result.brokenAt) {
+          result.valid = false;
+          return result;
+        }
+
+        result.checked++;
+        prevHash = row.hash;
+      }
+    }
+
+    return result;
+  }
+
+  // Whether archived batches link `from` to `to` without a gap
+  private bridgesArchives(
+    links: Map<string | null, string>,
+    from: string | null,
+    to: string | null,
+  ): boolean {
+    let current = from;
+    for (let step = 0; step < links.size; step++) {
+      const next = links.get(current);
+      if (next === undefined) return false;
+      if (next === to) return true;
+      current = next;
+    }
+    return false;
+  }
+
+  // Verify every company chain, or just one when companyId is given
+  async verifyChains(companyId?: number): Promise<ChainVerificationReport> {
+    let companyIds: (number | null)[];
+    if (companyId) {
+      companyIds = [companyId];
+    } else {
+      const rows = await this.repo
+        .createQueryBuilder('log')
+        .select('DISTINCT log.companyId', 'companyId')
+        .getRawMany<{ companyId: number | null }>();
+      companyIds = rows.map((r) => r.companyId);
+    }
+
+    const chains: ChainVerificationResult[] = [];
+    for (const id of companyIds) {
+      chains.push(await this.verifyChain(id));
+    }
+
+    return { valid: chains.every((c) => c.valid), chains };
+  }
+
+  // Get paginated logs with filters; offset pages or keyset cursor
   async findAllPaginated(
     params: PaginationParams,
     companyId?: number,
@@ -54,6 +244,41 @@ export class ActivityLogsService {
       });
     }
 
+    // Filter audit records by action (e.g. 'user.update') or entity type
+    if (params.action) {
+      queryBuilder.andWhere('log.action = :action', { action: params.action });
+    }
+    if (params.entityType) {
+      queryBuilder.andWhere('log.entityType = :entityType', {
+        entityType: params.entityType,
+      });
+    }
+
+    // Date range: from inclusive, to exclusive
+    if (params.from) {
+      queryBuilder.andWhere('log.createdAt >= :from', { from: params.from });
+    }
+    if (params.to) {
+      queryBuilder.andWhere('log.createdAt < :to', { to: params.to });
+    }
+
+    if (params.userId) {
+      queryBuilder.andWhere('log.userId = :userId', { userId: params.userId });
+    }
+
+    // Reason codes are stored upper case ('FORBIDDEN', 'AUDIT', ...)
+    if (params.reason) {
+      queryBuilder.andWhere('log.reason = :reason', {
+        reason: params.reason.toUpperCase(),
+      });
+    }
+
+    if (params.ipAddress) {
+      queryBuilder.andWhere('log.ipAddress = :ipAddress', {
+        ipAddress: params.ipAddress,
+      });
+    }
+
     // Search in username, api, reason (case-insensitive)
     if (params.search) {
       queryBuilder.andWhere(
@@ -62,8 +287,30 @@ export class ActivityLogsService {
       );
     }
 
-    // Order by createdAt DESC
-    queryBuilder.orderBy('log.createdAt', 'DESC');
+    // Newest first; id breaks ties so the order is stable for cursors
+    queryBuilder.orderBy('log.createdAt', 'DESC').addOrderBy('log.id', 'DESC');
+
+    if (params.cursor) {
+      const cursor = decodeCursor(params.cursor);
+      // Compare against the stored timestamp (microsecond precision) and fall
+      // back to the encoded one if that row has been archived meanwhile
+      queryBuilder.andWhere(
+        `(log.createdAt, log.id) < (COALESCE((SELECT c."createdAt" FROM activity_logs c WHERE c.id = :cursorId), :cursorCreatedAt), :cursorId)`,
+        { cursorId: cursor.id, cursorCreatedAt: cursor.createdAt },
+      );
+
+      const rows = await queryBuilder.take(limit + 1).getMany();
+      const data = rows.slice(0, limit);
+
+      return {
+        data,
+        meta: {
+          limit,
+          nextCursor:
+            rows.length > limit ? encodeCursor(data[data.length - 1]) : null,
+        },
+      };
+    }
 
     // Get total count before pagination
     const total = await queryBuilder.getCount();
@@ -80,47 +327,102 @@ export class ActivityLogsService {
         page,
         limit,
         totalPages: Math.ceil(total / limit),
+        nextCursor:
+          skip + data.length < total && data.length
+            ? encodeCursor(data[data.length - 1])
+            : null,
       },
     };
   }
 
-  // Get logs by user
-  async findByUser(userId: number) {
-    return this.repo.find({
-      where: { userId },
-      order: { createdAt: 'DESC' },
-    });
-  }
-
-  // Get paginated logs with access control based on requester role
-  async findAllWithAccess(
+  // Get paginated logs of one user, scoped like findAllWithAccess
+  async findByUser(
     requester: AuthUser,
-    params: PaginationParams,
+    userId: number,
+    params: PaginationParams = {},
   ): Promise<PaginatedResult<ActivityLogs>> {
+    return this.findAllWithAccess(requester, { ...params, userId });
+  }
+
+  // Which logs the requester may read: undefined = all, a number = that
+  // company only, null = none
+  private resolveCompanyScope(requester: AuthUser): number | undefined | null {
     const roles = (requester.roles || []).map((r: string) =>
       String(r).toLowerCase().trim(),
     );
 
     // super_admin sees all logs
-    if (roles.includes('super_admin')) {
-      return this.findAllPaginated(params);
-    }
+    if (roles.includes('super_admin')) return undefined;
 
     // company_admin sees only their company's logs
-    if (roles.includes('company_admin')) {
-      if (!requester.companyId) {
-        return {
-          data: [],
-          meta: { total: 0, page: 1, limit: params.limit || 20, totalPages: 0 },
-        };
-      }
-      return this.findAllPaginated(params, requester.companyId);
-    }
+    if (roles.includes('company_admin')) return requester.companyId || null;
 
     // Others see no logs
-    return {
-      data: [],
-      meta: { total: 0, page: 1, limit: params.limit || 20, totalPages: 0 },
-    };
+    return null;
+  }
+
+  // Get paginated logs with access control based on requester role
+  async findAllWithAccess(
+    requester: AuthUser,
+    params: PaginationParams,
+  ): Promise<PaginatedResult<ActivityLogs>> {
+    const companyId = this.resolveCompanyScope(requester);
+    if (companyId === null) {
+      return {
+        data: [],
+        meta: {
+          total: 0,
+          page: 1,
+          limit: params.limit || 20,
+          totalPages: 0,
+          nextCursor: null,
+        },
+      };
+    }
+    return this.findAllPaginated(params, companyId);
+  }
+
+  /**
+   * Open a row stream for exporting the logs visible to the requester.
+   * Rows come straight from a database cursor, so memory use stays flat
+   * regardless of the range. The connection is released when the stream
+   * closes (end, error or client abort).
+   */
+  async streamForExport(
+    requester: AuthUser,
+    params: ExportParams,
+  ): Promise<Readable> {
+    const companyId = this.resolveCompanyScope(requester);
+    if (companyId === null) return Readable.from([]);
+
+    const queryRunner = this.repo.manager.connection.createQueryRunner();
+    try {
+      const queryBuilder = this.repo
+        .createQueryBuilder('log', queryRunner)
+        .select([])
+        .orderBy('log.createdAt', 'ASC')
+        .addOrderBy('log.id', 'ASC');
+      // Alias every column by its property name so rows are export-ready
+      for (const column of EXPORT_COLUMNS) {
+        queryBuilder.addSelect(`log.${column}`, column);
+      }
+
+      if (companyId) {
+        queryBuilder.andWhere('log.companyId = :companyId', { companyId });
+      }
+      if (params.from) {
+        queryBuilder.andWhere('log.createdAt >= :from', { from: params.from });
+      }
+      if (params.to) {
+        queryBuilder.andWhere('log.createdAt < :to', { to: params.to });
+      }
+
+      const stream = await queryBuilder.stream();
+      stream.once('close', () => void queryRunner.release());
+      return stream;
+    } catch (error) {
+      await queryRunner.release();
+      throw error;
+    }
   }
 }
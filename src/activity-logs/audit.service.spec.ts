@@ -0,0 +1,84 @@
+import { AuditService } from './audit.service';
+import { ActivityLogsService } from './activity-logs.service';
+import { AuthUser } from '../common/interfaces/auth-user.interface';
+
+describe('AuditService', () => {
+  const actor: AuthUser = {
+    id: 1,
+    sub: 1,
+    email: 'admin@test.com',
+    companyId: 3,
+    roles: ['company_admin'],
+  };
+
+  const createService = (logEvent = jest.fn()) => {
+    const activityLogsService = {
+      logEvent,
+    } as unknown as ActivityLogsService;
+    return { service: new AuditService(activityLogsService), logEvent };
+  };
+
+  it('records only the changed fields', async () => {
+    const { service, logEvent } = createService();
+
+    await service.record(
+      actor,
+      'user.update',
+      'user',
+      5,
+      { id: 5, email: 'old@test.com', firstname: 'Ann' },
+      { id: 5, email: 'new@test.com', firstname: 'Ann' },
+      { ipAddress: '10.0.0.1', method: 'PUT', api: '/users/update/5' },
+    );
+
+    expect(logEvent).toHaveBeenCalledWith({
+      userId: 1,
+      username: 'admin@test.com',
+      companyId: 3,
+      ipAddress: '10.0.0.1',
+      api: '/users/update/5',
+      method: 'PUT',
+      reason: 'AUDIT',
+      action: 'user.update',
+      entityType: 'user',
+      entityId: '5',
+      changes: { email: { from: 'old@test.com', to: 'new@test.com' } },
+    });
+  });
+
+  it('compares relations by id and redacts secrets', () => {
+    const { service } = createService();
+
+    const changes = service.diff(
+      { department: { id: 1, name: 'Sales' }, password: 'a' },
+      { department: { id: 2, name: 'Ops' }, password: 'b' },
+    );
+
+    expect(changes).toEqual({
+      department: { from: 1, to: 2 },
+      password: { from: '[REDACTED]', to: '[REDACTED]' },
+    });
+  });
+
+  it('uses the entity company over the actor company', async () => {
+    const { service, logEvent } = createService();
+
+    await service.record(actor, 'company.delete', 'company', 7, {}, null, {
+      companyId: 7,
+    });
+
+    expect(logEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ companyId: 7 }),
+    );
+  });
+
+  it('never throws when the log cannot be written', async () => {
+    const { service } = createService(
+      jest.fn().mockRejectedValue(new Error('db down')),
+    );
+
+    await expect(
+      service.record(actor, 'user.delete', 'user', 5, {}, null),
+    ).resolves.toBeUndefined();
+  });
+});
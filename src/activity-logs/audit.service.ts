@@ -0,0 +1,83 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ActivityLogsService } from './activity-logs.service';
+import { AuthUser } from 'src/common/interfaces/auth-user.interface';
+import { AuditChanges, AuditContext } from './interfaces';
+
+// Values of these fields never end up in the audit trail
+const REDACTED_FIELDS = /password|secret|recovery|token/i;
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(private readonly activityLogsService: ActivityLogsService) {}
+
+  /**
+   * Record a successful mutating action together with a field-level diff.
+   * Pass `before` as null for creates and `after` as null for deletes.
+   * Failures are logged and swallowed so auditing never breaks the action.
+   */
+  async record(
+    actor: AuthUser | null | undefined,
+    action: string,
+    entityType: string,
+    entityId: number | string | null,
+    before: object | null,
+    after: object | null,
+    ctx?: AuditContext,
+  ): Promise<void> {
+    try {
+      const companyId = ctx?.companyId ?? actor?.companyId;
+      await this.activityLogsService.logEvent({
+        userId: actor?.id,
+        username: actor?.email,
+        companyId: companyId ?? undefined,
+        ipAddress: ctx?.ipAddress || '',
+        api: ctx?.api || '',
+        method: ctx?.method || '',
+        reason: 'AUDIT',
+        action,
+        entityType,
+        entityId: entityId === null ? undefined : String(entityId),
+        changes: this.diff(before, after),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to record audit event ${action} for ${entityType}:${entityId}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+
+  /**
+   * Shallow diff of two snapshots. Relations are compared by id.
+   */
+  diff(before: object | null, after: object | null): AuditChanges {
+    const prev = (before ?? {}) as Record<string, unknown>;
+    const next = (after ?? {}) as Record<string, unknown>;
+    const changes: AuditChanges = {};
+
+    for (const key of new Set([...Object.keys(prev), ...Object.keys(next)])) {
+      const from = this.normalize(prev[key]);
+      const to = this.normalize(next[key]);
+      if (JSON.stringify(from) === JSON.stringify(to)) continue;
+
+      changes[key] = REDACTED_FIELDS.test(key)
+        ? { from: '[REDACTED]', to: '[REDACTED]' }
+        : { from, to };
+    }
+
+    return changes;
+  }
+
+  private normalize(value: unknown): unknown {
+    if (value === undefined || value === null) return null;
+    if (value instanceof Date) return value.toISOString();
+    if (Array.isArray(value)) return value.map((v) => this.normalize(v));
+    if (typeof value === 'object') {
+      const id = (value as { id?: unknown }).id;
+      return id !== undefined ? id : value;
+    }
+    return value;
+  }
+}
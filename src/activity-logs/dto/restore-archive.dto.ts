@@ -0,0 +1,21 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsInt, IsOptional } from 'class-validator';
+
+export class RestoreArchiveDto {
+  @ApiProperty({ example: '2025-01-01T00:00:00.000Z' })
+  @IsDateString()
+  from: string;
+
+  @ApiProperty({ example: '2025-04-01T00:00:00.000Z' })
+  @IsDateString()
+  to: string;
+
+  @ApiPropertyOptional({
+    example: 1,
+    description:
+      'Company chain to restore (super_admin only; omit for logs without a company)',
+  })
+  @IsOptional()
+  @IsInt()
+  companyId?: number;
+}
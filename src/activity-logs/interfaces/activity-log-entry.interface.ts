@@ -0,0 +1,15 @@
+import { AuditChanges } from './audit.interface';
+
+export interface ActivityLogEntry {
+  userId?: number;
+  username?: string;
+  companyId?: number;
+  ipAddress: string;
+  api: string;
+  method: string;
+  reason: string;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  changes?: AuditChanges;
+}
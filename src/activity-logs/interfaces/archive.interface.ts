@@ -0,0 +1,20 @@
+export interface ActivityLogArchiveSummary {
+  id: number;
+  companyId: number | null;
+  firstLogId: number;
+  lastLogId: number;
+  fromDate: Date;
+  toDate: Date;
+  rowCount: number;
+  createdAt: Date | null;
+  restoredAt: Date | null;
+  restoredUntil: Date | null;
+}
+
+export interface ArchiveRestoreResult {
+  // Archive batches overlapping the requested range
+  archives: number;
+  // Rows copied back into activity_logs by this call
+  rows: number;
+  restoredUntil: Date | null;
+}
@@ -0,0 +1,14 @@
+import { RequestContext } from '../../common/interfaces/request-context.interface';
+
+export interface AuditChange {
+  from: unknown;
+  to: unknown;
+}
+
+// Field name -> value before and after the change
+export type AuditChanges = Record<string, AuditChange>;
+
+export interface AuditContext extends RequestContext {
+  // Company the audited entity belongs to (defaults to the actor's company)
+  companyId?: number | null;
+}
@@ -0,0 +1,26 @@
+export type ChainBreakReason =
+  | 'HASH_MISMATCH'
+  | 'PREV_HASH_MISMATCH'
+  | 'MISSING_HASH';
+
+export interface ChainBreak {
+  id: number;
+  reason: ChainBreakReason;
+  expected: string | null;
+  actual: string | null;
+}
+
+export interface ChainVerificationResult {
+  companyId: number | null;
+  valid: boolean;
+  // Rows whose hash was checked
+  checked: number;
+  // Rows written before hashing was introduced
+  legacy: number;
+  brokenAt: ChainBreak | null;
+}
+
+export interface ChainVerificationReport {
+  valid: boolean;
+  chains: ChainVerificationResult[];
+}
@@ -1 +1,6 @@
 export * from './pagination.interface';
+export * from './activity-log-entry.interface';
+export * from './audit.interface';
+export * from './chain-verification.interface';
+export * from './archive.interface';
+export * from './security-stats.interface';
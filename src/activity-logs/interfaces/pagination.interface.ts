@@ -1,18 +1,38 @@
 export interface PaginationParams {
   page?: number;
   limit?: number;
+  // Opaque keyset cursor from a previous page's meta.nextCursor; when set,
+  // page is ignored and no total is computed
+  cursor?: string;
   method?: string;
   search?: string;
+  action?: string;
+  entityType?: string;
+  from?: Date;
+  to?: Date;
+  userId?: number;
+  reason?: string;
+  ipAddress?: string;
 }
 
 export interface PaginationMeta {
-  total: number;
-  page: number;
+  // Offset mode only
+  total?: number;
+  page?: number;
+  totalPages?: number;
   limit: number;
-  totalPages: number;
+  // Position after the last row of this page, null on the last page
+  nextCursor: string | null;
 }
 
 export interface PaginatedResult<T> {
   data: T[];
   meta: PaginationMeta;
 }
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+export interface ExportParams {
+  from?: Date;
+  to?: Date;
+}
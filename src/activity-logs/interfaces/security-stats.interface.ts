@@ -0,0 +1,65 @@
+export type StatsBucket = 'hour' | 'day';
+
+export interface SecurityStatsParams {
+  from: Date;
+  to: Date;
+  bucket: StatsBucket;
+  // super_admin only; company_admin is always scoped to their company
+  companyId?: number;
+  // Number of entries kept per grouping
+  top: number;
+}
+
+export interface UserAttemptCount {
+  userId: number | null;
+  username: string | null;
+  count: number;
+}
+
+export interface IpAttemptCount {
+  ipAddress: string;
+  count: number;
+}
+
+export interface ApiAttemptCount {
+  api: string;
+  method: string;
+  count: number;
+}
+
+export interface TimelineBucket {
+  bucket: Date;
+  count: number;
+}
+
+export interface SecurityOffender {
+  userId: number | null;
+  username: string | null;
+  ipAddress: string;
+  count: number;
+  // Distinct API paths hit by this user/IP pair
+  apis: number;
+  lastSeen: Date;
+}
+
+export interface SpikeInfo {
+  detected: boolean;
+  // Attempts in the most recent bucket of the window
+  latest: number;
+  // Average attempts of the preceding buckets
+  baseline: number;
+}
+
+export interface SecurityStats {
+  companyId: number | null;
+  from: Date;
+  to: Date;
+  bucket: StatsBucket;
+  total: number;
+  byUser: UserAttemptCount[];
+  byIp: IpAttemptCount[];
+  byApi: ApiAttemptCount[];
+  timeline: TimelineBucket[];
+  topOffenders: SecurityOffender[];
+  spike: SpikeInfo;
+}
@@ -0,0 +1,37 @@
+import { canonicalJson, computeLogHash, ChainedLogContent } from './log-chain';
+
+describe('log chain', () => {
+  const content: ChainedLogContent = {
+    userId: 1,
+    username: 'admin@test.com',
+    companyId: 3,
+    ipAddress: '10.0.0.1',
+    api: '/users/update/5',
+    method: 'PUT',
+    reason: 'AUDIT',
+    action: 'user.update',
+    entityType: 'user',
+    entityId: '5',
+    changes: { email: { from: 'a@test.com', to: 'b@test.com' } },
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  };
+
+  it('canonical JSON ignores key order', () => {
+    expect(canonicalJson({ b: 1, a: { d: 2, c: [3] } })).toBe(
+      canonicalJson({ a: { c: [3], d: 2 }, b: 1 }),
+    );
+  });
+
+  it('treats missing and null fields alike', () => {
+    expect(canonicalJson({ a: undefined })).toBe(canonicalJson({ a: null }));
+  });
+
+  it('hash depends on the content and the previous link', () => {
+    const hash = computeLogHash(content, null);
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(computeLogHash({ ...content }, null)).toBe(hash);
+    expect(computeLogHash({ ...content, api: '/other' }, null)).not.toBe(hash);
+    expect(computeLogHash(content, 'f'.repeat(64))).not.toBe(hash);
+  });
+});
@@ -0,0 +1,63 @@
+import * as crypto from 'crypto';
+import { ActivityLogs } from 'src/entities/entities/ActivityLogs';
+
+// Fields covered by the hash; id is excluded because it is assigned on insert
+export type ChainedLogContent = Pick<
+  ActivityLogs,
+  | 'userId'
+  | 'username'
+  | 'companyId'
+  | 'ipAddress'
+  | 'api'
+  | 'method'
+  | 'reason'
+  | 'action'
+  | 'entityType'
+  | 'entityId'
+  | 'changes'
+  | 'createdAt'
+>;
+
+// JSON with sorted object keys, so jsonb round-trips hash the same
+export function canonicalJson(value: unknown): string {
+  if (value === undefined || value === null) return 'null';
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => canonicalJson(v)).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`,
+      );
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * sha256 over the previous link and the row content
+ */
+export function computeLogHash(
+  content: ChainedLogContent,
+  prevHash: string | null,
+): string {
+  const payload = canonicalJson({
+    prevHash,
+    userId: content.userId,
+    username: content.username,
+    companyId: content.companyId,
+    ipAddress: content.ipAddress,
+    api: content.api,
+    method: content.method,
+    reason: content.reason,
+    action: content.action,
+    entityType: content.entityType,
+    entityId: content.entityId,
+    changes: content.changes,
+    createdAt: content.createdAt,
+  });
+  return crypto.createHash('sha256').update(payload).digest('hex');
+}
@@ -0,0 +1,71 @@
+import { Readable } from 'stream';
+import {
+  createExportTransform,
+  EXPORT_COLUMNS,
+  toCsvLine,
+  toNdjsonLine,
+} from './log-export';
+
+describe('log export', () => {
+  const row = {
+    id: 7,
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    companyId: 3,
+    userId: 1,
+    username: 'admin@test.com',
+    ipAddress: '10.0.0.1',
+    method: 'PUT',
+    api: '/users/update/5',
+    reason: 'AUDIT',
+    action: 'user.update',
+    entityType: 'user',
+    entityId: '5',
+    changes: { firstname: { from: 'Ann', to: 'Anne, "Jr"' } },
+    prevHash: null,
+    hash: 'abc',
+  };
+
+  const collect = async (format: 'csv' | 'ndjson', rows: object[]) => {
+    let output = '';
+    const transform = createExportTransform(format);
+    transform.on('data', (chunk: Buffer) => (output += chunk.toString()));
+    await new Promise<void>((resolve, reject) => {
+      Readable.from(rows)
+        .pipe(transform)
+        .on('end', resolve)
+        .on('error', reject);
+    });
+    return output;
+  };
+
+  it('quotes CSV cells with separators and serializes JSON', () => {
+    expect(toCsvLine(row)).toBe(
+      '7,2026-01-01T00:00:00.000Z,3,1,admin@test.com,10.0.0.1,PUT,/users/update/5,AUDIT,user.update,user,5,' +
+        '"{""firstname"":{""from"":""Ann"",""to"":""Anne, \\""Jr\\""""}}",,abc\r\n',
+    );
+  });
+
+  it('neutralizes spreadsheet formulas', () => {
+    expect(toCsvLine({ username: '=HYPERLINK("x")' })).toContain(
+      `"'=HYPERLINK(""x"")"`,
+    );
+  });
+
+  it('writes one JSON object per NDJSON line', () => {
+    const parsed = JSON.parse(toNdjsonLine(row)) as Record<string, unknown>;
+    expect(Object.keys(parsed)).toEqual([...EXPORT_COLUMNS]);
+    expect(parsed.createdAt).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('streams a header followed by the rows', async () => {
+    const output = await collect('csv', [row, { ...row, id: 8 }]);
+    const lines = output.split('\r\n').filter(Boolean);
+
+    expect(lines[0]).toBe(EXPORT_COLUMNS.join(','));
+    expect(lines).toHaveLength(3);
+  });
+
+  it('emits only the header for an empty CSV export', async () => {
+    expect(await collect('csv', [])).toBe(`${EXPORT_COLUMNS.join(',')}\r\n`);
+  });
+});
@@ -0,0 +1,89 @@
+import { Transform } from 'stream';
+import { ActivityLogs } from 'src/entities/entities/ActivityLogs';
+import { ExportFormat } from './interfaces';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'ndjson'];
+
+export const EXPORT_COLUMNS = [
+  'id',
+  'createdAt',
+  'companyId',
+  'userId',
+  'username',
+  'ipAddress',
+  'method',
+  'api',
+  'reason',
+  'action',
+  'entityType',
+  'entityId',
+  'changes',
+  'prevHash',
+  'hash',
+] as const satisfies readonly (keyof ActivityLogs)[];
+
+export type ExportRow = Partial<
+  Record<(typeof EXPORT_COLUMNS)[number], unknown>
+>;
+
+function toPlainValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+function toCsvCell(value: unknown): string {
+  const plain = toPlainValue(value);
+  if (plain === null) return '';
+  let text =
+    typeof plain === 'object'
+      ? JSON.stringify(plain)
+      : String(plain as string | number | boolean);
+  // Keep spreadsheet apps from evaluating user-controlled values as formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvLine(row: ExportRow): string {
+  return `${EXPORT_COLUMNS.map((column) => toCsvCell(row[column])).join(',')}\r\n`;
+}
+
+export function toNdjsonLine(row: ExportRow): string {
+  const record: Record<string, unknown> = {};
+  for (const column of EXPORT_COLUMNS) {
+    record[column] = toPlainValue(row[column]);
+  }
+  return `${JSON.stringify(record)}\n`;
+}
+
+/**
+ * Object-mode rows in, formatted text out. CSV output starts with a header.
+ */
+export function createExportTransform(format: ExportFormat): Transform {
+  let headerWritten = false;
+
+  return new Transform({
+    writableObjectMode: true,
+    transform(row: ExportRow, _encoding, callback) {
+      try {
+        if (format === 'ndjson') {
+          callback(null, toNdjsonLine(row));
+          return;
+        }
+        const header = headerWritten ? '' : `${EXPORT_COLUMNS.join(',')}\r\n`;
+        headerWritten = true;
+        callback(null, header + toCsvLine(row));
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+    flush(callback) {
+      // An empty CSV still gets its header
+      if (format === 'csv' && !headerWritten) {
+        callback(null, `${EXPORT_COLUMNS.join(',')}\r\n`);
+        return;
+      }
+      callback();
+    },
+  });
+}
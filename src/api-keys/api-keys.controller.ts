@@ -0,0 +1,95 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import type { RequestWithUser } from '../common/interfaces/request-with-user.interface';
+import { ApiResponse } from '../common/utils/api-response';
+import { BlockImpersonation } from '../common/decorators/block-impersonation.decorator';
+import { ImpersonationGuard } from '../common/guards/impersonation.guard';
+import { RequireVerifiedEmail } from '../common/decorators/require-verified-email.decorator';
+import { VerifiedEmailGuard } from '../common/guards/verified-email.guard';
+
+/**
+ * Controller for managing API keys used for machine-to-machine access.
+ *
+ * Keys are sent in the `X-API-Key` header. These routes only accept a
+ * session JWT, so a leaked key cannot mint or revoke keys, are closed
+ * to impersonated sessions and need a verified email address.
+ */
+@UseGuards(AuthGuard('jwt'), ImpersonationGuard, VerifiedEmailGuard)
+@BlockImpersonation()
+@RequireVerifiedEmail()
+@ApiTags('api-keys')
+@ApiBearerAuth('JWT')
+@Controller('api-keys')
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  /**
+   * Create a personal or company API key.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param body - Key name, owner, optional scopes, roles and expiry.
+   * @returns API response with the key; the full value is only shown once.
+   */
+  @Post('create')
+  async create(@Req() req: RequestWithUser, @Body() body: CreateApiKeyDto) {
+    const data = await this.apiKeysService.create(req.user, body, {
+      ipAddress: req.ip,
+      method: req.method,
+      api: req.originalUrl,
+    });
+    return ApiResponse.success('API key created successfully', 201, data);
+  }
+
+  /**
+   * List the active API keys visible to the current user.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param companyId - Optional company filter (super_admin only).
+   * @returns API response with the keys (without secrets).
+   */
+  @Get('getAll')
+  async findAll(
+    @Req() req: RequestWithUser,
+    @Query('companyId') companyId?: string,
+  ) {
+    const data = await this.apiKeysService.findAll(
+      req.user,
+      companyId ? +companyId : undefined,
+    );
+    return ApiResponse.success('API keys retrieved successfully', 200, data);
+  }
+
+  /**
+   * Revoke an API key; it stops working immediately.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param id - API key identifier.
+   * @returns Standard API success response.
+   */
+  @Delete('revoke/:id')
+  async revoke(
+    @Req() req: RequestWithUser,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    await this.apiKeysService.revoke(req.user, id, {
+      ipAddress: req.ip,
+      method: req.method,
+      api: req.originalUrl,
+    });
+    return ApiResponse.success('API key revoked successfully', 200);
+  }
+}
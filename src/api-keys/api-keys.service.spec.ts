@@ -0,0 +1,136 @@
+import { Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeys } from '../entities/entities/ApiKeys';
+import { AuditService } from '../activity-logs/audit.service';
+import { AuthUser } from '../common/interfaces/auth-user.interface';
+
+describe('ApiKeysService', () => {
+  const companyAdmin: AuthUser = {
+    id: 1,
+    sub: 1,
+    email: 'admin@test.com',
+    companyId: 3,
+    roles: ['company_admin'],
+    permissions: ['users.update', 'users.status'],
+  };
+  const member: AuthUser = {
+    id: 2,
+    sub: 2,
+    email: 'user@test.com',
+    companyId: 3,
+    roles: ['user'],
+    permissions: [],
+  };
+
+  const createService = (stored: Partial<ApiKeys> | null = null) => {
+    const repo = {
+      create: jest.fn((data: Partial<ApiKeys>) => data),
+      save: jest.fn((data: Partial<ApiKeys>) =>
+        Promise.resolve({ id: 10, ...data }),
+      ),
+      find: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn().mockResolvedValue(stored),
+      update: jest.fn(),
+    };
+    const auditService = { record: jest.fn() };
+    return {
+      service: new ApiKeysService(
+        repo as unknown as Repository<ApiKeys>,
+        auditService as unknown as AuditService,
+      ),
+      repo,
+      auditService,
+    };
+  };
+
+  const hash = (key: string) =>
+    crypto.createHash('sha256').update(key).digest('hex');
+
+  it('returns the key once and stores only its hash', async () => {
+    const { service, repo, auditService } = createService();
+
+    const created = await service.create(companyAdmin, {
+      name: 'sync',
+      scopes: ['users.update'],
+      roles: ['company_admin'],
+    });
+
+    expect(created.key).toMatch(/^ak_[0-9a-f]{12}\.[\w-]+$/);
+    expect(created.prefix).toBe(created.key.split('.')[0]);
+    expect(repo.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        keyHash: hash(created.key),
+        userId: 1,
+        companyId: 3,
+      }),
+    );
+    expect(JSON.stringify(auditService.record.mock.calls)).not.toContain(
+      created.key,
+    );
+  });
+
+  it('cannot grant scopes or roles the creator lacks', async () => {
+    const { service } = createService();
+
+    await expect(
+      service.create(companyAdmin, { name: 'x', scopes: ['roles.manage'] }),
+    ).rejects.toThrow('Cannot grant permissions you do not have: roles.manage');
+    await expect(
+      service.create(companyAdmin, { name: 'x', roles: ['super_admin'] }),
+    ).rejects.toThrow('Cannot grant roles you do not have: super_admin');
+  });
+
+  it('only lets company admins create company keys with roles', async () => {
+    const { service } = createService();
+
+    await expect(
+      service.create(member, { name: 'x', owner: 'company', roles: ['user'] }),
+    ).rejects.toThrow('Only company admins can create company API keys');
+    await expect(
+      service.create(companyAdmin, { name: 'x', owner: 'company' }),
+    ).rejects.toThrow('Company API keys must specify roles');
+  });
+
+  it('authenticates a valid key and records its use', async () => {
+    const key = 'ak_0123456789ab.secret';
+    const { service, repo } = createService({
+      id: 4,
+      prefix: 'ak_0123456789ab',
+      keyHash: hash(key),
+      expiresAt: null,
+      lastUsedAt: null,
+    });
+
+    await expect(service.authenticate(key, '10.0.0.1')).resolves.toEqual(
+      expect.objectContaining({ id: 4 }),
+    );
+    expect(repo.update).toHaveBeenCalledWith(4, {
+      lastUsedAt: expect.any(Date),
+      lastUsedIp: '10.0.0.1',
+    });
+  });
+
+  it('rejects wrong secrets and expired keys', async () => {
+    const key = 'ak_0123456789ab.secret';
+    const { service } = createService({
+      id: 4,
+      prefix: 'ak_0123456789ab',
+      keyHash: hash(key),
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    await expect(
+      service.authenticate('ak_0123456789ab.other'),
+    ).resolves.toBeNull();
+    await expect(service.authenticate(key)).resolves.toBeNull();
+  });
+
+  it('does not let a member revoke keys of others', async () => {
+    const { service } = createService({ id: 4, userId: 1, companyId: 3 });
+
+    await expect(service.revoke(member, 4)).rejects.toThrow(
+      'Not allowed to revoke this API key',
+    );
+  });
+});
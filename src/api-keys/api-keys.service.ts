@@ -0,0 +1,269 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, IsNull, Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { ApiKeys } from '../entities/entities/ApiKeys';
+import { AuditService } from '../activity-logs/audit.service';
+import { AuthUser } from '../common/interfaces/auth-user.interface';
+import { RequestContext } from '../common/interfaces/request-context.interface';
+import { normalizeRoleSlug } from '../common/utils/roles';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { ApiKeySummary, CreatedApiKey } from './interfaces';
+
+// Keys look like `ak_<12 hex>.<secret>`; the part before the dot is stored
+// in clear as the lookup prefix
+const KEY_PREFIX = 'ak_';
+
+// last_used_at is only written when older than this, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+@Injectable()
+export class ApiKeysService {
+  constructor(
+    @InjectRepository(ApiKeys)
+    private readonly apiKeysRepo: Repository<ApiKeys>,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * Hash API key for secure storage (only the hash is persisted)
+   */
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  private isSuperAdmin(requester: AuthUser): boolean {
+    return (requester.roles || [])
+      .map((r) => normalizeRoleSlug(r))
+      .includes('super_admin');
+  }
+
+  private isCompanyAdmin(requester: AuthUser): boolean {
+    return (requester.roles || [])
+      .map((r) => normalizeRoleSlug(r))
+      .includes('company_admin');
+  }
+
+  private toSummary(apiKey: ApiKeys): ApiKeySummary {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      owner: apiKey.userId ? 'user' : 'company',
+      userId: apiKey.userId,
+      companyId: apiKey.companyId,
+      createdBy: apiKey.createdBy,
+      scopes: apiKey.scopes,
+      roles: apiKey.roles,
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      lastUsedIp: apiKey.lastUsedIp,
+      createdAt: apiKey.createdAt,
+    };
+  }
+
+  /**
+   * Create a personal or company key. Keys can only narrow what the creator
+   * may do: scopes and roles must be held by the creator. The full key is
+   * returned once and only its hash is stored.
+   */
+  async create(
+    requester: AuthUser,
+    dto: CreateApiKeyDto,
+    ctx?: RequestContext,
+  ): Promise<CreatedApiKey> {
+    const owner = dto.owner ?? 'user';
+    const roles = dto.roles?.map((r) => normalizeRoleSlug(r)) ?? null;
+    const scopes = dto.scopes ?? null;
+
+    if (owner === 'company') {
+      if (!this.isSuperAdmin(requester) && !this.isCompanyAdmin(requester)) {
+        throw new ForbiddenException(
+          'Only company admins can create company API keys',
+        );
+      }
+      if (!requester.companyId) {
+        throw new BadRequestException('Company API keys require a company');
+      }
+      if (!roles?.length) {
+        throw new BadRequestException('Company API keys must specify roles');
+      }
+      if (roles.includes('super_admin')) {
+        throw new BadRequestException(
+          'Company API keys cannot carry the super_admin role',
+        );
+      }
+    }
+
+    const held = (requester.roles || []).map((r) => normalizeRoleSlug(r));
+    const missingRoles = (roles ?? []).filter((r) => !held.includes(r));
+    if (missingRoles.length) {
+      throw new ForbiddenException(
+        `Cannot grant roles you do not have: ${missingRoles.join(', ')}`,
+      );
+    }
+
+    if (scopes) {
+      // super_admin bypasses permission checks, which would ignore the scopes
+      if ((roles ?? held).includes('super_admin')) {
+        throw new BadRequestException(
+          'Scoped API keys must also restrict roles to exclude super_admin',
+        );
+      }
+      const granted = requester.permissions || [];
+      const missing = scopes.filter((p) => !granted.includes(p));
+      if (missing.length) {
+        throw new ForbiddenException(
+          `Cannot grant permissions you do not have: ${missing.join(', ')}`,
+        );
+      }
+    }
+
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    const prefix = `${KEY_PREFIX}${crypto.randomBytes(6).toString('hex')}`;
+    const key = `${prefix}.${crypto.randomBytes(32).toString('base64url')}`;
+
+    const apiKey = await this.apiKeysRepo.save(
+      this.apiKeysRepo.create({
+        name: dto.name,
+        prefix,
+        keyHash: this.hashKey(key),
+        userId: owner === 'user' ? requester.id : null,
+        companyId: requester.companyId ?? null,
+        createdBy: requester.id,
+        scopes,
+        roles,
+        expiresAt,
+      }),
+    );
+
+    const summary = this.toSummary(apiKey);
+    await this.auditService.record(
+      requester,
+      'api_key.create',
+      'api_key',
+      apiKey.id,
+      null,
+      summary,
+      { ...ctx, companyId: apiKey.companyId ?? undefined },
+    );
+
+    return { ...summary, key };
+  }
+
+  /**
+   * Active keys visible to the requester: their own personal keys, plus the
+   * company keys of their company for company admins. super_admin sees all.
+   */
+  async findAll(
+    requester: AuthUser,
+    companyId?: number,
+  ): Promise<ApiKeySummary[]> {
+    let where: FindOptionsWhere<ApiKeys>[];
+    if (this.isSuperAdmin(requester)) {
+      where = [{ revokedAt: IsNull(), ...(companyId ? { companyId } : {}) }];
+    } else {
+      where = [{ userId: requester.id, revokedAt: IsNull() }];
+      if (this.isCompanyAdmin(requester) && requester.companyId) {
+        where.push({
+          userId: IsNull(),
+          companyId: requester.companyId,
+          revokedAt: IsNull(),
+        });
+      }
+    }
+
+    const keys = await this.apiKeysRepo.find({
+      where,
+      order: { createdAt: 'DESC' },
+    });
+    return keys.map((k) => this.toSummary(k));
+  }
+
+  /**
+   * Revoke a key. Owners revoke their own keys; company admins any key of
+   * their company; super_admin any key.
+   */
+  async revoke(
+    requester: AuthUser,
+    id: number,
+    ctx?: RequestContext,
+  ): Promise<void> {
+    const apiKey = await this.apiKeysRepo.findOne({
+      where: { id, revokedAt: IsNull() },
+    });
+    if (!apiKey) throw new NotFoundException('API key not found');
+
+    const allowed =
+      this.isSuperAdmin(requester) ||
+      apiKey.userId === requester.id ||
+      (this.isCompanyAdmin(requester) &&
+        !!requester.companyId &&
+        apiKey.companyId === requester.companyId);
+    if (!allowed) {
+      throw new ForbiddenException('Not allowed to revoke this API key');
+    }
+
+    await this.apiKeysRepo.update(apiKey.id, { revokedAt: new Date() });
+
+    await this.auditService.record(
+      requester,
+      'api_key.revoke',
+      'api_key',
+      apiKey.id,
+      this.toSummary(apiKey),
+      null,
+      { ...ctx, companyId: apiKey.companyId ?? undefined },
+    );
+  }
+
+  /**
+   * Look up an active key from its full value and record its use.
+   * Returns null for unknown, revoked or expired keys.
+   */
+  async authenticate(key: string, ipAddress?: string): Promise<ApiKeys | null> {
+    const prefix = key.split('.')[0];
+    if (!prefix.startsWith(KEY_PREFIX) || prefix === key) return null;
+
+    const apiKey = await this.apiKeysRepo.findOne({
+      where: { prefix, revokedAt: IsNull() },
+    });
+    if (!apiKey) return null;
+
+    const expected = Buffer.from(apiKey.keyHash, 'hex');
+    const actual = Buffer.from(this.hashKey(key), 'hex');
+    if (
+      expected.length !== actual.length ||
+      !crypto.timingSafeEqual(expected, actual)
+    ) {
+      return null;
+    }
+
+    if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+
+    const now = new Date();
+    if (
+      !apiKey.lastUsedAt ||
+      now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS ||
+      apiKey.lastUsedIp !== (ipAddress ?? null)
+    ) {
+      await this.apiKeysRepo.update(apiKey.id, {
+        lastUsedAt: now,
+        lastUsedIp: ipAddress ?? null,
+      });
+    }
+
+    return apiKey;
+  }
+}
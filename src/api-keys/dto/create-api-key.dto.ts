@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayUnique,
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateApiKeyDto {
+  @ApiProperty({ example: 'Nightly HR sync' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    example: 'user',
+    description:
+      'user: personal key; company: shared key of your company (company_admin only)',
+  })
+  @IsOptional()
+  @IsIn(['user', 'company'])
+  owner?: 'user' | 'company';
+
+  @ApiPropertyOptional({
+    example: ['users.update'],
+    description: 'Permissions the key is limited to; defaults to all of yours',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  scopes?: string[];
+
+  @ApiPropertyOptional({
+    example: ['manager'],
+    description:
+      'Roles the key is limited to; required for company keys, defaults to all of yours',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  roles?: string[];
+
+  @ApiPropertyOptional({ example: '2026-12-31T00:00:00.000Z' })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
@@ -0,0 +1,20 @@
+export interface ApiKeySummary {
+  id: number;
+  name: string;
+  prefix: string;
+  owner: 'user' | 'company';
+  userId: number | null;
+  companyId: number | null;
+  createdBy: number | null;
+  scopes: string[] | null;
+  roles: string[] | null;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  createdAt: Date | null;
+}
+
+export interface CreatedApiKey extends ApiKeySummary {
+  // Full key; only returned once, at creation
+  key: string;
+}
@@ -8,6 +8,7 @@ import { ServeStaticModule } from '@nestjs/serve-static';
 import { UserModule } from './users/users.module';
 import { AuthModule } from './auth/auth.module';
 import { RolesModule } from './roles/roles.module';
+import { PermissionsModule } from './permissions/permissions.module';
 import { CompaniesModule } from './companies/companies.module';
 import { DepartmentsModule } from './departments/departments.module';
 // import { PassportModule } from '@nestjs/passport';
@@ -22,6 +23,7 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { RedisModule } from './redis/redis.module';
 import { NotificationsModule } from './notifications/notifications.module';
 import { SessionsModule } from './sessions/sessions.module';
+import { MailModule } from './mail/mail.module';
 // import { WalModule } from './wal/wal.module'; // WAL disabled - wal2json not available on Windows
 
 @Module({
@@ -51,12 +53,14 @@ import { SessionsModule } from './sessions/sessions.module';
       }),
     }),
     RedisModule,
+    MailModule,
     NotificationsModule,
     SessionsModule, // Session tracking with cron job
     // WalModule, // WAL disabled - wal2json not available on Windows
     AuthModule,
     UserModule,
     RolesModule,
+    PermissionsModule,
     CompaniesModule,
     DepartmentsModule,
     ActivityLogsModule,
@@ -0,0 +1,66 @@
+import type { Request } from 'express';
+import { ApiKeyStrategy } from './api-key.strategy';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { UserService } from '../users/users.service';
+import { EmailVerificationService } from '../users/email-verification.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { ApiKeys } from '../entities/entities/ApiKeys';
+import { Users } from '../entities/entities/Users';
+
+describe('ApiKeyStrategy', () => {
+  const createStrategy = (apiKey: Partial<ApiKeys>, user: Partial<Users>) => {
+    const apiKeysService = {
+      authenticate: jest.fn().mockResolvedValue(apiKey),
+    } as unknown as ApiKeysService;
+    const userService = {
+      findOne: jest.fn().mockResolvedValue(user),
+    } as unknown as UserService;
+    const emailVerificationService = {
+      isVerificationRequired: jest.fn().mockReturnValue(false),
+    } as unknown as EmailVerificationService;
+    const permissionsService = {
+      findSlugsForRoles: jest.fn().mockResolvedValue(['users.read']),
+    } as unknown as PermissionsService;
+
+    return new ApiKeyStrategy(
+      apiKeysService,
+      userService,
+      emailVerificationService,
+      permissionsService,
+    );
+  };
+
+  const request = {
+    headers: { 'x-api-key': 'key' },
+    ip: '127.0.0.1',
+  } as unknown as Request;
+
+  const owner = {
+    id: 7,
+    email: 'owner@test.com',
+    isActive: true,
+    company: { id: 3 },
+    role: { id: 4, slug: 'user' },
+    userRoles: [],
+  } as unknown as Users;
+
+  it('acts in the company of the key owner', async () => {
+    const strategy = createStrategy(
+      { id: 1, userId: 7, companyId: 3, roles: null, scopes: null },
+      owner,
+    );
+
+    await expect(strategy.validate(request)).resolves.toEqual(
+      expect.objectContaining({ id: 7, companyId: 3, apiKeyId: 1 }),
+    );
+  });
+
+  it('rejects personal keys once the owner moved to another company', async () => {
+    const strategy = createStrategy(
+      { id: 1, userId: 7, companyId: 2, roles: null, scopes: null },
+      owner,
+    );
+
+    await expect(strategy.validate(request)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-custom';
+import type { Request } from 'express';
+import { UserService } from 'src/users/users.service';
+import { EmailVerificationService } from 'src/users/email-verification.service';
+import { PermissionsService } from 'src/permissions/permissions.service';
+import { ApiKeysService } from 'src/api-keys/api-keys.service';
+import { AuthUser } from 'src/common/interfaces/auth-user.interface';
+
+interface UserRole {
+  role: {
+    id: number;
+    slug: string;
+  };
+}
+
+/**
+ * Authenticates `X-API-Key` requests. The key acts as its owner (or, for
+ * company keys, as the admin who created it), narrowed to the key's roles
+ * and scopes. Use as `AuthGuard(['jwt', 'api-key', 'oauth'])`.
+ */
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(Strategy, 'api-key') {
+  constructor(
+    private readonly apiKeysService: ApiKeysService,
+    private readonly userService: UserService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly permissionsService: PermissionsService,
+  ) {
+    super();
+  }
+
+  async validate(req: Request): Promise<AuthUser | null> {
+    const header = req.headers['x-api-key'];
+    const key = Array.isArray(header) ? header[0] : header;
+    if (!key) return null;
+
+    const apiKey = await this.apiKeysService.authenticate(key, req.ip);
+    if (!apiKey) return null;
+
+    const userId = apiKey.userId ?? apiKey.createdBy;
+    if (!userId) return null;
+
+    const dbUser = await this.userService.findOne(userId);
+    if (!dbUser || !dbUser.isActive) return null;
+    if (this.emailVerificationService.isVerificationRequired(dbUser)) {
+      return null;
+    }
+
+    // Keys are bound to the company they were issued in: they stop working
+    // once the owner (or, for company keys, the creator) leaves it
+    const companyId = dbUser.company?.id;
+    if ((companyId ?? null) !== (apiKey.companyId ?? null)) return null;
+
+    // Effective roles: the user's current roles, narrowed to the key's
+    const userRoles = [
+      ...(dbUser.role ? [{ role: dbUser.role }] : []),
+      ...((dbUser.userRoles || []) as UserRole[]),
+    ]
+      .map((ur) => ur.role)
+      .filter((role) => Boolean(role?.slug))
+      .filter(
+        (role) =>
+          !apiKey.roles ||
+          apiKey.roles.includes(role.slug.toLowerCase().trim()),
+      );
+    const roles = [
+      ...new Set(userRoles.map((role) => role.slug.toLowerCase().trim())),
+    ];
+
+    const permissions = (
+      await this.permissionsService.findSlugsForRoles(
+        userRoles.map((role) => role.id),
+      )
+    ).filter((p) => !apiKey.scopes || apiKey.scopes.includes(p));
+
+    return {
+      id: dbUser.id,
+      sub: dbUser.id,
+      email: dbUser.email,
+      companyId,
+      departmentId: dbUser.department?.id,
+      roles,
+      permissions,
+      emailVerified: Boolean(dbUser.emailVerifiedAt),
+      apiKeyId: apiKey.id,
+    };
+  }
+}
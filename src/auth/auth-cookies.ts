@@ -0,0 +1,46 @@
+import type { Response } from 'express';
+import { AuthTokens } from './interfaces';
+
+// Set the HTTP-only cookie pair issued after a successful login
+export function setAuthCookies(res: Response, tokens: AuthTokens) {
+  res.cookie('refreshToken', tokens.refreshToken, {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'strict',
+    maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+  });
+
+  res.cookie('accessToken', tokens.accessToken, {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'strict',
+    maxAge: 15 * 60 * 1000, // 15 minutes
+  });
+}
+
+// Name of the cookie binding an OIDC login state to the browser that started it
+export const OIDC_STATE_COOKIE = 'oidcState';
+
+// Lax so it survives the top-level redirect back from the IdP
+export function setOidcStateCookie(
+  res: Response,
+  state: string,
+  maxAgeSeconds: number,
+) {
+  res.cookie(OIDC_STATE_COOKIE, state, {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'lax',
+    path: '/auth/oidc',
+    maxAge: maxAgeSeconds * 1000,
+  });
+}
+
+export function clearOidcStateCookie(res: Response) {
+  res.clearCookie(OIDC_STATE_COOKIE, {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'lax',
+    path: '/auth/oidc',
+  });
+}
@@ -1,6 +1,11 @@
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { JwtService } from '@nestjs/jwt';
+import { PasswordResetService } from './password-reset.service';
+import { TwoFactorService } from './two-factor.service';
+import { InvitationsService } from '../invitations/invitations.service';
+import { EmailVerificationService } from '../users/email-verification.service';
+import { LoginAlertService } from './login-alert.service';
 
 describe('AuthController', () => {
   let controller: AuthController;
@@ -8,7 +13,20 @@ describe('AuthController', () => {
   beforeEach(() => {
     const mockAuthService = {} as unknown as AuthService;
     const mockJwtService = {} as unknown as JwtService;
-    controller = new AuthController(mockAuthService, mockJwtService);
+    const mockPasswordResetService = {} as unknown as PasswordResetService;
+    const mockTwoFactorService = {} as unknown as TwoFactorService;
+    const mockInvitationsService = {} as unknown as InvitationsService;
+    const mockEmailVerificationService =
+      {} as unknown as EmailVerificationService;
+    controller = new AuthController(
+      mockAuthService,
+      mockJwtService,
+      mockPasswordResetService,
+      mockTwoFactorService,
+      mockInvitationsService,
+      mockEmailVerificationService,
+      {} as unknown as LoginAlertService,
+    );
   });
 
   it('should be defined', () => {
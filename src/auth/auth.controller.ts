@@ -2,13 +2,42 @@ import {
   Body,
   Controller,
   HttpCode,
+  Param,
+  ParseIntPipe,
   Post,
   Req,
   Res,
   UnauthorizedException,
+  UseGuards,
 } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
 import { AuthService } from './auth.service';
 import { LoginDto } from './dto/login.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { PasswordResetService } from './password-reset.service';
+import { TwoFactorService } from './two-factor.service';
+import {
+  TwoFactorChallengeDto,
+  TwoFactorCodeDto,
+  TwoFactorLoginDto,
+} from './dto/two-factor.dto';
+import { UnlockAccountDto } from './dto/unlock-account.dto';
+import { ImpersonateDto } from './dto/impersonate.dto';
+import { RevokeAlertedLoginDto } from './dto/login-alert.dto';
+import { LoginAlertService } from './login-alert.service';
+import { ResendVerificationDto, VerifyEmailDto } from './dto/verify-email.dto';
+import { EmailVerificationService } from '../users/email-verification.service';
+import { AcceptInviteDto } from '../invitations/dto/accept-invite.dto';
+import { InvitationsService } from '../invitations/invitations.service';
+import { setAuthCookies } from './auth-cookies';
+import { Roles } from '../common/decorators/roles.decorator';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { BlockImpersonation } from '../common/decorators/block-impersonation.decorator';
+import { ImpersonationGuard } from '../common/guards/impersonation.guard';
+import { RateLimit } from '../common/decorators/rate-limit.decorator';
+import { RateLimitGuard } from '../common/guards/rate-limit.guard';
+import type { RequestWithUser } from '../common/interfaces/request-with-user.interface';
 import { ApiResponse } from '../common/utils/api-response';
 import type { Request, Response } from 'express';
 import { JwtService } from '@nestjs/jwt';
@@ -16,6 +45,7 @@ import { JwtService } from '@nestjs/jwt';
 interface JwtPayload {
   sub: number;
   email?: string;
+  sessionId?: number | null;
   iat?: number;
   exp?: number;
 }
@@ -23,14 +53,20 @@ interface JwtPayload {
 /**
  * Controller responsible for authentication and session lifecycle.
  *
- * Handles login, token refresh and logout using HTTP-only cookies
- * for `accessToken` and `refreshToken`.
+ * Handles login (including two-factor), token refresh, logout and
+ * password reset using HTTP-only cookies for `accessToken` and `refreshToken`.
+ * Also completes user invitations and email verification.
  */
 @Controller('auth')
 export class AuthController {
   constructor(
     private authService: AuthService,
     private jwtService: JwtService,
+    private passwordResetService: PasswordResetService,
+    private twoFactorService: TwoFactorService,
+    private invitationsService: InvitationsService,
+    private emailVerificationService: EmailVerificationService,
+    private loginAlertService: LoginAlertService,
   ) {}
 
   // @Post('signup')
@@ -43,13 +79,17 @@ export class AuthController {
    * Authenticate user with credentials and issue access/refresh tokens.
    *
    * Sets `accessToken` (short-lived) and `refreshToken` (long-lived)
-   * as secure HTTP-only cookies.
+   * as secure HTTP-only cookies. When two-factor authentication applies,
+   * no cookies are set and a short-lived `challengeToken` is returned
+   * instead, to be exchanged on `POST /auth/login/2fa`.
    *
    * @param body - Login credentials (email/password).
    * @param req - Incoming request, used to read IP and user agent.
    * @param res - Response with `passthrough` to set cookies.
-   * @returns Standard API success response without body payload.
+   * @returns Standard API success response, with the 2FA challenge if required.
    */
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ points: 10, duration: 60, key: 'ip' })
   @Post('login')
   @HttpCode(200)
   async login(
@@ -60,39 +100,258 @@ export class AuthController {
     const ipAddress = req.ip || req.headers['x-forwarded-for']?.toString();
     const userAgent = req.headers['user-agent'];
 
-    const { accessToken, refreshToken } = await this.authService.login(
-      body,
-      ipAddress,
-      userAgent,
+    const result = await this.authService.login(body, ipAddress, userAgent);
+
+    if ('challengeToken' in result) {
+      return ApiResponse.success(
+        'Two-factor authentication required',
+        200,
+        result,
+      );
+    }
+
+    setAuthCookies(res, result);
+
+    return ApiResponse.success('Logged in successfully', 200, null);
+  }
+
+  /**
+   * Complete a two-factor login.
+   *
+   * Exchanges the challenge token from `POST /auth/login` plus a TOTP code
+   * (or a recovery code) for the normal cookie pair. For enrollment
+   * challenges the code confirms the new secret and the recovery codes are
+   * returned once.
+   *
+   * @param body - Challenge token and code.
+   * @param req - Incoming request, used to read IP and user agent.
+   * @param res - Response with `passthrough` to set cookies.
+   * @returns Standard API success response, with recovery codes after enrollment.
+   * @throws UnauthorizedException if the challenge or code is invalid.
+   */
+  @Post('login/2fa')
+  @HttpCode(200)
+  async loginWithTwoFactor(
+    @Body() body: TwoFactorLoginDto,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const ipAddress = req.ip || req.headers['x-forwarded-for']?.toString();
+    const userAgent = req.headers['user-agent'];
+
+    const { recoveryCodes, ...tokens } =
+      await this.authService.loginWithTwoFactor(body, ipAddress, userAgent);
+
+    setAuthCookies(res, tokens);
+
+    return ApiResponse.success(
+      'Logged in successfully',
+      200,
+      recoveryCodes ? { recoveryCodes } : null,
+    );
+  }
+
+  /**
+   * Start enrollment during login when the company enforces 2FA and the
+   * user has not enrolled yet.
+   *
+   * @param body - Enrollment challenge token from `POST /auth/login`.
+   * @returns API response with the secret and `otpauth://` URI.
+   */
+  @Post('login/2fa/setup')
+  @HttpCode(200)
+  async setupTwoFactorDuringLogin(@Body() body: TwoFactorChallengeDto) {
+    const challenge = this.twoFactorService.verifyChallenge(
+      body.challengeToken,
+      '2fa-enroll',
     );
+    const data = await this.twoFactorService.beginEnrollment(challenge.sub);
+    return ApiResponse.success('Two-factor setup started', 200, data);
+  }
 
-    res.cookie('refreshToken', refreshToken, {
-      httpOnly: true,
-      secure: true,
-      sameSite: 'strict',
-      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+  /**
+   * Start two-factor enrollment for the current user.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @returns API response with the secret and `otpauth://` URI.
+   */
+  @UseGuards(AuthGuard('jwt'), ImpersonationGuard)
+  @BlockImpersonation()
+  @Post('2fa/setup')
+  @HttpCode(200)
+  async setupTwoFactor(@Req() req: RequestWithUser) {
+    const data = await this.twoFactorService.beginEnrollment(req.user.id);
+    return ApiResponse.success('Two-factor setup started', 200, data);
+  }
+
+  /**
+   * Confirm two-factor enrollment with a code from the authenticator app.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param body - Current TOTP code.
+   * @returns API response with the recovery codes (shown only once).
+   */
+  @UseGuards(AuthGuard('jwt'), ImpersonationGuard)
+  @BlockImpersonation()
+  @Post('2fa/confirm')
+  @HttpCode(200)
+  async confirmTwoFactor(
+    @Req() req: RequestWithUser,
+    @Body() body: TwoFactorCodeDto,
+  ) {
+    const recoveryCodes = await this.twoFactorService.confirmEnrollment(
+      req.user.id,
+      body.code,
+    );
+    return ApiResponse.success('Two-factor authentication enabled', 200, {
+      recoveryCodes,
     });
+  }
 
-    res.cookie('accessToken', accessToken, {
-      httpOnly: true,
-      secure: true,
-      sameSite: 'strict',
-      maxAge: 15 * 60 * 1000, // 15 minutes
+  /**
+   * Replace the current user's recovery codes.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param body - Current TOTP code.
+   * @returns API response with the new recovery codes.
+   */
+  @UseGuards(AuthGuard('jwt'), ImpersonationGuard)
+  @BlockImpersonation()
+  @Post('2fa/recovery-codes')
+  @HttpCode(200)
+  async regenerateRecoveryCodes(
+    @Req() req: RequestWithUser,
+    @Body() body: TwoFactorCodeDto,
+  ) {
+    const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(
+      req.user.id,
+      body.code,
+    );
+    return ApiResponse.success('Recovery codes regenerated', 200, {
+      recoveryCodes,
     });
+  }
 
-    return ApiResponse.success('Logged in successfully', 200, null);
+  /**
+   * Disable two-factor authentication for the current user.
+   *
+   * Not allowed while the user's company enforces 2FA.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param body - Current TOTP code.
+   * @returns Standard API success response.
+   */
+  @UseGuards(AuthGuard('jwt'), ImpersonationGuard)
+  @BlockImpersonation()
+  @Post('2fa/disable')
+  @HttpCode(200)
+  async disableTwoFactor(
+    @Req() req: RequestWithUser,
+    @Body() body: TwoFactorCodeDto,
+  ) {
+    await this.twoFactorService.disable(req.user.id, body.code);
+    return ApiResponse.success('Two-factor authentication disabled', 200);
+  }
+
+  /**
+   * Clear a login lockout caused by repeated failed attempts.
+   *
+   * Company admins can unlock users of their own company; unlocking an
+   * IP address is reserved for super admins.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param body - Email and/or IP address to unlock.
+   * @returns API response indicating whether a lockout was cleared.
+   */
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles('super_admin', 'company_admin')
+  @Post('unlock')
+  @HttpCode(200)
+  async unlockLogin(
+    @Req() req: RequestWithUser,
+    @Body() body: UnlockAccountDto,
+  ) {
+    const data = await this.authService.unlockLogin(body, req.user);
+    return ApiResponse.success('Login lockout cleared', 200, data);
+  }
+
+  /**
+   * End the current impersonated session. The admin has to log in again
+   * with their own account afterwards.
+   *
+   * @param req - Authenticated request from the impersonated session.
+   * @param res - Response used to clear authentication cookies.
+   * @returns Standard API success response.
+   */
+  @UseGuards(AuthGuard('jwt'))
+  @Post('impersonate/stop')
+  @HttpCode(200)
+  async stopImpersonation(
+    @Req() req: RequestWithUser,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    await this.authService.stopImpersonation(req.user, {
+      ipAddress: req.ip,
+      method: req.method,
+      api: req.originalUrl,
+    });
+    res.clearCookie('accessToken');
+    res.clearCookie('refreshToken');
+    return ApiResponse.success('Impersonation stopped', 200);
+  }
+
+  /**
+   * Act as another user for support (super_admin only).
+   *
+   * Replaces the session cookies with a time-boxed session of the target
+   * user whose tokens carry `impersonatorId`. Sensitive actions are blocked
+   * in that session; start and stop are recorded in the activity logs and
+   * the target's company is notified.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param res - Response used to set the new authentication cookies.
+   * @param userId - User to impersonate.
+   * @param body - Reason for the audit trail and optional duration.
+   * @returns API response with the impersonated user and session end.
+   */
+  @UseGuards(AuthGuard('jwt'), RolesGuard, ImpersonationGuard)
+  @Roles('super_admin')
+  @BlockImpersonation()
+  @Post('impersonate/:userId')
+  @HttpCode(200)
+  async impersonate(
+    @Req() req: RequestWithUser,
+    @Res({ passthrough: true }) res: Response,
+    @Param('userId', ParseIntPipe) userId: number,
+    @Body() body: ImpersonateDto,
+  ) {
+    const { expiresAt, ...tokens } = await this.authService.impersonate(
+      req.user,
+      userId,
+      body,
+      req.headers['user-agent'],
+      { ipAddress: req.ip, method: req.method, api: req.originalUrl },
+    );
+    setAuthCookies(res, tokens);
+    return ApiResponse.success('Impersonation started', 200, {
+      userId,
+      impersonatorId: req.user.id,
+      expiresAt,
+    });
   }
 
   /**
    * Refresh the access token using a valid refresh token cookie.
    *
    * Validates the refresh token, checks the backing session in the database
-   * and issues a new short-lived `accessToken` cookie.
+   * and issues a new `accessToken` cookie together with a rotated
+   * `refreshToken` cookie. Replaying an already-rotated refresh token
+   * revokes the whole session.
    *
    * @param req - Incoming request with `refreshToken` cookie.
-   * @param res - Response used to set the new `accessToken` cookie.
+   * @param res - Response used to set the new authentication cookies.
    * @returns Standard API success response when token is refreshed.
-   * @throws UnauthorizedException if the refresh token is missing or invalid.
+   * @throws UnauthorizedException if the refresh token is missing, invalid or reused.
    */
   @Post('refresh')
   async refresh(
@@ -113,24 +372,26 @@ export class AuthController {
     }
 
     try {
-      // This will check if session is valid in database
-      const { accessToken } = await this.authService.refresh(
+      // This will check if session is valid in database and rotate the token
+      const tokens = await this.authService.refresh(
         payload.sub,
         refreshToken,
+        payload.sessionId,
+        {
+          ipAddress: req.ip || req.headers['x-forwarded-for']?.toString(),
+          method: req.method,
+          api: req.originalUrl,
+        },
       );
 
-      res.cookie('accessToken', accessToken, {
-        httpOnly: true,
-        secure: false,
-        sameSite: 'strict',
-        maxAge: 15 * 60 * 1000,
-      });
+      setAuthCookies(res, tokens);
 
       return ApiResponse.success('Token refreshed', 200);
-    } catch {
-      // Session expired in database - clear cookies
+    } catch (error) {
+      // Session expired or token reused - clear cookies
       res.clearCookie('accessToken');
       res.clearCookie('refreshToken');
+      if (error instanceof UnauthorizedException) throw error;
       throw new UnauthorizedException('Session expired');
     }
   }
@@ -163,4 +424,130 @@ export class AuthController {
     res.clearCookie('refreshToken');
     return ApiResponse.success('Logged out successfully', 200);
   }
+
+  /**
+   * Request a password reset link for the given email.
+   *
+   * Always responds with the same message, whether or not the email exists,
+   * so the endpoint cannot be used to enumerate accounts.
+   *
+   * @param body - DTO containing the account email.
+   * @param req - Incoming request, used to read IP for auditing.
+   * @returns Standard API success response.
+   */
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ points: 5, duration: 300, key: 'ip' })
+  @Post('forgot-password')
+  @HttpCode(200)
+  async forgotPassword(@Body() body: ForgotPasswordDto, @Req() req: Request) {
+    await this.passwordResetService.requestReset(body.email, {
+      ipAddress: req.ip || req.headers['x-forwarded-for']?.toString(),
+      method: req.method,
+      api: req.originalUrl,
+    });
+    return ApiResponse.success(
+      'If the email exists, a password reset link has been sent',
+      200,
+    );
+  }
+
+  /**
+   * Set a new password using a single-use reset token.
+   *
+   * On success every existing session of the user is invalidated.
+   *
+   * @param body - DTO containing the reset token and the new password.
+   * @param req - Incoming request, used to read IP for auditing.
+   * @returns Standard API success response.
+   * @throws BadRequestException if the token is invalid, used or expired.
+   */
+  @Post('reset-password')
+  @HttpCode(200)
+  async resetPassword(@Body() body: ResetPasswordDto, @Req() req: Request) {
+    await this.passwordResetService.resetPassword(body.token, body.password, {
+      ipAddress: req.ip || req.headers['x-forwarded-for']?.toString(),
+      method: req.method,
+      api: req.originalUrl,
+    });
+    return ApiResponse.success('Password has been reset successfully', 200);
+  }
+
+  /**
+   * "This wasn't me": sign out the session a login alert email was sent for.
+   *
+   * @param body - DTO containing the token from the alert link.
+   * @param req - Incoming request, used to read IP for auditing.
+   * @returns Standard API success response.
+   * @throws BadRequestException if the link is invalid or expired.
+   */
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ points: 10, duration: 60, key: 'ip' })
+  @Post('login-alert/revoke')
+  @HttpCode(200)
+  async revokeAlertedLogin(
+    @Body() body: RevokeAlertedLoginDto,
+    @Req() req: Request,
+  ) {
+    const data = await this.loginAlertService.revokeAlertedSession(body.token, {
+      ipAddress: req.ip || req.headers['x-forwarded-for']?.toString(),
+      method: req.method,
+      api: req.originalUrl,
+    });
+    return ApiResponse.success(
+      'The session was signed out. Please change your password.',
+      200,
+      data,
+    );
+  }
+
+  /**
+   * Accept an invitation and set the account password.
+   *
+   * The invitation link is single-use; the user logs in normally afterwards.
+   *
+   * @param body - DTO containing the invitation token and the new password.
+   * @returns Standard API success response.
+   * @throws BadRequestException if the invitation is invalid, used, revoked or expired.
+   */
+  @Post('accept-invite')
+  @HttpCode(200)
+  async acceptInvite(@Body() body: AcceptInviteDto) {
+    await this.invitationsService.accept(body.token, body.password);
+    return ApiResponse.success('Invitation accepted. You can now log in.', 200);
+  }
+
+  /**
+   * Confirm an email address using the link sent by mail.
+   *
+   * @param body - DTO containing the verification token.
+   * @returns Standard API success response.
+   * @throws BadRequestException if the token is invalid, expired or for an old address.
+   */
+  @Post('verify-email')
+  @HttpCode(200)
+  async verifyEmail(@Body() body: VerifyEmailDto) {
+    await this.emailVerificationService.verify(body.token);
+    return ApiResponse.success('Email verified successfully', 200);
+  }
+
+  /**
+   * Send a new verification link.
+   *
+   * Always responds with the same message so the endpoint cannot be used
+   * to enumerate accounts.
+   *
+   * @param body - DTO containing the account email.
+   * @returns Standard API success response.
+   */
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ points: 5, duration: 300, key: 'ip' })
+  @Post('verify-email/resend')
+  @HttpCode(200)
+  async resendVerification(@Body() body: ResendVerificationDto) {
+    await this.emailVerificationService.resendVerification(body.email);
+    return ApiResponse.success(
+      'If the email needs verification, a new link has been sent',
+      200,
+    );
+  }
 }
@@ -1,18 +1,47 @@
 import { forwardRef, Global, Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { AuthController } from './auth.controller';
+import { OidcController } from './oidc.controller';
 import { AuthService } from './auth.service';
 import { UserModule } from '../users/users.module';
 import { PassportModule } from '@nestjs/passport';
 import { JwtModule, JwtModuleOptions } from '@nestjs/jwt';
 import { JwtStrategy } from './jwt.strategy';
+import { ApiKeyStrategy } from './api-key.strategy';
+import { OAuthTokenStrategy } from './oauth-token.strategy';
 import { RolesModule } from '../roles/roles.module';
 import { SessionsModule } from '../sessions/sessions.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { MailModule } from '../mail/mail.module';
+import { PasswordResetService } from './password-reset.service';
+import { PasswordResetTokens } from '../entities/entities/PasswordResetTokens';
+import { Users } from '../entities/entities/Users';
+import { Sessions } from '../entities/entities/Sessions';
+import { TwoFactorService } from './two-factor.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { LoginAlertService } from './login-alert.service';
+import { OidcService } from './oidc.service';
+import { CompanyOidcProviders } from '../entities/entities/CompanyOidcProviders';
+import { UserIdentities } from '../entities/entities/UserIdentities';
+import { Departments } from '../entities/entities/Departments';
+import { InvitationsModule } from '../invitations/invitations.module';
+import { PermissionsModule } from '../permissions/permissions.module';
+import { ApiKeysModule } from '../api-keys/api-keys.module';
+import { OAuthModule } from '../oauth/oauth.module';
 
 @Global()
 @Module({
   imports: [
     forwardRef(() => UserModule),
+    TypeOrmModule.forFeature([
+      PasswordResetTokens,
+      Users,
+      CompanyOidcProviders,
+      UserIdentities,
+      Departments,
+      Sessions,
+    ]),
     PassportModule.register({ defaultStrategy: 'jwt' }),
     JwtModule.registerAsync({
       imports: [ConfigModule],
@@ -36,9 +65,31 @@ import { SessionsModule } from '../sessions/sessions.module';
     RolesModule,
     // SessionsModule for session tracking
     SessionsModule,
+    // NotificationsModule to push session-expired on refresh token reuse
+    NotificationsModule,
+    // MailModule for password reset emails
+    MailModule,
+    // InvitationsModule for accepting invitations
+    InvitationsModule,
+    // PermissionsModule to resolve role permissions in JwtStrategy
+    PermissionsModule,
+    // ApiKeysModule to authenticate X-API-Key requests
+    ApiKeysModule,
+    // OAuthModule to check delegated access tokens
+    OAuthModule,
+  ],
+  controllers: [AuthController, OidcController],
+  providers: [
+    AuthService,
+    PasswordResetService,
+    TwoFactorService,
+    LoginThrottleService,
+    LoginAlertService,
+    OidcService,
+    JwtStrategy,
+    ApiKeyStrategy,
+    OAuthTokenStrategy,
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy],
   exports: [PassportModule, JwtModule],
 })
 export class AuthModule {}
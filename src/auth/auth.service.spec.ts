@@ -4,6 +4,13 @@ import { JwtService } from '@nestjs/jwt';
 import { RolesService } from '../roles/roles.service';
 import { SessionsService } from '../sessions/sessions.service';
 import { SignupDto } from './dto/signup.dto';
+import { NotificationsGateway } from '../notifications/notifications.gateway';
+import { ActivityLogsService } from '../activity-logs/activity-logs.service';
+import { TwoFactorService } from './two-factor.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { LoginAlertService } from './login-alert.service';
+import { EmailVerificationService } from '../users/email-verification.service';
+import * as bcrypt from 'bcrypt';
 
 describe('AuthService', () => {
   let service: AuthService;
@@ -17,12 +24,25 @@ describe('AuthService', () => {
       findBySlug: jest.fn().mockResolvedValue({ id: 4, slug: 'user' }),
     } as unknown as RolesService;
     const mockSessionsService = {} as unknown as SessionsService;
+    const mockNotificationsGateway = {} as unknown as NotificationsGateway;
+    const mockActivityLogsService = {} as unknown as ActivityLogsService;
+    const mockTwoFactorService = {} as unknown as TwoFactorService;
+    const mockLoginThrottleService = {} as unknown as LoginThrottleService;
+    const mockEmailVerificationService = {
+      sendVerification: jest.fn().mockResolvedValue(undefined),
+    } as unknown as EmailVerificationService;
 
     service = new AuthService(
       mockUserService,
       mockJwtService,
       mockRolesService,
       mockSessionsService,
+      mockNotificationsGateway,
+      mockActivityLogsService,
+      mockTwoFactorService,
+      mockLoginThrottleService,
+      mockEmailVerificationService,
+      {} as unknown as LoginAlertService,
     );
   });
 
@@ -39,12 +59,25 @@ describe('AuthService', () => {
       findBySlug: jest.fn().mockResolvedValue({ id: 4, slug: 'user' }),
     } as unknown as RolesService;
     const mockSessionsService = {} as unknown as SessionsService;
+    const mockNotificationsGateway = {} as unknown as NotificationsGateway;
+    const mockActivityLogsService = {} as unknown as ActivityLogsService;
+    const mockTwoFactorService = {} as unknown as TwoFactorService;
+    const mockLoginThrottleService = {} as unknown as LoginThrottleService;
+    const mockEmailVerificationService = {
+      sendVerification: jest.fn().mockResolvedValue(undefined),
+    } as unknown as EmailVerificationService;
 
     const s = new AuthService(
       mockUserService,
       mockJwtService,
       mockRolesService,
       mockSessionsService,
+      mockNotificationsGateway,
+      mockActivityLogsService,
+      mockTwoFactorService,
+      mockLoginThrottleService,
+      mockEmailVerificationService,
+      {} as unknown as LoginAlertService,
     );
 
     await s.signup({ email: 'a@b.com', password: '12345678' } as SignupDto);
@@ -52,4 +85,361 @@ describe('AuthService', () => {
     expect(mockRolesService.findBySlug).toHaveBeenCalledWith('user');
     expect(mockUserService.create).toHaveBeenCalled();
   });
+
+  describe('refresh', () => {
+    const createRefreshDeps = (rotated: boolean) => {
+      const mockUserService = {
+        findOne: jest.fn().mockResolvedValue({
+          id: 7,
+          email: 'u@test.com',
+          company: { id: 3 },
+          userRoles: [],
+        }),
+      } as unknown as UserService;
+      const mockJwtService = {
+        sign: jest.fn().mockReturnValue('signed-token'),
+      } as unknown as JwtService;
+      const mockRolesService = {} as unknown as RolesService;
+      const mockSessionsService = {
+        getSessionById: jest
+          .fn()
+          .mockResolvedValue({ id: 11, userId: 7, isValid: true }),
+        rotateSessionToken: jest.fn().mockResolvedValue(rotated),
+        invalidateSessionById: jest.fn().mockResolvedValue(null),
+        getSessionExpiry: jest.fn().mockResolvedValue({
+          expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+          reason: 'idle',
+        }),
+      } as unknown as SessionsService;
+      const mockNotificationsGateway = {
+        emitSessionExpired: jest.fn().mockReturnValue(1),
+      } as unknown as NotificationsGateway;
+      const mockActivityLogsService = {
+        logEvent: jest.fn().mockResolvedValue(undefined),
+      } as unknown as ActivityLogsService;
+
+      const s = new AuthService(
+        mockUserService,
+        mockJwtService,
+        mockRolesService,
+        mockSessionsService,
+        mockNotificationsGateway,
+        mockActivityLogsService,
+        {} as unknown as TwoFactorService,
+        {} as unknown as LoginThrottleService,
+        {} as unknown as EmailVerificationService,
+        {
+          inspectLogin: jest.fn().mockResolvedValue(undefined),
+        } as unknown as LoginAlertService,
+      );
+
+      return {
+        s,
+        mockSessionsService,
+        mockNotificationsGateway,
+        mockActivityLogsService,
+      };
+    };
+
+    it('rotates the refresh token on every refresh', async () => {
+      const { s, mockSessionsService } = createRefreshDeps(true);
+
+      const tokens = await s.refresh(7, 'old-refresh', 11);
+
+      expect(tokens.refreshToken).toBe('signed-token');
+      expect(mockSessionsService.rotateSessionToken).toHaveBeenCalledWith(
+        11,
+        'old-refresh',
+        'signed-token',
+      );
+    });
+
+    it('revokes the session when an already-rotated token is reused', async () => {
+      const {
+        s,
+        mockSessionsService,
+        mockNotificationsGateway,
+        mockActivityLogsService,
+      } = createRefreshDeps(false);
+
+      await expect(s.refresh(7, 'stale-refresh', 11)).rejects.toThrow(
+        'Refresh token reuse detected',
+      );
+
+      expect(mockSessionsService.invalidateSessionById).toHaveBeenCalledWith(
+        11,
+      );
+      expect(mockNotificationsGateway.emitSessionExpired).toHaveBeenCalledWith(
+        [11],
+        'revoked',
+        expect.any(String),
+      );
+      expect(mockActivityLogsService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: 'REFRESH_TOKEN_REUSE', userId: 7 }),
+      );
+    });
+  });
+
+  describe('login', () => {
+    const password = 'correct-password';
+    const passwordHash = bcrypt.hashSync(password, 4);
+
+    const createLoginDeps = (twoFactorRequired: boolean) => {
+      const mockUserService = {
+        findByEmail: jest.fn().mockResolvedValue({
+          id: 7,
+          email: 'u@test.com',
+          password: passwordHash,
+          isActive: true,
+          userRoles: [],
+        }),
+      } as unknown as UserService;
+      const mockJwtService = {
+        sign: jest.fn().mockReturnValue('signed-token'),
+      } as unknown as JwtService;
+      const mockSessionsService = {
+        createSession: jest.fn().mockResolvedValue({ id: 11 }),
+        updateSessionToken: jest.fn(),
+      } as unknown as SessionsService;
+      const mockTwoFactorService = {
+        isRequired: jest.fn().mockReturnValue(twoFactorRequired),
+        createChallenge: jest.fn().mockReturnValue({
+          twoFactorRequired: true,
+          enrollmentRequired: false,
+          challengeToken: 'challenge',
+        }),
+      } as unknown as TwoFactorService;
+      const mockLoginThrottleService = {
+        assertNotLocked: jest.fn().mockResolvedValue(undefined),
+        applyProgressiveDelay: jest.fn().mockResolvedValue(undefined),
+        registerFailure: jest.fn().mockResolvedValue(undefined),
+        registerSuccess: jest.fn().mockResolvedValue(undefined),
+      } as unknown as LoginThrottleService;
+      const mockEmailVerificationService = {
+        isVerificationRequired: jest.fn().mockReturnValue(false),
+      } as unknown as EmailVerificationService;
+      const mockLoginAlertService = {
+        inspectLogin: jest.fn().mockResolvedValue(undefined),
+      } as unknown as LoginAlertService;
+
+      const s = new AuthService(
+        mockUserService,
+        mockJwtService,
+        {} as unknown as RolesService,
+        mockSessionsService,
+        {} as unknown as NotificationsGateway,
+        {} as unknown as ActivityLogsService,
+        mockTwoFactorService,
+        mockLoginThrottleService,
+        mockEmailVerificationService,
+        mockLoginAlertService,
+      );
+
+      return {
+        s,
+        mockSessionsService,
+        mockLoginThrottleService,
+        mockEmailVerificationService,
+        mockLoginAlertService,
+      };
+    };
+
+    it('issues tokens and a session when 2FA is not required', async () => {
+      const { s, mockSessionsService, mockLoginAlertService } =
+        createLoginDeps(false);
+
+      const result = await s.login({ email: 'u@test.com', password });
+
+      expect(result).toEqual({
+        accessToken: 'signed-token',
+        refreshToken: 'signed-token',
+      });
+      expect(mockSessionsService.createSession).toHaveBeenCalled();
+      expect(mockLoginAlertService.inspectLogin).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 7 }),
+        { id: 11 },
+      );
+    });
+
+    it('returns a challenge without creating a session when 2FA is required', async () => {
+      const { s, mockSessionsService } = createLoginDeps(true);
+
+      const result = await s.login({ email: 'u@test.com', password });
+
+      expect(result).toEqual(
+        expect.objectContaining({ challengeToken: 'challenge' }),
+      );
+      expect(mockSessionsService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('counts a failed attempt on a wrong password', async () => {
+      const { s, mockSessionsService, mockLoginThrottleService } =
+        createLoginDeps(false);
+
+      await expect(
+        s.login({ email: 'u@test.com', password: 'wrong' }, '10.0.0.1'),
+      ).rejects.toThrow('Invalid credentials');
+
+      expect(mockLoginThrottleService.registerFailure).toHaveBeenCalledWith(
+        'u@test.com',
+        '10.0.0.1',
+        expect.objectContaining({ id: 7 }),
+      );
+      expect(mockLoginThrottleService.registerSuccess).not.toHaveBeenCalled();
+      expect(mockSessionsService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('rejects locked accounts before checking the password', async () => {
+      const { s, mockLoginThrottleService } = createLoginDeps(false);
+      (mockLoginThrottleService.assertNotLocked as jest.Mock).mockRejectedValue(
+        new Error('Too many failed login attempts'),
+      );
+
+      await expect(s.login({ email: 'u@test.com', password })).rejects.toThrow(
+        'Too many failed login attempts',
+      );
+      expect(mockLoginThrottleService.registerFailure).not.toHaveBeenCalled();
+    });
+
+    it('rejects unverified emails when verification is required', async () => {
+      const { s, mockSessionsService, mockEmailVerificationService } =
+        createLoginDeps(false);
+      (
+        mockEmailVerificationService.isVerificationRequired as jest.Mock
+      ).mockReturnValue(true);
+
+      await expect(s.login({ email: 'u@test.com', password })).rejects.toThrow(
+        'Please verify your email address',
+      );
+      expect(mockSessionsService.createSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('impersonate', () => {
+    const admin = {
+      id: 1,
+      sub: 1,
+      email: 'support@test.com',
+      roles: ['super_admin'],
+    };
+
+    const createImpersonationDeps = (target: Record<string, unknown>) => {
+      const mockUserService = {
+        findOne: jest.fn().mockResolvedValue(target),
+      } as unknown as UserService;
+      const mockJwtService = {
+        sign: jest.fn().mockReturnValue('signed-token'),
+      } as unknown as JwtService;
+      const mockSessionsService = {
+        createSession: jest.fn().mockResolvedValue({ id: 21 }),
+        updateSessionToken: jest.fn().mockResolvedValue(undefined),
+      } as unknown as SessionsService;
+      const mockNotificationsGateway = {
+        emitNotification: jest.fn().mockResolvedValue(undefined),
+      } as unknown as NotificationsGateway;
+      const mockActivityLogsService = {
+        logEvent: jest.fn().mockResolvedValue(undefined),
+      } as unknown as ActivityLogsService;
+
+      const s = new AuthService(
+        mockUserService,
+        mockJwtService,
+        {} as unknown as RolesService,
+        mockSessionsService,
+        mockNotificationsGateway,
+        mockActivityLogsService,
+        {} as unknown as TwoFactorService,
+        {} as unknown as LoginThrottleService,
+        {} as unknown as EmailVerificationService,
+        {
+          inspectLogin: jest.fn().mockResolvedValue(undefined),
+        } as unknown as LoginAlertService,
+      );
+
+      return {
+        s,
+        mockJwtService,
+        mockSessionsService,
+        mockNotificationsGateway,
+        mockActivityLogsService,
+      };
+    };
+
+    const target = {
+      id: 7,
+      email: 'u@test.com',
+      isActive: true,
+      company: { id: 3 },
+      role: { id: 4, slug: 'user' },
+      userRoles: [],
+    };
+
+    it('issues a time-boxed session carrying the impersonator', async () => {
+      const {
+        s,
+        mockJwtService,
+        mockSessionsService,
+        mockNotificationsGateway,
+        mockActivityLogsService,
+      } = createImpersonationDeps(target);
+
+      const result = await s.impersonate(admin, 7, {
+        reason: 'Ticket #42',
+        durationMinutes: 15,
+      });
+
+      expect(result.expiresAt.getTime()).toBeLessThanOrEqual(
+        Date.now() + 15 * 60 * 1000,
+      );
+      expect(mockSessionsService.createSession).toHaveBeenCalledWith(
+        7,
+        'signed-token',
+        undefined,
+        undefined,
+        { impersonatorId: 1, expiresAt: result.expiresAt },
+        false,
+      );
+      expect(mockJwtService.sign).toHaveBeenCalledWith(
+        expect.objectContaining({ sub: 7, sessionId: 21, impersonatorId: 1 }),
+        expect.anything(),
+      );
+      expect(mockActivityLogsService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 1,
+          reason: 'IMPERSONATION_START',
+          entityId: '7',
+        }),
+      );
+      expect(mockNotificationsGateway.emitNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          companyId: 3,
+          type: 'user:impersonation_started',
+          audience: { adminsOnly: true },
+        }),
+      );
+    });
+
+    it('refuses to impersonate from an impersonated session', async () => {
+      const { s, mockSessionsService } = createImpersonationDeps(target);
+
+      await expect(
+        s.impersonate({ ...admin, impersonatorId: 2 }, 7, {
+          reason: 'Ticket #42',
+        }),
+      ).rejects.toThrow('Not allowed while impersonating');
+      expect(mockSessionsService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('refuses to impersonate another super admin', async () => {
+      const { s, mockSessionsService } = createImpersonationDeps({
+        ...target,
+        role: { id: 1, slug: 'super_admin' },
+      });
+
+      await expect(
+        s.impersonate(admin, 7, { reason: 'Ticket #42' }),
+      ).rejects.toThrow('Cannot impersonate a super admin');
+      expect(mockSessionsService.createSession).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,12 +1,40 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { UserService } from '../users/users.service';
 import * as bcrypt from 'bcrypt';
+import * as crypto from 'crypto';
 import { SignupDto } from './dto/signup.dto';
 import { LoginDto } from './dto/login.dto';
 import { RolesService } from '../roles/roles.service';
 import { SessionsService } from '../sessions/sessions.service';
-import { UserWithRoles, UserRole } from './interfaces';
+import {
+  AuthTokens,
+  Impersonation,
+  LoginResult,
+  UserWithRoles,
+  UserRole,
+} from './interfaces';
+import { TwoFactorService } from './two-factor.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { LoginAlertService } from './login-alert.service';
+import { UnlockAccountDto } from './dto/unlock-account.dto';
+import { EmailVerificationService } from '../users/email-verification.service';
+import { TwoFactorLoginDto } from './dto/two-factor.dto';
+import { ImpersonateDto } from './dto/impersonate.dto';
+import { NotificationsGateway } from '../notifications/notifications.gateway';
+import { ActivityLogsService } from '../activity-logs/activity-logs.service';
+import { RequestContext } from '../common/interfaces/request-context.interface';
+import { Sessions } from '../entities/entities/Sessions';
+import { AuthUser } from '../common/interfaces/auth-user.interface';
+
+// Length of an impersonated session unless the admin asks for another
+const DEFAULT_IMPERSONATION_MINUTES = 30;
 
 @Injectable()
 export class AuthService {
@@ -15,6 +43,12 @@ export class AuthService {
     private jwtService: JwtService,
     private rolesService: RolesService,
     private sessionsService: SessionsService,
+    private notificationsGateway: NotificationsGateway,
+    private activityLogsService: ActivityLogsService,
+    private twoFactorService: TwoFactorService,
+    private loginThrottleService: LoginThrottleService,
+    private emailVerificationService: EmailVerificationService,
+    private loginAlertService: LoginAlertService,
   ) {}
 
   async signup(signupDto: SignupDto) {
@@ -28,7 +62,7 @@ export class AuthService {
     // default role slug for public signups
     const defaultRole = await this.rolesService.findBySlug('user');
 
-    return this.usersService.create({
+    const user = await this.usersService.create({
       email: signupDto.email,
       password: hashed,
       firstname: signupDto.firstname,
@@ -36,9 +70,23 @@ export class AuthService {
       age: signupDto.age,
       roleSlug: defaultRole?.slug,
     });
+
+    // The account exists either way; a new link can be requested later
+    void this.emailVerificationService
+      .sendVerification(user)
+      .catch((error) =>
+        console.error('Failed to send verification email:', error),
+      );
+
+    return user;
   }
 
-  private generateTokens(user: UserWithRoles, sessionId?: number) {
+  private generateTokens(
+    user: UserWithRoles,
+    sessionId?: number,
+    impersonation?: Impersonation,
+    refreshExpiresIn = 24 * 60 * 60,
+  ): AuthTokens {
     const userRoles = (user.userRoles || []) as UserRole[];
     const roles = [user.role?.slug, ...userRoles.map((r) => r.role.slug)]
       .filter((r): r is string => Boolean(r))
@@ -51,26 +99,71 @@ export class AuthService {
       departmentId: user.department?.id ?? null,
       roles,
       sessionId: sessionId ?? null,
+      ...(impersonation
+        ? { impersonatorId: impersonation.impersonatorId }
+        : {}),
     };
 
+    // Tokens of a time-boxed session never outlive it
+    const remaining = impersonation
+      ? Math.max(
+          1,
+          Math.floor((impersonation.expiresAt.getTime() - Date.now()) / 1000),
+        )
+      : Infinity;
+
     const accessToken = this.jwtService.sign(payload, {
-      expiresIn: '15m', // FOR TESTING: 1 minute (change back to '15m' for production)
+      expiresIn: Math.min(15 * 60, remaining), // FOR TESTING: 1 minute (change back to '15m' for production)
     });
 
+    // jti keeps every rotated refresh token unique, even within the same second
     const refreshToken = this.jwtService.sign(
-      { sub: user.id, sessionId: sessionId ?? null },
-      { expiresIn: '1d' },
+      { sub: user.id, sessionId: sessionId ?? null, jti: crypto.randomUUID() },
+      { expiresIn: Math.min(refreshExpiresIn, remaining) },
     );
 
     return { accessToken, refreshToken };
   }
 
-  async login(loginDto: LoginDto, ipAddress?: string, userAgent?: string) {
+  /**
+   * Verify email/password. When two-factor authentication applies, a
+   * challenge is returned instead of tokens and no session is created yet.
+   *
+   * Failed attempts are counted per email and per IP; repeated failures are
+   * slowed down and eventually locked out for a while.
+   */
+  async login(
+    loginDto: LoginDto,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<LoginResult> {
+    await this.loginThrottleService.assertNotLocked(loginDto.email, ipAddress);
+    await this.loginThrottleService.applyProgressiveDelay(
+      loginDto.email,
+      ipAddress,
+    );
+
     const user = await this.usersService.findByEmail(loginDto.email);
-    if (!user) throw new UnauthorizedException('Invalid credentials');
+    if (!user) {
+      // Unknown emails count too, so lockouts don't reveal which accounts exist
+      await this.loginThrottleService.registerFailure(
+        loginDto.email,
+        ipAddress,
+      );
+      throw new UnauthorizedException('Invalid credentials');
+    }
 
     const isMatch = await bcrypt.compare(loginDto.password, user.password);
-    if (!isMatch) throw new UnauthorizedException('Invalid credentials');
+    if (!isMatch) {
+      await this.loginThrottleService.registerFailure(
+        loginDto.email,
+        ipAddress,
+        user,
+      );
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    await this.loginThrottleService.registerSuccess(loginDto.email);
 
     // Check if user account is active
     if (!user.isActive) {
@@ -79,6 +172,118 @@ export class AuthService {
       );
     }
 
+    if (this.emailVerificationService.isVerificationRequired(user)) {
+      throw new UnauthorizedException(
+        'Please verify your email address before logging in.',
+      );
+    }
+
+    if (this.twoFactorService.isRequired(user)) {
+      return this.twoFactorService.createChallenge(user, loginDto.rememberMe);
+    }
+
+    return this.createSessionTokens(
+      user,
+      ipAddress,
+      userAgent,
+      undefined,
+      loginDto.rememberMe,
+    );
+  }
+
+  /**
+   * Second login step: exchange a challenge token plus a TOTP or recovery
+   * code for the normal token pair. For enrollment challenges the code
+   * confirms the pending secret and the new recovery codes are returned.
+   */
+  async loginWithTwoFactor(
+    dto: TwoFactorLoginDto,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<AuthTokens & { recoveryCodes?: string[] }> {
+    const challenge = this.twoFactorService.verifyChallenge(dto.challengeToken);
+
+    const user = await this.usersService.findOne(challenge.sub);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    await this.loginThrottleService.assertNotLocked(user.email, ipAddress);
+
+    let recoveryCodes: string[] | undefined;
+    try {
+      if (challenge.purpose === '2fa-enroll') {
+        if (!dto.code) {
+          throw new UnauthorizedException('Invalid two-factor code');
+        }
+        recoveryCodes = await this.twoFactorService.confirmEnrollment(
+          challenge.sub,
+          dto.code,
+        );
+      } else {
+        await this.twoFactorService.verify(
+          challenge.sub,
+          dto.code,
+          dto.recoveryCode,
+        );
+      }
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        await this.loginThrottleService.registerFailure(
+          user.email,
+          ipAddress,
+          user,
+        );
+      }
+      throw error;
+    }
+
+    const tokens = await this.createSessionTokens(
+      user,
+      ipAddress,
+      userAgent,
+      undefined,
+      challenge.rememberMe,
+    );
+    return { ...tokens, recoveryCodes };
+  }
+
+  /**
+   * Issue the usual session for a user already authenticated by an external
+   * identity provider. Password, lockout and TOTP checks are the IdP's job.
+   */
+  async loginWithExternalIdentity(
+    userId: number,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<AuthTokens> {
+    const user = await this.usersService.findOne(userId);
+    if (!user) throw new UnauthorizedException('Invalid credentials');
+
+    if (!user.isActive) {
+      throw new UnauthorizedException(
+        'Your account has been deactivated. Please contact your administrator.',
+      );
+    }
+
+    if (this.emailVerificationService.isVerificationRequired(user)) {
+      throw new UnauthorizedException(
+        'Please verify your email address before logging in.',
+      );
+    }
+
+    return this.createSessionTokens(user, ipAddress, userAgent);
+  }
+
+  // Create a Sessions row and the access/refresh pair bound to it
+  private async createSessionTokens(
+    user: UserWithRoles,
+    ipAddress?: string,
+    userAgent?: string,
+    impersonation?: Impersonation,
+    rememberMe = false,
+  ): Promise<AuthTokens> {
     // Generate temporary refresh token for session creation
     const tempRefreshToken = this.jwtService.sign(
       { sub: user.id },
@@ -91,10 +296,23 @@ export class AuthService {
       tempRefreshToken,
       ipAddress,
       userAgent,
+      impersonation,
+      rememberMe,
     );
 
+    // Remember-me refresh tokens have to last through idle periods
+    const refreshExpiresIn = rememberMe
+      ? (await this.sessionsService.getPolicyForUser(user.id))
+          .rememberMeLifetimeMinutes * 60
+      : undefined;
+
     // Generate tokens with sessionId included
-    const tokens = this.generateTokens(user, session.id);
+    const tokens = this.generateTokens(
+      user,
+      session.id,
+      impersonation,
+      refreshExpiresIn,
+    );
 
     // Update the session with the final refresh token hash
     await this.sessionsService.updateSessionToken(
@@ -102,24 +320,248 @@ export class AuthService {
       tokens.refreshToken,
     );
 
+    // Alert the user about logins from unfamiliar devices, without holding
+    // up the login
+    if (!impersonation) {
+      void this.loginAlertService
+        .inspectLogin(user, session)
+        .catch((error) => console.error('Failed to inspect login:', error));
+    }
+
     return tokens;
   }
 
-  async refresh(userId: number, refreshToken: string) {
-    // Validate session exists and is valid
-    const session = await this.sessionsService.validateSession(
-      userId,
-      refreshToken,
+  /**
+   * Exchange a refresh token for a new access/refresh token pair.
+   *
+   * Every call rotates the session's refresh token. Presenting a token that
+   * was already rotated is treated as theft and kills the whole session.
+   */
+  async refresh(
+    userId: number,
+    refreshToken: string,
+    sessionId?: number | null,
+    ctx?: RequestContext,
+  ) {
+    // Tokens issued before sessionId was embedded fall back to hash lookup
+    const session = sessionId
+      ? await this.sessionsService.getSessionById(sessionId)
+      : await this.sessionsService.validateSession(userId, refreshToken);
+    if (!session || session.userId !== userId || !session.isValid) {
+      throw new UnauthorizedException('Session expired or invalid');
+    }
+
+    // Idle timeout, absolute lifetime and impersonation end
+    const expiry = await this.sessionsService.getSessionExpiry(session);
+    const remaining = Math.floor(
+      (expiry.expiresAt.getTime() - Date.now()) / 1000,
     );
-    if (!session) {
+    if (remaining <= 0) {
+      await this.sessionsService.expireSession(session);
       throw new UnauthorizedException('Session expired or invalid');
     }
 
     const user = await this.usersService.findOne(userId);
     if (!user) throw new UnauthorizedException();
 
-    // Include sessionId in refreshed tokens
-    return this.generateTokens(user, session.id);
+    // Include sessionId (and the impersonation, if any) in refreshed tokens
+    const tokens = this.generateTokens(
+      user,
+      session.id,
+      session.impersonatorId && session.expiresAt
+        ? {
+            impersonatorId: session.impersonatorId,
+            expiresAt: session.expiresAt,
+          }
+        : undefined,
+      session.rememberMe ? remaining : undefined,
+    );
+
+    // Only succeeds if the presented token is still the session's current one
+    const rotated = await this.sessionsService.rotateSessionToken(
+      session.id,
+      refreshToken,
+      tokens.refreshToken,
+    );
+    if (!rotated) {
+      await this.handleRefreshTokenReuse(session, user, ctx);
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+
+    return tokens;
+  }
+
+  // An already-rotated refresh token was replayed: revoke the token family
+  private async handleRefreshTokenReuse(
+    session: Sessions,
+    user: UserWithRoles,
+    ctx?: RequestContext,
+  ) {
+    await this.sessionsService.invalidateSessionById(session.id);
+
+    this.notificationsGateway.emitSessionExpired(
+      [session.id],
+      'revoked',
+      'Your session was terminated for security reasons. Please log in again.',
+    );
+
+    await this.activityLogsService.logEvent({
+      userId: user.id,
+      username: user.email,
+      companyId: user.company?.id,
+      ipAddress: ctx?.ipAddress || '',
+      api: ctx?.api || '',
+      method: ctx?.method || '',
+      reason: 'REFRESH_TOKEN_REUSE',
+    });
+  }
+
+  /**
+   * Clear a login lockout. Company admins may only unlock users of their
+   * own company; IP lockouts can only be cleared by a super admin.
+   */
+  async unlockLogin(dto: UnlockAccountDto, performer: AuthUser) {
+    const roles = (performer.roles || []).map((r) =>
+      String(r).toLowerCase().trim(),
+    );
+    const isSuperAdmin = roles.includes('super_admin');
+
+    if (!dto.email && !dto.ipAddress) {
+      throw new BadRequestException('Provide an email or an IP address');
+    }
+
+    if (dto.ipAddress && !isSuperAdmin) {
+      throw new ForbiddenException('Only super admins can unlock IP addresses');
+    }
+
+    if (dto.email && !isSuperAdmin) {
+      const user = await this.usersService.findByEmail(dto.email);
+      if (!user || user.company?.id !== performer.companyId) {
+        throw new ForbiddenException(
+          'Not allowed to unlock users of another company',
+        );
+      }
+    }
+
+    const removed = await this.loginThrottleService.unlock(dto);
+    return { unlocked: removed > 0 };
+  }
+
+  /**
+   * Start a time-boxed session as another user for support. Only
+   * super_admin may impersonate, never another super_admin, and never from
+   * within an impersonated session. Start is logged and announced to the
+   * target's company.
+   */
+  async impersonate(
+    performer: AuthUser,
+    targetUserId: number,
+    dto: ImpersonateDto,
+    userAgent?: string,
+    ctx?: RequestContext,
+  ): Promise<AuthTokens & { expiresAt: Date }> {
+    const roles = (performer.roles || []).map((r) =>
+      String(r).toLowerCase().trim(),
+    );
+    if (!roles.includes('super_admin')) {
+      throw new ForbiddenException('Only super admins can impersonate users');
+    }
+    if (performer.impersonatorId) {
+      throw new ForbiddenException('Not allowed while impersonating');
+    }
+    if (targetUserId === performer.id) {
+      throw new BadRequestException('Cannot impersonate yourself');
+    }
+
+    const user = await this.usersService.findOne(targetUserId);
+    if (!user || user.isDeleted) {
+      throw new NotFoundException('User not found');
+    }
+    if (!user.isActive) {
+      throw new BadRequestException('Cannot impersonate a deactivated user');
+    }
+    const targetRoles = [
+      user.role?.slug,
+      ...((user.userRoles || []) as UserRole[]).map((r) => r.role.slug),
+    ].map((r) => String(r).toLowerCase().trim());
+    if (targetRoles.includes('super_admin')) {
+      throw new ForbiddenException('Cannot impersonate a super admin');
+    }
+
+    const minutes = dto.durationMinutes ?? DEFAULT_IMPERSONATION_MINUTES;
+    const expiresAt = new Date(Date.now() + minutes * 60 * 1000);
+    const tokens = await this.createSessionTokens(
+      user,
+      ctx?.ipAddress,
+      userAgent,
+      { impersonatorId: performer.id, expiresAt },
+    );
+
+    const companyId = user.company?.id;
+    await this.activityLogsService.logEvent({
+      userId: performer.id,
+      username: performer.email,
+      companyId,
+      ipAddress: ctx?.ipAddress || '',
+      api: ctx?.api || '',
+      method: ctx?.method || '',
+      reason: 'IMPERSONATION_START',
+      action: 'auth.impersonation.start',
+      entityType: 'user',
+      entityId: String(user.id),
+      changes: {
+        reason: { from: null, to: dto.reason },
+        expiresAt: { from: null, to: expiresAt.toISOString() },
+      },
+    });
+
+    if (companyId) {
+      void this.notificationsGateway.emitNotification({
+        companyId,
+        type: 'user:impersonation_started',
+        title: 'Impersonation Started',
+        message: `Support user "${performer.email}" is acting as "${user.email}" for ${minutes} minutes`,
+        data: {
+          userId: user.id,
+          impersonatorId: performer.id,
+          reason: dto.reason,
+          expiresAt,
+        },
+        actorId: performer.id,
+        actorEmail: performer.email,
+        audience: { adminsOnly: true },
+      });
+    }
+
+    return { ...tokens, expiresAt };
+  }
+
+  /**
+   * End the current impersonated session and log it on behalf of the
+   * impersonator.
+   */
+  async stopImpersonation(performer: AuthUser, ctx?: RequestContext) {
+    if (!performer.impersonatorId || !performer.sessionId) {
+      throw new BadRequestException('Not impersonating');
+    }
+
+    await this.sessionsService.invalidateSessionById(performer.sessionId);
+
+    const impersonator = await this.usersService.findOne(
+      performer.impersonatorId,
+    );
+    await this.activityLogsService.logEvent({
+      userId: performer.impersonatorId,
+      username: impersonator?.email,
+      companyId: performer.companyId,
+      ipAddress: ctx?.ipAddress || '',
+      api: ctx?.api || '',
+      method: ctx?.method || '',
+      reason: 'IMPERSONATION_STOP',
+      action: 'auth.impersonation.stop',
+      entityType: 'user',
+      entityId: String(performer.id),
+    });
   }
 
   async logout(userId: number, refreshToken: string) {
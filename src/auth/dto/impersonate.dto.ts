@@ -0,0 +1,28 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+
+export class ImpersonateDto {
+  @ApiProperty({
+    example: 'Ticket #4211: user cannot see the payroll report',
+    description: 'Why support needs to act as the user; kept in the audit log',
+  })
+  @IsString()
+  @MinLength(5)
+  @MaxLength(500)
+  reason: string;
+
+  @ApiPropertyOptional({ example: 30, minimum: 5, maximum: 60 })
+  @IsOptional()
+  @IsInt()
+  @Min(5)
+  @Max(60)
+  durationMinutes?: number;
+}
@@ -0,0 +1,8 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString } from 'class-validator';
+
+export class RevokeAlertedLoginDto {
+  @ApiProperty({ example: 'eyJhbGciOi...' })
+  @IsString()
+  token: string;
+}
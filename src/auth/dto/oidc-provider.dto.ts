@@ -0,0 +1,71 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+
+export class UpsertOidcProviderDto {
+  @ApiProperty({ example: 'https://login.example.com/realms/acme' })
+  @IsUrl({ require_tld: false, require_protocol: true })
+  @MaxLength(500)
+  issuer: string;
+
+  @ApiProperty({ example: 'nest-auth' })
+  @IsString()
+  @MaxLength(255)
+  clientId: string;
+
+  @ApiPropertyOptional({
+    description: 'Omit to keep the stored secret; empty string clears it',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  clientSecret?: string;
+
+  @ApiPropertyOptional({ example: 'openid email profile' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  scopes?: string;
+
+  @ApiPropertyOptional({ example: 'groups' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  roleClaim?: string;
+
+  @ApiPropertyOptional({
+    example: { 'acme-admins': 'company_admin', 'acme-leads': 'manager' },
+    description: 'Claim value -> role slug; the first match wins',
+  })
+  @IsOptional()
+  @IsObject()
+  roleMapping?: Record<string, string>;
+
+  @ApiPropertyOptional({ example: 'user' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  defaultRole?: string;
+
+  @ApiPropertyOptional({ example: false })
+  @IsOptional()
+  @IsBoolean()
+  autoProvision?: boolean;
+
+  @ApiPropertyOptional({ example: 4 })
+  @IsOptional()
+  @IsInt()
+  defaultDepartmentId?: number;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, MinLength } from 'class-validator';
+
+export class ResetPasswordDto {
+  @ApiProperty({ example: '3f2a...' })
+  @IsString()
+  token: string;
+
+  @ApiProperty({ example: '12345678' })
+  @IsString()
+  @MinLength(8)
+  password: string;
+}
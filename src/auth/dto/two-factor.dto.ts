@@ -0,0 +1,27 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, Matches } from 'class-validator';
+
+export class TwoFactorCodeDto {
+  @ApiProperty({ example: '123456' })
+  @IsString()
+  @Matches(/^\d{6}$/, { message: 'code must be a 6-digit number' })
+  code: string;
+}
+
+export class TwoFactorChallengeDto {
+  @ApiProperty({ example: 'eyJhbGciOi...' })
+  @IsString()
+  challengeToken: string;
+}
+
+export class TwoFactorLoginDto extends TwoFactorChallengeDto {
+  @ApiPropertyOptional({ example: '123456' })
+  @IsOptional()
+  @Matches(/^\d{6}$/, { message: 'code must be a 6-digit number' })
+  code?: string;
+
+  @ApiPropertyOptional({ example: 'a1b2-c3d4' })
+  @IsOptional()
+  @IsString()
+  recoveryCode?: string;
+}
@@ -0,0 +1,14 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEmail, IsIP, IsOptional } from 'class-validator';
+
+export class UnlockAccountDto {
+  @ApiPropertyOptional({ example: 'test@gmail.com' })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiPropertyOptional({ example: '203.0.113.7' })
+  @IsOptional()
+  @IsIP()
+  ipAddress?: string;
+}
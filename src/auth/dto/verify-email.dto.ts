@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsString } from 'class-validator';
+
+export class VerifyEmailDto {
+  @ApiProperty({ example: 'eyJhbGciOi...' })
+  @IsString()
+  token: string;
+}
+
+export class ResendVerificationDto {
+  @ApiProperty({ example: 'test@gmail.com' })
+  @IsEmail()
+  email: string;
+}
@@ -0,0 +1,5 @@
+// Support admin acting as another user until expiresAt
+export interface Impersonation {
+  impersonatorId: number;
+  expiresAt: Date;
+}
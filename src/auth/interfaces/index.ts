@@ -1 +1,5 @@
 export * from './user-roles.interface';
+export * from './two-factor.interface';
+export * from './oidc.interface';
+export * from './impersonation.interface';
+export * from './login-alert.interface';
@@ -0,0 +1,14 @@
+// Signed into the "this wasn't me" link of a login alert
+export interface LoginAlertTokenPayload {
+  sub: number;
+  sessionId: number;
+  purpose: 'login-alert';
+}
+
+export interface LoginAssessment {
+  // Browser/OS family and network never seen for this user before
+  newDevice: boolean;
+  // Distinct IPs the user logged in from within the window, this one included
+  distinctIps: number;
+  manyIps: boolean;
+}
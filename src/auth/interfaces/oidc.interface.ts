@@ -0,0 +1,61 @@
+// Subset of the OpenID Provider metadata we rely on
+export interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+export interface OidcJwk {
+  kid?: string;
+  kty: string;
+  alg?: string;
+  use?: string;
+  [key: string]: unknown;
+}
+
+export interface OidcTokenResponse {
+  id_token?: string;
+  access_token?: string;
+  token_type?: string;
+  error?: string;
+  error_description?: string;
+}
+
+export interface OidcIdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat?: number;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+  [claim: string]: unknown;
+}
+
+// Stored in Redis between the redirect to the IdP and the callback
+export interface OidcLoginState {
+  companyId: number;
+  nonce: string;
+  codeVerifier: string;
+  returnTo: string;
+}
+
+export interface OidcProviderSummary {
+  companyId: number;
+  issuer: string;
+  clientId: string;
+  hasClientSecret: boolean;
+  scopes: string;
+  roleClaim: string | null;
+  roleMapping: Record<string, string> | null;
+  defaultRole: string;
+  autoProvision: boolean;
+  defaultDepartmentId: number | null;
+  enabled: boolean;
+}
@@ -0,0 +1,26 @@
+export type TwoFactorChallengePurpose = '2fa-login' | '2fa-enroll';
+
+export interface TwoFactorChallengePayload {
+  sub: number;
+  purpose: TwoFactorChallengePurpose;
+  // Carried over from the password step to the session
+  rememberMe?: boolean;
+}
+
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  enrollmentRequired: boolean;
+  challengeToken: string;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export type LoginResult = AuthTokens | TwoFactorChallenge;
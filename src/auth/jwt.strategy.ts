@@ -13,6 +13,9 @@ const ExtractJwt = ExtractJwtOriginal as {
   fromAuthHeaderAsBearerToken: () => JwtExtractor;
 };
 import { UserService } from 'src/users/users.service';
+import { EmailVerificationService } from 'src/users/email-verification.service';
+import { PermissionsService } from 'src/permissions/permissions.service';
+import { SessionsService } from 'src/sessions/sessions.service';
 import { AuthUser } from 'src/common/interfaces/auth-user.interface';
 import type { Request } from 'express';
 
@@ -22,6 +25,10 @@ interface JwtPayload {
   companyId?: number;
   departmentId?: number;
   roles?: string[];
+  purpose?: string;
+  clientId?: string;
+  sessionId?: number | null;
+  impersonatorId?: number;
   iat?: number;
   exp?: number;
 }
@@ -45,6 +52,9 @@ const PassportJwtStrategy = PassportStrategy(Strategy) as new (
 export class JwtStrategy extends PassportJwtStrategy {
   constructor(
     private readonly userService: UserService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly permissionsService: PermissionsService,
+    private readonly sessionsService: SessionsService,
     configService: ConfigService,
   ) {
     const jwtSecret = configService.get<string>('JWT_SECRET');
@@ -62,6 +72,27 @@ export class JwtStrategy extends PassportJwtStrategy {
   }
 
   async validate(payload: JwtPayload): Promise<AuthUser | null> {
+    // Purpose-bound tokens (e.g. 2FA challenges) are never access tokens,
+    // and delegated OAuth tokens go through the `oauth` strategy instead
+    if (payload.purpose || payload.clientId) return null;
+
+    // Impersonation must end the moment it is stopped or its time is up,
+    // not when the access token happens to expire
+    if (payload.impersonatorId) {
+      const session = payload.sessionId
+        ? await this.sessionsService.getSessionById(payload.sessionId)
+        : null;
+      if (
+        !session?.isValid ||
+        session.userId !== payload.sub ||
+        session.impersonatorId !== payload.impersonatorId ||
+        !session.expiresAt ||
+        session.expiresAt.getTime() <= Date.now()
+      ) {
+        return null;
+      }
+    }
+
     // ALWAYS fetch fresh roles from DB to handle role updates
     // This ensures users get new permissions immediately after role changes
     const dbUser = await this.userService.findOne(payload.sub);
@@ -73,12 +104,33 @@ export class JwtStrategy extends PassportJwtStrategy {
       return null;
     }
 
+    // Company (or global) policy may require a verified email address
+    if (this.emailVerificationService.isVerificationRequired(dbUser)) {
+      console.log('JwtStrategy: rejected unverified email', {
+        sub: payload.sub,
+      });
+      return null;
+    }
+
+    // Requests count as activity for the session idle timeout
+    if (payload.sessionId) {
+      await this.sessionsService.touchSession(payload.sessionId);
+    }
+
     // Get all roles: primary role + additional roles from userRoles
     const userRoles = (dbUser.userRoles || []) as UserRole[];
     const roles = [dbUser.role?.slug, ...userRoles.map((r) => r.role.slug)]
       .filter((r): r is string => Boolean(r))
       .map((r) => r.toLowerCase().trim());
 
+    // Resolve permissions once per request for PermissionsGuard
+    const roleIds = [
+      dbUser.role?.id,
+      ...(dbUser.userRoles || []).map((ur) => ur.role?.id),
+    ].filter((id): id is number => Boolean(id));
+    const permissions =
+      await this.permissionsService.findSlugsForRoles(roleIds);
+
     // Normalize and return a lightweight AuthUser for guards/controllers
     const normalized: AuthUser = {
       id: payload.sub,
@@ -87,6 +139,10 @@ export class JwtStrategy extends PassportJwtStrategy {
       companyId: dbUser.company?.id ?? payload.companyId,
       departmentId: dbUser.department?.id ?? payload.departmentId,
       roles,
+      permissions,
+      emailVerified: Boolean(dbUser.emailVerifiedAt),
+      sessionId: payload.sessionId ?? undefined,
+      impersonatorId: payload.impersonatorId,
     };
 
     console.log('JwtStrategy: validated user', {
@@ -0,0 +1,216 @@
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { IsNull, Repository } from 'typeorm';
+import { LoginAlertService } from './login-alert.service';
+import { Sessions } from '../entities/entities/Sessions';
+import { Users } from '../entities/entities/Users';
+import { SessionsService } from '../sessions/sessions.service';
+import { NotificationsGateway } from '../notifications/notifications.gateway';
+import { MailService } from '../mail/mail.service';
+import { ActivityLogsService } from '../activity-logs/activity-logs.service';
+
+describe('LoginAlertService', () => {
+  const user = {
+    id: 7,
+    email: 'u@test.com',
+    company: { id: 3 },
+  } as Users;
+  const session = {
+    id: 21,
+    userId: 7,
+    ipAddress: '198.51.100.4',
+    userAgent: 'Mozilla/5.0 Firefox/120.0',
+    deviceFingerprint: 'fp-new',
+    loginAt: new Date(),
+    isValid: true,
+  } as Sessions;
+
+  const createService = (history: {
+    previous: number;
+    sameDevice: number;
+    recentIps?: string[];
+  }) => {
+    const sessionsRepo = {
+      count: jest.fn(({ where }: { where: { deviceFingerprint?: string } }) =>
+        Promise.resolve(
+          where.deviceFingerprint ? history.sameDevice : history.previous,
+        ),
+      ),
+      find: jest
+        .fn()
+        .mockResolvedValue(
+          (history.recentIps ?? []).map((ipAddress) => ({ ipAddress })),
+        ),
+      findOne: jest.fn().mockResolvedValue({ ...session, user }),
+    };
+    const sessionsService = {
+      invalidateSessionById: jest.fn().mockResolvedValue(session),
+    };
+    const gateway = {
+      parseUserAgent: jest
+        .fn()
+        .mockReturnValue({ browser: 'Firefox 120', os: 'Linux' }),
+      emitNotification: jest.fn().mockResolvedValue(undefined),
+      emitSessionExpired: jest.fn().mockReturnValue(1),
+      forceDisconnectSession: jest.fn().mockResolvedValue(1),
+    };
+    const mailService = {
+      send: jest.fn().mockResolvedValue(undefined),
+      buildFrontendUrl: jest.fn(
+        (path: string, params: Record<string, string>) =>
+          `http://app.test${path}?token=${params.token}`,
+      ),
+    };
+    const activityLogsService = {
+      logEvent: jest.fn().mockResolvedValue(undefined),
+    };
+    const jwtService = new JwtService({ secret: 'test-secret' });
+
+    const service = new LoginAlertService(
+      sessionsRepo as unknown as Repository<Sessions>,
+      sessionsService as unknown as SessionsService,
+      gateway as unknown as NotificationsGateway,
+      mailService as unknown as MailService,
+      activityLogsService as unknown as ActivityLogsService,
+      jwtService,
+      {
+        get: jest.fn((_key: string, fallback?: unknown) => fallback),
+      } as unknown as ConfigService,
+    );
+    return {
+      service,
+      sessionsRepo,
+      sessionsService,
+      gateway,
+      mailService,
+      activityLogsService,
+      jwtService,
+    };
+  };
+
+  it('stays quiet on the very first login', async () => {
+    const { service, activityLogsService, mailService } = createService({
+      previous: 0,
+      sameDevice: 0,
+    });
+
+    await service.inspectLogin(user, session);
+
+    expect(activityLogsService.logEvent).not.toHaveBeenCalled();
+    expect(mailService.send).not.toHaveBeenCalled();
+  });
+
+  it('stays quiet on a known device', async () => {
+    const { service, activityLogsService } = createService({
+      previous: 4,
+      sameDevice: 2,
+      recentIps: ['198.51.100.4'],
+    });
+
+    await service.inspectLogin(user, session);
+
+    expect(activityLogsService.logEvent).not.toHaveBeenCalled();
+  });
+
+  it('ignores sessions opened by impersonating admins', async () => {
+    const { service, sessionsRepo } = createService({
+      previous: 4,
+      sameDevice: 2,
+    });
+
+    await service.assess(session);
+
+    for (const [{ where }] of [
+      ...sessionsRepo.count.mock.calls,
+      ...sessionsRepo.find.mock.calls,
+    ] as [{ where: object }][]) {
+      expect(where).toEqual(
+        expect.objectContaining({ impersonatorId: IsNull() }),
+      );
+    }
+  });
+
+  it('alerts the user about a never-seen device', async () => {
+    const { service, activityLogsService, gateway, mailService } =
+      createService({ previous: 4, sameDevice: 0 });
+
+    await service.inspectLogin(user, session);
+
+    expect(activityLogsService.logEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 7,
+        reason: 'NEW_DEVICE_LOGIN',
+        entityId: '21',
+      }),
+    );
+    expect(gateway.emitNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        companyId: 3,
+        audience: { userIds: [7] },
+        type: 'security:login_alert',
+      }),
+    );
+    expect(mailService.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'u@test.com',
+        text: expect.stringContaining('/security/not-me?token='),
+      }),
+    );
+  });
+
+  it('flags logins from many distinct IPs in a short window', async () => {
+    const { service, activityLogsService } = createService({
+      previous: 4,
+      sameDevice: 2,
+      recentIps: ['203.0.113.1', '203.0.113.2', '192.0.2.9'],
+    });
+
+    await service.inspectLogin(user, session);
+
+    expect(activityLogsService.logEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: 'UNUSUAL_LOGIN' }),
+    );
+  });
+
+  it('signs out the alerted session from the email link', async () => {
+    const {
+      service,
+      sessionsService,
+      gateway,
+      activityLogsService,
+      jwtService,
+    } = createService({ previous: 4, sameDevice: 0 });
+    const token = jwtService.sign({
+      sub: 7,
+      sessionId: 21,
+      purpose: 'login-alert',
+    });
+
+    await expect(service.revokeAlertedSession(token)).resolves.toEqual({
+      sessionId: 21,
+    });
+    expect(sessionsService.invalidateSessionById).toHaveBeenCalledWith(21);
+    expect(gateway.forceDisconnectSession).toHaveBeenCalledWith(
+      21,
+      7,
+      3,
+      'Session revoked by user',
+    );
+    expect(activityLogsService.logEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: 'LOGIN_DISPUTED' }),
+    );
+  });
+
+  it('rejects tokens issued for another purpose', async () => {
+    const { service, jwtService, sessionsService } = createService({
+      previous: 4,
+      sameDevice: 0,
+    });
+    const token = jwtService.sign({ sub: 7, purpose: '2fa-login' });
+
+    await expect(service.revokeAlertedSession(token)).rejects.toThrow(
+      'Invalid or expired link',
+    );
+    expect(sessionsService.invalidateSessionById).not.toHaveBeenCalled();
+  });
+});
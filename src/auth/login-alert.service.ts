@@ -0,0 +1,222 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Not, Repository } from 'typeorm';
+import { Sessions } from '../entities/entities/Sessions';
+import { Users } from '../entities/entities/Users';
+import { SessionsService } from '../sessions/sessions.service';
+import { NotificationsGateway } from '../notifications/notifications.gateway';
+import { MailService } from '../mail/mail.service';
+import { ActivityLogsService } from '../activity-logs/activity-logs.service';
+import { RequestContext } from '../common/interfaces/request-context.interface';
+import { LoginAlertTokenPayload, LoginAssessment } from './interfaces';
+
+@Injectable()
+export class LoginAlertService {
+  private readonly logger = new Logger(LoginAlertService.name);
+
+  constructor(
+    @InjectRepository(Sessions)
+    private readonly sessionsRepo: Repository<Sessions>,
+    private readonly sessionsService: SessionsService,
+    private readonly notificationsGateway: NotificationsGateway,
+    private readonly mailService: MailService,
+    private readonly activityLogsService: ActivityLogsService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  private getNumber(name: string, fallback: number): number {
+    return Number(this.configService.get(name, fallback));
+  }
+
+  /**
+   * Compare a new session against the user's login history
+   */
+  async assess(session: Sessions): Promise<LoginAssessment> {
+    // Sessions opened by impersonating admins are not the user's devices
+    const previous = {
+      userId: session.userId,
+      id: Not(session.id),
+      impersonatorId: IsNull(),
+    };
+
+    // A first login has nothing to compare against
+    const hasHistory = (await this.sessionsRepo.count({ where: previous })) > 0;
+    const knownDevice =
+      (await this.sessionsRepo.count({
+        where: { ...previous, deviceFingerprint: session.deviceFingerprint },
+      })) > 0;
+
+    const windowMinutes = this.getNumber('LOGIN_ALERT_IP_WINDOW_MINUTES', 60);
+    const recent = await this.sessionsRepo.find({
+      where: {
+        ...previous,
+        loginAt: MoreThan(new Date(Date.now() - windowMinutes * 60 * 1000)),
+      },
+      select: ['ipAddress'],
+    });
+    const distinctIps = new Set(
+      [...recent.map((s) => s.ipAddress), session.ipAddress].filter(Boolean),
+    ).size;
+
+    return {
+      newDevice: hasHistory && !knownDevice,
+      distinctIps,
+      manyIps: distinctIps > this.getNumber('LOGIN_ALERT_MAX_IPS', 3),
+    };
+  }
+
+  /**
+   * Check a fresh login and, when it looks unfamiliar, record a security
+   * event and alert the user in-app and by email. Never fails the login.
+   */
+  async inspectLogin(user: Users, session: Sessions): Promise<void> {
+    try {
+      const assessment = await this.assess(session);
+      if (!assessment.newDevice && !assessment.manyIps) return;
+
+      await this.alert(user, session, assessment);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(
+        `Login check failed for session ${session.id}: ${message}`,
+      );
+    }
+  }
+
+  private async alert(
+    user: Users,
+    session: Sessions,
+    assessment: LoginAssessment,
+  ): Promise<void> {
+    const { browser, os } = this.notificationsGateway.parseUserAgent(
+      session.userAgent,
+    );
+    const ipAddress = session.ipAddress || 'unknown IP';
+    const companyId = user.company?.id;
+
+    await this.activityLogsService.logEvent({
+      userId: user.id,
+      username: user.email,
+      companyId,
+      ipAddress: session.ipAddress || '',
+      api: '',
+      method: '',
+      reason: assessment.newDevice ? 'NEW_DEVICE_LOGIN' : 'UNUSUAL_LOGIN',
+      action: 'auth.login.alert',
+      entityType: 'session',
+      entityId: String(session.id),
+      changes: {
+        device: { from: null, to: `${browser} on ${os}` },
+        distinctIps: { from: null, to: assessment.distinctIps },
+      },
+    });
+
+    const message = assessment.newDevice
+      ? `New sign-in from ${browser} on ${os} (${ipAddress})`
+      : `Sign-in from ${assessment.distinctIps} different IP addresses recently, latest ${ipAddress} (${browser} on ${os})`;
+
+    if (companyId) {
+      void this.notificationsGateway.emitNotification({
+        companyId,
+        audience: { userIds: [user.id] },
+        type: 'security:login_alert',
+        title: 'New sign-in to your account',
+        message,
+        data: {
+          sessionId: session.id,
+          browser,
+          os,
+          ipAddress: session.ipAddress,
+          newDevice: assessment.newDevice,
+        },
+      });
+    }
+
+    if (
+      this.configService.get<string>('LOGIN_ALERT_EMAILS', 'true') !== 'true'
+    ) {
+      return;
+    }
+
+    const ttlHours = this.getNumber('LOGIN_ALERT_LINK_TTL_HOURS', 72);
+    const payload: LoginAlertTokenPayload = {
+      sub: user.id,
+      sessionId: session.id,
+      purpose: 'login-alert',
+    };
+    const revokeUrl = this.mailService.buildFrontendUrl('/security/not-me', {
+      token: this.jwtService.sign(payload, { expiresIn: ttlHours * 60 * 60 }),
+    });
+
+    try {
+      await this.mailService.send({
+        to: user.email,
+        subject: 'New sign-in to your account',
+        text: `${message} at ${session.loginAt.toISOString()}.\n\nIf this was you, you can ignore this email.\n\nIf this wasn't you, open the link below to sign that device out, then change your password:\n${revokeUrl}`,
+      });
+    } catch {
+      // Already logged by MailService; the in-app alert still went out
+    }
+  }
+
+  /**
+   * "This wasn't me": end the session a login alert was sent for
+   */
+  async revokeAlertedSession(
+    token: string,
+    ctx?: RequestContext,
+  ): Promise<{ sessionId: number }> {
+    let payload: LoginAlertTokenPayload;
+    try {
+      payload = this.jwtService.verify<LoginAlertTokenPayload>(token);
+    } catch {
+      throw new BadRequestException('Invalid or expired link');
+    }
+    if (payload.purpose !== 'login-alert' || !payload.sessionId) {
+      throw new BadRequestException('Invalid or expired link');
+    }
+
+    const session = await this.sessionsRepo.findOne({
+      where: { id: payload.sessionId },
+      relations: ['user', 'user.company'],
+    });
+    if (!session || session.userId !== payload.sub) {
+      throw new BadRequestException('Invalid or expired link');
+    }
+
+    // Following the link twice is harmless
+    if (!session.isValid) return { sessionId: session.id };
+
+    this.notificationsGateway.emitSessionExpired(
+      [session.id],
+      'revoked',
+      'This session was signed out by the account owner.',
+    );
+    await this.sessionsService.invalidateSessionById(session.id);
+    const companyId = session.user?.company?.id;
+    await this.notificationsGateway.forceDisconnectSession(
+      session.id,
+      session.userId,
+      companyId,
+      'Session revoked by user',
+    );
+
+    await this.activityLogsService.logEvent({
+      userId: session.userId,
+      username: session.user?.email,
+      companyId,
+      ipAddress: ctx?.ipAddress || '',
+      api: ctx?.api || '',
+      method: ctx?.method || '',
+      reason: 'LOGIN_DISPUTED',
+      action: 'auth.login.disputed',
+      entityType: 'session',
+      entityId: String(session.id),
+    });
+
+    return { sessionId: session.id };
+  }
+}
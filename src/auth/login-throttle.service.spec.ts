@@ -0,0 +1,99 @@
+import { ConfigService } from '@nestjs/config';
+import type Redis from 'ioredis';
+import { LoginThrottleService } from './login-throttle.service';
+import { ActivityLogsService } from '../activity-logs/activity-logs.service';
+
+describe('LoginThrottleService', () => {
+  // Minimal in-memory stand-in for the Redis commands the service uses
+  const createMockDependencies = () => {
+    const store = new Map<string, number>();
+    const ttls = new Map<string, number>();
+    const redis = {
+      incr: jest.fn((key: string) => {
+        const value = (store.get(key) ?? 0) + 1;
+        store.set(key, value);
+        return Promise.resolve(value);
+      }),
+      expire: jest.fn(),
+      get: jest.fn((key: string) =>
+        Promise.resolve(store.has(key) ? String(store.get(key)) : null),
+      ),
+      set: jest.fn((key: string, _value: string, _ex: string, ttl: number) => {
+        store.set(key, 1);
+        ttls.set(key, ttl);
+        return Promise.resolve('OK');
+      }),
+      ttl: jest.fn((key: string) => Promise.resolve(ttls.get(key) ?? -2)),
+      del: jest.fn((...keys: string[]) => {
+        let removed = 0;
+        for (const key of keys) {
+          if (store.delete(key)) removed++;
+          ttls.delete(key);
+        }
+        return Promise.resolve(removed);
+      }),
+    } as unknown as Redis;
+    const configService = {
+      get: jest.fn((_key: string, fallback: unknown) => fallback),
+    } as unknown as ConfigService;
+    const activityLogsService = {
+      logEvent: jest.fn(),
+    } as unknown as ActivityLogsService;
+
+    const service = new LoginThrottleService(
+      redis,
+      configService,
+      activityLogsService,
+    );
+
+    return { service, activityLogsService };
+  };
+
+  it('locks the email after the maximum number of failures', async () => {
+    const { service, activityLogsService } = createMockDependencies();
+
+    for (let i = 0; i < 5; i++) {
+      await service.registerFailure('U@Test.com', '10.0.0.1', {
+        id: 7,
+        company: { id: 3 },
+      });
+    }
+
+    await expect(service.assertNotLocked('u@test.com')).rejects.toThrow(
+      'Too many failed login attempts',
+    );
+    expect(activityLogsService.logEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        reason: 'LOGIN_LOCKED',
+        userId: 7,
+        companyId: 3,
+      }),
+    );
+  });
+
+  it('does not lock before the limit is reached', async () => {
+    const { service, activityLogsService } = createMockDependencies();
+
+    for (let i = 0; i < 4; i++) {
+      await service.registerFailure('u@test.com', '10.0.0.1');
+    }
+
+    await expect(
+      service.assertNotLocked('u@test.com', '10.0.0.1'),
+    ).resolves.toBeUndefined();
+    expect(activityLogsService.logEvent).not.toHaveBeenCalled();
+  });
+
+  it('clears the lockout on unlock', async () => {
+    const { service } = createMockDependencies();
+
+    for (let i = 0; i < 5; i++) {
+      await service.registerFailure('u@test.com');
+    }
+    await service.unlock({ email: 'u@test.com' });
+
+    await expect(
+      service.assertNotLocked('u@test.com'),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,188 @@
+import {
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type Redis from 'ioredis';
+import { ActivityLogsService } from '../activity-logs/activity-logs.service';
+
+interface ThrottledUser {
+  id: number;
+  company?: { id: number } | null;
+}
+
+@Injectable()
+export class LoginThrottleService {
+  private readonly logger = new Logger(LoginThrottleService.name);
+
+  constructor(
+    @Inject('REDIS_CLIENT')
+    private readonly redis: Redis,
+    private readonly configService: ConfigService,
+    private readonly activityLogsService: ActivityLogsService,
+  ) {}
+
+  // Key format: login:{fail|lock}:{email|ip}:{value}
+  private key(kind: 'fail' | 'lock', scope: 'email' | 'ip', value: string) {
+    return `login:${kind}:${scope}:${value.toLowerCase().trim()}`;
+  }
+
+  private getNumber(name: string, fallback: number): number {
+    return Number(this.configService.get(name, fallback));
+  }
+
+  private get maxAttemptsPerEmail(): number {
+    return this.getNumber('LOGIN_MAX_ATTEMPTS', 5);
+  }
+
+  private get maxAttemptsPerIp(): number {
+    return this.getNumber('LOGIN_MAX_ATTEMPTS_PER_IP', 20);
+  }
+
+  private get attemptWindowSeconds(): number {
+    return this.getNumber('LOGIN_ATTEMPT_WINDOW_MINUTES', 15) * 60;
+  }
+
+  private get lockoutSeconds(): number {
+    return this.getNumber('LOGIN_LOCKOUT_MINUTES', 15) * 60;
+  }
+
+  private tooManyAttempts(ttlSeconds: number): HttpException {
+    const minutes = Math.max(1, Math.ceil(ttlSeconds / 60));
+    return new HttpException(
+      `Too many failed login attempts. Try again in ${minutes} minute${minutes > 1 ? 's' : ''}.`,
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  /**
+   * Reject the attempt up front while the email or IP is locked out
+   */
+  async assertNotLocked(email: string, ipAddress?: string): Promise<void> {
+    const lockKeys = [this.key('lock', 'email', email)];
+    if (ipAddress) lockKeys.push(this.key('lock', 'ip', ipAddress));
+
+    for (const lockKey of lockKeys) {
+      const ttl = await this.redis.ttl(lockKey);
+      if (ttl > 0) {
+        throw this.tooManyAttempts(ttl);
+      }
+    }
+  }
+
+  /**
+   * Slow down repeated failures: 250ms, 500ms, 1s, 2s ... capped at 5s
+   */
+  async applyProgressiveDelay(email: string, ipAddress?: string) {
+    const emailFailures = await this.redis.get(
+      this.key('fail', 'email', email),
+    );
+    const ipFailures = ipAddress
+      ? await this.redis.get(this.key('fail', 'ip', ipAddress))
+      : null;
+
+    const failures = Math.max(
+      parseInt(emailFailures || '0', 10),
+      // IPs get more headroom since many users may share one (NAT, office)
+      Math.floor(parseInt(ipFailures || '0', 10) / 4),
+    );
+    if (failures === 0) return;
+
+    const delayMs = Math.min(250 * 2 ** (failures - 1), 5000);
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+  }
+
+  private async increment(failKey: string): Promise<number> {
+    const count = await this.redis.incr(failKey);
+    if (count === 1) {
+      await this.redis.expire(failKey, this.attemptWindowSeconds);
+    }
+    return count;
+  }
+
+  /**
+   * Count a failed attempt and lock the email and/or IP once over the limit
+   */
+  async registerFailure(
+    email: string,
+    ipAddress?: string,
+    user?: ThrottledUser | null,
+  ): Promise<void> {
+    const emailFailures = await this.increment(
+      this.key('fail', 'email', email),
+    );
+    if (emailFailures >= this.maxAttemptsPerEmail) {
+      await this.lock('email', email, email, ipAddress, user);
+    }
+
+    if (ipAddress) {
+      const ipFailures = await this.increment(
+        this.key('fail', 'ip', ipAddress),
+      );
+      if (ipFailures >= this.maxAttemptsPerIp) {
+        await this.lock('ip', ipAddress, email, ipAddress, user);
+      }
+    }
+  }
+
+  private async lock(
+    scope: 'email' | 'ip',
+    value: string,
+    email: string,
+    ipAddress?: string,
+    user?: ThrottledUser | null,
+  ): Promise<void> {
+    await this.redis.set(
+      this.key('lock', scope, value),
+      '1',
+      'EX',
+      this.lockoutSeconds,
+    );
+    await this.redis.del(this.key('fail', scope, value));
+
+    this.logger.warn(`Login locked for ${scope} ${value}`);
+
+    await this.activityLogsService.logEvent({
+      userId: user?.id,
+      username: email,
+      companyId: user?.company?.id,
+      ipAddress: ipAddress || '',
+      api: '/auth/login',
+      method: 'POST',
+      reason: 'LOGIN_LOCKED',
+    });
+  }
+
+  /**
+   * Forget failures for an email after a successful login
+   */
+  async registerSuccess(email: string): Promise<void> {
+    await this.redis.del(this.key('fail', 'email', email));
+  }
+
+  /**
+   * Remove lockouts and failure counters (admin action)
+   * Returns the number of Redis keys removed
+   */
+  async unlock(target: { email?: string; ipAddress?: string }) {
+    const keys: string[] = [];
+    if (target.email) {
+      keys.push(
+        this.key('lock', 'email', target.email),
+        this.key('fail', 'email', target.email),
+      );
+    }
+    if (target.ipAddress) {
+      keys.push(
+        this.key('lock', 'ip', target.ipAddress),
+        this.key('fail', 'ip', target.ipAddress),
+      );
+    }
+
+    if (keys.length === 0) return 0;
+    return this.redis.del(...keys);
+  }
+}
@@ -0,0 +1,108 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PassportStrategy } from '@nestjs/passport';
+import {
+  Strategy,
+  StrategyOptionsWithoutRequest,
+  ExtractJwt as ExtractJwtOriginal,
+} from 'passport-jwt';
+import type { Request } from 'express';
+import { UserService } from 'src/users/users.service';
+import { EmailVerificationService } from 'src/users/email-verification.service';
+import { PermissionsService } from 'src/permissions/permissions.service';
+import { OAuthService } from 'src/oauth/oauth.service';
+import { OAuthAccessTokenPayload } from 'src/oauth/interfaces';
+import { AuthUser } from 'src/common/interfaces/auth-user.interface';
+
+type JwtExtractor = (req: Request) => string | null;
+const ExtractJwt = ExtractJwtOriginal as {
+  fromAuthHeaderAsBearerToken: () => JwtExtractor;
+};
+
+interface UserRole {
+  role: {
+    id: number;
+    slug: string;
+  };
+}
+
+const PassportOAuthStrategy = PassportStrategy(Strategy, 'oauth') as new (
+  options: StrategyOptionsWithoutRequest,
+) => InstanceType<ReturnType<typeof PassportStrategy>>;
+
+/**
+ * Authenticates delegated access tokens issued by the OAuth2 server. They
+ * are JWTs signed like session tokens, but only accepted as a Bearer header
+ * and only while the token, the client and the consent are still valid.
+ *
+ * The user's permissions are narrowed to the granted scopes, and
+ * super_admin is dropped since it would bypass them. Use as
+ * `AuthGuard(['jwt', 'api-key', 'oauth'])` together with PermissionsGuard;
+ * RolesGuard refuses these principals.
+ */
+@Injectable()
+export class OAuthTokenStrategy extends PassportOAuthStrategy {
+  constructor(
+    private readonly oauthService: OAuthService,
+    private readonly userService: UserService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly permissionsService: PermissionsService,
+    configService: ConfigService,
+  ) {
+    const jwtSecret = configService.get<string>('JWT_SECRET');
+    if (!jwtSecret) {
+      throw new Error('JWT_SECRET environment variable is not set');
+    }
+
+    super({
+      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      secretOrKey: jwtSecret,
+    });
+  }
+
+  async validate(payload: OAuthAccessTokenPayload): Promise<AuthUser | null> {
+    if (!payload.clientId || !payload.jti) return null;
+
+    const token = await this.oauthService.findActiveToken(payload.jti);
+    if (!token || token.client.clientId !== payload.clientId) return null;
+
+    const dbUser = await this.userService.findOne(token.userId);
+    if (!dbUser || !dbUser.isActive) return null;
+    if (this.emailVerificationService.isVerificationRequired(dbUser)) {
+      return null;
+    }
+
+    // Tokens stop working once the user leaves the client's company
+    const companyId = dbUser.company?.id;
+    if (companyId !== token.client.companyId) return null;
+
+    const userRoles = [
+      ...(dbUser.role ? [{ role: dbUser.role }] : []),
+      ...((dbUser.userRoles || []) as UserRole[]),
+    ]
+      .map((ur) => ur.role)
+      .filter((role) => Boolean(role?.slug))
+      .filter((role) => role.slug.toLowerCase().trim() !== 'super_admin');
+    const roles = [
+      ...new Set(userRoles.map((role) => role.slug.toLowerCase().trim())),
+    ];
+
+    const permissions = (
+      await this.permissionsService.findSlugsForRoles(
+        userRoles.map((role) => role.id),
+      )
+    ).filter((p) => token.scopes.includes(p));
+
+    return {
+      id: dbUser.id,
+      sub: dbUser.id,
+      email: dbUser.email,
+      companyId,
+      departmentId: dbUser.department?.id,
+      roles,
+      permissions,
+      emailVerified: Boolean(dbUser.emailVerifiedAt),
+      oauthClientId: token.client.clientId,
+    };
+  }
+}
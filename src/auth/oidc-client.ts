@@ -0,0 +1,117 @@
+import * as crypto from 'crypto';
+import { OidcIdTokenClaims, OidcJwk } from './interfaces';
+
+// Accepted ID token algorithms -> digest and signature encoding
+const ALGORITHMS: Record<string, { hash: string; ecdsa: boolean }> = {
+  RS256: { hash: 'sha256', ecdsa: false },
+  RS384: { hash: 'sha384', ecdsa: false },
+  RS512: { hash: 'sha512', ecdsa: false },
+  ES256: { hash: 'sha256', ecdsa: true },
+  ES384: { hash: 'sha384', ecdsa: true },
+};
+
+// Tolerated clock difference with the IdP
+const CLOCK_SKEW_SECONDS = 60;
+
+export class IdTokenError extends Error {}
+
+/**
+ * PKCE pair (RFC 7636, S256)
+ */
+export function createPkcePair(): {
+  codeVerifier: string;
+  codeChallenge: string;
+} {
+  const codeVerifier = crypto.randomBytes(32).toString('base64url');
+  const codeChallenge = crypto
+    .createHash('sha256')
+    .update(codeVerifier)
+    .digest('base64url');
+  return { codeVerifier, codeChallenge };
+}
+
+function decodeSegment<T>(segment: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+  } catch {
+    throw new IdTokenError('Malformed ID token');
+  }
+}
+
+/**
+ * Key id of an ID token, used to pick (or refresh) the signing key
+ */
+export function getIdTokenKeyId(idToken: string): string | undefined {
+  const header = decodeSegment<{ kid?: string }>(idToken.split('.')[0]);
+  return header.kid;
+}
+
+/**
+ * Verify the signature and the standard claims of an ID token
+ * (OIDC Core 3.1.3.7). Throws IdTokenError when anything does not match.
+ */
+export function verifyIdToken(
+  idToken: string,
+  keys: OidcJwk[],
+  expected: { issuer: string; audience: string; nonce: string },
+): OidcIdTokenClaims {
+  const parts = idToken.split('.');
+  if (parts.length !== 3) throw new IdTokenError('Malformed ID token');
+
+  const header = decodeSegment<{ alg?: string; kid?: string }>(parts[0]);
+  const algorithm = ALGORITHMS[header.alg ?? ''];
+  if (!algorithm) {
+    throw new IdTokenError(`Unsupported ID token algorithm ${header.alg}`);
+  }
+
+  const jwk = keys.find(
+    (k) =>
+      (!header.kid || k.kid === header.kid) &&
+      (!k.use || k.use === 'sig') &&
+      (!k.alg || k.alg === header.alg),
+  );
+  if (!jwk) throw new IdTokenError('No matching signing key');
+
+  // Unusable keys (bad JWK, wrong key type) are a token problem, not a 500
+  let valid: boolean;
+  try {
+    valid = crypto.verify(
+      algorithm.hash,
+      Buffer.from(`${parts[0]}.${parts[1]}`),
+      {
+        key: crypto.createPublicKey({
+          key: jwk as crypto.JsonWebKey,
+          format: 'jwk',
+        }),
+        dsaEncoding: algorithm.ecdsa ? 'ieee-p1363' : undefined,
+      },
+      Buffer.from(parts[2], 'base64url'),
+    );
+  } catch {
+    throw new IdTokenError('Invalid ID token signing key');
+  }
+  if (!valid) throw new IdTokenError('Invalid ID token signature');
+
+  const claims = decodeSegment<OidcIdTokenClaims>(parts[1]);
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== expected.issuer) {
+    throw new IdTokenError('ID token issuer mismatch');
+  }
+  if (!audiences.includes(expected.audience)) {
+    throw new IdTokenError('ID token audience mismatch');
+  }
+  if (audiences.length > 1 && claims.azp !== expected.audience) {
+    throw new IdTokenError('ID token authorized party mismatch');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new IdTokenError('ID token expired');
+  }
+  if (claims.nonce !== expected.nonce) {
+    throw new IdTokenError('ID token nonce mismatch');
+  }
+  if (!claims.sub) throw new IdTokenError('ID token has no subject');
+
+  return claims;
+}
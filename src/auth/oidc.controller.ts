@@ -0,0 +1,189 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Put,
+  Query,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import type { Request, Response } from 'express';
+import { AuthService } from './auth.service';
+import { OIDC_STATE_TTL_SECONDS, OidcService } from './oidc.service';
+import { UpsertOidcProviderDto } from './dto/oidc-provider.dto';
+import {
+  clearOidcStateCookie,
+  OIDC_STATE_COOKIE,
+  setAuthCookies,
+  setOidcStateCookie,
+} from './auth-cookies';
+import { RateLimit } from '../common/decorators/rate-limit.decorator';
+import { RateLimitGuard } from '../common/guards/rate-limit.guard';
+import type { RequestWithUser } from '../common/interfaces/request-with-user.interface';
+import { ApiResponse } from '../common/utils/api-response';
+
+/**
+ * Controller for single sign-on through a company's OpenID Connect
+ * provider (authorization code + PKCE) and for managing that provider.
+ */
+@ApiTags('auth')
+@Controller('auth/oidc')
+export class OidcController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly oidcService: OidcService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Start a single sign-on login by redirecting to the company's IdP.
+   *
+   * @param companyId - Company whose identity provider to use.
+   * @param returnTo - Optional frontend path to land on after login.
+   * @param res - Response used to set the state cookie and redirect.
+   */
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ points: 20, duration: 60, key: 'ip' })
+  @Get(':companyId/authorize')
+  async authorize(
+    @Param('companyId', ParseIntPipe) companyId: number,
+    @Res() res: Response,
+    @Query('returnTo') returnTo?: string,
+  ) {
+    const { url, state } = await this.oidcService.createAuthorizationUrl(
+      companyId,
+      returnTo,
+    );
+    setOidcStateCookie(res, state, OIDC_STATE_TTL_SECONDS);
+    res.redirect(302, url);
+  }
+
+  /**
+   * Redirect target registered at the IdP. Sets the usual cookie pair and
+   * sends the browser back to the frontend.
+   *
+   * @param req - Incoming request, used to read IP, user agent and the
+   *   state cookie set by `authorize`.
+   * @param res - Response used to set cookies and redirect.
+   * @param code - Authorization code from the IdP.
+   * @param state - State issued by `authorize`.
+   * @param error - Error reported by the IdP instead of a code.
+   */
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ points: 20, duration: 60, key: 'ip' })
+  @Get('callback')
+  async callback(
+    @Req() req: Request,
+    @Res() res: Response,
+    @Query('code') code?: string,
+    @Query('state') state?: string,
+    @Query('error') error?: string,
+  ) {
+    if (error || !code || !state) {
+      throw new BadRequestException(
+        error
+          ? `Single sign-on failed: ${error}`
+          : 'code and state are required',
+      );
+    }
+
+    const browserState = req.cookies?.[OIDC_STATE_COOKIE] as string | undefined;
+    clearOidcStateCookie(res);
+    const { userId, returnTo } = await this.oidcService.handleCallback(
+      code,
+      state,
+      browserState,
+    );
+    const tokens = await this.authService.loginWithExternalIdentity(
+      userId,
+      req.ip || req.headers['x-forwarded-for']?.toString(),
+      req.headers['user-agent'],
+    );
+
+    setAuthCookies(res, tokens);
+    const frontendUrl = this.configService.get<string>(
+      'FRONTEND_URL',
+      'http://localhost:3000',
+    );
+    res.redirect(302, `${frontendUrl}${returnTo}`);
+  }
+
+  /**
+   * Get the OIDC configuration of a company (the client secret is never
+   * returned).
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param companyId - Company identifier.
+   * @returns API response with the provider configuration.
+   */
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth('JWT')
+  @Get('providers/:companyId')
+  async getProvider(
+    @Req() req: RequestWithUser,
+    @Param('companyId', ParseIntPipe) companyId: number,
+  ) {
+    const data = await this.oidcService.getProvider(req.user, companyId);
+    return ApiResponse.success(
+      'OIDC provider retrieved successfully',
+      200,
+      data,
+    );
+  }
+
+  /**
+   * Create or replace the OIDC configuration of a company.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param companyId - Company identifier.
+   * @param body - Issuer, client credentials, role mapping and provisioning.
+   * @returns API response with the saved configuration.
+   */
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth('JWT')
+  @Put('providers/:companyId')
+  async upsertProvider(
+    @Req() req: RequestWithUser,
+    @Param('companyId', ParseIntPipe) companyId: number,
+    @Body() body: UpsertOidcProviderDto,
+  ) {
+    const data = await this.oidcService.upsertProvider(
+      req.user,
+      companyId,
+      body,
+      { ipAddress: req.ip, method: req.method, api: req.originalUrl },
+    );
+    return ApiResponse.success('OIDC provider saved successfully', 200, data);
+  }
+
+  /**
+   * Remove the OIDC configuration of a company. Linked identities are kept
+   * so a later configuration for the same issuer picks them up again.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param companyId - Company identifier.
+   * @returns Standard API success response.
+   */
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth('JWT')
+  @Delete('providers/:companyId')
+  async deleteProvider(
+    @Req() req: RequestWithUser,
+    @Param('companyId', ParseIntPipe) companyId: number,
+  ) {
+    await this.oidcService.deleteProvider(req.user, companyId, {
+      ipAddress: req.ip,
+      method: req.method,
+      api: req.originalUrl,
+    });
+    return ApiResponse.success('OIDC provider removed successfully', 200);
+  }
+}
@@ -0,0 +1,405 @@
+import { ConfigService } from '@nestjs/config';
+import type Redis from 'ioredis';
+import { Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OidcService } from './oidc.service';
+import { CompanyOidcProviders } from '../entities/entities/CompanyOidcProviders';
+import { UserIdentities } from '../entities/entities/UserIdentities';
+import { Users } from '../entities/entities/Users';
+import { Departments } from '../entities/entities/Departments';
+import { RolesService } from '../roles/roles.service';
+import { AuditService } from '../activity-logs/audit.service';
+
+// Minimal OpenID provider: discovery, JWKS and a token endpoint that
+// checks PKCE and signs an ID token with the nonce of the authorize call
+function startMockProvider(claims: Record<string, unknown>) {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'k1', use: 'sig' };
+  const codes = new Map<string, { nonce: string; challenge: string }>();
+  let issuer = '';
+
+  const sign = (payload: object) => {
+    const encode = (part: object) =>
+      Buffer.from(JSON.stringify(part)).toString('base64url');
+    const input = `${encode({ alg: 'RS256', kid: 'k1' })}.${encode(payload)}`;
+    const signature = crypto.sign('sha256', Buffer.from(input), privateKey);
+    return `${input}.${signature.toString('base64url')}`;
+  };
+
+  const server = http.createServer((req, res) => {
+    const send = (status: number, body: object) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    if (req.url === '/.well-known/openid-configuration') {
+      return send(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+      });
+    }
+    if (req.url === '/jwks') return send(200, { keys: [jwk] });
+    if (req.url === '/token' && req.method === 'POST') {
+      let raw = '';
+      req.on('data', (chunk: Buffer) => (raw += chunk.toString()));
+      req.on('end', () => {
+        const form = new URLSearchParams(raw);
+        const grant = codes.get(form.get('code') ?? '');
+        const challenge = crypto
+          .createHash('sha256')
+          .update(form.get('code_verifier') ?? '')
+          .digest('base64url');
+        if (!grant || grant.challenge !== challenge) {
+          return send(400, { error: 'invalid_grant' });
+        }
+        send(200, {
+          token_type: 'Bearer',
+          access_token: 'at',
+          id_token: sign({
+            iss: issuer,
+            aud: 'nest-auth',
+            exp: Math.floor(Date.now() / 1000) + 300,
+            nonce: grant.nonce,
+            ...claims,
+          }),
+        });
+      });
+      return;
+    }
+    send(404, {});
+  });
+
+  return new Promise<{
+    issuer: string;
+    // What the IdP does when the user signs in on the authorize page
+    issueCode: (authorizeUrl: string) => string;
+    close: () => void;
+  }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      resolve({
+        issuer,
+        issueCode: (authorizeUrl) => {
+          const params = new URL(authorizeUrl).searchParams;
+          const code = crypto.randomUUID();
+          codes.set(code, {
+            nonce: params.get('nonce') ?? '',
+            challenge: params.get('code_challenge') ?? '',
+          });
+          return code;
+        },
+        close: () => server.close(),
+      });
+    });
+  });
+}
+
+describe('OidcService', () => {
+  const createService = (
+    issuer: string,
+    overrides: Partial<CompanyOidcProviders> = {},
+    existingUser: Partial<Users> | null = null,
+  ) => {
+    const provider = {
+      id: 1,
+      companyId: 3,
+      issuer,
+      clientId: 'nest-auth',
+      clientSecret: 'shh',
+      scopes: 'openid email profile',
+      roleClaim: 'groups',
+      roleMapping: { 'acme-admins': 'company_admin' },
+      defaultRole: 'user',
+      autoProvision: true,
+      defaultDepartmentId: 4,
+      enabled: true,
+      ...overrides,
+    };
+    const providerQuery = {
+      where: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      getOne: jest.fn().mockResolvedValue(provider),
+    };
+    const providersRepo = {
+      createQueryBuilder: jest.fn(() => providerQuery),
+      save: jest.fn((data: Partial<CompanyOidcProviders>) =>
+        Promise.resolve(data),
+      ),
+    };
+    const identitiesRepo = {
+      findOne: jest.fn().mockResolvedValue(null),
+      save: jest.fn(),
+      update: jest.fn(),
+    };
+    const usersRepo = {
+      findOne: jest.fn().mockResolvedValue(existingUser),
+      create: jest.fn((data: Partial<Users>) => data),
+      save: jest.fn((data: Partial<Users>) =>
+        Promise.resolve({ id: 42, ...data }),
+      ),
+      update: jest.fn(),
+    };
+    const rolesService = {
+      findBySlug: jest.fn((slug: string) =>
+        Promise.resolve({ id: slug === 'company_admin' ? 2 : 4, slug }),
+      ),
+    };
+    const store = new Map<string, string>();
+    const redis = {
+      set: jest.fn((key: string, value: string) => {
+        store.set(key, value);
+        return Promise.resolve('OK');
+      }),
+      getdel: jest.fn((key: string) => {
+        const value = store.get(key) ?? null;
+        store.delete(key);
+        return Promise.resolve(value);
+      }),
+    };
+    const configService = {
+      get: jest.fn((_key: string, fallback?: unknown) => fallback),
+    } as unknown as ConfigService;
+
+    const service = new OidcService(
+      providersRepo as unknown as Repository<CompanyOidcProviders>,
+      identitiesRepo as unknown as Repository<UserIdentities>,
+      usersRepo as unknown as Repository<Users>,
+      {} as Repository<Departments>,
+      rolesService as unknown as RolesService,
+      { record: jest.fn() } as unknown as AuditService,
+      configService,
+      redis as unknown as Redis,
+    );
+    return { service, providersRepo, identitiesRepo, usersRepo };
+  };
+
+  it('provisions a user through the code + PKCE flow of a mock IdP', async () => {
+    const idp = await startMockProvider({
+      sub: 'idp-user-1',
+      email: 'Jane@Acme.test',
+      email_verified: true,
+      given_name: 'Jane',
+      groups: ['staff', 'acme-admins'],
+    });
+    try {
+      const { service, identitiesRepo, usersRepo } = createService(idp.issuer);
+
+      const { url: authorizeUrl, state } = await service.createAuthorizationUrl(
+        3,
+        '/home',
+      );
+      const url = new URL(authorizeUrl);
+      expect(url.origin + url.pathname).toBe(`${idp.issuer}/authorize`);
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+
+      const result = await service.handleCallback(
+        idp.issueCode(authorizeUrl),
+        state,
+        state,
+      );
+
+      expect(result).toEqual({ userId: 42, returnTo: '/home' });
+      expect(usersRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: 'jane@acme.test',
+          firstname: 'Jane',
+          company: { id: 3 },
+          department: { id: 4 },
+          role: { id: 2, slug: 'company_admin' },
+        }),
+      );
+      expect(identitiesRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 42,
+          issuer: idp.issuer,
+          subject: 'idp-user-1',
+        }),
+      );
+    } finally {
+      idp.close();
+    }
+  });
+
+  it('rejects a replayed state', async () => {
+    const idp = await startMockProvider({ sub: 'idp-user-1' });
+    try {
+      const { service } = createService(idp.issuer);
+      const { url: authorizeUrl, state } =
+        await service.createAuthorizationUrl(3);
+      const code = idp.issueCode(authorizeUrl);
+
+      await service.handleCallback(code, state, state).catch(() => undefined);
+
+      await expect(service.handleCallback(code, state, state)).rejects.toThrow(
+        'Invalid or expired login state',
+      );
+    } finally {
+      idp.close();
+    }
+  });
+
+  it('does not link an existing account by an unverified email', async () => {
+    const idp = await startMockProvider({
+      sub: 'idp-user-2',
+      email: 'bob@acme.test',
+      email_verified: false,
+    });
+    try {
+      const { service } = createService(idp.issuer, {}, {
+        id: 7,
+        email: 'bob@acme.test',
+        company: { id: 3 },
+      } as Partial<Users>);
+      const { url: authorizeUrl, state } =
+        await service.createAuthorizationUrl(3);
+
+      await expect(
+        service.handleCallback(idp.issueCode(authorizeUrl), state, state),
+      ).rejects.toThrow('Identity provider did not verify this email address');
+    } finally {
+      idp.close();
+    }
+  });
+
+  it('rejects an ID token minted for another login', async () => {
+    const idp = await startMockProvider({ sub: 'idp-user-1' });
+    try {
+      const { service } = createService(idp.issuer);
+      const { url, state } = await service.createAuthorizationUrl(3);
+      const authorizeUrl = new URL(url);
+      authorizeUrl.searchParams.set('nonce', 'replayed-nonce');
+
+      await expect(
+        service.handleCallback(
+          idp.issueCode(authorizeUrl.toString()),
+          state,
+          state,
+        ),
+      ).rejects.toThrow('Invalid ID token');
+    } finally {
+      idp.close();
+    }
+  });
+
+  it('only keeps same-site return paths', async () => {
+    const idp = await startMockProvider({
+      sub: 'idp-user-3',
+      email: 'eve@acme.test',
+    });
+    try {
+      const { service } = createService(idp.issuer);
+      const { url: authorizeUrl, state } = await service.createAuthorizationUrl(
+        3,
+        '//evil.test',
+      );
+
+      const result = await service.handleCallback(
+        idp.issueCode(authorizeUrl),
+        state,
+        state,
+      );
+
+      expect(result.returnTo).toBe('/');
+    } finally {
+      idp.close();
+    }
+  });
+
+  it('refuses unknown identities when auto-provisioning is off', async () => {
+    const idp = await startMockProvider({
+      sub: 'idp-user-4',
+      email: 'new@acme.test',
+      email_verified: true,
+    });
+    try {
+      const { service, usersRepo } = createService(idp.issuer, {
+        autoProvision: false,
+      });
+      const { url: authorizeUrl, state } =
+        await service.createAuthorizationUrl(3);
+
+      await expect(
+        service.handleCallback(idp.issueCode(authorizeUrl), state, state),
+      ).rejects.toThrow('No account is linked to this identity');
+      expect(usersRepo.save).not.toHaveBeenCalled();
+    } finally {
+      idp.close();
+    }
+  });
+
+  it('rejects a callback that reaches a browser without the login state', async () => {
+    const idp = await startMockProvider({ sub: 'idp-user-1' });
+    try {
+      const { service } = createService(idp.issuer);
+      const { url: authorizeUrl, state } =
+        await service.createAuthorizationUrl(3);
+      const code = idp.issueCode(authorizeUrl);
+
+      await expect(
+        service.handleCallback(code, state, undefined),
+      ).rejects.toThrow('Invalid or expired login state');
+      await expect(
+        service.handleCallback(code, state, `${state.slice(1)}x`),
+      ).rejects.toThrow('Invalid or expired login state');
+    } finally {
+      idp.close();
+    }
+  });
+
+  it('does not auto-link administrator accounts by email', async () => {
+    const idp = await startMockProvider({
+      sub: 'idp-user-5',
+      email: 'boss@acme.test',
+      email_verified: true,
+    });
+    try {
+      const { service, identitiesRepo } = createService(idp.issuer, {}, {
+        id: 8,
+        email: 'boss@acme.test',
+        company: { id: 3 },
+        role: { slug: 'company_admin' },
+      } as Partial<Users>);
+      const { url: authorizeUrl, state } =
+        await service.createAuthorizationUrl(3);
+
+      await expect(
+        service.handleCallback(idp.issueCode(authorizeUrl), state, state),
+      ).rejects.toThrow(
+        'Administrator accounts cannot be linked to single sign-on automatically',
+      );
+      expect(identitiesRepo.save).not.toHaveBeenCalled();
+    } finally {
+      idp.close();
+    }
+  });
+
+  it('keeps the issuer as entered and only allows http when opted in', async () => {
+    const { service, providersRepo } = createService('https://idp.test');
+    const requester = {
+      id: 1,
+      sub: 1,
+      email: 'root@test.com',
+      roles: ['super_admin'],
+    };
+
+    await expect(
+      service.upsertProvider(requester, 3, {
+        issuer: 'http://localhost:8080',
+        clientId: 'nest-auth',
+      }),
+    ).rejects.toThrow('OIDC issuer must use https');
+
+    await service.upsertProvider(requester, 3, {
+      issuer: 'https://idp.test/realms/acme/',
+      clientId: 'nest-auth',
+    });
+    expect(providersRepo.save).toHaveBeenCalledWith(
+      expect.objectContaining({ issuer: 'https://idp.test/realms/acme/' }),
+    );
+  });
+});
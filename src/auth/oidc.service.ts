@@ -0,0 +1,588 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import type Redis from 'ioredis';
+import { Repository } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import * as crypto from 'crypto';
+import { CompanyOidcProviders } from '../entities/entities/CompanyOidcProviders';
+import { UserIdentities } from '../entities/entities/UserIdentities';
+import { Users } from '../entities/entities/Users';
+import { Departments } from '../entities/entities/Departments';
+import { RolesService } from '../roles/roles.service';
+import { AuditService } from '../activity-logs/audit.service';
+import { AuthUser } from '../common/interfaces/auth-user.interface';
+import { RequestContext } from '../common/interfaces/request-context.interface';
+import { normalizeRoleSlug } from '../common/utils/roles';
+import { UpsertOidcProviderDto } from './dto/oidc-provider.dto';
+import {
+  OidcDiscovery,
+  OidcIdTokenClaims,
+  OidcJwk,
+  OidcLoginState,
+  OidcProviderSummary,
+  OidcTokenResponse,
+} from './interfaces';
+import {
+  createPkcePair,
+  getIdTokenKeyId,
+  IdTokenError,
+  verifyIdToken,
+} from './oidc-client';
+
+// Provider metadata and keys are refetched after this
+const METADATA_TTL_MS = 60 * 60 * 1000;
+
+// Time allowed between the redirect to the IdP and the callback
+export const OIDC_STATE_TTL_SECONDS = 10 * 60;
+
+// Accounts that are never linked to an IdP identity by email alone
+const PRIVILEGED_ROLES = ['super_admin', 'company_admin'];
+
+@Injectable()
+export class OidcService {
+  private readonly logger = new Logger(OidcService.name);
+  private readonly discoveryCache = new Map<
+    string,
+    { value: OidcDiscovery; fetchedAt: number }
+  >();
+  private readonly jwksCache = new Map<
+    string,
+    { value: OidcJwk[]; fetchedAt: number }
+  >();
+
+  constructor(
+    @InjectRepository(CompanyOidcProviders)
+    private readonly providersRepo: Repository<CompanyOidcProviders>,
+    @InjectRepository(UserIdentities)
+    private readonly identitiesRepo: Repository<UserIdentities>,
+    @InjectRepository(Users)
+    private readonly usersRepo: Repository<Users>,
+    @InjectRepository(Departments)
+    private readonly departmentsRepo: Repository<Departments>,
+    private readonly rolesService: RolesService,
+    private readonly auditService: AuditService,
+    private readonly configService: ConfigService,
+    @Inject('REDIS_CLIENT')
+    private readonly redis: Redis,
+  ) {}
+
+  private get redirectUri(): string {
+    const port = this.configService.get<number>('PORT', 3001);
+    return this.configService.get<string>(
+      'OIDC_REDIRECT_URI',
+      `http://localhost:${port}/auth/oidc/callback`,
+    );
+  }
+
+  // Plain http issuers (local mock servers) need an explicit opt-in that
+  // is ignored in production
+  private assertIssuerAllowed(issuer: string) {
+    const url = new URL(issuer);
+    const allowInsecure =
+      this.configService.get<string>('OIDC_ALLOW_INSECURE_ISSUER') === 'true' &&
+      this.configService.get<string>('NODE_ENV') !== 'production';
+    if (url.protocol !== 'https:' && !allowInsecure) {
+      throw new BadRequestException('OIDC issuer must use https');
+    }
+  }
+
+  private assertCanManage(requester: AuthUser, companyId: number) {
+    const roles = (requester.roles || []).map((r) => normalizeRoleSlug(r));
+    if (roles.includes('super_admin')) return;
+    if (roles.includes('company_admin') && requester.companyId === companyId) {
+      return;
+    }
+    throw new ForbiddenException(
+      'Not allowed to manage the identity provider of this company',
+    );
+  }
+
+  private toSummary(provider: CompanyOidcProviders): OidcProviderSummary {
+    return {
+      companyId: provider.companyId,
+      issuer: provider.issuer,
+      clientId: provider.clientId,
+      hasClientSecret: Boolean(provider.clientSecret),
+      scopes: provider.scopes,
+      roleClaim: provider.roleClaim,
+      roleMapping: provider.roleMapping,
+      defaultRole: provider.defaultRole,
+      autoProvision: provider.autoProvision,
+      defaultDepartmentId: provider.defaultDepartmentId,
+      enabled: provider.enabled,
+    };
+  }
+
+  private async findProvider(companyId: number, withSecret = false) {
+    const queryBuilder = this.providersRepo
+      .createQueryBuilder('provider')
+      .where('provider.companyId = :companyId', { companyId });
+    if (withSecret) queryBuilder.addSelect('provider.clientSecret');
+    return queryBuilder.getOne();
+  }
+
+  async getProvider(
+    requester: AuthUser,
+    companyId: number,
+  ): Promise<OidcProviderSummary> {
+    this.assertCanManage(requester, companyId);
+    const provider = await this.findProvider(companyId, true);
+    if (!provider) throw new NotFoundException('OIDC provider not configured');
+    return this.toSummary(provider);
+  }
+
+  /**
+   * Create or replace the OIDC configuration of a company. Mapped roles
+   * must be system roles or custom roles of that company, never
+   * super_admin.
+   */
+  async upsertProvider(
+    requester: AuthUser,
+    companyId: number,
+    dto: UpsertOidcProviderDto,
+    ctx?: RequestContext,
+  ): Promise<OidcProviderSummary> {
+    this.assertCanManage(requester, companyId);
+    this.assertIssuerAllowed(dto.issuer);
+
+    const defaultRole = normalizeRoleSlug(dto.defaultRole || 'user');
+    const roleMapping = dto.roleMapping
+      ? Object.fromEntries(
+          Object.entries(dto.roleMapping).map(([value, slug]) => [
+            value,
+            normalizeRoleSlug(slug),
+          ]),
+        )
+      : null;
+    for (const slug of new Set([
+      defaultRole,
+      ...Object.values(roleMapping ?? {}),
+    ])) {
+      const role =
+        slug === 'super_admin'
+          ? null
+          : await this.rolesService.findBySlug(slug, companyId);
+      if (!role) {
+        throw new BadRequestException(`Role ${slug} cannot be mapped`);
+      }
+    }
+
+    if (dto.defaultDepartmentId) {
+      const department = await this.departmentsRepo.findOne({
+        where: { id: dto.defaultDepartmentId },
+        relations: ['company'],
+      });
+      if (department?.company?.id !== companyId) {
+        throw new BadRequestException(
+          'Default department must belong to the company',
+        );
+      }
+    }
+
+    const before = await this.findProvider(companyId, true);
+    const provider = await this.providersRepo.save({
+      ...(before ?? {}),
+      companyId,
+      // Kept exactly as entered: it is compared verbatim with `iss`
+      issuer: dto.issuer,
+      clientId: dto.clientId,
+      clientSecret:
+        dto.clientSecret === undefined
+          ? (before?.clientSecret ?? null)
+          : dto.clientSecret || null,
+      scopes: dto.scopes || 'openid email profile',
+      roleClaim: dto.roleClaim || null,
+      roleMapping,
+      defaultRole,
+      autoProvision: dto.autoProvision ?? false,
+      defaultDepartmentId: dto.defaultDepartmentId ?? null,
+      enabled: dto.enabled ?? true,
+      updatedAt: new Date(),
+    });
+
+    await this.auditService.record(
+      requester,
+      before ? 'oidc_provider.update' : 'oidc_provider.create',
+      'company',
+      companyId,
+      before,
+      provider,
+      { ...ctx, companyId },
+    );
+
+    return this.toSummary(provider);
+  }
+
+  async deleteProvider(
+    requester: AuthUser,
+    companyId: number,
+    ctx?: RequestContext,
+  ): Promise<void> {
+    this.assertCanManage(requester, companyId);
+    const provider = await this.findProvider(companyId);
+    if (!provider) throw new NotFoundException('OIDC provider not configured');
+
+    await this.providersRepo.delete(provider.id);
+    await this.auditService.record(
+      requester,
+      'oidc_provider.delete',
+      'company',
+      companyId,
+      provider,
+      null,
+      { ...ctx, companyId },
+    );
+  }
+
+  private async fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...init,
+        signal: AbortSignal.timeout(10000),
+      });
+    } catch (error) {
+      this.logger.error(
+        `OIDC request to ${url} failed`,
+        error instanceof Error ? error.stack : String(error),
+      );
+      throw new UnauthorizedException('Identity provider is unavailable');
+    }
+    const body = (await response.json().catch(() => ({}))) as T;
+    if (!response.ok) {
+      this.logger.warn(
+        `OIDC request to ${url} returned ${response.status}: ${JSON.stringify(body)}`,
+      );
+      throw new UnauthorizedException('Identity provider rejected the request');
+    }
+    return body;
+  }
+
+  private async getDiscovery(issuer: string): Promise<OidcDiscovery> {
+    const cached = this.discoveryCache.get(issuer);
+    if (cached && Date.now() - cached.fetchedAt < METADATA_TTL_MS) {
+      return cached.value;
+    }
+
+    const discovery = await this.fetchJson<OidcDiscovery>(
+      `${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`,
+    );
+    if (discovery.issuer !== issuer) {
+      throw new UnauthorizedException('Identity provider issuer mismatch');
+    }
+    this.discoveryCache.set(issuer, {
+      value: discovery,
+      fetchedAt: Date.now(),
+    });
+    return discovery;
+  }
+
+  // Refetch when the token is signed with a key we have not seen (rotation)
+  private async getSigningKeys(
+    jwksUri: string,
+    kid: string | undefined,
+  ): Promise<OidcJwk[]> {
+    const cached = this.jwksCache.get(jwksUri);
+    if (
+      cached &&
+      Date.now() - cached.fetchedAt < METADATA_TTL_MS &&
+      (!kid || cached.value.some((k) => k.kid === kid))
+    ) {
+      return cached.value;
+    }
+
+    const { keys } = await this.fetchJson<{ keys: OidcJwk[] }>(jwksUri);
+    this.jwksCache.set(jwksUri, { value: keys || [], fetchedAt: Date.now() });
+    return keys || [];
+  }
+
+  /**
+   * Start an authorization-code + PKCE login for a company and return the
+   * IdP URL to redirect the browser to, along with the state the browser
+   * has to present again on the callback.
+   */
+  async createAuthorizationUrl(
+    companyId: number,
+    returnTo?: string,
+  ): Promise<{ url: string; state: string }> {
+    const provider = await this.findProvider(companyId);
+    if (!provider?.enabled) {
+      throw new NotFoundException('Single sign-on is not enabled');
+    }
+
+    const discovery = await this.getDiscovery(provider.issuer);
+    const { codeVerifier, codeChallenge } = createPkcePair();
+    const state = crypto.randomBytes(24).toString('base64url');
+    const loginState: OidcLoginState = {
+      companyId,
+      nonce: crypto.randomBytes(24).toString('base64url'),
+      codeVerifier,
+      // Only same-site paths, never an open redirect
+      returnTo:
+        returnTo?.startsWith('/') && !returnTo.startsWith('//')
+          ? returnTo
+          : '/',
+    };
+    await this.redis.set(
+      `oidc:state:${state}`,
+      JSON.stringify(loginState),
+      'EX',
+      OIDC_STATE_TTL_SECONDS,
+    );
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', provider.clientId);
+    url.searchParams.set('redirect_uri', this.redirectUri);
+    url.searchParams.set('scope', provider.scopes);
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', loginState.nonce);
+    url.searchParams.set('code_challenge', codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+    return { url: url.toString(), state };
+  }
+
+  /**
+   * Finish a login: redeem the code, verify the ID token and resolve the
+   * local user (linked identity, verified email match or auto-provisioning).
+   * Returns the user id and the path to send the browser back to.
+   *
+   * `browserState` is the state remembered by the browser that started the
+   * login, so a callback URL cannot be replayed in someone else's browser.
+   */
+  async handleCallback(
+    code: string,
+    state: string,
+    browserState: string | undefined,
+  ): Promise<{ userId: number; returnTo: string }> {
+    if (
+      !browserState ||
+      browserState.length !== state.length ||
+      !crypto.timingSafeEqual(Buffer.from(browserState), Buffer.from(state))
+    ) {
+      throw new UnauthorizedException('Invalid or expired login state');
+    }
+
+    // Single use: the state is gone once read
+    const raw = await this.redis.getdel(`oidc:state:${state}`);
+    if (!raw) throw new UnauthorizedException('Invalid or expired login state');
+    const loginState = JSON.parse(raw) as OidcLoginState;
+
+    const provider = await this.findProvider(loginState.companyId, true);
+    if (!provider?.enabled) {
+      throw new UnauthorizedException('Single sign-on is not enabled');
+    }
+    const discovery = await this.getDiscovery(provider.issuer);
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.redirectUri,
+      code_verifier: loginState.codeVerifier,
+    });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+    const authMethods = discovery.token_endpoint_auth_methods_supported;
+    if (!provider.clientSecret) {
+      body.set('client_id', provider.clientId);
+    } else if (!authMethods || authMethods.includes('client_secret_basic')) {
+      const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else {
+      body.set('client_id', provider.clientId);
+      body.set('client_secret', provider.clientSecret);
+    }
+
+    const tokens = await this.fetchJson<OidcTokenResponse>(
+      discovery.token_endpoint,
+      { method: 'POST', headers, body },
+    );
+    if (!tokens.id_token) {
+      throw new UnauthorizedException('Identity provider returned no ID token');
+    }
+
+    let claims: OidcIdTokenClaims;
+    try {
+      const keys = await this.getSigningKeys(
+        discovery.jwks_uri,
+        getIdTokenKeyId(tokens.id_token),
+      );
+      claims = verifyIdToken(tokens.id_token, keys, {
+        issuer: provider.issuer,
+        audience: provider.clientId,
+        nonce: loginState.nonce,
+      });
+    } catch (error) {
+      if (error instanceof IdTokenError) {
+        this.logger.warn(`Rejected ID token: ${error.message}`);
+        throw new UnauthorizedException('Invalid ID token');
+      }
+      throw error;
+    }
+
+    const userId = await this.resolveUser(provider, claims);
+    return { userId, returnTo: loginState.returnTo };
+  }
+
+  // First mapped claim value wins, otherwise null (keep the current role)
+  private mapRole(
+    provider: CompanyOidcProviders,
+    claims: OidcIdTokenClaims,
+  ): string | null {
+    if (!provider.roleClaim || !provider.roleMapping) return null;
+    const raw = claims[provider.roleClaim];
+    const values = (Array.isArray(raw) ? raw : [raw]).map((v) => String(v));
+    const match = Object.keys(provider.roleMapping).find((value) =>
+      values.includes(value),
+    );
+    return match ? provider.roleMapping[match] : null;
+  }
+
+  private async resolveUser(
+    provider: CompanyOidcProviders,
+    claims: OidcIdTokenClaims,
+  ): Promise<number> {
+    const email = claims.email?.toLowerCase().trim() || null;
+    const identity = await this.identitiesRepo.findOne({
+      where: { issuer: provider.issuer, subject: claims.sub },
+    });
+
+    let user: Users | null;
+    if (identity) {
+      user = await this.usersRepo.findOne({
+        where: { id: identity.userId },
+        relations: ['company', 'role'],
+      });
+    } else {
+      user = email
+        ? await this.usersRepo.findOne({
+            where: { email },
+            relations: ['company', 'role', 'userRoles', 'userRoles.role'],
+          })
+        : null;
+      // Linking an existing account by email needs the IdP to vouch for it
+      if (user && claims.email_verified !== true) {
+        throw new UnauthorizedException(
+          'Identity provider did not verify this email address',
+        );
+      }
+      // An IdP-side account takeover must not turn into an admin takeover
+      const roles = [
+        user?.role?.slug,
+        ...(user?.userRoles || []).map((ur) => ur.role?.slug),
+      ].map((slug) => normalizeRoleSlug(slug));
+      if (user && roles.some((slug) => PRIVILEGED_ROLES.includes(slug))) {
+        throw new UnauthorizedException(
+          'Administrator accounts cannot be linked to single sign-on automatically',
+        );
+      }
+    }
+
+    if (user && user.company?.id !== provider.companyId) {
+      throw new UnauthorizedException(
+        'This account belongs to another company',
+      );
+    }
+    if (user?.isDeleted) {
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    const mappedRole = this.mapRole(provider, claims);
+
+    if (!user) {
+      if (!provider.autoProvision || !email) {
+        throw new UnauthorizedException(
+          'No account is linked to this identity',
+        );
+      }
+      user = await this.provisionUser(provider, claims, email, mappedRole);
+    } else if (mappedRole && user.role?.slug !== mappedRole) {
+      const role = await this.rolesService.findBySlug(
+        mappedRole,
+        provider.companyId,
+      );
+      if (role) {
+        await this.usersRepo.update(user.id, { role: { id: role.id } });
+        await this.auditService.record(
+          null,
+          'user.role_sync',
+          'user',
+          user.id,
+          { role: user.role },
+          { role },
+          { companyId: provider.companyId },
+        );
+      }
+    }
+
+    if (identity) {
+      await this.identitiesRepo.update(identity.id, {
+        email,
+        lastLoginAt: new Date(),
+      });
+    } else {
+      await this.identitiesRepo.save({
+        userId: user.id,
+        provider: 'oidc',
+        issuer: provider.issuer,
+        subject: claims.sub,
+        email,
+        lastLoginAt: new Date(),
+      });
+    }
+
+    return user.id;
+  }
+
+  private async provisionUser(
+    provider: CompanyOidcProviders,
+    claims: OidcIdTokenClaims,
+    email: string,
+    mappedRole: string | null,
+  ): Promise<Users> {
+    const role = await this.rolesService.findBySlug(
+      mappedRole || provider.defaultRole,
+      provider.companyId,
+    );
+    if (!role) throw new UnauthorizedException('Default role is missing');
+
+    const user = await this.usersRepo.save(
+      this.usersRepo.create({
+        email,
+        // Random password nobody knows; SSO users can use password reset
+        password: await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10),
+        firstname: claims.given_name ?? null,
+        lastname: claims.family_name ?? null,
+        company: { id: provider.companyId },
+        department: provider.defaultDepartmentId
+          ? { id: provider.defaultDepartmentId }
+          : undefined,
+        role,
+        emailVerifiedAt: claims.email_verified === true ? new Date() : null,
+      }),
+    );
+
+    await this.auditService.record(
+      null,
+      'user.provision',
+      'user',
+      user.id,
+      null,
+      { email, role, issuer: provider.issuer },
+      { companyId: provider.companyId },
+    );
+
+    return user;
+  }
+}
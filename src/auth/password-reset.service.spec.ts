@@ -0,0 +1,151 @@
+import { Repository } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { PasswordResetService } from './password-reset.service';
+import { PasswordResetTokens } from '../entities/entities/PasswordResetTokens';
+import { UserService } from '../users/users.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { MailService } from '../mail/mail.service';
+import { NotificationsGateway } from '../notifications/notifications.gateway';
+import { ActivityLogsService } from '../activity-logs/activity-logs.service';
+
+describe('PasswordResetService', () => {
+  const createMockDependencies = (overrides?: {
+    tokensRepo?: Partial<Repository<PasswordResetTokens>>;
+    usersService?: Partial<UserService>;
+  }) => {
+    const tokensRepo = {
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      create: jest.fn((data: Partial<PasswordResetTokens>) => data),
+      save: jest.fn(),
+      findOne: jest.fn(),
+      ...overrides?.tokensRepo,
+    } as unknown as Repository<PasswordResetTokens>;
+    const usersService = {
+      findByEmail: jest.fn(),
+      findOne: jest.fn(),
+      updatePassword: jest.fn(),
+      ...overrides?.usersService,
+    } as unknown as UserService;
+    const sessionsService = {
+      invalidateAllUserSessions: jest.fn(),
+    } as unknown as SessionsService;
+    const mailService = {
+      send: jest.fn(),
+      buildFrontendUrl: jest.fn().mockReturnValue('http://app/reset'),
+    } as unknown as MailService;
+    const notificationsGateway = {
+      emitUserSessionsExpired: jest.fn(),
+    } as unknown as NotificationsGateway;
+    const activityLogsService = {
+      logEvent: jest.fn(),
+    } as unknown as ActivityLogsService;
+    const configService = {
+      get: jest.fn((_key: string, fallback: unknown) => fallback),
+    } as unknown as ConfigService;
+
+    const service = new PasswordResetService(
+      tokensRepo,
+      usersService,
+      sessionsService,
+      mailService,
+      notificationsGateway,
+      activityLogsService,
+      configService,
+    );
+
+    return { service, tokensRepo, usersService, sessionsService, mailService };
+  };
+
+  it('does not send mail for unknown emails', async () => {
+    const { service, mailService, tokensRepo } = createMockDependencies({
+      usersService: { findByEmail: jest.fn().mockResolvedValue(null) },
+    });
+
+    await service.requestReset('nobody@test.com');
+
+    expect(tokensRepo.save).not.toHaveBeenCalled();
+    expect(mailService.send).not.toHaveBeenCalled();
+  });
+
+  it('stores only the token hash and mails the reset link', async () => {
+    const { service, mailService, tokensRepo } = createMockDependencies({
+      usersService: {
+        findByEmail: jest.fn().mockResolvedValue({
+          id: 5,
+          email: 'u@test.com',
+          isActive: true,
+          isDeleted: false,
+        }),
+      },
+    });
+
+    await service.requestReset('u@test.com');
+
+    const saved = (tokensRepo.save as jest.Mock).mock.calls[0][0];
+    expect(saved.userId).toBe(5);
+    expect(saved.tokenHash).toHaveLength(64);
+    expect(mailService.send).toHaveBeenCalledWith(
+      expect.objectContaining({ to: 'u@test.com' }),
+    );
+  });
+
+  it('answers the same way when the mail cannot be sent', async () => {
+    const { service, mailService } = createMockDependencies({
+      usersService: {
+        findByEmail: jest.fn().mockResolvedValue({
+          id: 5,
+          email: 'u@test.com',
+          isActive: true,
+          isDeleted: false,
+        }),
+      },
+    });
+    (mailService.send as jest.Mock).mockRejectedValue(new Error('SMTP down'));
+
+    await expect(service.requestReset('u@test.com')).resolves.toBeUndefined();
+  });
+
+  it('rejects unknown or expired tokens', async () => {
+    const { service } = createMockDependencies({
+      tokensRepo: { findOne: jest.fn().mockResolvedValue(null) },
+    });
+
+    await expect(service.resetPassword('bad', 'newpassword')).rejects.toThrow(
+      'Invalid or expired reset token',
+    );
+  });
+
+  it('rejects a token that was consumed concurrently', async () => {
+    const { service, usersService } = createMockDependencies({
+      tokensRepo: {
+        findOne: jest.fn().mockResolvedValue({ id: 1, userId: 5 }),
+        update: jest.fn().mockResolvedValue({ affected: 0 }),
+      },
+    });
+
+    await expect(service.resetPassword('tok', 'newpassword')).rejects.toThrow(
+      'Invalid or expired reset token',
+    );
+    expect(usersService.updatePassword).not.toHaveBeenCalled();
+  });
+
+  it('updates the password and invalidates all sessions', async () => {
+    const { service, usersService, sessionsService } = createMockDependencies({
+      tokensRepo: {
+        findOne: jest.fn().mockResolvedValue({ id: 1, userId: 5 }),
+      },
+      usersService: {
+        findOne: jest.fn().mockResolvedValue({
+          id: 5,
+          email: 'u@test.com',
+          isActive: true,
+        }),
+      },
+    });
+
+    await service.resetPassword('tok', 'newpassword');
+
+    expect(usersService.updatePassword).toHaveBeenCalledWith(5, 'newpassword');
+    expect(sessionsService.invalidateAllUserSessions).toHaveBeenCalledWith(5);
+  });
+});
@@ -0,0 +1,140 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { PasswordResetTokens } from '../entities/entities/PasswordResetTokens';
+import { UserService } from '../users/users.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { MailService } from '../mail/mail.service';
+import { NotificationsGateway } from '../notifications/notifications.gateway';
+import { ActivityLogsService } from '../activity-logs/activity-logs.service';
+import { RequestContext } from '../common/interfaces/request-context.interface';
+
+@Injectable()
+export class PasswordResetService {
+  private readonly logger = new Logger(PasswordResetService.name);
+
+  constructor(
+    @InjectRepository(PasswordResetTokens)
+    private readonly tokensRepo: Repository<PasswordResetTokens>,
+    private readonly usersService: UserService,
+    private readonly sessionsService: SessionsService,
+    private readonly mailService: MailService,
+    private readonly notificationsGateway: NotificationsGateway,
+    private readonly activityLogsService: ActivityLogsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Hash reset token for secure storage (only the hash is persisted)
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Issue a single-use reset token and mail the reset link to the user.
+   * Always resolves silently so the endpoint cannot be used to probe emails.
+   */
+  async requestReset(email: string, ctx?: RequestContext): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+    if (!user || !user.isActive || user.isDeleted) {
+      this.logger.log(`Password reset requested for unknown email ${email}`);
+      return;
+    }
+
+    // Only the most recent link should work
+    await this.tokensRepo.update(
+      { userId: user.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const ttlMinutes = Number(
+      this.configService.get('PASSWORD_RESET_TTL_MINUTES', 60),
+    );
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+    await this.tokensRepo.save(
+      this.tokensRepo.create({
+        userId: user.id,
+        tokenHash: this.hashToken(token),
+        expiresAt,
+        usedAt: null,
+        requestedIp: ctx?.ipAddress || null,
+      }),
+    );
+
+    const resetUrl = this.mailService.buildFrontendUrl('/reset-password', {
+      token,
+    });
+
+    // A failure must look like success, or it would reveal the account
+    try {
+      await this.mailService.send({
+        to: user.email,
+        subject: 'Reset your password',
+        text: `We received a request to reset your password.\n\nOpen the link below within ${ttlMinutes} minutes to choose a new password:\n${resetUrl}\n\nIf you did not request this, you can ignore this email.`,
+      });
+    } catch {
+      this.logger.warn(`Password reset email for user ${user.id} not sent`);
+    }
+  }
+
+  /**
+   * Consume a reset token, set the new password and log out every device
+   */
+  async resetPassword(
+    token: string,
+    password: string,
+    ctx?: RequestContext,
+  ): Promise<void> {
+    const tokenHash = this.hashToken(token);
+
+    const resetToken = await this.tokensRepo.findOne({
+      where: {
+        tokenHash,
+        usedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+    });
+    if (!resetToken) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    // Mark as used atomically so concurrent requests cannot both succeed
+    const claimed = await this.tokensRepo.update(
+      { id: resetToken.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (!claimed.affected) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    const user = await this.usersService.findOne(resetToken.userId);
+    if (!user || !user.isActive) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    await this.usersService.updatePassword(user.id, password);
+
+    // Old devices must log in again with the new password
+    this.notificationsGateway.emitUserSessionsExpired(
+      user.id,
+      'revoked',
+      'Your password was changed. Please log in again.',
+    );
+    await this.sessionsService.invalidateAllUserSessions(user.id);
+
+    await this.activityLogsService.logEvent({
+      userId: user.id,
+      username: user.email,
+      companyId: user.company?.id,
+      ipAddress: ctx?.ipAddress || '',
+      api: ctx?.api || '',
+      method: ctx?.method || '',
+      reason: 'PASSWORD_RESET',
+    });
+  }
+}
@@ -0,0 +1,127 @@
+import { Repository } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import * as crypto from 'crypto';
+import { TwoFactorService } from './two-factor.service';
+import { Users } from '../entities/entities/Users';
+import { generateTotp, getTotpStep } from '../common/utils/totp';
+
+describe('TwoFactorService', () => {
+  const secret = 'JBSWY3DPEHPK3PXP';
+
+  const createService = (user: Partial<Users>, affected = 1) => {
+    const builder = {
+      addSelect: jest.fn().mockReturnThis(),
+      leftJoinAndSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      getOne: jest.fn().mockResolvedValue(user),
+      update: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      setParameter: jest.fn().mockReturnThis(),
+      execute: jest.fn().mockResolvedValue({ affected }),
+    };
+    const usersRepo = {
+      createQueryBuilder: jest.fn().mockReturnValue(builder),
+      update: jest.fn(),
+    } as unknown as Repository<Users>;
+    const jwtService = {
+      sign: jest.fn().mockReturnValue('challenge'),
+      verify: jest.fn(),
+    } as unknown as JwtService;
+    const configService = {
+      get: jest.fn((_key: string, fallback: unknown) => fallback),
+    } as unknown as ConfigService;
+
+    return {
+      service: new TwoFactorService(usersRepo, jwtService, configService),
+      usersRepo,
+      builder,
+      jwtService,
+    };
+  };
+
+  it('requires 2FA when the company enforces it', () => {
+    const { service } = createService({});
+    expect(
+      service.isRequired({
+        twoFactorEnabled: false,
+        company: { enforceTwoFactor: true },
+      } as Users),
+    ).toBe(true);
+  });
+
+  it('accepts a fresh TOTP code and records its step', async () => {
+    const { service, builder } = createService({
+      id: 1,
+      twoFactorEnabled: true,
+      twoFactorSecret: secret,
+      twoFactorLastStep: null,
+    });
+    const step = getTotpStep();
+
+    await service.verify(1, generateTotp(secret, step));
+
+    expect(builder.set).toHaveBeenCalledWith({ twoFactorLastStep: step });
+    expect(builder.andWhere).toHaveBeenCalledWith(
+      '(two_factor_last_step IS NULL OR two_factor_last_step < :step)',
+      { step },
+    );
+  });
+
+  it('rejects a TOTP code whose step was already used', async () => {
+    const step = getTotpStep();
+    const { service } = createService(
+      {
+        id: 1,
+        twoFactorEnabled: true,
+        twoFactorSecret: secret,
+        twoFactorLastStep: step,
+      },
+      0,
+    );
+
+    await expect(service.verify(1, generateTotp(secret, step))).rejects.toThrow(
+      'Invalid two-factor code',
+    );
+  });
+
+  it('consumes a recovery code only while it is still stored', async () => {
+    const hash = crypto.createHash('sha256').update('abcd-1234').digest('hex');
+    const { service, builder } = createService({
+      id: 1,
+      twoFactorEnabled: true,
+      twoFactorSecret: secret,
+    });
+
+    await service.verify(1, undefined, 'ABCD-1234');
+
+    expect(builder.setParameter).toHaveBeenCalledWith('hash', hash);
+    expect(builder.andWhere).toHaveBeenCalledWith(
+      'two_factor_recovery_codes @> jsonb_build_array(CAST(:hash AS text))',
+    );
+  });
+
+  it('rejects a recovery code that was already used', async () => {
+    const { service } = createService(
+      { id: 1, twoFactorEnabled: true, twoFactorSecret: secret },
+      0,
+    );
+
+    await expect(service.verify(1, undefined, 'abcd-1234')).rejects.toThrow(
+      'Invalid recovery code',
+    );
+  });
+
+  it('rejects challenge tokens with the wrong purpose', () => {
+    const { service, jwtService } = createService({});
+    (jwtService.verify as jest.Mock).mockReturnValue({
+      sub: 1,
+      purpose: '2fa-login',
+    });
+
+    expect(() => service.verifyChallenge('token', '2fa-enroll')).toThrow(
+      'Invalid or expired challenge token',
+    );
+  });
+});
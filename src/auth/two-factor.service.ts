@@ -0,0 +1,267 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { Users } from '../entities/entities/Users';
+import {
+  buildOtpAuthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from '../common/utils/totp';
+import {
+  TwoFactorChallenge,
+  TwoFactorChallengePayload,
+  TwoFactorChallengePurpose,
+  TwoFactorSetup,
+} from './interfaces';
+
+const RECOVERY_CODE_COUNT = 10;
+
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    @InjectRepository(Users)
+    private readonly usersRepo: Repository<Users>,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Hash recovery codes for storage (codes are random, so no salt is needed)
+   */
+  private hashRecoveryCode(code: string): string {
+    return crypto
+      .createHash('sha256')
+      .update(code.trim().toLowerCase())
+      .digest('hex');
+  }
+
+  // Load user including the select:false two-factor columns
+  private async findUserWithSecrets(userId: number): Promise<Users> {
+    const user = await this.usersRepo
+      .createQueryBuilder('user')
+      .addSelect(['user.twoFactorSecret', 'user.twoFactorRecoveryCodes'])
+      .leftJoinAndSelect('user.company', 'company')
+      .where('user.id = :userId', { userId })
+      .getOne();
+    if (!user) throw new NotFoundException('User not found');
+    return user;
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(4).toString('hex');
+      return `${raw.slice(0, 4)}-${raw.slice(4)}`;
+    });
+  }
+
+  /**
+   * 2FA is required when the user enrolled or their company enforces it
+   */
+  isRequired(user: Users): boolean {
+    return Boolean(user.twoFactorEnabled || user.company?.enforceTwoFactor);
+  }
+
+  /**
+   * Issue a short-lived challenge token to be exchanged on /auth/login/2fa
+   */
+  createChallenge(user: Users, rememberMe = false): TwoFactorChallenge {
+    const enrollmentRequired = !user.twoFactorEnabled;
+    const payload: TwoFactorChallengePayload = {
+      sub: user.id,
+      purpose: enrollmentRequired ? '2fa-enroll' : '2fa-login',
+      ...(rememberMe ? { rememberMe } : {}),
+    };
+
+    return {
+      twoFactorRequired: true,
+      enrollmentRequired,
+      challengeToken: this.jwtService.sign(payload, { expiresIn: '5m' }),
+    };
+  }
+
+  /**
+   * Verify a challenge token and return its payload
+   */
+  verifyChallenge(
+    challengeToken: string,
+    purpose?: TwoFactorChallengePurpose,
+  ): TwoFactorChallengePayload {
+    let payload: TwoFactorChallengePayload;
+    try {
+      payload =
+        this.jwtService.verify<TwoFactorChallengePayload>(challengeToken);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired challenge token');
+    }
+
+    if (
+      !['2fa-login', '2fa-enroll'].includes(payload.purpose) ||
+      (purpose && payload.purpose !== purpose)
+    ) {
+      throw new UnauthorizedException('Invalid or expired challenge token');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Generate a new (pending) secret; it only becomes active once confirmed
+   */
+  async beginEnrollment(userId: number): Promise<TwoFactorSetup> {
+    const user = await this.findUserWithSecrets(userId);
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.usersRepo.update(userId, { twoFactorSecret: secret });
+
+    const issuer = this.configService.get<string>('TOTP_ISSUER', 'Nest Auth');
+    return {
+      secret,
+      otpauthUri: buildOtpAuthUri(secret, user.email, issuer),
+    };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app.
+   * Returns the plaintext recovery codes; they are never shown again.
+   */
+  async confirmEnrollment(userId: number, code: string): Promise<string[]> {
+    const user = await this.findUserWithSecrets(userId);
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+    if (!user.twoFactorSecret) {
+      throw new BadRequestException('Two-factor setup has not been started');
+    }
+
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (step === null) {
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.usersRepo.update(userId, {
+      twoFactorEnabled: true,
+      twoFactorLastStep: step,
+      twoFactorRecoveryCodes: recoveryCodes.map((c) =>
+        this.hashRecoveryCode(c),
+      ),
+    });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Verify a TOTP code or consume a recovery code for an enrolled user
+   */
+  async verify(
+    userId: number,
+    code?: string,
+    recoveryCode?: string,
+  ): Promise<void> {
+    const user = await this.findUserWithSecrets(userId);
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      throw new UnauthorizedException('Two-factor authentication not enabled');
+    }
+
+    if (code) {
+      const step = verifyTotp(user.twoFactorSecret, code);
+      if (step === null) {
+        throw new UnauthorizedException('Invalid two-factor code');
+      }
+      // Conditional write, so a code can't be replayed even concurrently
+      const result = await this.usersRepo
+        .createQueryBuilder()
+        .update(Users)
+        .set({ twoFactorLastStep: step })
+        .where('id = :userId', { userId })
+        .andWhere(
+          '(two_factor_last_step IS NULL OR two_factor_last_step < :step)',
+          { step },
+        )
+        .execute();
+      if (!result.affected) {
+        throw new UnauthorizedException('Invalid two-factor code');
+      }
+      return;
+    }
+
+    if (recoveryCode) {
+      // Remove the code only if it is still there; concurrent uses lose
+      const result = await this.usersRepo
+        .createQueryBuilder()
+        .update(Users)
+        .set({
+          twoFactorRecoveryCodes: () => 'two_factor_recovery_codes - :hash',
+        })
+        .where('id = :userId', { userId })
+        .andWhere(
+          'two_factor_recovery_codes @> jsonb_build_array(CAST(:hash AS text))',
+        )
+        .setParameter('hash', this.hashRecoveryCode(recoveryCode))
+        .execute();
+      if (!result.affected) {
+        throw new UnauthorizedException('Invalid recovery code');
+      }
+      return;
+    }
+
+    throw new BadRequestException(
+      'A two-factor code or recovery code is required',
+    );
+  }
+
+  /**
+   * Replace all recovery codes after verifying a current TOTP code
+   */
+  async regenerateRecoveryCodes(
+    userId: number,
+    code: string,
+  ): Promise<string[]> {
+    await this.verify(userId, code);
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.usersRepo.update(userId, {
+      twoFactorRecoveryCodes: recoveryCodes.map((c) =>
+        this.hashRecoveryCode(c),
+      ),
+    });
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn 2FA off (not allowed while the user's company enforces it)
+   */
+  async disable(userId: number, code: string): Promise<void> {
+    const user = await this.findUserWithSecrets(userId);
+    if (user.company?.enforceTwoFactor) {
+      throw new ForbiddenException(
+        'Two-factor authentication is required by your company',
+      );
+    }
+
+    await this.verify(userId, code);
+
+    await this.usersRepo.update(userId, {
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorRecoveryCodes: null,
+      twoFactorLastStep: null,
+    });
+  }
+}
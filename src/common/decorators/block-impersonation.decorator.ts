@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const BLOCK_IMPERSONATION_KEY = 'blockImpersonation';
+
+export const BlockImpersonation = () =>
+  SetMetadata(BLOCK_IMPERSONATION_KEY, true);
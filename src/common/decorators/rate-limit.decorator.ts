@@ -0,0 +1,16 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const RATE_LIMIT_KEY = 'rate_limit';
+
+export interface RateLimitOptions {
+  // Requests allowed per window
+  points: number;
+  // Window length in seconds
+  duration: number;
+  // Who the limit applies to; 'user' and 'company' fall back to the IP for
+  // anonymous requests. Defaults to 'ip'.
+  key?: 'ip' | 'user' | 'company';
+}
+
+export const RateLimit = (options: RateLimitOptions) =>
+  SetMetadata(RATE_LIMIT_KEY, options);
@@ -0,0 +1,45 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ImpersonationGuard } from './impersonation.guard';
+import { AuthUser } from '../interfaces/auth-user.interface';
+
+describe('ImpersonationGuard', () => {
+  function makeContext(user: Partial<AuthUser>): ExecutionContext {
+    return {
+      switchToHttp: () => ({
+        getRequest: () => ({ user }),
+      }),
+      getHandler: () => ({}),
+      getClass: () => ({}),
+    } as unknown as ExecutionContext;
+  }
+
+  function makeGuard(blocked: boolean | undefined) {
+    const reflector = {
+      getAllAndOverride: jest.fn().mockReturnValue(blocked),
+    } as unknown as Reflector;
+    return new ImpersonationGuard(reflector);
+  }
+
+  it('allows impersonated sessions on routes that are not marked', () => {
+    const guard = makeGuard(undefined);
+
+    expect(guard.canActivate(makeContext({ id: 5, impersonatorId: 1 }))).toBe(
+      true,
+    );
+  });
+
+  it('allows the real user on marked routes', () => {
+    const guard = makeGuard(true);
+
+    expect(guard.canActivate(makeContext({ id: 5 }))).toBe(true);
+  });
+
+  it('denies impersonated sessions on marked routes', () => {
+    const guard = makeGuard(true);
+
+    expect(() =>
+      guard.canActivate(makeContext({ id: 5, impersonatorId: 1 })),
+    ).toThrow(ForbiddenException);
+  });
+});
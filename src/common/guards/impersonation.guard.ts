@@ -0,0 +1,38 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { BLOCK_IMPERSONATION_KEY } from '../decorators/block-impersonation.decorator';
+import type { Request } from 'express';
+import { AuthUser } from '../interfaces/auth-user.interface';
+
+interface RequestWithUser extends Request {
+  user?: AuthUser;
+}
+
+/**
+ * Keeps impersonated sessions away from actions only the real user may
+ * take (credentials, 2FA, new credentials for other clients, impersonation).
+ * Use together with `@BlockImpersonation()` after `AuthGuard('jwt')`.
+ */
+@Injectable()
+export class ImpersonationGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const blocked = this.reflector.getAllAndOverride<boolean>(
+      BLOCK_IMPERSONATION_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!blocked) return true;
+
+    const request = context.switchToHttp().getRequest<RequestWithUser>();
+    if (request.user?.impersonatorId) {
+      throw new ForbiddenException('Not allowed while impersonating');
+    }
+    return true;
+  }
+}
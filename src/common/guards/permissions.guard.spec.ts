@@ -0,0 +1,70 @@
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PermissionsGuard } from './permissions.guard';
+import { AuthUser } from '../interfaces/auth-user.interface';
+import { ActivityLogsService } from '../../activity-logs/activity-logs.service';
+
+describe('PermissionsGuard', () => {
+  function makeContext(user: Partial<AuthUser>): ExecutionContext {
+    return {
+      switchToHttp: () => ({
+        getRequest: () => ({ user }),
+      }),
+      getHandler: () => ({}),
+      getClass: () => ({}),
+    } as unknown as ExecutionContext;
+  }
+
+  function makeGuard(required: string[] | undefined) {
+    const reflector = {
+      getAllAndOverride: jest.fn().mockReturnValue(required),
+    } as unknown as Reflector;
+    const mockActivityLogService = {
+      logForbiddenAccess: jest.fn(),
+    } as unknown as ActivityLogsService;
+    return {
+      guard: new PermissionsGuard(reflector, mockActivityLogService),
+      mockActivityLogService,
+    };
+  }
+
+  it('allows when no permissions required', () => {
+    const { guard } = makeGuard(undefined);
+
+    expect(guard.canActivate(makeContext({}))).toBe(true);
+  });
+
+  it('allows when every required permission is granted', () => {
+    const { guard } = makeGuard(['users.update', 'users.status']);
+
+    const ctx = makeContext({
+      roles: ['company_admin'],
+      permissions: ['users.update', 'users.status', 'users.create'],
+    });
+
+    expect(guard.canActivate(ctx)).toBe(true);
+  });
+
+  it('denies and logs when a permission is missing', () => {
+    const { guard, mockActivityLogService } = makeGuard([
+      'users.update',
+      'users.status',
+    ]);
+
+    const ctx = makeContext({
+      roles: ['company_admin'],
+      permissions: ['users.update'],
+    });
+
+    expect(guard.canActivate(ctx)).toBe(false);
+    expect(mockActivityLogService.logForbiddenAccess).toHaveBeenCalled();
+  });
+
+  it('always allows super_admin', () => {
+    const { guard } = makeGuard(['users.delete']);
+
+    const ctx = makeContext({ roles: ['SUPER_ADMIN'], permissions: [] });
+
+    expect(guard.canActivate(ctx)).toBe(true);
+  });
+});
@@ -0,0 +1,66 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+import { normalizeRoleSlug } from '../utils/roles';
+import { ActivityLogsService } from 'src/activity-logs/activity-logs.service';
+import type { Request } from 'express';
+import { AuthUser } from '../interfaces/auth-user.interface';
+
+interface RequestWithUser extends Request {
+  user?: AuthUser;
+}
+
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private activityLogService: ActivityLogsService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredPermissions = this.reflector.getAllAndOverride<string[]>(
+      PERMISSIONS_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!requiredPermissions || requiredPermissions.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<RequestWithUser>();
+    const user = request.user;
+
+    if (!user) {
+      console.log('PermissionsGuard: missing request.user');
+      return false;
+    }
+
+    // super_admin shortcut
+    if ((user.roles || []).map(normalizeRoleSlug).includes('super_admin')) {
+      return true;
+    }
+
+    // permissions resolved in JwtStrategy - every one is required
+    const granted = user.permissions || [];
+    const allowed = requiredPermissions.every((p) => granted.includes(p));
+
+    if (!allowed) {
+      console.log('PermissionsGuard DENY:', {
+        requiredPermissions,
+        granted,
+      });
+
+      // Log forbidden access attempt (fire-and-forget, don't block the response)
+      void this.activityLogService.logForbiddenAccess({
+        userId: user.id,
+        username: user.email,
+        companyId: user.companyId,
+        ipAddress: request.ip || '',
+        api: request.originalUrl,
+        method: request.method,
+      });
+    }
+
+    return allowed;
+  }
+}
@@ -0,0 +1,112 @@
+import { ExecutionContext, HttpException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type Redis from 'ioredis';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RateLimitOptions } from '../decorators/rate-limit.decorator';
+import { AuthUser } from '../interfaces/auth-user.interface';
+
+describe('RateLimitGuard', () => {
+  class UsersController {}
+  function findByEmail() {}
+
+  function makeContext(user?: Partial<AuthUser>) {
+    const setHeader = jest.fn();
+    const context = {
+      switchToHttp: () => ({
+        getRequest: () => ({ user, ip: '10.0.0.1' }),
+        getResponse: () => ({ setHeader }),
+      }),
+      getHandler: () => findByEmail,
+      getClass: () => UsersController,
+    } as unknown as ExecutionContext;
+    return { context, setHeader };
+  }
+
+  function makeGuard(
+    options: RateLimitOptions | undefined,
+    evalResult: unknown = [1, 1, String(Date.now())],
+  ) {
+    const reflector = {
+      getAllAndOverride: jest.fn().mockReturnValue(options),
+    } as unknown as Reflector;
+    const redis = {
+      eval: jest.fn().mockResolvedValue(evalResult),
+    };
+    return {
+      guard: new RateLimitGuard(reflector, redis as unknown as Redis),
+      redis,
+    };
+  }
+
+  it('allows routes without a limit', async () => {
+    const { guard, redis } = makeGuard(undefined);
+
+    await expect(guard.canActivate(makeContext().context)).resolves.toBe(true);
+    expect(redis.eval).not.toHaveBeenCalled();
+  });
+
+  it('counts per user and sets RateLimit headers', async () => {
+    const { guard, redis } = makeGuard(
+      { points: 5, duration: 60, key: 'user' },
+      [1, 2, String(Date.now())],
+    );
+    const { context, setHeader } = makeContext({ id: 7, companyId: 3 });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(redis.eval).toHaveBeenCalledWith(
+      expect.any(String),
+      1,
+      'ratelimit:UsersController.findByEmail:user:7',
+      expect.any(Number),
+      60000,
+      5,
+      expect.any(String),
+    );
+    expect(setHeader).toHaveBeenCalledWith('RateLimit-Limit', 5);
+    expect(setHeader).toHaveBeenCalledWith('RateLimit-Remaining', 3);
+    expect(setHeader).toHaveBeenCalledWith('RateLimit-Reset', 60);
+  });
+
+  it('falls back to the IP for anonymous requests', async () => {
+    const { guard, redis } = makeGuard({
+      points: 5,
+      duration: 60,
+      key: 'company',
+    });
+
+    await guard.canActivate(makeContext().context);
+
+    expect(redis.eval).toHaveBeenCalledWith(
+      expect.any(String),
+      1,
+      'ratelimit:UsersController.findByEmail:ip:10.0.0.1',
+      expect.any(Number),
+      60000,
+      5,
+      expect.any(String),
+    );
+  });
+
+  it('rejects with 429 and Retry-After once the window is full', async () => {
+    const { guard } = makeGuard({ points: 5, duration: 60 }, [
+      0,
+      5,
+      String(Date.now() - 30000),
+    ]);
+    const { context, setHeader } = makeContext();
+
+    const error = await guard.canActivate(context).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(HttpException);
+    expect((error as HttpException).getStatus()).toBe(429);
+    expect(setHeader).toHaveBeenCalledWith('RateLimit-Remaining', 0);
+    expect(setHeader).toHaveBeenCalledWith('Retry-After', 30);
+  });
+
+  it('fails open when Redis is unavailable', async () => {
+    const { guard, redis } = makeGuard({ points: 5, duration: 60 });
+    redis.eval.mockRejectedValue(new Error('connection refused'));
+
+    await expect(guard.canActivate(makeContext().context)).resolves.toBe(true);
+  });
+});
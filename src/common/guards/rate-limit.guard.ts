@@ -0,0 +1,132 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type Redis from 'ioredis';
+import type { Request, Response } from 'express';
+import {
+  RATE_LIMIT_KEY,
+  RateLimitOptions,
+} from '../decorators/rate-limit.decorator';
+import { AuthUser } from '../interfaces/auth-user.interface';
+
+interface RequestWithUser extends Request {
+  user?: AuthUser;
+}
+
+// Sliding window log: drop entries older than the window, then record the
+// request only if there is room left. Returns [allowed, count, oldest score].
+const SLIDING_WINDOW_SCRIPT = `
+redis.call('ZREMRANGEBYSCORE', KEYS[1], 0, ARGV[1] - ARGV[2])
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < tonumber(ARGV[3]) then
+  redis.call('ZADD', KEYS[1], ARGV[1], ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', KEYS[1], ARGV[2])
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')[2] or ARGV[1]
+return {allowed, count, oldest}
+`;
+
+/**
+ * Enforces `@RateLimit()` on a route. Counters live in Redis so the limit
+ * holds across instances. Place it after `AuthGuard('jwt')` so user and
+ * company keys can be resolved.
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  private readonly logger = new Logger(RateLimitGuard.name);
+
+  constructor(
+    private reflector: Reflector,
+    @Inject('REDIS_CLIENT')
+    private readonly redis: Redis,
+  ) {}
+
+  // Key format: ratelimit:{Controller.handler}:{ip|user|company}:{value}
+  private resolveKey(
+    context: ExecutionContext,
+    request: RequestWithUser,
+    scope: RateLimitOptions['key'],
+  ): string {
+    const route = `${context.getClass().name}.${context.getHandler().name}`;
+    const user = request.user;
+
+    if (scope === 'company' && user?.companyId) {
+      return `ratelimit:${route}:company:${user.companyId}`;
+    }
+    if ((scope === 'user' || scope === 'company') && user?.id) {
+      return `ratelimit:${route}:user:${user.id}`;
+    }
+    return `ratelimit:${route}:ip:${request.ip || 'unknown'}`;
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const options = this.reflector.getAllAndOverride<RateLimitOptions>(
+      RATE_LIMIT_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!options) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<RequestWithUser>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const key = this.resolveKey(context, request, options.key ?? 'ip');
+    const windowMs = options.duration * 1000;
+    const now = Date.now();
+
+    let result: [number, number, string];
+    try {
+      result = (await this.redis.eval(
+        SLIDING_WINDOW_SCRIPT,
+        1,
+        key,
+        now,
+        windowMs,
+        options.points,
+        `${now}:${Math.random().toString(36).slice(2)}`,
+      )) as [number, number, string];
+    } catch (error) {
+      // Fail open: an unavailable Redis must not take the API down
+      this.logger.error(
+        `Rate limit check failed for ${key}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+      return true;
+    }
+
+    const [allowed, count, oldest] = result;
+    // Seconds until the oldest request leaves the window
+    const reset = Math.max(
+      1,
+      Math.ceil((Number(oldest) + windowMs - now) / 1000),
+    );
+
+    response.setHeader('RateLimit-Limit', options.points);
+    response.setHeader(
+      'RateLimit-Remaining',
+      Math.max(0, options.points - count),
+    );
+    response.setHeader('RateLimit-Reset', reset);
+
+    if (!allowed) {
+      response.setHeader('Retry-After', reset);
+      throw new HttpException(
+        `Too many requests. Try again in ${reset} second${reset > 1 ? 's' : ''}.`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    return true;
+  }
+}
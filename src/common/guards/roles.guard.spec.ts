@@ -119,4 +119,27 @@ describe('RolesGuard', () => {
 
     expect(guard.canActivate(ctx)).toBe(true);
   });
+
+  it('denies OAuth principals even when they hold the role', () => {
+    const reflector = {
+      getAllAndOverride: jest.fn().mockReturnValue(['company_admin']),
+    } as unknown as Reflector;
+    const mockActivityLogService = {
+      logForbiddenAccess: jest.fn(),
+    } as unknown as ActivityLogsService;
+    guard = new RolesGuard(reflector, mockActivityLogService);
+
+    const user = {
+      id: 7,
+      roles: ['company_admin'],
+      permissions: ['users.read'],
+      oauthClientId: 'reporting-app',
+    };
+    const ctx = makeContext(user as Partial<AuthUser>);
+
+    expect(guard.canActivate(ctx)).toBe(false);
+    expect(mockActivityLogService.logForbiddenAccess).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 7 }),
+    );
+  });
 });
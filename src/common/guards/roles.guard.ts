@@ -35,6 +35,20 @@ export class RolesGuard implements CanActivate {
       return false;
     }
 
+    // Delegated OAuth tokens are narrowed by scope, which a role check
+    // cannot see; they are only accepted on permission-guarded routes
+    if (user.oauthClientId) {
+      void this.activityLogService.logForbiddenAccess({
+        userId: user.id,
+        username: user.email,
+        companyId: user.companyId,
+        ipAddress: request.ip || '',
+        api: request.originalUrl,
+        method: request.method,
+      });
+      return false;
+    }
+
     // roles from JWT
     const normalizedUserRoles = user.roles
       .map(normalizeRoleSlug)
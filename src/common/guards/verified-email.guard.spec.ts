@@ -0,0 +1,47 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { VerifiedEmailGuard } from './verified-email.guard';
+import { AuthUser } from '../interfaces/auth-user.interface';
+
+describe('VerifiedEmailGuard', () => {
+  function makeContext(user: Partial<AuthUser>): ExecutionContext {
+    return {
+      switchToHttp: () => ({
+        getRequest: () => ({ user }),
+      }),
+      getHandler: () => ({}),
+      getClass: () => ({}),
+    } as unknown as ExecutionContext;
+  }
+
+  function makeGuard(required: boolean | undefined) {
+    const reflector = {
+      getAllAndOverride: jest.fn().mockReturnValue(required),
+    } as unknown as Reflector;
+    return new VerifiedEmailGuard(reflector);
+  }
+
+  it('allows unverified users on routes that are not marked', () => {
+    const guard = makeGuard(undefined);
+
+    expect(
+      guard.canActivate(makeContext({ id: 5, emailVerified: false })),
+    ).toBe(true);
+  });
+
+  it('allows verified users on marked routes', () => {
+    const guard = makeGuard(true);
+
+    expect(guard.canActivate(makeContext({ id: 5, emailVerified: true }))).toBe(
+      true,
+    );
+  });
+
+  it('denies unverified users on marked routes', () => {
+    const guard = makeGuard(true);
+
+    expect(() =>
+      guard.canActivate(makeContext({ id: 5, emailVerified: false })),
+    ).toThrow(ForbiddenException);
+  });
+});
@@ -0,0 +1,37 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { REQUIRE_VERIFIED_EMAIL_KEY } from '../decorators/require-verified-email.decorator';
+import type { Request } from 'express';
+import { AuthUser } from '../interfaces/auth-user.interface';
+
+interface RequestWithUser extends Request {
+  user?: AuthUser;
+}
+
+/**
+ * Per-route counterpart of the company-wide verified email policy.
+ * Use together with `@RequireVerifiedEmail()` after `AuthGuard('jwt')`.
+ */
+@Injectable()
+export class VerifiedEmailGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const required = this.reflector.getAllAndOverride<boolean>(
+      REQUIRE_VERIFIED_EMAIL_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!required) return true;
+
+    const request = context.switchToHttp().getRequest<RequestWithUser>();
+    if (!request.user?.emailVerified) {
+      throw new ForbiddenException('Please verify your email address first');
+    }
+    return true;
+  }
+}
@@ -5,4 +5,14 @@ export interface AuthUser {
   companyId?: number;
   departmentId?: number;
   roles: string[];
+  permissions?: string[];
+  emailVerified?: boolean;
+  // Session behind a session JWT
+  sessionId?: number;
+  // Set while a super_admin is impersonating this user
+  impersonatorId?: number;
+  // Set when the request was authenticated with an API key
+  apiKeyId?: number;
+  // Set when the request was authenticated with a delegated OAuth token
+  oauthClientId?: string;
 }
@@ -9,12 +9,14 @@ export class LoggingMiddleware implements NestMiddleware {
     const { method, originalUrl } = req;
     const start = Date.now();
 
-    // clone body and redact passwords
+    // clone body and redact passwords and one-time tokens
     let body: Record<string, unknown> | undefined = undefined;
     try {
       body = { ...(req.body as Record<string, unknown>) };
-      if (body && typeof body === 'object' && 'password' in body) {
-        body.password = '[REDACTED]';
+      for (const field of ['password', 'token']) {
+        if (body && typeof body === 'object' && field in body) {
+          body[field] = '[REDACTED]';
+        }
       }
     } catch {
       // ignore
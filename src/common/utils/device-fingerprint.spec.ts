@@ -0,0 +1,30 @@
+import { deviceFingerprint, ipPrefix } from './device-fingerprint';
+
+describe('device fingerprint', () => {
+  const firefox =
+    'Mozilla/5.0 (X11; Linux x86_64; rv:120.0) Gecko/20100101 Firefox/120.0';
+  const firefoxUpdated =
+    'Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0';
+  const chrome =
+    'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+  it('keeps the network part of IPv4, mapped and IPv6 addresses', () => {
+    expect(ipPrefix('203.0.113.57')).toBe('203.0.113');
+    expect(ipPrefix('::ffff:203.0.113.57')).toBe('203.0.113');
+    expect(ipPrefix('2001:DB8:85a3::8a2e:370:7334')).toBe('2001:db8:85a3');
+    expect(ipPrefix(null)).toBe('unknown');
+  });
+
+  it('survives browser updates and host changes within the same network', () => {
+    expect(deviceFingerprint(firefox, '203.0.113.5')).toBe(
+      deviceFingerprint(firefoxUpdated, '203.0.113.77'),
+    );
+  });
+
+  it('differs for another browser or network', () => {
+    const base = deviceFingerprint(firefox, '203.0.113.5');
+
+    expect(deviceFingerprint(chrome, '203.0.113.5')).not.toBe(base);
+    expect(deviceFingerprint(firefox, '198.51.100.5')).not.toBe(base);
+  });
+});
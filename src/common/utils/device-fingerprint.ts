@@ -0,0 +1,28 @@
+import * as crypto from 'crypto';
+import * as UAParser from 'ua-parser-js';
+
+// Network part of an address: /24 for IPv4, /48 for IPv6, so a device keeps
+// its fingerprint when the ISP rotates the host part
+export function ipPrefix(ipAddress?: string | null): string {
+  if (!ipAddress) return 'unknown';
+
+  const ip = ipAddress.replace(/^::ffff:/i, '');
+  if (ip.includes('.')) {
+    return ip.split('.').slice(0, 3).join('.');
+  }
+  return ip.toLowerCase().split(':').slice(0, 3).join(':');
+}
+
+// Browser and OS families (without versions) plus the IP prefix, hashed
+export function deviceFingerprint(
+  userAgent?: string | null,
+  ipAddress?: string | null,
+): string {
+  const { browser, os } = new UAParser.UAParser(userAgent ?? '').getResult();
+  const parts = [
+    browser.name ?? 'unknown',
+    os.name ?? 'unknown',
+    ipPrefix(ipAddress),
+  ];
+  return crypto.createHash('sha256').update(parts.join('|')).digest('hex');
+}
@@ -0,0 +1,50 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUri,
+  generateTotp,
+  getTotpStep,
+  verifyTotp,
+} from './totp';
+
+describe('totp', () => {
+  // RFC 6238 Appendix B test secret (ASCII "12345678901234567890")
+  const rfcSecret = base32Encode(Buffer.from('12345678901234567890'));
+
+  it('round-trips base32', () => {
+    const buffer = Buffer.from('hello world');
+    expect(base32Decode(base32Encode(buffer)).toString()).toBe('hello world');
+  });
+
+  it('matches the RFC 6238 SHA1 test vectors', () => {
+    expect(generateTotp(rfcSecret, getTotpStep(59 * 1000), 8)).toBe('94287082');
+    expect(generateTotp(rfcSecret, getTotpStep(1111111109 * 1000), 8)).toBe(
+      '07081804',
+    );
+  });
+
+  it('accepts codes within the drift window and rejects others', () => {
+    const now = 1111111109 * 1000;
+    const step = getTotpStep(now);
+    const previous = generateTotp(rfcSecret, step - 1);
+    const stale = generateTotp(rfcSecret, step - 3);
+
+    expect(verifyTotp(rfcSecret, previous, 1, now)).toBe(step - 1);
+    expect(verifyTotp(rfcSecret, stale, 1, now)).toBeNull();
+    expect(verifyTotp(rfcSecret, 'abcdef', 1, now)).toBeNull();
+  });
+
+  it('only accepts codes of the configured length', () => {
+    const now = 1111111109 * 1000;
+    const code = generateTotp(rfcSecret, getTotpStep(now));
+
+    expect(verifyTotp(rfcSecret, code.slice(-1), 1, now)).toBeNull();
+    expect(verifyTotp(rfcSecret, `0${code}`, 1, now)).toBeNull();
+  });
+
+  it('builds an otpauth URI', () => {
+    const uri = buildOtpAuthUri('JBSWY3DPEHPK3PXP', 'a@b.com', 'Nest Auth');
+    expect(uri).toContain('otpauth://totp/Nest%20Auth%3Aa%40b.com?');
+    expect(uri).toContain('secret=JBSWY3DPEHPK3PXP');
+  });
+});
@@ -5,6 +5,7 @@ import {
   Param,
   Post,
   Put,
+  Patch,
   Delete,
   UseGuards,
   ParseIntPipe,
@@ -14,11 +15,15 @@ import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
 import { CompaniesService } from './companies.service';
 import { CreateCompanyDto } from './dto/create-company.dto';
 import { UpdateCompanyDto } from './dto/update-company.dto';
+import { UpdateTwoFactorPolicyDto } from './dto/update-two-factor-policy.dto';
+import { UpdateEmailVerificationPolicyDto } from './dto/update-email-verification-policy.dto';
+import { UpdateLogRetentionDto } from './dto/update-log-retention.dto';
+import { UpdateSessionPolicyDto } from './dto/update-session-policy.dto';
 import { AuthGuard } from '@nestjs/passport';
 import { Roles } from '../common/decorators/roles.decorator';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { ApiResponse } from 'src/common/utils/api-response';
-import { AuthUser } from '../common/interfaces/auth-user.interface';
+import type { RequestWithUser } from '../common/interfaces/request-with-user.interface';
 
 /**
  * Controller for managing companies.
@@ -26,7 +31,7 @@ import { AuthUser } from '../common/interfaces/auth-user.interface';
  * All routes require JWT authentication and are typically restricted
  * to super administrators.
  */
-@UseGuards(AuthGuard('jwt'))
+@UseGuards(AuthGuard(['jwt', 'api-key', 'oauth']))
 @ApiTags('companies')
 @ApiBearerAuth('JWT')
 @Controller('companies')
@@ -39,10 +44,10 @@ export class CompaniesController {
    * @param req - Authenticated request containing the current user.
    * @returns API response with the list of companies.
    */
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
   @Roles('super_admin', 'company_admin')
   @Get('getAll')
-  async findAll(@Req() req: { user: AuthUser }) {
+  async findAll(@Req() req: RequestWithUser) {
     const data = await this.service.findAllWithAccess(req.user);
     return ApiResponse.success('Companies retrieved successfully', 200, data);
   }
@@ -53,7 +58,7 @@ export class CompaniesController {
    * @param id - Company identifier.
    * @returns API response with the requested company.
    */
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
   @Roles('super_admin')
   @Get('getById/:id')
   async findOne(@Param('id', ParseIntPipe) id: number) {
@@ -68,11 +73,15 @@ export class CompaniesController {
    * @param req - Authenticated request providing the acting user.
    * @returns API response with the created company.
    */
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
   @Roles('super_admin')
   @Post('create')
-  async create(@Body() dto: CreateCompanyDto, @Req() req: { user: AuthUser }) {
-    const data = await this.service.create(dto, req.user);
+  async create(@Body() dto: CreateCompanyDto, @Req() req: RequestWithUser) {
+    const data = await this.service.create(dto, req.user, {
+      ipAddress: req.ip,
+      method: req.method,
+      api: req.originalUrl,
+    });
     return ApiResponse.success('Company created successfully', 201, data);
   }
 
@@ -84,18 +93,147 @@ export class CompaniesController {
    * @param req - Authenticated request providing the acting user.
    * @returns API response with the updated company.
    */
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
   @Roles('super_admin')
   @Put('update/:id')
   async update(
     @Param('id', ParseIntPipe) id: number,
     @Body() dto: UpdateCompanyDto,
-    @Req() req: { user: AuthUser },
+    @Req() req: RequestWithUser,
   ) {
-    const data = await this.service.update(id, dto, req.user);
+    const data = await this.service.update(id, dto, req.user, {
+      ipAddress: req.ip,
+      method: req.method,
+      api: req.originalUrl,
+    });
     return ApiResponse.success('Company updated successfully', 200, data);
   }
 
+  /**
+   * Require (or stop requiring) two-factor authentication for all users
+   * of a company.
+   *
+   * @param id - Company identifier.
+   * @param dto - Two-factor policy payload.
+   * @param req - Authenticated request providing the acting user.
+   * @returns API response with the updated company.
+   */
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
+  @Roles('super_admin', 'company_admin')
+  @Patch(':id/two-factor')
+  async updateTwoFactorPolicy(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateTwoFactorPolicyDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const data = await this.service.setTwoFactorEnforcement(
+      id,
+      dto.enforce,
+      req.user,
+      {
+        ipAddress: req.ip,
+        method: req.method,
+        api: req.originalUrl,
+      },
+    );
+    return ApiResponse.success(
+      'Two-factor policy updated successfully',
+      200,
+      data,
+    );
+  }
+
+  /**
+   * Require (or stop requiring) a verified email address for all users
+   * of a company before they can log in or use their tokens. Existing
+   * unverified users are mailed a link and keep access for a grace period.
+   *
+   * @param id - Company identifier.
+   * @param dto - Email verification policy payload.
+   * @param req - Authenticated request providing the acting user.
+   * @returns API response with the updated company.
+   */
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
+  @Roles('super_admin', 'company_admin')
+  @Patch(':id/email-verification')
+  async updateEmailVerificationPolicy(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateEmailVerificationPolicyDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const data = await this.service.setEmailVerificationRequirement(
+      id,
+      dto.require,
+      req.user,
+      {
+        ipAddress: req.ip,
+        method: req.method,
+        api: req.originalUrl,
+      },
+    );
+    return ApiResponse.success(
+      'Email verification policy updated successfully',
+      200,
+      data,
+    );
+  }
+
+  /**
+   * Set how many days activity logs of a company stay in the live table
+   * before the nightly job archives them.
+   *
+   * @param id - Company identifier.
+   * @param dto - Retention payload (null restores the default).
+   * @param req - Authenticated request providing the acting user.
+   * @returns API response with the updated company.
+   */
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
+  @Roles('super_admin')
+  @Patch(':id/log-retention')
+  async updateLogRetention(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateLogRetentionDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const data = await this.service.setLogRetention(id, dto.days, req.user, {
+      ipAddress: req.ip,
+      method: req.method,
+      api: req.originalUrl,
+    });
+    return ApiResponse.success('Log retention updated successfully', 200, data);
+  }
+
+  /**
+   * Set the idle timeout, lifetimes and concurrent session limit of a
+   * company's sessions. Timeouts are applied on refresh and by the expiry
+   * job, which warns clients shortly before a session ends; the limit is
+   * applied on login.
+   *
+   * @param id - Company identifier.
+   * @param dto - Session policy payload (null restores a default).
+   * @param req - Authenticated request providing the acting user.
+   * @returns API response with the updated company.
+   */
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
+  @Roles('super_admin', 'company_admin')
+  @Patch(':id/session-policy')
+  async updateSessionPolicy(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateSessionPolicyDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const data = await this.service.setSessionPolicy(id, dto, req.user, {
+      ipAddress: req.ip,
+      method: req.method,
+      api: req.originalUrl,
+    });
+    return ApiResponse.success(
+      'Session policy updated successfully',
+      200,
+      data,
+    );
+  }
+
   /**
    * Delete a company by ID.
    *
@@ -103,14 +241,18 @@ export class CompaniesController {
    * @param req - Authenticated request providing the acting user.
    * @returns API response indicating successful deletion.
    */
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
   @Roles('super_admin')
   @Delete('delete/:id')
   async delete(
     @Param('id', ParseIntPipe) id: number,
-    @Req() req: { user: AuthUser },
+    @Req() req: RequestWithUser,
   ) {
-    const data = await this.service.delete(id, req.user);
+    const data = await this.service.delete(id, req.user, {
+      ipAddress: req.ip,
+      method: req.method,
+      api: req.originalUrl,
+    });
     return ApiResponse.success('Company deleted successfully', 200, data);
   }
 }
@@ -6,11 +6,13 @@ import { Users } from '../entities/entities/Users';
 import { CompaniesController } from './companies.controller';
 import { CompaniesService } from './companies.service';
 import { NotificationsModule } from '../notifications/notifications.module';
+import { UserModule } from '../users/users.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([Companies, Departments, Users]),
     NotificationsModule,
+    UserModule,
   ],
   providers: [CompaniesService],
   controllers: [CompaniesController],
@@ -3,6 +3,7 @@ import {
   Injectable,
   OnModuleInit,
   BadRequestException,
+  ForbiddenException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
@@ -12,6 +13,10 @@ import { Users } from '../entities/entities/Users';
 import type Redis from 'ioredis';
 import { NotificationsGateway } from '../notifications/notifications.gateway';
 import { AuthUser } from '../common/interfaces/auth-user.interface';
+import { RequestContext } from '../common/interfaces/request-context.interface';
+import { AuditService } from '../activity-logs/audit.service';
+import { UpdateSessionPolicyDto } from './dto/update-session-policy.dto';
+import { EmailVerificationService } from '../users/email-verification.service';
 
 @Injectable()
 export class CompaniesService implements OnModuleInit {
@@ -28,6 +33,8 @@ export class CompaniesService implements OnModuleInit {
     @Inject('REDIS_CLIENT')
     private readonly redis: Redis,
     private readonly notificationsGateway: NotificationsGateway,
+    private readonly auditService: AuditService,
+    private readonly emailVerificationService: EmailVerificationService,
   ) {}
 
   // ---------------- ON MODULE INIT ----------------
@@ -105,9 +112,23 @@ export class CompaniesService implements OnModuleInit {
   }
 
   // ---------------- CREATE ----------------
-  async create(data: Partial<Companies>, performer?: AuthUser) {
+  async create(
+    data: Partial<Companies>,
+    performer?: AuthUser,
+    ctx?: RequestContext,
+  ) {
     const company = await this.repo.save(data);
 
+    await this.auditService.record(
+      performer,
+      'company.create',
+      'company',
+      company.id,
+      null,
+      company,
+      { ...ctx, companyId: company.id },
+    );
+
     // Cache in Redis (permanent - no TTL)
     await this.redis.set(
       `${this.CACHE_PREFIX}:${company.id}`,
@@ -212,11 +233,27 @@ export class CompaniesService implements OnModuleInit {
   }
 
   // ---------------- UPDATE ----------------
-  async update(id: number, data: Partial<Companies>, performer?: AuthUser) {
+  async update(
+    id: number,
+    data: Partial<Companies>,
+    performer?: AuthUser,
+    ctx?: RequestContext,
+  ) {
+    const existing = await this.repo.findOne({ where: { id } });
     await this.repo.update(id, data);
     const company = await this.repo.findOne({ where: { id } });
 
     if (company) {
+      await this.auditService.record(
+        performer,
+        'company.update',
+        'company',
+        id,
+        existing,
+        company,
+        { ...ctx, companyId: id },
+      );
+
       // Update Redis cache (permanent - no TTL)
       await this.redis.set(
         `${this.CACHE_PREFIX}:${id}`,
@@ -241,8 +278,108 @@ export class CompaniesService implements OnModuleInit {
     return company;
   }
 
+  // ---------------- SECURITY POLICIES ----------------
+  // company_admin may only change the policies of their own company
+  private async assertCanChangePolicy(
+    id: number,
+    performer: AuthUser,
+  ): Promise<Companies> {
+    const roles = (performer.roles || []).map((r) =>
+      String(r).toLowerCase().trim(),
+    );
+    if (!roles.includes('super_admin') && performer.companyId !== id) {
+      throw new ForbiddenException(
+        'Not allowed to change the policy of another company',
+      );
+    }
+
+    const company = await this.repo.findOne({ where: { id } });
+    if (!company) {
+      throw new BadRequestException('Company not found');
+    }
+    return company;
+  }
+
+  async setTwoFactorEnforcement(
+    id: number,
+    enforce: boolean,
+    performer: AuthUser,
+    ctx?: RequestContext,
+  ) {
+    await this.assertCanChangePolicy(id, performer);
+    return this.update(id, { enforceTwoFactor: enforce }, performer, ctx);
+  }
+
+  async setEmailVerificationRequirement(
+    id: number,
+    require: boolean,
+    performer: AuthUser,
+    ctx?: RequestContext,
+  ) {
+    const existing = await this.assertCanChangePolicy(id, performer);
+    const enabling = require && !existing.requireVerifiedEmail;
+
+    const data: Partial<Companies> = { requireVerifiedEmail: require };
+    if (!require) data.requireVerifiedEmailSince = null;
+    // Re-applying an active policy keeps its original start
+    else if (enabling) data.requireVerifiedEmailSince = new Date();
+
+    const company = await this.update(id, data, performer, ctx);
+
+    // Existing unverified users get a link to use during the grace period
+    if (enabling) {
+      void this.emailVerificationService
+        .remindUnverifiedUsers(id)
+        .catch((error) =>
+          console.error('Failed to send verification reminders:', error),
+        );
+    }
+
+    return company;
+  }
+
+  async setLogRetention(
+    id: number,
+    days: number | null,
+    performer: AuthUser,
+    ctx?: RequestContext,
+  ) {
+    await this.assertCanChangePolicy(id, performer);
+    return this.update(id, { logRetentionDays: days }, performer, ctx);
+  }
+
+  async setSessionPolicy(
+    id: number,
+    policy: UpdateSessionPolicyDto,
+    performer: AuthUser,
+    ctx?: RequestContext,
+  ) {
+    await this.assertCanChangePolicy(id, performer);
+
+    const data: Partial<Companies> = {};
+    if (policy.idleTimeoutMinutes !== undefined) {
+      data.sessionIdleTimeoutMinutes = policy.idleTimeoutMinutes;
+    }
+    if (policy.absoluteLifetimeMinutes !== undefined) {
+      data.sessionAbsoluteLifetimeMinutes = policy.absoluteLifetimeMinutes;
+    }
+    if (policy.rememberMeLifetimeMinutes !== undefined) {
+      data.sessionRememberMeLifetimeMinutes = policy.rememberMeLifetimeMinutes;
+    }
+    if (policy.maxConcurrentSessions !== undefined) {
+      data.maxConcurrentSessions = policy.maxConcurrentSessions;
+    }
+    if (policy.sessionLimitStrategy !== undefined) {
+      data.sessionLimitStrategy = policy.sessionLimitStrategy;
+    }
+    if (Object.keys(data).length === 0) {
+      throw new BadRequestException('No session policy changes given');
+    }
+    return this.update(id, data, performer, ctx);
+  }
+
   // ---------------- DELETE ----------------
-  async delete(id: number, performer?: AuthUser) {
+  async delete(id: number, performer?: AuthUser, ctx?: RequestContext) {
     // Get company before deleting
     const company = await this.repo.findOne({ where: { id } });
     if (!company) {
@@ -273,6 +410,16 @@ export class CompaniesService implements OnModuleInit {
 
     await this.repo.delete(id);
 
+    await this.auditService.record(
+      performer,
+      'company.delete',
+      'company',
+      id,
+      company,
+      null,
+      { ...ctx, companyId: id },
+    );
+
     // Remove from Redis
     await this.redis.del(`${this.CACHE_PREFIX}:${id}`);
     console.log(`delete: Removed company:${id} from Redis`);
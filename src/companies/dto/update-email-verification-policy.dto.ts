@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean } from 'class-validator';
+
+export class UpdateEmailVerificationPolicyDto {
+  @ApiProperty({
+    example: true,
+    description: 'Require a verified email address for every company user',
+  })
+  @IsBoolean()
+  require: boolean;
+}
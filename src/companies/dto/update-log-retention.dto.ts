@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, Max, Min, ValidateIf } from 'class-validator';
+
+export class UpdateLogRetentionDto {
+  @ApiProperty({
+    example: 365,
+    nullable: true,
+    description:
+      'Days activity logs stay live before being archived; null uses the default',
+  })
+  @ValidateIf((_, value) => value !== null)
+  @IsInt()
+  @Min(1)
+  @Max(3650)
+  days: number | null;
+}
@@ -0,0 +1,60 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+// Omitted fields keep their value; null restores the default
+export class UpdateSessionPolicyDto {
+  @ApiPropertyOptional({
+    example: 30,
+    nullable: true,
+    description: 'Minutes without activity before a session ends',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1440)
+  idleTimeoutMinutes?: number | null;
+
+  @ApiPropertyOptional({
+    example: 720,
+    nullable: true,
+    description: 'Minutes after login a session ends regardless of activity',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(5)
+  @Max(43200)
+  absoluteLifetimeMinutes?: number | null;
+
+  @ApiPropertyOptional({
+    example: 43200,
+    nullable: true,
+    description:
+      'Lifetime of remember-me sessions, which have no idle timeout (max 30 days)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(60)
+  @Max(43200)
+  rememberMeLifetimeMinutes?: number | null;
+
+  @ApiPropertyOptional({
+    example: 3,
+    nullable: true,
+    description: 'Active sessions allowed per user; 0 means unlimited',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  maxConcurrentSessions?: number | null;
+
+  @ApiPropertyOptional({
+    example: 'evict_oldest',
+    enum: ['evict_oldest', 'reject'],
+    nullable: true,
+    description: 'What a login beyond the limit does',
+  })
+  @IsOptional()
+  @IsIn(['evict_oldest', 'reject'])
+  sessionLimitStrategy?: 'evict_oldest' | 'reject' | null;
+}
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean } from 'class-validator';
+
+export class UpdateTwoFactorPolicyDto {
+  @ApiProperty({
+    example: true,
+    description: 'Require two-factor authentication for every company user',
+  })
+  @IsBoolean()
+  enforce: boolean;
+}
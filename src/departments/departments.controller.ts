@@ -18,7 +18,7 @@ import { Roles } from '../common/decorators/roles.decorator';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
 import { ApiResponse } from 'src/common/utils/api-response';
-import { AuthUser } from '../common/interfaces/auth-user.interface';
+import type { RequestWithUser } from '../common/interfaces/request-with-user.interface';
 
 /**
  * Controller for managing departments within companies.
@@ -26,7 +26,7 @@ import { AuthUser } from '../common/interfaces/auth-user.interface';
  * Routes are JWT-protected and typically restricted to company admins,
  * super admins and managers.
  */
-@UseGuards(AuthGuard('jwt'))
+@UseGuards(AuthGuard(['jwt', 'api-key', 'oauth']))
 @ApiTags('departments')
 @ApiBearerAuth('JWT')
 @Controller('departments')
@@ -39,10 +39,10 @@ export class DepartmentsController {
    * @param req - Authenticated request providing the current user.
    * @returns API response with the list of departments.
    */
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
   @Roles('company_admin', 'super_admin', 'manager')
   @Get('getAll')
-  async findAll(@Req() req: { user: AuthUser }) {
+  async findAll(@Req() req: RequestWithUser) {
     const data = await this.service.findAllWithAccess(req.user);
     return ApiResponse.success('Departments retrieved successfully', 200, data);
   }
@@ -53,7 +53,7 @@ export class DepartmentsController {
    * @param id - Department identifier.
    * @returns API response with the requested department.
    */
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
   @Roles('company_admin', 'super_admin', 'manager')
   @Get('getById/:id')
   async findOne(@Param('id', ParseIntPipe) id: number) {
@@ -67,7 +67,7 @@ export class DepartmentsController {
    * @param companyId - Company identifier.
    * @returns API response with the list of departments for the company.
    */
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
   @Roles('company_admin', 'super_admin', 'manager')
   @Get('getByCompany/:companyId')
   async findByCompany(@Param('companyId', ParseIntPipe) companyId: number) {
@@ -82,14 +82,15 @@ export class DepartmentsController {
    * @param req - Authenticated request providing the acting user.
    * @returns API response with the created department.
    */
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
   @Roles('company_admin', 'super_admin')
   @Post('create')
-  async create(
-    @Body() dto: CreateDepartmentDto,
-    @Req() req: { user: AuthUser },
-  ) {
-    const data = await this.service.create(dto, req.user);
+  async create(@Body() dto: CreateDepartmentDto, @Req() req: RequestWithUser) {
+    const data = await this.service.create(dto, req.user, {
+      ipAddress: req.ip,
+      method: req.method,
+      api: req.originalUrl,
+    });
     return ApiResponse.success('Department created successfully', 201, data);
   }
 
@@ -101,15 +102,19 @@ export class DepartmentsController {
    * @param req - Authenticated request providing the acting user.
    * @returns API response with the updated department.
    */
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
   @Roles('company_admin', 'super_admin')
   @Put('update/:id')
   async update(
     @Param('id', ParseIntPipe) id: number,
     @Body() dto: UpdateDepartmentDto,
-    @Req() req: { user: AuthUser },
+    @Req() req: RequestWithUser,
   ) {
-    const data = await this.service.update(id, dto, req.user);
+    const data = await this.service.update(id, dto, req.user, {
+      ipAddress: req.ip,
+      method: req.method,
+      api: req.originalUrl,
+    });
     return ApiResponse.success('Department updated successfully', 200, data);
   }
 
@@ -120,14 +125,18 @@ export class DepartmentsController {
    * @param req - Authenticated request providing the acting user.
    * @returns API response indicating successful deletion.
    */
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
   @Roles('company_admin', 'super_admin')
   @Delete('delete/:id')
   async delete(
     @Param('id', ParseIntPipe) id: number,
-    @Req() req: { user: AuthUser },
+    @Req() req: RequestWithUser,
   ) {
-    const data = await this.service.delete(id, req.user);
+    const data = await this.service.delete(id, req.user, {
+      ipAddress: req.ip,
+      method: req.method,
+      api: req.originalUrl,
+    });
     return ApiResponse.success('Department deleted successfully', 200, data);
   }
 }
@@ -13,6 +13,8 @@ import { Users } from '../entities/entities/Users';
 import type Redis from 'ioredis';
 import { NotificationsGateway } from '../notifications/notifications.gateway';
 import { AuthUser } from '../common/interfaces/auth-user.interface';
+import { RequestContext } from '../common/interfaces/request-context.interface';
+import { AuditService } from '../activity-logs/audit.service';
 
 @Injectable()
 export class DepartmentsService implements OnModuleInit {
@@ -29,6 +31,7 @@ export class DepartmentsService implements OnModuleInit {
     @Inject('REDIS_CLIENT')
     private readonly redis: Redis,
     private readonly notificationsGateway: NotificationsGateway,
+    private readonly auditService: AuditService,
   ) {}
 
   // ---------------- ON MODULE INIT ----------------
@@ -112,6 +115,7 @@ export class DepartmentsService implements OnModuleInit {
   async create(
     data: Partial<Departments> & { companyId?: number },
     performer?: AuthUser,
+    ctx?: RequestContext,
   ) {
     const dept = this.repo.create();
     Object.assign(dept, data as Partial<Departments>);
@@ -160,6 +164,16 @@ export class DepartmentsService implements OnModuleInit {
       relations: ['company'],
     });
 
+    await this.auditService.record(
+      performer,
+      'department.create',
+      'department',
+      saved.id,
+      null,
+      deptWithRelations || saved,
+      { ...ctx, companyId },
+    );
+
     if (deptWithRelations) {
       // Cache in Redis (permanent - no TTL)
       await this.redis.set(
@@ -311,7 +325,12 @@ export class DepartmentsService implements OnModuleInit {
   }
 
   // ---------------- UPDATE ----------------
-  async update(id: number, data: Partial<Departments>, performer?: AuthUser) {
+  async update(
+    id: number,
+    data: Partial<Departments>,
+    performer?: AuthUser,
+    ctx?: RequestContext,
+  ) {
     // Get existing department to know the company
     const existingDept = await this.repo.findOne({
       where: { id },
@@ -325,6 +344,16 @@ export class DepartmentsService implements OnModuleInit {
     });
 
     if (dept) {
+      await this.auditService.record(
+        performer,
+        'department.update',
+        'department',
+        id,
+        existingDept,
+        dept,
+        { ...ctx, companyId: dept.company?.id ?? existingDept?.company?.id },
+      );
+
       // Update Redis cache (permanent - no TTL)
       await this.redis.set(`${this.CACHE_PREFIX}:${id}`, JSON.stringify(dept));
       console.log(`update: Updated department:${id} in Redis`);
@@ -348,7 +377,7 @@ export class DepartmentsService implements OnModuleInit {
   }
 
   // ---------------- DELETE ----------------
-  async delete(id: number, performer?: AuthUser) {
+  async delete(id: number, performer?: AuthUser, ctx?: RequestContext) {
     // Get department before deleting to know company
     const dept = await this.repo.findOne({
       where: { id },
@@ -374,6 +403,16 @@ export class DepartmentsService implements OnModuleInit {
 
     await this.repo.delete(id);
 
+    await this.auditService.record(
+      performer,
+      'department.delete',
+      'department',
+      id,
+      dept,
+      null,
+      { ...ctx, companyId },
+    );
+
     // Remove from Redis
     await this.redis.del(`${this.CACHE_PREFIX}:${id}`);
     console.log(`delete: Removed department:${id} from Redis`);
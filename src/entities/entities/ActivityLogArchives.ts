@@ -0,0 +1,64 @@
+import { Column, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+// One gzip-compressed NDJSON batch of expired activity_logs rows.
+// Batches are contiguous id ranges of a single company chain.
+@Index('activity_log_archives_pkey', ['id'], { unique: true })
+@Index('activity_log_archives_company_id_idx', ['companyId', 'firstLogId'])
+@Entity('activity_log_archives', { schema: 'public' })
+export class ActivityLogArchives {
+  @PrimaryGeneratedColumn({ type: 'integer', name: 'id' })
+  id: number;
+
+  @Column('integer', { name: 'company_id', nullable: true })
+  companyId: number | null;
+
+  @Column('integer', { name: 'first_log_id' })
+  firstLogId: number;
+
+  @Column('integer', { name: 'last_log_id' })
+  lastLogId: number;
+
+  @Column('timestamp with time zone', { name: 'from_date' })
+  fromDate: Date;
+
+  @Column('timestamp with time zone', { name: 'to_date' })
+  toDate: Date;
+
+  @Column('integer', { name: 'row_count' })
+  rowCount: number;
+
+  // Chain links around the batch so verification can bridge the gap
+  @Column('character varying', {
+    name: 'first_prev_hash',
+    nullable: true,
+    length: 64,
+  })
+  firstPrevHash: string | null;
+
+  @Column('character varying', {
+    name: 'last_hash',
+    nullable: true,
+    length: 64,
+  })
+  lastHash: string | null;
+
+  @Column('bytea', { name: 'payload' })
+  payload: Buffer;
+
+  @Column('timestamp with time zone', {
+    name: 'created_at',
+    nullable: true,
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date | null;
+
+  // Set while the rows are temporarily copied back into activity_logs
+  @Column('timestamp with time zone', { name: 'restored_at', nullable: true })
+  restoredAt: Date | null;
+
+  @Column('timestamp with time zone', {
+    name: 'restored_until',
+    nullable: true,
+  })
+  restoredUntil: Date | null;
+}
@@ -1,6 +1,8 @@
 import { Column, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
 
 @Index('activity_logs_pkey', ['id'], { unique: true })
+@Index('activity_logs_company_id_id_idx', ['companyId', 'id'])
+@Index('activity_logs_created_at_id_idx', ['createdAt', 'id'])
 @Entity('activity_logs', { schema: 'public' })
 export class ActivityLogs {
   @PrimaryGeneratedColumn({ type: 'integer', name: 'id' })
@@ -33,4 +35,28 @@ export class ActivityLogs {
 
   @Column('integer', { name: 'company_id', nullable: true })
   companyId: number | null;
+
+  // Audit trail fields; only set for reason 'AUDIT'
+  @Column('character varying', { name: 'action', nullable: true })
+  action: string | null;
+
+  @Column('character varying', { name: 'entity_type', nullable: true })
+  entityType: string | null;
+
+  @Column('character varying', { name: 'entity_id', nullable: true })
+  entityId: string | null;
+
+  @Column('jsonb', { name: 'changes', nullable: true })
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+
+  // Per-company hash chain; rows written before the chain existed have none
+  @Column('character varying', {
+    name: 'prev_hash',
+    nullable: true,
+    length: 64,
+  })
+  prevHash: string | null;
+
+  @Column('character varying', { name: 'hash', nullable: true, length: 64 })
+  hash: string | null;
 }
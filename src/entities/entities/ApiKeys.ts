@@ -0,0 +1,86 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Users } from './Users';
+import { Companies } from './Companies';
+
+@Index('api_keys_pkey', ['id'], { unique: true })
+@Index('api_keys_prefix_key', ['prefix'], { unique: true })
+@Index('idx_api_keys_user_id', ['userId'], {})
+@Index('idx_api_keys_company_id', ['companyId'], {})
+@Entity('api_keys', { schema: 'public' })
+export class ApiKeys {
+  @PrimaryGeneratedColumn({ type: 'integer', name: 'id' })
+  id: number;
+
+  @Column('character varying', { name: 'name', length: 100 })
+  name: string;
+
+  // Public part of the key, used to look it up and to recognise it in lists
+  @Column('character varying', { name: 'prefix', unique: true, length: 32 })
+  prefix: string;
+
+  @Column('character varying', { name: 'key_hash', length: 64 })
+  keyHash: string;
+
+  // Owner of a personal key; null for company-owned keys
+  @Column('integer', { name: 'user_id', nullable: true })
+  userId: number | null;
+
+  @Column('integer', { name: 'company_id', nullable: true })
+  companyId: number | null;
+
+  @Column('integer', { name: 'created_by', nullable: true })
+  createdBy: number | null;
+
+  // Permission slugs the key is limited to; null = all of the user's
+  @Column('jsonb', { name: 'scopes', nullable: true })
+  scopes: string[] | null;
+
+  // Role slugs the key is limited to; null = all of the user's
+  @Column('jsonb', { name: 'roles', nullable: true })
+  roles: string[] | null;
+
+  @Column('timestamp without time zone', { name: 'expires_at', nullable: true })
+  expiresAt: Date | null;
+
+  @Column('timestamp without time zone', {
+    name: 'last_used_at',
+    nullable: true,
+  })
+  lastUsedAt: Date | null;
+
+  @Column('character varying', {
+    name: 'last_used_ip',
+    nullable: true,
+    length: 64,
+  })
+  lastUsedIp: string | null;
+
+  @Column('timestamp without time zone', { name: 'revoked_at', nullable: true })
+  revokedAt: Date | null;
+
+  @Column('timestamp without time zone', {
+    name: 'created_at',
+    nullable: true,
+    default: () => 'now()',
+  })
+  createdAt: Date | null;
+
+  @ManyToOne(() => Users, { onDelete: 'CASCADE' })
+  @JoinColumn([{ name: 'user_id', referencedColumnName: 'id' }])
+  user: Users;
+
+  @ManyToOne(() => Companies, { onDelete: 'CASCADE' })
+  @JoinColumn([{ name: 'company_id', referencedColumnName: 'id' }])
+  company: Companies;
+
+  @ManyToOne(() => Users, { onDelete: 'SET NULL' })
+  @JoinColumn([{ name: 'created_by', referencedColumnName: 'id' }])
+  creator: Users;
+}
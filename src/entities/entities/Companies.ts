@@ -44,6 +44,62 @@ export class Companies {
   @Column('timestamp without time zone', { name: 'deleted_at', nullable: true })
   deletedAt: Date | null;
 
+  @Column('boolean', {
+    name: 'enforce_two_factor',
+    nullable: false,
+    default: () => 'false',
+  })
+  enforceTwoFactor: boolean;
+
+  @Column('boolean', {
+    name: 'require_verified_email',
+    nullable: false,
+    default: () => 'false',
+  })
+  requireVerifiedEmail: boolean;
+
+  // When the verified email policy was turned on; accounts that existed
+  // before get a grace period to verify
+  @Column('timestamp without time zone', {
+    name: 'require_verified_email_since',
+    nullable: true,
+  })
+  requireVerifiedEmailSince: Date | null;
+
+  // Days activity logs stay in activity_logs before being archived;
+  // null falls back to ACTIVITY_LOG_RETENTION_DAYS
+  @Column('integer', { name: 'log_retention_days', nullable: true })
+  logRetentionDays: number | null;
+
+  // Session policy; null falls back to the SESSION_* defaults
+  @Column('integer', { name: 'session_idle_timeout_minutes', nullable: true })
+  sessionIdleTimeoutMinutes: number | null;
+
+  @Column('integer', {
+    name: 'session_absolute_lifetime_minutes',
+    nullable: true,
+  })
+  sessionAbsoluteLifetimeMinutes: number | null;
+
+  @Column('integer', {
+    name: 'session_remember_me_lifetime_minutes',
+    nullable: true,
+  })
+  sessionRememberMeLifetimeMinutes: number | null;
+
+  // Active sessions allowed per user; null falls back to
+  // SESSION_MAX_CONCURRENT (0 = unlimited)
+  @Column('integer', { name: 'max_concurrent_sessions', nullable: true })
+  maxConcurrentSessions: number | null;
+
+  // What a login beyond the limit does: evict_oldest or reject
+  @Column('character varying', {
+    name: 'session_limit_strategy',
+    length: 20,
+    nullable: true,
+  })
+  sessionLimitStrategy: string | null;
+
   @OneToMany(() => Departments, (departments) => departments.company)
   departments: Departments[];
 
@@ -0,0 +1,95 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Companies } from './Companies';
+import { Departments } from './Departments';
+
+@Index('company_oidc_providers_pkey', ['id'], { unique: true })
+@Index('company_oidc_providers_company_id_key', ['companyId'], {
+  unique: true,
+})
+@Entity('company_oidc_providers', { schema: 'public' })
+export class CompanyOidcProviders {
+  @PrimaryGeneratedColumn({ type: 'integer', name: 'id' })
+  id: number;
+
+  @Column('integer', { name: 'company_id', unique: true })
+  companyId: number;
+
+  @Column('character varying', { name: 'issuer', length: 500 })
+  issuer: string;
+
+  @Column('character varying', { name: 'client_id', length: 255 })
+  clientId: string;
+
+  @Column('character varying', {
+    name: 'client_secret',
+    length: 500,
+    nullable: true,
+    select: false,
+  })
+  clientSecret: string | null;
+
+  @Column('character varying', {
+    name: 'scopes',
+    length: 255,
+    default: () => "'openid email profile'",
+  })
+  scopes: string;
+
+  // Claim holding the IdP groups/roles, e.g. `groups`
+  @Column('character varying', {
+    name: 'role_claim',
+    length: 100,
+    nullable: true,
+  })
+  roleClaim: string | null;
+
+  // Claim value -> role slug; the first matching entry wins
+  @Column('jsonb', { name: 'role_mapping', nullable: true })
+  roleMapping: Record<string, string> | null;
+
+  @Column('character varying', {
+    name: 'default_role',
+    length: 50,
+    default: () => "'user'",
+  })
+  defaultRole: string;
+
+  // Create unknown users on first login instead of rejecting them
+  @Column('boolean', { name: 'auto_provision', default: () => 'false' })
+  autoProvision: boolean;
+
+  @Column('integer', { name: 'default_department_id', nullable: true })
+  defaultDepartmentId: number | null;
+
+  @Column('boolean', { name: 'enabled', default: () => 'true' })
+  enabled: boolean;
+
+  @Column('timestamp without time zone', {
+    name: 'created_at',
+    nullable: true,
+    default: () => 'now()',
+  })
+  createdAt: Date | null;
+
+  @Column('timestamp without time zone', {
+    name: 'updated_at',
+    nullable: true,
+    default: () => 'now()',
+  })
+  updatedAt: Date | null;
+
+  @ManyToOne(() => Companies, { onDelete: 'CASCADE' })
+  @JoinColumn([{ name: 'company_id', referencedColumnName: 'id' }])
+  company: Companies;
+
+  @ManyToOne(() => Departments, { onDelete: 'SET NULL' })
+  @JoinColumn([{ name: 'default_department_id', referencedColumnName: 'id' }])
+  defaultDepartment: Departments;
+}
@@ -0,0 +1,46 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Users } from './Users';
+
+// A row per user and notification type; `type` may be a wildcard such as
+// `user:*` or `*`
+@Index('notification_preferences_pkey', ['id'], { unique: true })
+@Index('notification_preferences_user_type', ['userId', 'type'], {
+  unique: true,
+})
+@Entity('notification_preferences', { schema: 'public' })
+export class NotificationPreferences {
+  @PrimaryGeneratedColumn({ type: 'integer', name: 'id' })
+  id: number;
+
+  @Column('integer', { name: 'user_id' })
+  userId: number;
+
+  @Column('character varying', { name: 'type', length: 50 })
+  type: string;
+
+  @Column('boolean', { name: 'in_app', default: true })
+  inApp: boolean;
+
+  @Column('boolean', { name: 'email', default: false })
+  email: boolean;
+
+  @Column('boolean', { name: 'digest', default: false })
+  digest: boolean;
+
+  @Column('timestamp without time zone', {
+    name: 'updated_at',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+
+  @ManyToOne(() => Users, { onDelete: 'CASCADE' })
+  @JoinColumn([{ name: 'user_id', referencedColumnName: 'id' }])
+  user: Users;
+}
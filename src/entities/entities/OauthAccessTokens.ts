@@ -0,0 +1,53 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Users } from './Users';
+import { OauthClients } from './OauthClients';
+
+@Index('oauth_access_tokens_pkey', ['id'], { unique: true })
+@Index('oauth_access_tokens_jti_key', ['jti'], { unique: true })
+@Index('idx_oauth_access_tokens_user_client', ['userId', 'oauthClientId'], {})
+@Entity('oauth_access_tokens', { schema: 'public' })
+export class OauthAccessTokens {
+  @PrimaryGeneratedColumn({ type: 'integer', name: 'id' })
+  id: number;
+
+  // `jti` claim of the issued JWT; the token itself is never stored
+  @Column('uuid', { name: 'jti', unique: true })
+  jti: string;
+
+  @Column('integer', { name: 'oauth_client_id' })
+  oauthClientId: number;
+
+  @Column('integer', { name: 'user_id' })
+  userId: number;
+
+  @Column('jsonb', { name: 'scopes' })
+  scopes: string[];
+
+  @Column('timestamp without time zone', { name: 'expires_at' })
+  expiresAt: Date;
+
+  @Column('timestamp without time zone', { name: 'revoked_at', nullable: true })
+  revokedAt: Date | null;
+
+  @Column('timestamp without time zone', {
+    name: 'created_at',
+    nullable: true,
+    default: () => 'now()',
+  })
+  createdAt: Date | null;
+
+  @ManyToOne(() => Users, { onDelete: 'CASCADE' })
+  @JoinColumn([{ name: 'user_id', referencedColumnName: 'id' }])
+  user: Users;
+
+  @ManyToOne(() => OauthClients, { onDelete: 'CASCADE' })
+  @JoinColumn([{ name: 'oauth_client_id', referencedColumnName: 'id' }])
+  client: OauthClients;
+}
@@ -0,0 +1,66 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Users } from './Users';
+import { Companies } from './Companies';
+
+@Index('oauth_clients_pkey', ['id'], { unique: true })
+@Index('oauth_clients_client_id_key', ['clientId'], { unique: true })
+@Index('idx_oauth_clients_company_id', ['companyId'], {})
+@Entity('oauth_clients', { schema: 'public' })
+export class OauthClients {
+  @PrimaryGeneratedColumn({ type: 'integer', name: 'id' })
+  id: number;
+
+  // Public identifier sent by the app as `client_id`
+  @Column('character varying', { name: 'client_id', unique: true, length: 64 })
+  clientId: string;
+
+  // Null for public clients (e.g. SPAs), which rely on PKCE alone
+  @Column('character varying', {
+    name: 'client_secret_hash',
+    nullable: true,
+    length: 64,
+  })
+  clientSecretHash: string | null;
+
+  @Column('character varying', { name: 'name', length: 100 })
+  name: string;
+
+  @Column('integer', { name: 'company_id' })
+  companyId: number;
+
+  // Exact redirect URIs the app may send users back to
+  @Column('jsonb', { name: 'redirect_uris' })
+  redirectUris: string[];
+
+  // Permission slugs the app may ask users for
+  @Column('jsonb', { name: 'scopes' })
+  scopes: string[];
+
+  @Column('integer', { name: 'created_by', nullable: true })
+  createdBy: number | null;
+
+  @Column('timestamp without time zone', { name: 'revoked_at', nullable: true })
+  revokedAt: Date | null;
+
+  @Column('timestamp without time zone', {
+    name: 'created_at',
+    nullable: true,
+    default: () => 'now()',
+  })
+  createdAt: Date | null;
+
+  @ManyToOne(() => Companies, { onDelete: 'CASCADE' })
+  @JoinColumn([{ name: 'company_id', referencedColumnName: 'id' }])
+  company: Companies;
+
+  @ManyToOne(() => Users, { onDelete: 'SET NULL' })
+  @JoinColumn([{ name: 'created_by', referencedColumnName: 'id' }])
+  creator: Users;
+}
@@ -0,0 +1,55 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Users } from './Users';
+import { OauthClients } from './OauthClients';
+
+@Index('oauth_consents_pkey', ['id'], { unique: true })
+@Index('oauth_consents_user_client_key', ['userId', 'oauthClientId'], {
+  unique: true,
+})
+@Entity('oauth_consents', { schema: 'public' })
+export class OauthConsents {
+  @PrimaryGeneratedColumn({ type: 'integer', name: 'id' })
+  id: number;
+
+  @Column('integer', { name: 'user_id' })
+  userId: number;
+
+  @Column('integer', { name: 'oauth_client_id' })
+  oauthClientId: number;
+
+  // Scopes the user agreed to; later requests within them skip the prompt
+  @Column('jsonb', { name: 'scopes' })
+  scopes: string[];
+
+  @Column('timestamp without time zone', { name: 'revoked_at', nullable: true })
+  revokedAt: Date | null;
+
+  @Column('timestamp without time zone', {
+    name: 'created_at',
+    nullable: true,
+    default: () => 'now()',
+  })
+  createdAt: Date | null;
+
+  @Column('timestamp without time zone', {
+    name: 'updated_at',
+    nullable: true,
+    default: () => 'now()',
+  })
+  updatedAt: Date | null;
+
+  @ManyToOne(() => Users, { onDelete: 'CASCADE' })
+  @JoinColumn([{ name: 'user_id', referencedColumnName: 'id' }])
+  user: Users;
+
+  @ManyToOne(() => OauthClients, { onDelete: 'CASCADE' })
+  @JoinColumn([{ name: 'oauth_client_id', referencedColumnName: 'id' }])
+  client: OauthClients;
+}
@@ -0,0 +1,52 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Users } from './Users';
+
+@Index('password_reset_tokens_pkey', ['id'], { unique: true })
+@Index('password_reset_tokens_token_hash_key', ['tokenHash'], { unique: true })
+@Index('idx_password_reset_tokens_user_id', ['userId'], {})
+@Entity('password_reset_tokens', { schema: 'public' })
+export class PasswordResetTokens {
+  @PrimaryGeneratedColumn({ type: 'integer', name: 'id' })
+  id: number;
+
+  @Column('integer', { name: 'user_id' })
+  userId: number;
+
+  @Column('character varying', {
+    name: 'token_hash',
+    unique: true,
+    length: 255,
+  })
+  tokenHash: string;
+
+  @Column('timestamp without time zone', { name: 'expires_at' })
+  expiresAt: Date;
+
+  @Column('timestamp without time zone', { name: 'used_at', nullable: true })
+  usedAt: Date | null;
+
+  @Column('character varying', {
+    name: 'requested_ip',
+    nullable: true,
+    length: 45,
+  })
+  requestedIp: string | null;
+
+  @Column('timestamp without time zone', {
+    name: 'created_at',
+    nullable: true,
+    default: () => 'now()',
+  })
+  createdAt: Date | null;
+
+  @ManyToOne(() => Users, { onDelete: 'CASCADE' })
+  @JoinColumn([{ name: 'user_id', referencedColumnName: 'id' }])
+  user: Users;
+}
@@ -0,0 +1,35 @@
+import {
+  Column,
+  Entity,
+  Index,
+  OneToMany,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { RolePermissions } from './RolePermissions';
+
+@Index('permissions_pkey', ['id'], { unique: true })
+@Index('permissions_slug_key', ['slug'], { unique: true })
+@Entity('permissions', { schema: 'public' })
+export class Permissions {
+  @PrimaryGeneratedColumn({ type: 'integer', name: 'id' })
+  id: number;
+
+  @Column('character varying', { name: 'slug', unique: true, length: 100 })
+  slug: string;
+
+  @Column('text', { name: 'description', nullable: true })
+  description: string | null;
+
+  @Column('timestamp without time zone', {
+    name: 'created_at',
+    nullable: true,
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date | null;
+
+  @OneToMany(
+    () => RolePermissions,
+    (rolePermissions) => rolePermissions.permission,
+  )
+  rolePermissions: RolePermissions[];
+}
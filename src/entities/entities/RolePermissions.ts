@@ -0,0 +1,31 @@
+import {
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Roles } from './Roles';
+import { Permissions } from './Permissions';
+
+@Index('role_permissions_pkey', ['id'], { unique: true })
+@Index('role_permissions_role_id_permission_id_key', ['role', 'permission'], {
+  unique: true,
+})
+@Entity('role_permissions', { schema: 'public' })
+export class RolePermissions {
+  @PrimaryGeneratedColumn({ type: 'integer', name: 'id' })
+  id: number;
+
+  @ManyToOne(() => Roles, (roles) => roles.rolePermissions, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn([{ name: 'role_id', referencedColumnName: 'id' }])
+  role: Roles;
+
+  @ManyToOne(() => Permissions, (permissions) => permissions.rolePermissions, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn([{ name: 'permission_id', referencedColumnName: 'id' }])
+  permission: Permissions;
+}
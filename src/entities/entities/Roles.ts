@@ -2,25 +2,33 @@ import {
   Column,
   Entity,
   Index,
+  JoinColumn,
+  ManyToOne,
   OneToMany,
   PrimaryGeneratedColumn,
 } from 'typeorm';
 import { UserRoles } from './UserRoles';
+import { RolePermissions } from './RolePermissions';
 import { Users } from './Users';
+import { Companies } from './Companies';
 
 @Index('roles_pkey', ['id'], { unique: true })
-@Index('roles_name_key', ['slug'], { unique: true })
+@Index('roles_company_id_slug_key', ['companyId', 'slug'], { unique: true })
 @Entity('roles', { schema: 'public' })
 export class Roles {
   @PrimaryGeneratedColumn({ type: 'integer', name: 'id' })
   id: number;
 
-  @Column('character varying', { name: 'slug', unique: true, length: 50 })
+  @Column('character varying', { name: 'slug', length: 50 })
   slug: string;
 
   @Column('text', { name: 'name', nullable: true })
   name: string | null;
 
+  // null for system roles; set for company-defined custom roles
+  @Column('integer', { name: 'company_id', nullable: true })
+  companyId: number | null;
+
   @Column('timestamp without time zone', {
     name: 'created_at',
     nullable: true,
@@ -40,4 +48,11 @@ export class Roles {
 
   @OneToMany(() => Users, (users) => users.role)
   users: Users[];
+
+  @ManyToOne(() => Companies, { onDelete: 'CASCADE' })
+  @JoinColumn([{ name: 'company_id', referencedColumnName: 'id' }])
+  company: Companies;
+
+  @OneToMany(() => RolePermissions, (rolePermissions) => rolePermissions.role)
+  rolePermissions: RolePermissions[];
 }
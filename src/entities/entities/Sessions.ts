@@ -12,6 +12,7 @@ import { Users } from './Users';
 @Index('idx_sessions_is_valid', ['isValid'], {})
 @Index('idx_sessions_login_at', ['loginAt'], {})
 @Index('idx_sessions_user_id', ['userId'], {})
+@Index('idx_sessions_user_device', ['userId', 'deviceFingerprint'], {})
 @Entity('sessions', { schema: 'public' })
 export class Sessions {
   @PrimaryGeneratedColumn({ type: 'integer', name: 'id' })
@@ -23,6 +24,18 @@ export class Sessions {
   @Column('character varying', { name: 'refresh_token_hash', length: 255 })
   refreshTokenHash: string;
 
+  // Token rotated out by the last refresh, still accepted for a short grace
+  // period so concurrent refreshes from several tabs don't look like reuse
+  @Column('character varying', {
+    name: 'previous_refresh_token_hash',
+    nullable: true,
+    length: 255,
+  })
+  previousRefreshTokenHash: string | null;
+
+  @Column('timestamp without time zone', { name: 'rotated_at', nullable: true })
+  rotatedAt: Date | null;
+
   @Column('timestamp without time zone', {
     name: 'login_at',
     default: () => 'now()',
@@ -48,6 +61,26 @@ export class Sessions {
   @Column('text', { name: 'user_agent', nullable: true })
   userAgent: string | null;
 
+  // Hash of browser/OS family and IP prefix, to spot never-seen devices
+  @Column('character varying', {
+    name: 'device_fingerprint',
+    nullable: true,
+    length: 64,
+  })
+  deviceFingerprint: string | null;
+
+  // Remember-me logins skip the idle timeout and get a longer lifetime
+  @Column('boolean', { name: 'remember_me', default: () => 'false' })
+  rememberMe: boolean;
+
+  // Support admin acting as the session's user; null for normal logins
+  @Column('integer', { name: 'impersonator_id', nullable: true })
+  impersonatorId: number | null;
+
+  // Hard end of a time-boxed session (impersonation); null = no limit
+  @Column('timestamp without time zone', { name: 'expires_at', nullable: true })
+  expiresAt: Date | null;
+
   @Column('timestamp without time zone', {
     name: 'created_at',
     nullable: true,
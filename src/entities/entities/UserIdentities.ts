@@ -0,0 +1,53 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Users } from './Users';
+
+@Index('user_identities_pkey', ['id'], { unique: true })
+@Index('user_identities_issuer_subject_key', ['issuer', 'subject'], {
+  unique: true,
+})
+@Index('idx_user_identities_user_id', ['userId'], {})
+@Entity('user_identities', { schema: 'public' })
+export class UserIdentities {
+  @PrimaryGeneratedColumn({ type: 'integer', name: 'id' })
+  id: number;
+
+  @Column('integer', { name: 'user_id' })
+  userId: number;
+
+  @Column('character varying', { name: 'provider', length: 50 })
+  provider: string;
+
+  @Column('character varying', { name: 'issuer', length: 500 })
+  issuer: string;
+
+  // `sub` claim; stable per issuer, unlike the email
+  @Column('character varying', { name: 'subject', length: 255 })
+  subject: string;
+
+  @Column('character varying', { name: 'email', length: 255, nullable: true })
+  email: string | null;
+
+  @Column('timestamp without time zone', {
+    name: 'last_login_at',
+    nullable: true,
+  })
+  lastLoginAt: Date | null;
+
+  @Column('timestamp without time zone', {
+    name: 'created_at',
+    nullable: true,
+    default: () => 'now()',
+  })
+  createdAt: Date | null;
+
+  @ManyToOne(() => Users, { onDelete: 'CASCADE' })
+  @JoinColumn([{ name: 'user_id', referencedColumnName: 'id' }])
+  user: Users;
+}
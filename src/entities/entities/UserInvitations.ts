@@ -0,0 +1,67 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Users } from './Users';
+import { Companies } from './Companies';
+
+@Index('user_invitations_pkey', ['id'], { unique: true })
+@Index('user_invitations_token_hash_key', ['tokenHash'], { unique: true })
+@Index('idx_user_invitations_company_id', ['companyId'], {})
+@Index('idx_user_invitations_user_id', ['userId'], {})
+@Entity('user_invitations', { schema: 'public' })
+export class UserInvitations {
+  @PrimaryGeneratedColumn({ type: 'integer', name: 'id' })
+  id: number;
+
+  @Column('integer', { name: 'user_id' })
+  userId: number;
+
+  @Column('integer', { name: 'company_id', nullable: true })
+  companyId: number | null;
+
+  @Column('integer', { name: 'invited_by', nullable: true })
+  invitedBy: number | null;
+
+  @Column('character varying', {
+    name: 'token_hash',
+    unique: true,
+    length: 255,
+  })
+  tokenHash: string;
+
+  @Column('timestamp without time zone', { name: 'expires_at' })
+  expiresAt: Date;
+
+  @Column('timestamp without time zone', {
+    name: 'accepted_at',
+    nullable: true,
+  })
+  acceptedAt: Date | null;
+
+  @Column('timestamp without time zone', { name: 'revoked_at', nullable: true })
+  revokedAt: Date | null;
+
+  @Column('timestamp without time zone', {
+    name: 'created_at',
+    nullable: true,
+    default: () => 'now()',
+  })
+  createdAt: Date | null;
+
+  @ManyToOne(() => Users, { onDelete: 'CASCADE' })
+  @JoinColumn([{ name: 'user_id', referencedColumnName: 'id' }])
+  user: Users;
+
+  @ManyToOne(() => Companies, { onDelete: 'CASCADE' })
+  @JoinColumn([{ name: 'company_id', referencedColumnName: 'id' }])
+  company: Companies;
+
+  @ManyToOne(() => Users, { onDelete: 'SET NULL' })
+  @JoinColumn([{ name: 'invited_by', referencedColumnName: 'id' }])
+  inviter: Users;
+}
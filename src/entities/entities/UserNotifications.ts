@@ -37,6 +37,10 @@ export class UserNotifications {
   })
   deliveredAt: Date;
 
+  // Picked up by the daily digest while still unread
+  @Column('boolean', { name: 'in_digest', default: false })
+  inDigest: boolean;
+
   @ManyToOne(() => Users, { onDelete: 'CASCADE' })
   @JoinColumn([{ name: 'user_id', referencedColumnName: 'id' }])
   user: Users;
@@ -79,6 +79,37 @@ export class Users {
   })
   profilePicture: string | null;
 
+  @Column('timestamp without time zone', {
+    name: 'email_verified_at',
+    nullable: true,
+  })
+  emailVerifiedAt: Date | null;
+
+  @Column('boolean', {
+    name: 'two_factor_enabled',
+    nullable: false,
+    default: () => 'false',
+  })
+  twoFactorEnabled: boolean;
+
+  @Column('character varying', {
+    name: 'two_factor_secret',
+    nullable: true,
+    length: 64,
+    select: false,
+  })
+  twoFactorSecret: string | null;
+
+  @Column('jsonb', {
+    name: 'two_factor_recovery_codes',
+    nullable: true,
+    select: false,
+  })
+  twoFactorRecoveryCodes: string[] | null;
+
+  @Column('integer', { name: 'two_factor_last_step', nullable: true })
+  twoFactorLastStep: number | null;
+
   @OneToMany(() => Sessions, (sessions) => sessions.user)
   sessions: Sessions[];
 
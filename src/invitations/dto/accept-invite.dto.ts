@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, MinLength } from 'class-validator';
+
+export class AcceptInviteDto {
+  @ApiProperty({ example: 'eyJhbGciOi...' })
+  @IsString()
+  token: string;
+
+  @ApiProperty({ example: '12345678' })
+  @IsString()
+  @MinLength(8)
+  password: string;
+}
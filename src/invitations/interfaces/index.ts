@@ -0,0 +1 @@
+export * from './invitation.interface';
@@ -0,0 +1,18 @@
+export interface InvitationTokenPayload {
+  sub: number;
+  purpose: 'invite';
+  jti: string;
+}
+
+export interface PendingInvitation {
+  id: number;
+  userId: number;
+  email: string;
+  firstname: string | null;
+  lastname: string | null;
+  companyId: number | null;
+  invitedBy: number | null;
+  expiresAt: Date;
+  createdAt: Date | null;
+  expired: boolean;
+}
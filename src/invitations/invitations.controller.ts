@@ -0,0 +1,97 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { InvitationsService } from './invitations.service';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import type { RequestWithUser } from '../common/interfaces/request-with-user.interface';
+import { ApiResponse } from '../common/utils/api-response';
+
+/**
+ * Controller for managing pending user invitations.
+ *
+ * Invitations are created through `POST /users/create` with `invite: true`
+ * and accepted through `POST /auth/accept-invite`.
+ */
+@UseGuards(AuthGuard(['jwt', 'api-key', 'oauth']))
+@ApiTags('invitations')
+@ApiBearerAuth('JWT')
+@Controller('invitations')
+export class InvitationsController {
+  constructor(private invitationsService: InvitationsService) {}
+
+  /**
+   * List pending invitations.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param companyId - Optional company filter (super_admin only).
+   * @returns API response with pending invitations.
+   */
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
+  @Roles('super_admin', 'company_admin')
+  @Get('pending')
+  async findPending(
+    @Req() req: RequestWithUser,
+    @Query('companyId') companyId?: string,
+  ) {
+    const data = await this.invitationsService.findPending(
+      req.user,
+      companyId ? +companyId : undefined,
+    );
+    return ApiResponse.success('Invitations retrieved successfully', 200, data);
+  }
+
+  /**
+   * Send a fresh invitation link; the previous link stops working.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param id - Invitation identifier.
+   * @returns API response with the new invitation.
+   */
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
+  @Roles('super_admin', 'company_admin')
+  @Post(':id/resend')
+  async resend(
+    @Req() req: RequestWithUser,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    const data = await this.invitationsService.resend(id, req.user, {
+      ipAddress: req.ip,
+      method: req.method,
+      api: req.originalUrl,
+    });
+    return ApiResponse.success('Invitation resent successfully', 200, data);
+  }
+
+  /**
+   * Revoke a pending invitation and deactivate the invited account.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param id - Invitation identifier.
+   * @returns Standard API success response.
+   */
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
+  @Roles('super_admin', 'company_admin')
+  @Delete(':id')
+  async revoke(
+    @Req() req: RequestWithUser,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    await this.invitationsService.revoke(id, req.user, {
+      ipAddress: req.ip,
+      method: req.method,
+      api: req.originalUrl,
+    });
+    return ApiResponse.success('Invitation revoked successfully', 200);
+  }
+}
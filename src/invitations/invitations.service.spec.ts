@@ -0,0 +1,196 @@
+import { Repository } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { InvitationsService } from './invitations.service';
+import { UserInvitations } from '../entities/entities/UserInvitations';
+import { Users } from '../entities/entities/Users';
+import { MailService } from '../mail/mail.service';
+import { NotificationsGateway } from '../notifications/notifications.gateway';
+import { ActivityLogsService } from '../activity-logs/activity-logs.service';
+import { AuthUser } from '../common/interfaces/auth-user.interface';
+
+describe('InvitationsService', () => {
+  const companyAdmin: AuthUser = {
+    id: 1,
+    sub: 1,
+    email: 'admin@test.com',
+    companyId: 3,
+    roles: ['company_admin'],
+  };
+
+  const createMockDependencies = (overrides?: {
+    invitationsRepo?: Partial<Repository<UserInvitations>>;
+    usersRepo?: Partial<Repository<Users>>;
+    jwtService?: Partial<JwtService>;
+  }) => {
+    const invitationsRepo = {
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      create: jest.fn((data: Partial<UserInvitations>) => data),
+      save: jest.fn((data: Partial<UserInvitations>) =>
+        Promise.resolve({ id: 9, createdAt: new Date(), ...data }),
+      ),
+      findOne: jest.fn(),
+      find: jest.fn().mockResolvedValue([]),
+      ...overrides?.invitationsRepo,
+    } as unknown as Repository<UserInvitations>;
+    const usersRepo = {
+      findOne: jest.fn(),
+      update: jest.fn(),
+      ...overrides?.usersRepo,
+    } as unknown as Repository<Users>;
+    const jwtService = {
+      sign: jest.fn().mockReturnValue('invite-token'),
+      verify: jest.fn().mockReturnValue({ sub: 7, purpose: 'invite' }),
+      ...overrides?.jwtService,
+    } as unknown as JwtService;
+    const mailService = {
+      send: jest.fn(),
+      buildFrontendUrl: jest.fn().mockReturnValue('http://app/accept-invite'),
+    } as unknown as MailService;
+    const notificationsGateway = {
+      emitNotification: jest.fn().mockResolvedValue(undefined),
+    } as unknown as NotificationsGateway;
+    const activityLogsService = {
+      logForbiddenAccess: jest.fn(),
+    } as unknown as ActivityLogsService;
+    const configService = {
+      get: jest.fn((_key: string, fallback: unknown) => fallback),
+    } as unknown as ConfigService;
+
+    const service = new InvitationsService(
+      invitationsRepo,
+      usersRepo,
+      jwtService,
+      mailService,
+      notificationsGateway,
+      activityLogsService,
+      configService,
+    );
+
+    return {
+      service,
+      invitationsRepo,
+      usersRepo,
+      mailService,
+      notificationsGateway,
+    };
+  };
+
+  it('stores only the token hash and mails the link', async () => {
+    const { service, invitationsRepo, mailService } = createMockDependencies();
+
+    const invitation = await service.invite(
+      { id: 7, email: 'new@test.com', company: { id: 3 } } as Users,
+      companyAdmin,
+    );
+
+    const saved = (invitationsRepo.create as jest.Mock).mock
+      .calls[0][0] as Partial<UserInvitations>;
+    expect(saved.tokenHash).toHaveLength(64);
+    expect(saved.tokenHash).not.toBe('invite-token');
+    expect(saved.companyId).toBe(3);
+    expect(invitation).toEqual(
+      expect.objectContaining({ id: 9, email: 'new@test.com', userId: 7 }),
+    );
+    expect(mailService.send).toHaveBeenCalledWith(
+      expect.objectContaining({ to: 'new@test.com' }),
+    );
+  });
+
+  it('keeps the invitation when the mail cannot be sent', async () => {
+    const { service, invitationsRepo, mailService } = createMockDependencies();
+    (mailService.send as jest.Mock).mockRejectedValue(new Error('smtp down'));
+    jest.spyOn(service['logger'], 'error').mockImplementation(() => {});
+
+    const invitation = await service.invite(
+      { id: 7, email: 'new@test.com', company: { id: 3 } } as Users,
+      companyAdmin,
+    );
+
+    expect(invitationsRepo.save).toHaveBeenCalled();
+    expect(invitation).toEqual(
+      expect.objectContaining({ id: 9, email: 'new@test.com', userId: 7 }),
+    );
+  });
+
+  it('rejects managing invitations of another company', async () => {
+    const { service, invitationsRepo } = createMockDependencies({
+      invitationsRepo: {
+        findOne: jest
+          .fn()
+          .mockResolvedValue({ id: 9, userId: 7, companyId: 4 }),
+      },
+    });
+
+    await expect(service.revoke(9, companyAdmin)).rejects.toThrow(
+      'Not allowed to manage invitations of another company',
+    );
+    expect(invitationsRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('sets the password and notifies the company on accept', async () => {
+    const { service, usersRepo, notificationsGateway } = createMockDependencies(
+      {
+        invitationsRepo: {
+          findOne: jest
+            .fn()
+            .mockResolvedValue({ id: 9, userId: 7, companyId: 3 }),
+        },
+        usersRepo: {
+          findOne: jest.fn().mockResolvedValue({
+            id: 7,
+            email: 'new@test.com',
+            isActive: true,
+          }),
+        },
+      },
+    );
+
+    await service.accept('invite-token', 'newpassword');
+
+    expect(usersRepo.update).toHaveBeenCalledWith(
+      7,
+      expect.objectContaining({ password: expect.any(String) }),
+    );
+    expect((usersRepo.update as jest.Mock).mock.calls[0][1]).not.toHaveProperty(
+      'isActive',
+    );
+    expect(notificationsGateway.emitNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'user:invite-accepted', companyId: 3 }),
+    );
+  });
+
+  it('rejects an invitation that was already used', async () => {
+    const { service, usersRepo } = createMockDependencies({
+      invitationsRepo: {
+        findOne: jest.fn().mockResolvedValue({ id: 9, userId: 7 }),
+        update: jest.fn().mockResolvedValue({ affected: 0 }),
+      },
+      usersRepo: {
+        findOne: jest.fn().mockResolvedValue({ id: 7, isActive: true }),
+      },
+    });
+
+    await expect(service.accept('invite-token', 'newpassword')).rejects.toThrow(
+      'Invalid or expired invitation',
+    );
+    expect(usersRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('does not let a deactivated user reactivate through an invitation', async () => {
+    const { service, invitationsRepo, usersRepo } = createMockDependencies({
+      invitationsRepo: {
+        findOne: jest.fn().mockResolvedValue({ id: 9, userId: 7 }),
+      },
+      usersRepo: {
+        findOne: jest.fn().mockResolvedValue({ id: 7, isActive: false }),
+      },
+    });
+
+    await expect(service.accept('invite-token', 'newpassword')).rejects.toThrow(
+      'Invalid or expired invitation',
+    );
+    expect(invitationsRepo.update).not.toHaveBeenCalled();
+    expect(usersRepo.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,284 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import * as crypto from 'crypto';
+import { UserInvitations } from '../entities/entities/UserInvitations';
+import { Users } from '../entities/entities/Users';
+import { MailService } from '../mail/mail.service';
+import { NotificationsGateway } from '../notifications/notifications.gateway';
+import { ActivityLogsService } from '../activity-logs/activity-logs.service';
+import { AuthUser } from '../common/interfaces/auth-user.interface';
+import { RequestContext } from '../common/interfaces/request-context.interface';
+import { normalizeRoleSlug } from '../common/utils/roles';
+import { InvitationTokenPayload, PendingInvitation } from './interfaces';
+
+@Injectable()
+export class InvitationsService {
+  private readonly logger = new Logger(InvitationsService.name);
+
+  constructor(
+    @InjectRepository(UserInvitations)
+    private readonly invitationsRepo: Repository<UserInvitations>,
+    @InjectRepository(Users)
+    private readonly usersRepo: Repository<Users>,
+    private readonly jwtService: JwtService,
+    private readonly mailService: MailService,
+    private readonly notificationsGateway: NotificationsGateway,
+    private readonly activityLogsService: ActivityLogsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Hash invitation token for secure storage (only the hash is persisted)
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private isSuperAdmin(requester: AuthUser): boolean {
+    return (requester.roles || [])
+      .map((r) => normalizeRoleSlug(r))
+      .includes('super_admin');
+  }
+
+  private toPendingInvitation(invitation: UserInvitations): PendingInvitation {
+    return {
+      id: invitation.id,
+      userId: invitation.userId,
+      email: invitation.user?.email,
+      firstname: invitation.user?.firstname ?? null,
+      lastname: invitation.user?.lastname ?? null,
+      companyId: invitation.companyId,
+      invitedBy: invitation.invitedBy,
+      expiresAt: invitation.expiresAt,
+      createdAt: invitation.createdAt,
+      expired: invitation.expiresAt.getTime() <= Date.now(),
+    };
+  }
+
+  // Load a pending invitation and make sure the requester may manage it
+  private async findManageable(
+    id: number,
+    requester: AuthUser,
+    ctx?: RequestContext,
+  ): Promise<UserInvitations> {
+    const invitation = await this.invitationsRepo.findOne({
+      where: { id, acceptedAt: IsNull(), revokedAt: IsNull() },
+      relations: ['user'],
+    });
+    if (!invitation) throw new NotFoundException('Invitation not found');
+
+    if (
+      !this.isSuperAdmin(requester) &&
+      invitation.companyId !== requester.companyId
+    ) {
+      void this.activityLogsService.logForbiddenAccess({
+        userId: requester.id,
+        username: requester.email,
+        companyId: requester.companyId,
+        ipAddress: ctx?.ipAddress || '',
+        api: ctx?.api || '',
+        method: ctx?.method || '',
+      });
+      throw new ForbiddenException(
+        'Not allowed to manage invitations of another company',
+      );
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Issue a signed single-use invitation for a freshly created user and
+   * mail the link. Any earlier pending invitation for the user is revoked.
+   */
+  async invite(user: Users, requester: AuthUser): Promise<PendingInvitation> {
+    await this.invitationsRepo.update(
+      { userId: user.id, acceptedAt: IsNull(), revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+
+    const ttlHours = Number(this.configService.get('INVITE_TTL_HOURS', 72));
+    const payload: InvitationTokenPayload = {
+      sub: user.id,
+      purpose: 'invite',
+      jti: crypto.randomUUID(),
+    };
+    const token = this.jwtService.sign(payload, {
+      expiresIn: ttlHours * 60 * 60,
+    });
+
+    const invitation = await this.invitationsRepo.save(
+      this.invitationsRepo.create({
+        userId: user.id,
+        companyId: user.company?.id ?? null,
+        invitedBy: requester.id,
+        tokenHash: this.hashToken(token),
+        expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000),
+        acceptedAt: null,
+        revokedAt: null,
+      }),
+    );
+    invitation.user = user;
+
+    const inviteUrl = this.mailService.buildFrontendUrl('/accept-invite', {
+      token,
+    });
+
+    // The user and invitation already exist; a mail failure must not fail
+    // the request, the link can be sent again via resend
+    try {
+      await this.mailService.send({
+        to: user.email,
+        subject: "You've been invited",
+        text: `${requester.email} invited you to join.\n\nOpen the link below within ${ttlHours} hours to set your password and activate your account:\n${inviteUrl}\n\nIf you were not expecting this, you can ignore this email.`,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send invitation ${invitation.id} to ${user.email}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+
+    return this.toPendingInvitation(invitation);
+  }
+
+  /**
+   * List invitations that have been neither accepted nor revoked.
+   * super_admin may filter by company; everyone else sees their own company.
+   */
+  async findPending(
+    requester: AuthUser,
+    companyId?: number,
+  ): Promise<PendingInvitation[]> {
+    const scopedCompanyId = this.isSuperAdmin(requester)
+      ? companyId
+      : requester.companyId;
+    if (!this.isSuperAdmin(requester) && !scopedCompanyId) return [];
+
+    const invitations = await this.invitationsRepo.find({
+      where: {
+        acceptedAt: IsNull(),
+        revokedAt: IsNull(),
+        ...(scopedCompanyId ? { companyId: scopedCompanyId } : {}),
+      },
+      relations: ['user'],
+      order: { createdAt: 'DESC' },
+    });
+
+    return invitations.map((i) => this.toPendingInvitation(i));
+  }
+
+  /**
+   * Revoke the current invitation and send a fresh link
+   */
+  async resend(
+    id: number,
+    requester: AuthUser,
+    ctx?: RequestContext,
+  ): Promise<PendingInvitation> {
+    const invitation = await this.findManageable(id, requester, ctx);
+
+    const user = await this.usersRepo.findOne({
+      where: { id: invitation.userId },
+      relations: ['company'],
+    });
+    if (!user) throw new NotFoundException('User not found');
+
+    return this.invite(user, requester);
+  }
+
+  /**
+   * Revoke an invitation. The invited user never set a password, so the
+   * account is deactivated as well.
+   */
+  async revoke(
+    id: number,
+    requester: AuthUser,
+    ctx?: RequestContext,
+  ): Promise<void> {
+    const invitation = await this.findManageable(id, requester, ctx);
+
+    await this.invitationsRepo.update(invitation.id, { revokedAt: new Date() });
+    await this.usersRepo.update(invitation.userId, {
+      isActive: false,
+      deactivatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Consume an invitation token and let the invitee set their own password
+   */
+  async accept(token: string, password: string): Promise<void> {
+    let payload: InvitationTokenPayload;
+    try {
+      payload = this.jwtService.verify<InvitationTokenPayload>(token);
+    } catch {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+    if (payload.purpose !== 'invite') {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+
+    const invitation = await this.invitationsRepo.findOne({
+      where: {
+        tokenHash: this.hashToken(token),
+        userId: payload.sub,
+        acceptedAt: IsNull(),
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+    });
+    if (!invitation) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+
+    // An admin may have deactivated the account since the invitation was
+    // sent; accepting must not bring it back
+    const user = await this.usersRepo.findOne({
+      where: { id: invitation.userId },
+    });
+    if (!user || user.isDeleted || !user.isActive) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+
+    // Mark as accepted atomically so the link works only once
+    const claimed = await this.invitationsRepo.update(
+      { id: invitation.id, acceptedAt: IsNull(), revokedAt: IsNull() },
+      { acceptedAt: new Date() },
+    );
+    if (!claimed.affected) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+
+    const hashed = await bcrypt.hash(password, 10);
+    // The invitation link was mailed to this address, so it is verified too
+    await this.usersRepo.update(user.id, {
+      password: hashed,
+      emailVerifiedAt: user.emailVerifiedAt ?? new Date(),
+    });
+
+    this.logger.log(`Invitation ${invitation.id} accepted by ${user.email}`);
+
+    if (invitation.companyId) {
+      void this.notificationsGateway.emitNotification({
+        companyId: invitation.companyId,
+        type: 'user:invite-accepted',
+        title: 'Invitation Accepted',
+        message: `"${user.email}" accepted their invitation`,
+        data: { id: user.id, email: user.email, invitationId: invitation.id },
+        actorId: user.id,
+        actorEmail: user.email,
+      });
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export * from './mail-message.interface';
+export * from './mail-transport.interface';
@@ -0,0 +1,7 @@
+import type { MailMessage } from './mail-message.interface';
+
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
@@ -0,0 +1,37 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT, MailTransport } from './interfaces';
+import { ConsoleMailTransport } from './transports/console.transport';
+import { FileMailTransport } from './transports/file.transport';
+
+const createMailTransport = (configService: ConfigService): MailTransport => {
+  const transport = configService.get<string>('MAIL_TRANSPORT', 'console');
+
+  switch (transport) {
+    case 'file':
+      return new FileMailTransport(
+        configService.get<string>('MAIL_OUTBOX_DIR', './mail-outbox'),
+      );
+    case 'console':
+      return new ConsoleMailTransport();
+    default:
+      throw new Error(`Unsupported MAIL_TRANSPORT "${transport}"`);
+  }
+};
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: (configService: ConfigService) => {
+        return createMailTransport(configService);
+      },
+      inject: [ConfigService],
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -0,0 +1,52 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT } from './interfaces';
+import type { MailMessage, MailTransport } from './interfaces';
+
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+
+  constructor(
+    @Inject(MAIL_TRANSPORT)
+    private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Send a message through the configured transport
+   * Delivery failures are logged and rethrown to the caller
+   */
+  async send(message: MailMessage): Promise<void> {
+    const from = this.configService.get<string>(
+      'MAIL_FROM',
+      'no-reply@localhost',
+    );
+
+    try {
+      await this.transport.send({ ...message, from });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(
+        `Failed to send mail to ${message.to}: ${errorMessage}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Build an absolute link into the frontend application
+   */
+  buildFrontendUrl(pathname: string, params: Record<string, string>): string {
+    const baseUrl = this.configService.get<string>(
+      'FRONTEND_URL',
+      'http://localhost:3000',
+    );
+    const url = new URL(pathname, baseUrl);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    return url.toString();
+  }
+}
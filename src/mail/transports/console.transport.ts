@@ -0,0 +1,16 @@
+import { Logger } from '@nestjs/common';
+import type { MailMessage, MailTransport } from '../interfaces';
+
+/**
+ * Local development transport: prints every message to the application log.
+ */
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger('Mail');
+
+  send(message: MailMessage & { from: string }): Promise<void> {
+    this.logger.log(
+      `From: ${message.from}\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`,
+    );
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,30 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { MailMessage, MailTransport } from '../interfaces';
+
+/**
+ * Local development transport: writes every message as a JSON file
+ * into an outbox directory so links can be copied from disk.
+ */
+export class FileMailTransport implements MailTransport {
+  private readonly logger = new Logger('Mail');
+
+  constructor(private readonly outboxDir: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.promises.mkdir(this.outboxDir, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const filePath = path.join(
+      this.outboxDir,
+      `${Date.now()}-${safeRecipient}.json`,
+    );
+
+    await fs.promises.writeFile(
+      filePath,
+      JSON.stringify({ ...message, sentAt: new Date() }, null, 2),
+    );
+    this.logger.log(`Mail to ${message.to} written to ${filePath}`);
+  }
+}
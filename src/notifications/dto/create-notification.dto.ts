@@ -1,3 +1,16 @@
+/**
+ * Narrows who receives a notification. Criteria combine, so
+ * `{ departmentId, adminsOnly }` reaches the admins of that department.
+ */
+export interface NotificationAudience {
+  userIds?: number[];
+  departmentId?: number;
+  // Role slug, matched against the primary and the additional roles
+  role?: string;
+  // Shorthand for role 'company_admin'; takes precedence over `role`
+  adminsOnly?: boolean;
+}
+
 export interface CreateNotificationDto {
   companyId: number;
   type: string;
@@ -6,4 +19,6 @@ export interface CreateNotificationDto {
   data?: object;
   actorId?: number;
   actorEmail?: string;
+  // Recipients; defaults to every active user of the company
+  audience?: NotificationAudience;
 }
@@ -1 +1,2 @@
 export * from './create-notification.dto';
+export * from './update-notification-preferences.dto';
@@ -0,0 +1,58 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsOptional,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+
+// Omitted channels keep their default
+export class NotificationPreferenceDto {
+  @ApiProperty({
+    example: 'user:*',
+    description:
+      'Notification type, `category:*` for a whole category or `*` for everything',
+  })
+  @MaxLength(50)
+  @Matches(/^(\*|[a-z0-9_-]+:(\*|[a-z0-9_-]+))$/, {
+    message: 'type must look like "user:created", "user:*" or "*"',
+  })
+  type: string;
+
+  @ApiPropertyOptional({
+    example: false,
+    default: true,
+    description: 'Ignored for security:* notifications, which are always shown',
+  })
+  @IsOptional()
+  @IsBoolean()
+  inApp?: boolean;
+
+  @ApiPropertyOptional({ example: false, default: false })
+  @IsOptional()
+  @IsBoolean()
+  email?: boolean;
+
+  @ApiPropertyOptional({
+    example: true,
+    default: false,
+    description: 'Daily email of unread in-app notifications; needs inApp',
+  })
+  @IsOptional()
+  @IsBoolean()
+  digest?: boolean;
+}
+
+// Replaces all of the user's preferences
+export class UpdateNotificationPreferencesDto {
+  @ApiProperty({ type: [NotificationPreferenceDto] })
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => NotificationPreferenceDto)
+  preferences: NotificationPreferenceDto[];
+}
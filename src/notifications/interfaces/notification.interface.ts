@@ -22,3 +22,32 @@ export interface NotificationResponse {
   isRead: boolean;
   readAt: Date | null;
 }
+
+// Where a notification of a given type is delivered to a user
+export interface NotificationChannels {
+  inApp: boolean;
+  email: boolean;
+  // Included in the daily email of unread notifications
+  digest: boolean;
+}
+
+export interface NotificationPreferenceResponse extends NotificationChannels {
+  type: string;
+  updatedAt: Date;
+}
+
+// Pushed to company admins when forbidden attempts cross the alert threshold
+export interface SecurityAlertPayload {
+  companyId: number;
+  // Forbidden attempts within the alert window
+  count: number;
+  threshold: number;
+  windowMinutes: number;
+  topOffenders: {
+    userId: number | null;
+    username: string | null;
+    ipAddress: string;
+    count: number;
+  }[];
+  detectedAt: Date;
+}
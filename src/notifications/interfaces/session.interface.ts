@@ -38,6 +38,13 @@ export interface SessionRemovedPayload {
 
 export interface SessionExpiredPayload {
   sessionId: number;
-  reason: 'expired' | 'revoked' | 'logout';
+  reason: 'expired' | 'revoked' | 'logout' | 'evicted';
+  message: string;
+}
+
+export interface SessionExpiringPayload {
+  sessionId: number;
+  expiresAt: Date;
+  reason: 'idle' | 'lifetime';
   message: string;
 }
@@ -3,6 +3,8 @@ import {
   Get,
   Post,
   Patch,
+  Put,
+  Body,
   Param,
   Query,
   Req,
@@ -12,11 +14,18 @@ import {
 } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
-import { NotificationsService } from './notifications.service';
+import {
+  DEFAULT_NOTIFICATION_CHANNELS,
+  NotificationsService,
+} from './notifications.service';
 import { NotificationsGateway } from './notifications.gateway';
 import { ApiResponse } from '../common/utils/api-response';
 import type { RequestWithUser } from '../common/interfaces/request-with-user.interface';
 import { SessionsService } from '../sessions/sessions.service';
+import { AuditService } from '../activity-logs/audit.service';
+import { RateLimitGuard } from '../common/guards/rate-limit.guard';
+import { RateLimit } from '../common/decorators/rate-limit.decorator';
+import { UpdateNotificationPreferencesDto } from './dto';
 
 @UseGuards(AuthGuard('jwt'))
 @ApiTags('notifications')
@@ -27,6 +36,7 @@ export class NotificationsController {
     private readonly notificationsService: NotificationsService,
     private readonly notificationsGateway: NotificationsGateway,
     private readonly sessionsService: SessionsService,
+    private readonly auditService: AuditService,
   ) {}
 
   /**
@@ -129,6 +139,43 @@ export class NotificationsController {
     });
   }
 
+  /**
+   * Get the notification preferences of the current user
+   */
+  @Get('preferences')
+  @ApiOperation({ summary: 'Get notification preferences for current user' })
+  async getPreferences(@Req() req: RequestWithUser) {
+    const preferences = await this.notificationsService.getPreferences(
+      req.user.id,
+    );
+
+    return ApiResponse.success('Preferences retrieved successfully', 200, {
+      preferences,
+      defaults: DEFAULT_NOTIFICATION_CHANNELS,
+    });
+  }
+
+  /**
+   * Replace the notification preferences of the current user
+   */
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ points: 20, duration: 60, key: 'user' })
+  @Put('preferences')
+  @ApiOperation({ summary: 'Replace notification preferences' })
+  async setPreferences(
+    @Req() req: RequestWithUser,
+    @Body() body: UpdateNotificationPreferencesDto,
+  ) {
+    const preferences = await this.notificationsService.setPreferences(
+      req.user.id,
+      body.preferences,
+    );
+
+    return ApiResponse.success('Preferences updated successfully', 200, {
+      preferences,
+    });
+  }
+
   // ==================== COMPANY ADMIN ENDPOINTS ====================
 
   /**
@@ -206,6 +253,8 @@ export class NotificationsController {
    * 1. Invalidate all their sessions in the database
    * 2. Force disconnect all their WebSocket connections
    */
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ points: 20, duration: 60, key: 'user' })
   @Post('admin/revoke-session/:userId')
   @ApiOperation({ summary: 'Revoke all user sessions (company_admin only)' })
   async revokeUserSession(
@@ -233,6 +282,16 @@ export class NotificationsController {
     const disconnectedCount =
       await this.notificationsGateway.forceDisconnectUser(userId);
 
+    await this.auditService.record(
+      req.user,
+      'session.revoke_user',
+      'user',
+      userId,
+      null,
+      { sessionsInvalidated: true, socketsDisconnected: disconnectedCount },
+      { ipAddress: req.ip, method: req.method, api: req.originalUrl },
+    );
+
     return ApiResponse.success('All user sessions revoked successfully', 200, {
       userId,
       sessionsInvalidated: true,
@@ -246,6 +305,8 @@ export class NotificationsController {
    * 1. Invalidate the specific session in the database
    * 2. Force disconnect WebSocket connections for that session only
    */
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ points: 20, duration: 60, key: 'user' })
   @Post('admin/revoke-specific-session/:sessionId')
   @ApiOperation({ summary: 'Revoke specific session (company_admin only)' })
   async revokeSpecificSession(
@@ -283,6 +344,16 @@ export class NotificationsController {
         companyId,
       );
 
+    await this.auditService.record(
+      req.user,
+      'session.revoke',
+      'session',
+      sessionId,
+      { userId: session.userId, isValid: session.isValid },
+      { userId: session.userId, isValid: false },
+      { ipAddress: req.ip, method: req.method, api: req.originalUrl },
+    );
+
     return ApiResponse.success('Session revoked successfully', 200, {
       sessionId,
       userId: session.userId,
@@ -294,6 +365,8 @@ export class NotificationsController {
    * Revoke all user sessions in the company (company_admin only)
    * This will disconnect all online users except the admin who triggered it
    */
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ points: 20, duration: 60, key: 'user' })
   @Post('admin/revoke-all-sessions')
   @ApiOperation({ summary: 'Revoke all user sessions (company_admin only)' })
   async revokeAllSessions(@Req() req: RequestWithUser) {
@@ -320,6 +393,19 @@ export class NotificationsController {
         req.user.id,
       );
 
+    await this.auditService.record(
+      req.user,
+      'session.revoke_company',
+      'company',
+      companyId,
+      null,
+      {
+        usersDisconnected: disconnectedUsers,
+        sessionsInvalidated: invalidatedSessions,
+      },
+      { ipAddress: req.ip, method: req.method, api: req.originalUrl },
+    );
+
     return ApiResponse.success('All sessions revoked successfully', 200, {
       companyId,
       usersDisconnected: disconnectedUsers,
@@ -405,6 +491,8 @@ export class NotificationsController {
   /**
    * Revoke all sessions for a specific company (super_admin only)
    */
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ points: 20, duration: 60, key: 'user' })
   @Post('admin/company/:companyId/revoke-all-sessions')
   @ApiOperation({
     summary: 'Revoke all sessions for a company (super_admin only)',
@@ -425,6 +513,24 @@ export class NotificationsController {
     const invalidatedSessions =
       await this.sessionsService.invalidateAllCompanySessions(companyId);
 
+    await this.auditService.record(
+      req.user,
+      'session.revoke_company',
+      'company',
+      companyId,
+      null,
+      {
+        usersDisconnected: disconnectedUsers,
+        sessionsInvalidated: invalidatedSessions,
+      },
+      {
+        ipAddress: req.ip,
+        method: req.method,
+        api: req.originalUrl,
+        companyId,
+      },
+    );
+
     return ApiResponse.success(
       'All sessions revoked for company successfully',
       200,
@@ -440,6 +546,8 @@ export class NotificationsController {
   /**
    * Revoke a specific session by sessionId (super_admin only)
    */
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ points: 20, duration: 60, key: 'user' })
   @Post('admin/company/:companyId/revoke-session/:sessionId')
   @ApiOperation({
     summary: 'Revoke specific session (super_admin only)',
@@ -470,6 +578,21 @@ export class NotificationsController {
         companyId,
       );
 
+    await this.auditService.record(
+      req.user,
+      'session.revoke',
+      'session',
+      sessionId,
+      { userId: session.userId, isValid: session.isValid },
+      { userId: session.userId, isValid: false },
+      {
+        ipAddress: req.ip,
+        method: req.method,
+        api: req.originalUrl,
+        companyId,
+      },
+    );
+
     return ApiResponse.success('Session revoked successfully', 200, {
       sessionId,
       userId: session.userId,
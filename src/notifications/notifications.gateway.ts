@@ -29,6 +29,8 @@ import {
   JwtPayload,
   SessionEventPayload,
   SessionExpiredPayload,
+  SessionExpiringPayload,
+  SecurityAlertPayload,
 } from './interfaces';
 
 // Re-export for backward compatibility
@@ -175,6 +177,9 @@ export class NotificationsGateway
       const roomName = `company:${companyId}`;
       void client.join(roomName);
 
+      // Personal room for notifications addressed to this user only
+      void client.join(`user:${userId}`);
+
       // If user is super_admin, also join the super_admins room for cross-company updates
       if (payload.roles?.includes('super_admin')) {
         void client.join('super_admins');
@@ -183,6 +188,11 @@ export class NotificationsGateway
         );
       }
 
+      // Company admins get admin-only events such as security alerts
+      if (payload.roles?.includes('company_admin')) {
+        void client.join(`company_admins:${companyId}`);
+      }
+
       // Only mark user as online in Redis on FIRST connection
       if (isFirstConnection) {
         await this.notificationsService.markUserOnline(userId, companyId);
@@ -413,7 +423,7 @@ export class NotificationsGateway
   }
 
   /**
-   * Create and emit notification to a company
+   * Create and emit notification to a company, or to an audience within it
    * This is the main method to be called from other services
    */
   async emitNotification(dto: CreateNotificationDto): Promise<void> {
@@ -434,12 +444,29 @@ export class NotificationsGateway
       isRead: false,
     };
 
-    // Emit to all online users in the company via Socket.io
-    const roomName = `company:${dto.companyId}`;
-    this.server.to(roomName).emit('notification', payload);
+    // Emit to the online recipients only, so muted users get nothing
+    const roomNames = onlineUserIds.map((userId) => `user:${userId}`);
+    if (roomNames.length > 0) {
+      this.server.to(roomNames).emit('notification', payload);
+    }
 
     console.log(
-      `WebSocket: Emitted "${notification.type}" to room ${roomName} (${onlineUserIds.length} online users)`,
+      `WebSocket: Emitted "${notification.type}" to ${roomNames.join(', ') || 'no rooms'} (${onlineUserIds.length} online users)`,
+    );
+  }
+
+  /**
+   * Push a security alert to the admins of a company and to super admins.
+   * Alerts are transient and not stored as notifications.
+   */
+  emitSecurityAlert(payload: SecurityAlertPayload): void {
+    this.server
+      .to(`company_admins:${payload.companyId}`)
+      .to('super_admins')
+      .emit('security:alert', payload);
+
+    console.log(
+      `WebSocket: Emitted "security:alert" for company ${payload.companyId} (${payload.count} forbidden attempts)`,
     );
   }
 
@@ -655,12 +682,13 @@ export class NotificationsGateway
 
   /**
    * Force disconnect a specific session (by sessionId)
-   * Used when admin revokes a specific session
+   * Used when admin (or the user themselves) revokes a specific session
    */
   async forceDisconnectSession(
     sessionId: number,
     userId: number,
     companyId: number,
+    reason = 'Session revoked by admin',
   ): Promise<number> {
     const sessionSockets = this.sessionSocketsMap.get(sessionId);
     if (!sessionSockets || sessionSockets.size === 0) {
@@ -671,7 +699,7 @@ export class NotificationsGateway
     for (const socketId of sessionSockets) {
       const socket = this.server.sockets.sockets.get(socketId);
       if (socket) {
-        socket.emit('force-disconnect', { reason: 'Session revoked by admin' });
+        socket.emit('force-disconnect', { reason });
         socket.disconnect(true);
         disconnectedCount++;
       }
@@ -765,7 +793,7 @@ export class NotificationsGateway
    */
   emitSessionExpired(
     sessionIds: number[],
-    reason: 'expired' | 'revoked' | 'logout',
+    reason: 'expired' | 'revoked' | 'logout' | 'evicted',
     message: string,
   ): number {
     let notifiedCount = 0;
@@ -798,12 +826,44 @@ export class NotificationsGateway
     return notifiedCount;
   }
 
+  /**
+   * Emit session-expiring to a session shortly before it ends
+   * Lets the client warn the user (or refresh to stay logged in)
+   */
+  emitSessionExpiring(
+    sessionId: number,
+    expiresAt: Date,
+    reason: 'idle' | 'lifetime',
+    message: string,
+  ): number {
+    const sessionSockets = this.sessionSocketsMap.get(sessionId);
+    if (!sessionSockets || sessionSockets.size === 0) return 0;
+
+    const payload: SessionExpiringPayload = {
+      sessionId,
+      expiresAt,
+      reason,
+      message,
+    };
+
+    let notifiedCount = 0;
+    for (const socketId of sessionSockets) {
+      const socket = this.server.sockets.sockets.get(socketId);
+      if (socket) {
+        socket.emit('session-expiring', payload);
+        notifiedCount++;
+      }
+    }
+
+    return notifiedCount;
+  }
+
   /**
    * Emit session-expired to all sessions of a user
    */
   emitUserSessionsExpired(
     userId: number,
-    reason: 'expired' | 'revoked' | 'logout',
+    reason: 'expired' | 'revoked' | 'logout' | 'evicted',
     message: string,
   ): number {
     const sessionIds = this.getUserSessionIds(userId);
@@ -11,6 +11,7 @@ import { Notifications } from '../entities/entities/Notifications';
 import { UserNotifications } from '../entities/entities/UserNotifications';
 import { Users } from '../entities/entities/Users';
 import { Sessions } from '../entities/entities/Sessions';
+import { NotificationPreferences } from '../entities/entities/NotificationPreferences';
 import { RedisModule } from '../redis/redis.module';
 import { SessionsModule } from '../sessions/sessions.module';
 
@@ -30,6 +31,7 @@ import { SessionsModule } from '../sessions/sessions.module';
       UserNotifications,
       Users,
       Sessions,
+      NotificationPreferences,
     ]),
     RedisModule,
     forwardRef(() => SessionsModule),
@@ -0,0 +1,258 @@
+import { FindOperator, Repository } from 'typeorm';
+import { Redis } from 'ioredis';
+import { NotificationsService } from './notifications.service';
+import { Notifications } from '../entities/entities/Notifications';
+import { UserNotifications } from '../entities/entities/UserNotifications';
+import { Users } from '../entities/entities/Users';
+import { Companies } from '../entities/entities/Companies';
+import { Sessions } from '../entities/entities/Sessions';
+import { NotificationPreferences } from '../entities/entities/NotificationPreferences';
+import { MailService } from '../mail/mail.service';
+
+describe('NotificationsService', () => {
+  const createService = (
+    recipients: number[],
+    online: string[] = [],
+    preferences: Partial<NotificationPreferences>[] = [],
+  ) => {
+    const builder = {
+      select: jest.fn().mockReturnThis(),
+      distinct: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      leftJoin: jest.fn().mockReturnThis(),
+      getRawMany: jest
+        .fn()
+        .mockResolvedValue(recipients.map((id) => ({ id: String(id) }))),
+    };
+    const usersRepo = {
+      createQueryBuilder: jest.fn().mockReturnValue(builder),
+      find: jest.fn(({ where }: { where: { id: FindOperator<number[]> } }) =>
+        Promise.resolve(
+          where.id.value.map((id) => ({ id, email: `u${id}@test.com` })),
+        ),
+      ),
+    };
+    const preferencesRepo = {
+      find: jest.fn().mockResolvedValue(preferences),
+    };
+    const mailService = {
+      send: jest.fn().mockResolvedValue(undefined),
+    };
+    const notificationsRepo = {
+      create: jest.fn((data: Partial<Notifications>) => data),
+      save: jest.fn((data: Partial<Notifications>) =>
+        Promise.resolve({ id: 5, ...data }),
+      ),
+    };
+    const userNotificationsRepo = {
+      insert: jest.fn().mockResolvedValue(undefined),
+    };
+    const redisClient = {
+      smembers: jest.fn().mockResolvedValue(online),
+    };
+
+    const service = new NotificationsService(
+      notificationsRepo as unknown as Repository<Notifications>,
+      userNotificationsRepo as unknown as Repository<UserNotifications>,
+      usersRepo as unknown as Repository<Users>,
+      {} as Repository<Companies>,
+      {} as Repository<Sessions>,
+      redisClient as unknown as Redis,
+      preferencesRepo as unknown as Repository<NotificationPreferences>,
+      mailService as unknown as MailService,
+    );
+    return { service, builder, userNotificationsRepo, mailService };
+  };
+
+  it('addresses every active company user without an audience', async () => {
+    const { service, builder } = createService([1, 2, 3]);
+
+    await expect(service.resolveAudience(3)).resolves.toEqual([1, 2, 3]);
+    expect(builder.where).toHaveBeenCalledWith('u.company_id = :companyId', {
+      companyId: 3,
+    });
+    expect(builder.leftJoin).not.toHaveBeenCalled();
+  });
+
+  it('narrows the audience to a department and a role', async () => {
+    const { service, builder } = createService([2]);
+
+    await service.resolveAudience(3, { departmentId: 4, role: 'manager' });
+
+    expect(builder.andWhere).toHaveBeenCalledWith(
+      'u.department_id = :departmentId',
+      { departmentId: 4 },
+    );
+    expect(builder.andWhere).toHaveBeenCalledWith(
+      '(r.slug = :role OR urr.slug = :role)',
+      { role: 'manager' },
+    );
+  });
+
+  it('targets company admins only', async () => {
+    const { service, builder } = createService([1]);
+
+    await service.resolveAudience(3, { adminsOnly: true, role: 'user' });
+
+    expect(builder.andWhere).toHaveBeenCalledWith(
+      '(r.slug = :role OR urr.slug = :role)',
+      { role: 'company_admin' },
+    );
+  });
+
+  it('skips the lookup for an empty user list', async () => {
+    const { service, builder } = createService([1]);
+
+    await expect(service.resolveAudience(3, { userIds: [] })).resolves.toEqual(
+      [],
+    );
+    expect(builder.getRawMany).not.toHaveBeenCalled();
+  });
+
+  it('stores and delivers a notification to its audience only', async () => {
+    const { service, userNotificationsRepo } = createService(
+      [2, 3],
+      ['1', '3'],
+    );
+
+    const { onlineUserIds } = await service.createNotification({
+      companyId: 3,
+      type: 'department:updated',
+      title: 'Department updated',
+      message: 'Sales was renamed',
+      audience: { departmentId: 4 },
+    });
+
+    expect(userNotificationsRepo.insert).toHaveBeenCalledWith([
+      expect.objectContaining({ userId: 2, notificationId: 5 }),
+      expect.objectContaining({ userId: 3, notificationId: 5 }),
+    ]);
+    expect(onlineUserIds).toEqual([3]);
+  });
+
+  describe('preferences', () => {
+    const preference = (
+      userId: number,
+      type: string,
+      channels: Partial<NotificationPreferences>,
+    ) => ({
+      userId,
+      type,
+      inApp: true,
+      email: false,
+      digest: false,
+      ...channels,
+    });
+
+    it('prefers the exact type over a category and the catch-all', async () => {
+      const { service } = createService(
+        [],
+        [],
+        [
+          preference(1, '*', { inApp: false }),
+          preference(1, 'user:*', { email: true }),
+          preference(1, 'user:created', { digest: true }),
+          preference(2, '*', { inApp: false }),
+        ],
+      );
+
+      const channels = await service.getChannelsForUsers(
+        [1, 2, 3],
+        'user:created',
+      );
+
+      expect(channels.get(1)).toEqual({
+        inApp: true,
+        email: false,
+        digest: true,
+      });
+      expect(channels.get(2)).toEqual({
+        inApp: false,
+        email: false,
+        digest: false,
+      });
+      expect(channels.get(3)).toEqual({
+        inApp: true,
+        email: false,
+        digest: false,
+      });
+    });
+
+    it('skips muted users and emails those who asked for it', async () => {
+      const { service, userNotificationsRepo, mailService } = createService(
+        [2, 3],
+        ['2', '3'],
+        [
+          preference(2, 'department:*', { inApp: false, email: true }),
+          preference(3, 'department:deleted', { digest: true }),
+        ],
+      );
+
+      const { onlineUserIds } = await service.createNotification({
+        companyId: 3,
+        type: 'department:deleted',
+        title: 'Department deleted',
+        message: 'Sales was deleted',
+      });
+
+      expect(userNotificationsRepo.insert).toHaveBeenCalledWith([
+        expect.objectContaining({ userId: 3, inDigest: true }),
+      ]);
+      expect(onlineUserIds).toEqual([3]);
+      await new Promise(process.nextTick);
+      expect(mailService.send).toHaveBeenCalledTimes(1);
+      expect(mailService.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'u2@test.com',
+          subject: 'Department deleted',
+        }),
+      );
+    });
+
+    it('rejects the same type twice', async () => {
+      const { service } = createService([]);
+
+      await expect(
+        service.setPreferences(7, [{ type: 'user:*' }, { type: 'user:*' }]),
+      ).rejects.toThrow('Each notification type may appear once');
+    });
+
+    it('rejects a digest without in-app delivery', async () => {
+      const { service } = createService([]);
+
+      await expect(
+        service.setPreferences(7, [
+          { type: 'user:*', inApp: false, digest: true },
+        ]),
+      ).rejects.toThrow('user:*: the digest requires in-app notifications');
+    });
+
+    it('never mutes security notifications in-app', async () => {
+      const { service } = createService(
+        [],
+        [],
+        [
+          preference(1, '*', { inApp: false }),
+          preference(2, 'security:*', { inApp: false, email: true }),
+        ],
+      );
+
+      const channels = await service.getChannelsForUsers(
+        [1, 2],
+        'security:login_alert',
+      );
+
+      expect(channels.get(1)).toEqual({
+        inApp: true,
+        email: false,
+        digest: false,
+      });
+      expect(channels.get(2)).toEqual({
+        inApp: true,
+        email: true,
+        digest: false,
+      });
+    });
+  });
+});
@@ -1,6 +1,12 @@
-import { Injectable, Inject, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Inject,
+  Logger,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, In } from 'typeorm';
+import { Repository, In, MoreThan } from 'typeorm';
 import { Redis } from 'ioredis';
 import * as UAParser from 'ua-parser-js';
 import { Notifications } from '../entities/entities/Notifications';
@@ -8,15 +14,23 @@ import { UserNotifications } from '../entities/entities/UserNotifications';
 import { Users } from '../entities/entities/Users';
 import { Companies } from '../entities/entities/Companies';
 import { Sessions } from '../entities/entities/Sessions';
-import { CreateNotificationDto } from './dto';
+import { NotificationPreferences } from '../entities/entities/NotificationPreferences';
+import { MailService } from '../mail/mail.service';
+import {
+  CreateNotificationDto,
+  NotificationAudience,
+  NotificationPreferenceDto,
+} from './dto';
 import {
+  NotificationChannels,
+  NotificationPreferenceResponse,
   NotificationResponse,
   OnlineUserInfo,
   OnlineUserWithSessions,
 } from './interfaces';
 
 // Re-export for backward compatibility
-export { CreateNotificationDto } from './dto';
+export { CreateNotificationDto, NotificationAudience } from './dto';
 export {
   NotificationResponse,
   OnlineUserInfo,
@@ -24,6 +38,16 @@ export {
   OnlineUserWithSessions,
 } from './interfaces';
 
+// Delivery for types the user has no preference for
+export const DEFAULT_NOTIFICATION_CHANNELS: NotificationChannels = {
+  inApp: true,
+  email: false,
+  digest: false,
+};
+
+// Categories users cannot mute in-app (email and digest stay optional)
+const ALWAYS_IN_APP_CATEGORIES = ['security'];
+
 @Injectable()
 export class NotificationsService {
   private readonly logger = new Logger(NotificationsService.name);
@@ -46,6 +70,9 @@ export class NotificationsService {
     private readonly sessionsRepo: Repository<Sessions>,
     @Inject('REDIS_CLIENT')
     private readonly redisClient: Redis,
+    @InjectRepository(NotificationPreferences)
+    private readonly preferencesRepo: Repository<NotificationPreferences>,
+    private readonly mailService: MailService,
   ) {}
 
   /**
@@ -345,7 +372,180 @@ export class NotificationsService {
   }
 
   /**
-   * Create a notification and distribute to all company users
+   * Resolve the active company users a notification is addressed to
+   */
+  async resolveAudience(
+    companyId: number,
+    audience?: NotificationAudience,
+  ): Promise<number[]> {
+    if (audience?.userIds && audience.userIds.length === 0) {
+      return [];
+    }
+
+    const query = this.usersRepo
+      .createQueryBuilder('u')
+      .select('u.id', 'id')
+      .distinct(true)
+      .where('u.company_id = :companyId', { companyId })
+      .andWhere('u.is_active = true')
+      .andWhere('u.is_deleted = false');
+
+    if (audience?.userIds) {
+      query.andWhere('u.id IN (:...userIds)', { userIds: audience.userIds });
+    }
+    if (audience?.departmentId) {
+      query.andWhere('u.department_id = :departmentId', {
+        departmentId: audience.departmentId,
+      });
+    }
+
+    // Primary role or any of the additional roles
+    const role = audience?.adminsOnly ? 'company_admin' : audience?.role;
+    if (role) {
+      query
+        .leftJoin('u.role', 'r')
+        .leftJoin('u.userRoles', 'ur')
+        .leftJoin('ur.role', 'urr')
+        .andWhere('(r.slug = :role OR urr.slug = :role)', { role });
+    }
+
+    const rows = await query.getRawMany<{ id: number }>();
+    return rows.map((row) => Number(row.id));
+  }
+
+  /**
+   * Preference types that may apply to a notification type, most specific first
+   */
+  private preferenceTypesFor(type: string): string[] {
+    const [category] = type.split(':');
+    return [type, `${category}:*`, '*'];
+  }
+
+  /**
+   * Get the delivery channels of a notification type for each user
+   */
+  async getChannelsForUsers(
+    userIds: number[],
+    type: string,
+  ): Promise<Map<number, NotificationChannels>> {
+    const candidates = this.preferenceTypesFor(type);
+    const preferences = await this.preferencesRepo.find({
+      where: { userId: In(userIds), type: In(candidates) },
+    });
+
+    const alwaysInApp = ALWAYS_IN_APP_CATEGORIES.includes(type.split(':')[0]);
+
+    const channels = new Map<number, NotificationChannels>();
+    for (const userId of userIds) {
+      const own = preferences.filter((p) => p.userId === userId);
+      const match = candidates
+        .map((candidate) => own.find((p) => p.type === candidate))
+        .find(Boolean);
+      channels.set(
+        userId,
+        match
+          ? {
+              inApp: match.inApp || alwaysInApp,
+              email: match.email,
+              digest: match.digest,
+            }
+          : DEFAULT_NOTIFICATION_CHANNELS,
+      );
+    }
+    return channels;
+  }
+
+  /**
+   * Get the notification preferences of a user
+   */
+  async getPreferences(
+    userId: number,
+  ): Promise<NotificationPreferenceResponse[]> {
+    const preferences = await this.preferencesRepo.find({
+      where: { userId },
+      order: { type: 'ASC' },
+    });
+
+    return preferences.map((p) => ({
+      type: p.type,
+      inApp: p.inApp,
+      email: p.email,
+      digest: p.digest,
+      updatedAt: p.updatedAt,
+    }));
+  }
+
+  /**
+   * Replace the notification preferences of a user
+   */
+  async setPreferences(
+    userId: number,
+    preferences: NotificationPreferenceDto[],
+  ): Promise<NotificationPreferenceResponse[]> {
+    const types = preferences.map((p) => p.type);
+    if (new Set(types).size !== types.length) {
+      throw new BadRequestException('Each notification type may appear once');
+    }
+    // The digest lists unread in-app notifications, so it needs in-app delivery
+    const digestOnly = preferences.find(
+      (p) =>
+        p.digest &&
+        !(p.inApp ?? DEFAULT_NOTIFICATION_CHANNELS.inApp) &&
+        !ALWAYS_IN_APP_CATEGORIES.includes(p.type.split(':')[0]),
+    );
+    if (digestOnly) {
+      throw new BadRequestException(
+        `${digestOnly.type}: the digest requires in-app notifications`,
+      );
+    }
+
+    await this.preferencesRepo.manager.transaction(async (manager) => {
+      await manager.delete(NotificationPreferences, { userId });
+      if (preferences.length === 0) return;
+
+      await manager.insert(
+        NotificationPreferences,
+        preferences.map((p) => ({
+          userId,
+          type: p.type,
+          inApp: p.inApp ?? DEFAULT_NOTIFICATION_CHANNELS.inApp,
+          email: p.email ?? DEFAULT_NOTIFICATION_CHANNELS.email,
+          digest: p.digest ?? DEFAULT_NOTIFICATION_CHANNELS.digest,
+        })),
+      );
+    });
+
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * Email a notification to the users who asked for it
+   */
+  private async emailNotification(
+    notification: Notifications,
+    userIds: number[],
+  ): Promise<void> {
+    const users = await this.usersRepo.find({
+      where: { id: In(userIds) },
+      select: ['id', 'email'],
+    });
+
+    for (const user of users) {
+      try {
+        await this.mailService.send({
+          to: user.email,
+          subject: notification.title,
+          text: notification.message,
+        });
+      } catch {
+        // Already logged by MailService; the other recipients still get theirs
+      }
+    }
+  }
+
+  /**
+   * Create a notification and distribute to its audience, honouring each
+   * recipient's preferences for the notification type
    * Returns the notification and list of online user IDs for real-time delivery
    */
   async createNotification(
@@ -367,28 +567,38 @@ export class NotificationsService {
       `Notification ${savedNotification.id} created for company ${dto.companyId}`,
     );
 
-    // 2. Get all active users in the company
-    const companyUsers = await this.usersRepo.find({
-      where: {
-        company: { id: dto.companyId },
-        isActive: true,
-        isDeleted: false,
-      },
-      select: ['id'],
-    });
-
-    const userIds = companyUsers.map((u) => u.id);
+    // 2. Get the recipients: the audience or all active users in the company
+    const userIds = await this.resolveAudience(dto.companyId, dto.audience);
 
     if (userIds.length === 0) {
       return { notification: savedNotification, onlineUserIds: [] };
     }
 
-    // 3. Create user_notifications records for all users
-    const userNotifications = userIds.map((userId) => ({
+    // 3. Split the recipients by the channels they want for this type
+    const channels = await this.getChannelsForUsers(userIds, dto.type);
+    const inAppUserIds = userIds.filter((id) => channels.get(id).inApp);
+    const emailUserIds = userIds.filter((id) => channels.get(id).email);
+
+    if (emailUserIds.length > 0) {
+      void this.emailNotification(savedNotification, emailUserIds).catch(
+        (error: unknown) =>
+          this.logger.warn(
+            `Failed to email notification ${savedNotification.id}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          ),
+      );
+    }
+
+    if (inAppUserIds.length === 0) {
+      return { notification: savedNotification, onlineUserIds: [] };
+    }
+
+    // 4. Create user_notifications records for the in-app recipients
+    const userNotifications = inAppUserIds.map((userId) => ({
       userId,
       notificationId: savedNotification.id,
       isRead: false,
       deliveredAt: new Date(),
+      inDigest: channels.get(userId).digest,
     }));
 
     await this.userNotificationsRepo.insert(userNotifications);
@@ -396,8 +606,10 @@ export class NotificationsService {
       `Created ${userNotifications.length} user_notification records`,
     );
 
-    // 4. Get online users for real-time delivery
-    const onlineUserIds = await this.getOnlineUsersForCompany(dto.companyId);
+    // 5. Get online recipients for real-time delivery
+    const onlineUserIds = (
+      await this.getOnlineUsersForCompany(dto.companyId)
+    ).filter((id) => inAppUserIds.includes(id));
     this.logger.log(
       `Online users in company ${dto.companyId}: ${onlineUserIds.length}`,
     );
@@ -405,6 +617,52 @@ export class NotificationsService {
     return { notification: savedNotification, onlineUserIds };
   }
 
+  /**
+   * Cron job: email each user a digest of the notifications they have not
+   * read in the last day, for the types they included in their digest
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_8AM)
+  async sendDailyDigests(): Promise<number> {
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const pending = await this.userNotificationsRepo.find({
+      where: {
+        isRead: false,
+        inDigest: true,
+        deliveredAt: MoreThan(since),
+        user: { isActive: true, isDeleted: false },
+      },
+      relations: ['notification', 'user'],
+      order: { deliveredAt: 'ASC' },
+    });
+
+    const byUser = new Map<number, UserNotifications[]>();
+    for (const row of pending) {
+      const rows = byUser.get(row.userId) || [];
+      rows.push(row);
+      byUser.set(row.userId, rows);
+    }
+
+    let sent = 0;
+    for (const rows of byUser.values()) {
+      const lines = rows.map(
+        (row) => `- ${row.notification.title}: ${row.notification.message}`,
+      );
+      try {
+        await this.mailService.send({
+          to: rows[0].user.email,
+          subject: `You have ${rows.length} unread notification(s)`,
+          text: `Here is what happened in the last 24 hours:\n\n${lines.join('\n')}`,
+        });
+        sent++;
+      } catch {
+        // Already logged by MailService
+      }
+    }
+
+    this.logger.log(`Sent ${sent} notification digests`);
+    return sent;
+  }
+
   /**
    * Get unread notifications for a user
    */
@@ -0,0 +1,60 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateOAuthClientDto {
+  @ApiProperty({ example: 'HR dashboard' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ example: ['https://hr.internal.example.com/callback'] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsUrl(
+    {
+      require_tld: false,
+      require_protocol: true,
+      protocols: ['http', 'https'],
+    },
+    { each: true },
+  )
+  redirectUris: string[];
+
+  @ApiProperty({
+    example: ['users.read'],
+    description: 'Permissions the app may request on behalf of users',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsString({ each: true })
+  scopes: string[];
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'false for apps that cannot keep a secret (SPAs, CLIs); they rely on PKCE alone',
+  })
+  @IsOptional()
+  @IsBoolean()
+  confidential?: boolean;
+
+  @ApiPropertyOptional({
+    example: 1,
+    description: 'Owning company (super_admin only); defaults to yours',
+  })
+  @IsOptional()
+  @IsInt()
+  companyId?: number;
+}
@@ -0,0 +1,43 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsOptional, IsString, MaxLength } from 'class-validator';
+
+/**
+ * Answer of the consent screen; echoes the parameters of the original
+ * authorization request.
+ */
+export class OAuthConsentDto {
+  @ApiProperty({ example: 'oc_3f9a1c2b7d4e' })
+  @IsString()
+  @MaxLength(64)
+  clientId: string;
+
+  @ApiProperty({ example: 'https://hr.internal.example.com/callback' })
+  @IsString()
+  @MaxLength(2000)
+  redirectUri: string;
+
+  @ApiPropertyOptional({ example: 'users.read' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  scope?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  state?: string;
+
+  @ApiProperty()
+  @IsString()
+  @MaxLength(128)
+  codeChallenge: string;
+
+  @ApiProperty({ example: 'S256' })
+  @IsString()
+  codeChallengeMethod: string;
+
+  @ApiProperty({ example: true })
+  @IsBoolean()
+  approve: boolean;
+}
@@ -0,0 +1,64 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+// Field names are fixed by RFC 6749, hence snake_case
+
+export class OAuthTokenDto {
+  @ApiProperty({ example: 'authorization_code' })
+  @IsString()
+  grant_type: string;
+
+  @ApiProperty()
+  @IsString()
+  @MaxLength(200)
+  code: string;
+
+  @ApiProperty({ example: 'https://hr.internal.example.com/callback' })
+  @IsString()
+  @MaxLength(2000)
+  redirect_uri: string;
+
+  @ApiProperty()
+  @IsString()
+  @MaxLength(128)
+  code_verifier: string;
+
+  @ApiPropertyOptional({ description: 'Or send it with HTTP Basic auth' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  client_id?: string;
+
+  @ApiPropertyOptional({ description: 'Or send it with HTTP Basic auth' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  client_secret?: string;
+}
+
+/**
+ * Body of token introspection (RFC 7662) and revocation (RFC 7009)
+ */
+export class OAuthTokenActionDto {
+  @ApiProperty()
+  @IsString()
+  @MaxLength(4000)
+  token: string;
+
+  @ApiPropertyOptional({ example: 'access_token' })
+  @IsOptional()
+  @IsString()
+  token_type_hint?: string;
+
+  @ApiPropertyOptional({ description: 'Or send it with HTTP Basic auth' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  client_id?: string;
+
+  @ApiPropertyOptional({ description: 'Or send it with HTTP Basic auth' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  client_secret?: string;
+}
@@ -0,0 +1,89 @@
+export interface OAuthClientSummary {
+  id: number;
+  clientId: string;
+  name: string;
+  companyId: number;
+  // Confidential clients authenticate with a secret, public ones only use PKCE
+  confidential: boolean;
+  redirectUris: string[];
+  scopes: string[];
+  createdBy: number | null;
+  createdAt: Date | null;
+}
+
+export interface CreatedOAuthClient extends OAuthClientSummary {
+  // Only returned once, at creation; null for public clients
+  clientSecret: string | null;
+}
+
+export interface OAuthAuthorizeParams {
+  clientId: string;
+  redirectUri: string;
+  // Space separated permission slugs; defaults to all scopes of the client
+  scope?: string;
+  state?: string;
+  codeChallenge: string;
+  codeChallengeMethod: string;
+}
+
+export interface OAuthAuthorizeResult {
+  // Set when the user still has to approve the requested scopes
+  consentRequired: boolean;
+  client: { clientId: string; name: string };
+  scopes: string[];
+  // Where to send the browser: the app's redirect URI with code or error
+  redirectTo?: string;
+}
+
+// Stored in Redis between the authorization and the token request
+export interface OAuthCodeGrant {
+  oauthClientId: number;
+  userId: number;
+  redirectUri: string;
+  scopes: string[];
+  codeChallenge: string;
+}
+
+export interface OAuthClientCredentials {
+  clientId?: string;
+  clientSecret?: string;
+}
+
+// Responses below follow RFC 6749 and RFC 7662 field names
+export interface OAuthTokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  scope: string;
+}
+
+export interface OAuthIntrospection {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  sub?: string;
+  username?: string;
+  token_type?: 'Bearer';
+  exp?: number;
+  iat?: number;
+}
+
+export interface OAuthAccessTokenPayload {
+  sub: number;
+  email: string;
+  companyId: number | null;
+  departmentId: number | null;
+  roles: string[];
+  clientId: string;
+  scope: string;
+  jti: string;
+  iat?: number;
+  exp?: number;
+}
+
+export interface OAuthConsentSummary {
+  clientId: string;
+  name: string;
+  scopes: string[];
+  grantedAt: Date | null;
+}
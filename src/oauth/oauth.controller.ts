@@ -0,0 +1,304 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Header,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import type { Request, Response } from 'express';
+import { OAuthService } from './oauth.service';
+import { CreateOAuthClientDto } from './dto/create-oauth-client.dto';
+import { OAuthConsentDto } from './dto/oauth-consent.dto';
+import { OAuthTokenActionDto, OAuthTokenDto } from './dto/oauth-token.dto';
+import { OAuthClientCredentials } from './interfaces';
+import { RateLimit } from '../common/decorators/rate-limit.decorator';
+import { RateLimitGuard } from '../common/guards/rate-limit.guard';
+import type { RequestWithUser } from '../common/interfaces/request-with-user.interface';
+import { ApiResponse } from '../common/utils/api-response';
+import { BlockImpersonation } from '../common/decorators/block-impersonation.decorator';
+import { ImpersonationGuard } from '../common/guards/impersonation.guard';
+
+// Client credentials from HTTP Basic auth, falling back to the body
+function clientCredentials(
+  req: Request,
+  body: { client_id?: string; client_secret?: string },
+): OAuthClientCredentials {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Basic ')) {
+    const decoded = Buffer.from(header.slice(6), 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator > 0) {
+      return {
+        clientId: decodeURIComponent(decoded.slice(0, separator)),
+        clientSecret: decodeURIComponent(decoded.slice(separator + 1)),
+      };
+    }
+  }
+  return { clientId: body.client_id, clientSecret: body.client_secret };
+}
+
+/**
+ * OAuth2 authorization server for first-party apps acting on behalf of a
+ * user: authorization code + PKCE, token, introspection and revocation
+ * endpoints, plus client and consent management.
+ *
+ * Authorization, client and consent routes only accept a session JWT, so a
+ * delegated token can never grant itself more access.
+ */
+@ApiTags('oauth')
+@Controller('oauth')
+export class OAuthController {
+  constructor(
+    private readonly oauthService: OAuthService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Authorization endpoint. Redirects back to the app with a code when the
+   * user already consented to the scopes, otherwise to the frontend consent
+   * screen with the same parameters.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param res - Response used for the redirect.
+   */
+  @UseGuards(AuthGuard('jwt'), ImpersonationGuard)
+  @BlockImpersonation()
+  @ApiBearerAuth('JWT')
+  @Get('authorize')
+  async authorize(
+    @Req() req: RequestWithUser,
+    @Res() res: Response,
+    @Query('response_type') responseType: string,
+    @Query('client_id') clientId: string,
+    @Query('redirect_uri') redirectUri: string,
+    @Query('code_challenge') codeChallenge: string,
+    @Query('code_challenge_method') codeChallengeMethod: string,
+    @Query('scope') scope?: string,
+    @Query('state') state?: string,
+  ) {
+    if (responseType !== 'code') {
+      throw new BadRequestException('response_type must be code');
+    }
+
+    const result = await this.oauthService.authorize(req.user, {
+      clientId,
+      redirectUri,
+      scope,
+      state,
+      codeChallenge,
+      codeChallengeMethod,
+    });
+    if (result.redirectTo) return res.redirect(302, result.redirectTo);
+
+    const query = new URLSearchParams({
+      client_id: clientId,
+      redirect_uri: redirectUri,
+      scope: result.scopes.join(' '),
+      code_challenge: codeChallenge,
+      code_challenge_method: codeChallengeMethod,
+      ...(state ? { state } : {}),
+    });
+    const frontendUrl = this.configService.get<string>(
+      'FRONTEND_URL',
+      'http://localhost:3000',
+    );
+    res.redirect(302, `${frontendUrl}/oauth/consent?${query.toString()}`);
+  }
+
+  /**
+   * Consent screen answer. Records the consent when approved.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param body - Original authorization parameters and the user's answer.
+   * @returns API response with the app URL to send the browser to.
+   */
+  @UseGuards(AuthGuard('jwt'), ImpersonationGuard)
+  @BlockImpersonation()
+  @ApiBearerAuth('JWT')
+  @Post('authorize')
+  async consent(@Req() req: RequestWithUser, @Body() body: OAuthConsentDto) {
+    const { approve, ...params } = body;
+    const data = await this.oauthService.authorize(req.user, params, approve, {
+      ipAddress: req.ip,
+      method: req.method,
+      api: req.originalUrl,
+    });
+    return ApiResponse.success('Authorization completed successfully', 200, {
+      redirectTo: data.redirectTo,
+    });
+  }
+
+  /**
+   * Token endpoint (RFC 6749). Responds with the bare OAuth2 JSON body.
+   *
+   * @param req - Incoming request, used for HTTP Basic client credentials.
+   * @param body - Code, redirect URI and PKCE verifier.
+   * @returns Access token response.
+   */
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ points: 30, duration: 60, key: 'ip' })
+  @Post('token')
+  @HttpCode(200)
+  @Header('Cache-Control', 'no-store')
+  token(@Req() req: Request, @Body() body: OAuthTokenDto) {
+    return this.oauthService.exchangeCode(body, clientCredentials(req, body));
+  }
+
+  /**
+   * Token introspection endpoint (RFC 7662).
+   *
+   * @param req - Incoming request, used for HTTP Basic client credentials.
+   * @param body - Token to inspect.
+   * @returns Introspection response; `active: false` for unknown tokens.
+   */
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ points: 120, duration: 60, key: 'ip' })
+  @Post('introspect')
+  @HttpCode(200)
+  introspect(@Req() req: Request, @Body() body: OAuthTokenActionDto) {
+    return this.oauthService.introspect(
+      clientCredentials(req, body),
+      body.token,
+    );
+  }
+
+  /**
+   * Token revocation endpoint (RFC 7009).
+   *
+   * @param req - Incoming request, used for HTTP Basic client credentials.
+   * @param body - Token to revoke.
+   */
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ points: 30, duration: 60, key: 'ip' })
+  @Post('revoke')
+  @HttpCode(200)
+  async revoke(@Req() req: Request, @Body() body: OAuthTokenActionDto) {
+    await this.oauthService.revokeToken(
+      clientCredentials(req, body),
+      body.token,
+    );
+    return {};
+  }
+
+  /**
+   * Register an OAuth client for a company.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param body - Name, redirect URIs, allowed scopes and client type.
+   * @returns API response with the client; the secret is only shown once.
+   */
+  @UseGuards(AuthGuard('jwt'), ImpersonationGuard)
+  @BlockImpersonation()
+  @ApiBearerAuth('JWT')
+  @Post('clients/create')
+  async createClient(
+    @Req() req: RequestWithUser,
+    @Body() body: CreateOAuthClientDto,
+  ) {
+    const data = await this.oauthService.createClient(req.user, body, {
+      ipAddress: req.ip,
+      method: req.method,
+      api: req.originalUrl,
+    });
+    return ApiResponse.success('OAuth client created successfully', 201, data);
+  }
+
+  /**
+   * List the OAuth clients of the current user's company.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param companyId - Optional company filter (super_admin only).
+   * @returns API response with the clients (without secrets).
+   */
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth('JWT')
+  @Get('clients/getAll')
+  async findClients(
+    @Req() req: RequestWithUser,
+    @Query('companyId') companyId?: string,
+  ) {
+    const data = await this.oauthService.findClients(
+      req.user,
+      companyId ? +companyId : undefined,
+    );
+    return ApiResponse.success(
+      'OAuth clients retrieved successfully',
+      200,
+      data,
+    );
+  }
+
+  /**
+   * Revoke an OAuth client and all tokens issued to it.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param id - Client identifier.
+   * @returns Standard API success response.
+   */
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth('JWT')
+  @Delete('clients/revoke/:id')
+  async revokeClient(
+    @Req() req: RequestWithUser,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    await this.oauthService.revokeClient(req.user, id, {
+      ipAddress: req.ip,
+      method: req.method,
+      api: req.originalUrl,
+    });
+    return ApiResponse.success('OAuth client revoked successfully', 200);
+  }
+
+  /**
+   * List the apps the current user has granted access to.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @returns API response with the consents.
+   */
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth('JWT')
+  @Get('consents/getAll')
+  async findConsents(@Req() req: RequestWithUser) {
+    const data = await this.oauthService.findConsents(req.user);
+    return ApiResponse.success(
+      'OAuth consents retrieved successfully',
+      200,
+      data,
+    );
+  }
+
+  /**
+   * Withdraw the current user's consent for an app.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param clientId - Public client id of the app.
+   * @returns Standard API success response.
+   */
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth('JWT')
+  @Delete('consents/revoke/:clientId')
+  async revokeConsent(
+    @Req() req: RequestWithUser,
+    @Param('clientId') clientId: string,
+  ) {
+    await this.oauthService.revokeConsent(req.user, clientId, {
+      ipAddress: req.ip,
+      method: req.method,
+      api: req.originalUrl,
+    });
+    return ApiResponse.success('OAuth consent revoked successfully', 200);
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OauthClients } from '../entities/entities/OauthClients';
+import { OauthConsents } from '../entities/entities/OauthConsents';
+import { OauthAccessTokens } from '../entities/entities/OauthAccessTokens';
+import { Users } from '../entities/entities/Users';
+import { PermissionsModule } from '../permissions/permissions.module';
+import { OAuthController } from './oauth.controller';
+import { OAuthService } from './oauth.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      OauthClients,
+      OauthConsents,
+      OauthAccessTokens,
+      Users,
+    ]),
+    // PermissionsModule to validate client scopes
+    PermissionsModule,
+  ],
+  controllers: [OAuthController],
+  providers: [OAuthService],
+  exports: [OAuthService],
+})
+export class OAuthModule {}
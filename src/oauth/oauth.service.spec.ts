@@ -0,0 +1,339 @@
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import type Redis from 'ioredis';
+import { Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { OAuthService } from './oauth.service';
+import { OauthClients } from '../entities/entities/OauthClients';
+import { OauthConsents } from '../entities/entities/OauthConsents';
+import { OauthAccessTokens } from '../entities/entities/OauthAccessTokens';
+import { Users } from '../entities/entities/Users';
+import { PermissionsService } from '../permissions/permissions.service';
+import { AuditService } from '../activity-logs/audit.service';
+import { AuthUser } from '../common/interfaces/auth-user.interface';
+import { OAuthAccessTokenPayload } from './interfaces';
+
+describe('OAuthService', () => {
+  const user: AuthUser = {
+    id: 5,
+    sub: 5,
+    email: 'jane@acme.test',
+    companyId: 3,
+    roles: ['user'],
+  };
+  const secret = 'client-secret';
+  const verifier = crypto.randomBytes(32).toString('base64url');
+  const challenge = crypto
+    .createHash('sha256')
+    .update(verifier)
+    .digest('base64url');
+  const params = {
+    clientId: 'oc_123456789abc',
+    redirectUri: 'https://hr.acme.test/callback',
+    scope: 'users.read',
+    state: 'xyz',
+    codeChallenge: challenge,
+    codeChallengeMethod: 'S256',
+  };
+
+  const createService = (consentScopes: string[] | null = ['users.read']) => {
+    const client = {
+      id: 1,
+      clientId: params.clientId,
+      clientSecretHash: crypto
+        .createHash('sha256')
+        .update(secret)
+        .digest('hex'),
+      name: 'HR dashboard',
+      companyId: 3,
+      redirectUris: [params.redirectUri],
+      scopes: ['users.read', 'users.update'],
+    };
+    const clientsRepo = {
+      findOne: jest.fn().mockResolvedValue(client),
+      create: jest.fn((data: Partial<OauthClients>) => data),
+      save: jest.fn((data: Partial<OauthClients>) =>
+        Promise.resolve({ id: 2, ...data }),
+      ),
+    };
+    const consentsRepo = {
+      findOne: jest
+        .fn()
+        .mockResolvedValue(
+          consentScopes
+            ? { id: 7, userId: 5, oauthClientId: 1, scopes: consentScopes }
+            : null,
+        ),
+      save: jest.fn(),
+    };
+    const tokens = new Map<string, Partial<OauthAccessTokens>>();
+    const tokensRepo = {
+      save: jest.fn((row: Partial<OauthAccessTokens>) => {
+        tokens.set(row.jti ?? '', { id: tokens.size + 1, ...row });
+        return Promise.resolve(row);
+      }),
+      findOne: jest.fn(({ where }: { where: { jti: string } }) =>
+        Promise.resolve(tokens.get(where.jti) ?? null),
+      ),
+      update: jest.fn((id: number, changes: Partial<OauthAccessTokens>) => {
+        for (const row of tokens.values()) {
+          if (row.id === id) Object.assign(row, changes);
+        }
+        return Promise.resolve();
+      }),
+    };
+    const usersRepo = {
+      findOne: jest.fn().mockResolvedValue({
+        id: 5,
+        email: 'jane@acme.test',
+        isActive: true,
+        company: { id: 3 },
+        role: { id: 4, slug: 'user' },
+        userRoles: [],
+      }),
+    };
+    const store = new Map<string, string>();
+    const redis = {
+      set: jest.fn((key: string, value: string) => {
+        store.set(key, value);
+        return Promise.resolve('OK');
+      }),
+      getdel: jest.fn((key: string) => {
+        const value = store.get(key) ?? null;
+        store.delete(key);
+        return Promise.resolve(value);
+      }),
+    };
+    const permissionsService = {
+      findAll: jest
+        .fn()
+        .mockResolvedValue([{ slug: 'users.read' }, { slug: 'users.update' }]),
+    };
+    const jwtService = new JwtService({ secret: 'test-secret' });
+
+    const service = new OAuthService(
+      clientsRepo as unknown as Repository<OauthClients>,
+      consentsRepo as unknown as Repository<OauthConsents>,
+      tokensRepo as unknown as Repository<OauthAccessTokens>,
+      usersRepo as unknown as Repository<Users>,
+      permissionsService as unknown as PermissionsService,
+      { record: jest.fn() } as unknown as AuditService,
+      jwtService,
+      {
+        get: jest.fn((_key: string, fallback?: unknown) => fallback),
+      } as unknown as ConfigService,
+      redis as unknown as Redis,
+    );
+    return { service, clientsRepo, consentsRepo, jwtService };
+  };
+
+  const codeFrom = (redirectTo?: string) =>
+    new URL(redirectTo ?? '').searchParams.get('code') ?? '';
+
+  it('issues a scoped access token for a consented authorization code', async () => {
+    const { service, jwtService } = createService();
+
+    const result = await service.authorize(user, params);
+    const redirect = new URL(result.redirectTo ?? '');
+    expect(redirect.origin + redirect.pathname).toBe(params.redirectUri);
+    expect(redirect.searchParams.get('state')).toBe('xyz');
+
+    const tokens = await service.exchangeCode(
+      {
+        grant_type: 'authorization_code',
+        code: codeFrom(result.redirectTo),
+        redirect_uri: params.redirectUri,
+        code_verifier: verifier,
+      },
+      { clientId: params.clientId, clientSecret: secret },
+    );
+
+    expect(tokens).toEqual(
+      expect.objectContaining({ token_type: 'Bearer', scope: 'users.read' }),
+    );
+    expect(
+      jwtService.verify<OAuthAccessTokenPayload>(tokens.access_token),
+    ).toEqual(
+      expect.objectContaining({
+        sub: 5,
+        companyId: 3,
+        roles: ['user'],
+        clientId: params.clientId,
+        scope: 'users.read',
+      }),
+    );
+  });
+
+  it('asks for consent first and records it once approved', async () => {
+    const { service, consentsRepo } = createService(null);
+
+    const pending = await service.authorize(user, params);
+    expect(pending).toEqual(
+      expect.objectContaining({
+        consentRequired: true,
+        scopes: ['users.read'],
+      }),
+    );
+    expect(pending.redirectTo).toBeUndefined();
+
+    const approved = await service.authorize(user, params, true);
+    expect(codeFrom(approved.redirectTo)).not.toBe('');
+    expect(consentsRepo.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 5,
+        oauthClientId: 1,
+        scopes: ['users.read'],
+      }),
+    );
+  });
+
+  it('never redirects to an unregistered URI', async () => {
+    const { service } = createService();
+
+    await expect(
+      service.authorize(user, {
+        ...params,
+        redirectUri: 'https://evil.test/callback',
+      }),
+    ).rejects.toThrow('Unknown client or redirect URI');
+  });
+
+  it('sends errors back to the app for scopes and missing PKCE', async () => {
+    const { service } = createService();
+
+    const badScope = await service.authorize(user, {
+      ...params,
+      scope: 'roles.manage',
+    });
+    const noPkce = await service.authorize(user, {
+      ...params,
+      codeChallengeMethod: 'plain',
+    });
+
+    expect(new URL(badScope.redirectTo ?? '').searchParams.get('error')).toBe(
+      'invalid_scope',
+    );
+    expect(new URL(noPkce.redirectTo ?? '').searchParams.get('error')).toBe(
+      'invalid_request',
+    );
+  });
+
+  it('rejects a wrong code verifier and burns the code', async () => {
+    const { service } = createService();
+    const { redirectTo } = await service.authorize(user, params);
+    const request = {
+      grant_type: 'authorization_code',
+      code: codeFrom(redirectTo),
+      redirect_uri: params.redirectUri,
+      code_verifier: 'x'.repeat(43),
+    };
+    const credentials = { clientId: params.clientId, clientSecret: secret };
+
+    await expect(
+      service.exchangeCode(request, credentials),
+    ).rejects.toMatchObject({
+      response: {
+        error: 'invalid_grant',
+        error_description: 'code_verifier does not match',
+      },
+    });
+    await expect(
+      service.exchangeCode(
+        { ...request, code_verifier: verifier },
+        credentials,
+      ),
+    ).rejects.toMatchObject({
+      response: {
+        error: 'invalid_grant',
+        error_description: 'Invalid or expired authorization code',
+      },
+    });
+  });
+
+  it('rejects a wrong client secret', async () => {
+    const { service } = createService();
+    const { redirectTo } = await service.authorize(user, params);
+
+    await expect(
+      service.exchangeCode(
+        {
+          grant_type: 'authorization_code',
+          code: codeFrom(redirectTo),
+          redirect_uri: params.redirectUri,
+          code_verifier: verifier,
+        },
+        { clientId: params.clientId, clientSecret: 'guess' },
+      ),
+    ).rejects.toMatchObject({ response: { error: 'invalid_client' } });
+  });
+
+  it('reports revoked tokens as inactive', async () => {
+    const { service } = createService();
+    const { redirectTo } = await service.authorize(user, params);
+    const credentials = { clientId: params.clientId, clientSecret: secret };
+    const { access_token } = await service.exchangeCode(
+      {
+        grant_type: 'authorization_code',
+        code: codeFrom(redirectTo),
+        redirect_uri: params.redirectUri,
+        code_verifier: verifier,
+      },
+      credentials,
+    );
+
+    await expect(
+      service.introspect(credentials, access_token),
+    ).resolves.toEqual(
+      expect.objectContaining({
+        active: true,
+        sub: '5',
+        scope: 'users.read',
+        client_id: params.clientId,
+      }),
+    );
+
+    await service.revokeToken(credentials, access_token);
+
+    await expect(
+      service.introspect(credentials, access_token),
+    ).resolves.toEqual({ active: false });
+  });
+
+  it('refuses client registration by regular users', async () => {
+    const { service, clientsRepo } = createService();
+
+    await expect(
+      service.createClient(user, {
+        name: 'tool',
+        redirectUris: [params.redirectUri],
+        scopes: ['users.read'],
+      }),
+    ).rejects.toThrow('Only company admins can register OAuth clients');
+    expect(clientsRepo.save).not.toHaveBeenCalled();
+  });
+
+  it('returns the client secret once and stores only its hash', async () => {
+    const { service, clientsRepo } = createService();
+
+    const created = await service.createClient(
+      { ...user, roles: ['company_admin'] },
+      {
+        name: 'tool',
+        redirectUris: ['http://localhost:4000/callback'],
+        scopes: ['users.read'],
+      },
+    );
+
+    expect(created.clientId).toMatch(/^oc_[0-9a-f]{12}$/);
+    expect(created.confidential).toBe(true);
+    expect(clientsRepo.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        companyId: 3,
+        clientSecretHash: crypto
+          .createHash('sha256')
+          .update(created.clientSecret ?? '')
+          .digest('hex'),
+      }),
+    );
+  });
+});
@@ -0,0 +1,644 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import type Redis from 'ioredis';
+import { FindOptionsWhere, IsNull, MoreThan, Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { OauthClients } from '../entities/entities/OauthClients';
+import { OauthConsents } from '../entities/entities/OauthConsents';
+import { OauthAccessTokens } from '../entities/entities/OauthAccessTokens';
+import { Users } from '../entities/entities/Users';
+import { PermissionsService } from '../permissions/permissions.service';
+import { AuditService } from '../activity-logs/audit.service';
+import { AuthUser } from '../common/interfaces/auth-user.interface';
+import { RequestContext } from '../common/interfaces/request-context.interface';
+import { normalizeRoleSlug } from '../common/utils/roles';
+import { CreateOAuthClientDto } from './dto/create-oauth-client.dto';
+import { OAuthTokenDto } from './dto/oauth-token.dto';
+import {
+  CreatedOAuthClient,
+  OAuthAccessTokenPayload,
+  OAuthAuthorizeParams,
+  OAuthAuthorizeResult,
+  OAuthClientCredentials,
+  OAuthClientSummary,
+  OAuthCodeGrant,
+  OAuthConsentSummary,
+  OAuthIntrospection,
+  OAuthTokenResponse,
+} from './interfaces';
+
+// Client ids look like `oc_<12 hex>`
+const CLIENT_ID_PREFIX = 'oc_';
+
+// Authorization codes are single use and short lived (RFC 6749 4.1.2)
+const CODE_TTL_SECONDS = 60;
+
+// RFC 7636 code challenge: base64url SHA-256 of a 43-128 char verifier
+const CODE_CHALLENGE_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+/**
+ * OAuth2 authorization server for first-party apps: authorization code +
+ * PKCE, scoped access tokens (JWTs checked by the `oauth` strategy),
+ * introspection, revocation and per-user consent.
+ *
+ * Scopes are permission slugs. A delegated token never grants more than the
+ * user currently has.
+ */
+@Injectable()
+export class OAuthService {
+  constructor(
+    @InjectRepository(OauthClients)
+    private readonly clientsRepo: Repository<OauthClients>,
+    @InjectRepository(OauthConsents)
+    private readonly consentsRepo: Repository<OauthConsents>,
+    @InjectRepository(OauthAccessTokens)
+    private readonly tokensRepo: Repository<OauthAccessTokens>,
+    @InjectRepository(Users)
+    private readonly usersRepo: Repository<Users>,
+    private readonly permissionsService: PermissionsService,
+    private readonly auditService: AuditService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    @Inject('REDIS_CLIENT')
+    private readonly redis: Redis,
+  ) {}
+
+  private hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+
+  private isSuperAdmin(requester: AuthUser): boolean {
+    return (requester.roles || [])
+      .map((r) => normalizeRoleSlug(r))
+      .includes('super_admin');
+  }
+
+  private isCompanyAdmin(requester: AuthUser): boolean {
+    return (requester.roles || [])
+      .map((r) => normalizeRoleSlug(r))
+      .includes('company_admin');
+  }
+
+  private toSummary(client: OauthClients): OAuthClientSummary {
+    return {
+      id: client.id,
+      clientId: client.clientId,
+      name: client.name,
+      companyId: client.companyId,
+      confidential: Boolean(client.clientSecretHash),
+      redirectUris: client.redirectUris,
+      scopes: client.scopes,
+      createdBy: client.createdBy,
+      createdAt: client.createdAt,
+    };
+  }
+
+  private findActiveClient(clientId: string) {
+    return this.clientsRepo.findOne({
+      where: { clientId, revokedAt: IsNull() },
+    });
+  }
+
+  // Plain http redirect URIs are only accepted for local development
+  private assertRedirectUriAllowed(redirectUri: string) {
+    const url = new URL(redirectUri);
+    const local = ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+    if (url.protocol !== 'https:' && !(url.protocol === 'http:' && local)) {
+      throw new BadRequestException(
+        `Redirect URI ${redirectUri} must use https`,
+      );
+    }
+    if (url.hash) {
+      throw new BadRequestException(
+        `Redirect URI ${redirectUri} must not contain a fragment`,
+      );
+    }
+  }
+
+  /**
+   * Register an app for a company. Confidential clients get a secret that
+   * is returned once; only its hash is stored.
+   */
+  async createClient(
+    requester: AuthUser,
+    dto: CreateOAuthClientDto,
+    ctx?: RequestContext,
+  ): Promise<CreatedOAuthClient> {
+    const superAdmin = this.isSuperAdmin(requester);
+    if (!superAdmin && !this.isCompanyAdmin(requester)) {
+      throw new ForbiddenException(
+        'Only company admins can register OAuth clients',
+      );
+    }
+    if (!superAdmin && dto.companyId && dto.companyId !== requester.companyId) {
+      throw new ForbiddenException(
+        'Cannot register OAuth clients for another company',
+      );
+    }
+    const companyId = (superAdmin && dto.companyId) || requester.companyId;
+    if (!companyId) {
+      throw new BadRequestException('OAuth clients require a company');
+    }
+
+    dto.redirectUris.forEach((uri) => this.assertRedirectUriAllowed(uri));
+
+    const known = (await this.permissionsService.findAll()).map((p) => p.slug);
+    const unknown = dto.scopes.filter((s) => !known.includes(s));
+    if (unknown.length) {
+      throw new BadRequestException(`Unknown scopes: ${unknown.join(', ')}`);
+    }
+
+    const clientSecret =
+      dto.confidential === false
+        ? null
+        : crypto.randomBytes(32).toString('base64url');
+
+    const client = await this.clientsRepo.save(
+      this.clientsRepo.create({
+        clientId: `${CLIENT_ID_PREFIX}${crypto.randomBytes(6).toString('hex')}`,
+        clientSecretHash: clientSecret ? this.hash(clientSecret) : null,
+        name: dto.name,
+        companyId,
+        redirectUris: dto.redirectUris,
+        scopes: dto.scopes,
+        createdBy: requester.id,
+      }),
+    );
+
+    const summary = this.toSummary(client);
+    await this.auditService.record(
+      requester,
+      'oauth_client.create',
+      'oauth_client',
+      client.id,
+      null,
+      summary,
+      { ...ctx, companyId },
+    );
+
+    return { ...summary, clientSecret };
+  }
+
+  /**
+   * Registered clients of the requester's company; super_admin sees all.
+   */
+  async findClients(
+    requester: AuthUser,
+    companyId?: number,
+  ): Promise<OAuthClientSummary[]> {
+    let where: FindOptionsWhere<OauthClients>;
+    if (this.isSuperAdmin(requester)) {
+      where = { revokedAt: IsNull(), ...(companyId ? { companyId } : {}) };
+    } else if (this.isCompanyAdmin(requester) && requester.companyId) {
+      where = { revokedAt: IsNull(), companyId: requester.companyId };
+    } else {
+      throw new ForbiddenException(
+        'Only company admins can list OAuth clients',
+      );
+    }
+
+    const clients = await this.clientsRepo.find({
+      where,
+      order: { createdAt: 'DESC' },
+    });
+    return clients.map((c) => this.toSummary(c));
+  }
+
+  /**
+   * Revoke a client together with every token issued to it.
+   */
+  async revokeClient(
+    requester: AuthUser,
+    id: number,
+    ctx?: RequestContext,
+  ): Promise<void> {
+    const client = await this.clientsRepo.findOne({
+      where: { id, revokedAt: IsNull() },
+    });
+    if (!client) throw new NotFoundException('OAuth client not found');
+
+    const allowed =
+      this.isSuperAdmin(requester) ||
+      (this.isCompanyAdmin(requester) &&
+        requester.companyId === client.companyId);
+    if (!allowed) {
+      throw new ForbiddenException('Not allowed to revoke this OAuth client');
+    }
+
+    const now = new Date();
+    await this.clientsRepo.update(client.id, { revokedAt: now });
+    await this.tokensRepo.update(
+      { oauthClientId: client.id, revokedAt: IsNull() },
+      { revokedAt: now },
+    );
+
+    await this.auditService.record(
+      requester,
+      'oauth_client.revoke',
+      'oauth_client',
+      client.id,
+      this.toSummary(client),
+      null,
+      { ...ctx, companyId: client.companyId },
+    );
+  }
+
+  // The app's redirect URI with the given query parameters
+  private redirectWith(
+    redirectUri: string,
+    params: Record<string, string | undefined>,
+  ): string {
+    const url = new URL(redirectUri);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) url.searchParams.set(key, value);
+    }
+    return url.toString();
+  }
+
+  /**
+   * Authorization endpoint logic for a logged-in user. Without `approve`
+   * the request either completes (consent already covers the scopes) or
+   * reports that consent is required; with `approve` it records the user's
+   * answer first.
+   *
+   * Unknown clients and unregistered redirect URIs throw instead of
+   * redirecting, so the endpoint can never be used as an open redirect.
+   */
+  async authorize(
+    user: AuthUser,
+    params: OAuthAuthorizeParams,
+    approve?: boolean,
+    ctx?: RequestContext,
+  ): Promise<OAuthAuthorizeResult> {
+    const client = await this.findActiveClient(params.clientId);
+    if (!client || !client.redirectUris.includes(params.redirectUri)) {
+      throw new BadRequestException('Unknown client or redirect URI');
+    }
+
+    const scopes = params.scope
+      ? [...new Set(params.scope.split(' ').filter(Boolean))]
+      : client.scopes;
+    const result: OAuthAuthorizeResult = {
+      consentRequired: false,
+      client: { clientId: client.clientId, name: client.name },
+      scopes,
+    };
+    const fail = (error: string, description: string) => ({
+      ...result,
+      redirectTo: this.redirectWith(params.redirectUri, {
+        error,
+        error_description: description,
+        state: params.state,
+      }),
+    });
+
+    if (
+      params.codeChallengeMethod !== 'S256' ||
+      !CODE_CHALLENGE_PATTERN.test(params.codeChallenge || '')
+    ) {
+      return fail('invalid_request', 'PKCE with S256 is required');
+    }
+    if (!scopes.length || scopes.some((s) => !client.scopes.includes(s))) {
+      return fail('invalid_scope', 'Scope not allowed for this client');
+    }
+    if (user.companyId !== client.companyId) {
+      return fail('access_denied', 'Client belongs to another company');
+    }
+    if (approve === false) {
+      return fail('access_denied', 'User denied the request');
+    }
+
+    const consent = await this.consentsRepo.findOne({
+      where: { userId: user.id, oauthClientId: client.id },
+    });
+    const consented =
+      consent && !consent.revokedAt
+        ? scopes.every((s) => consent.scopes.includes(s))
+        : false;
+
+    if (approve && !consented) {
+      const granted =
+        consent && !consent.revokedAt
+          ? [...new Set([...consent.scopes, ...scopes])]
+          : scopes;
+      await this.consentsRepo.save({
+        ...(consent ?? { userId: user.id, oauthClientId: client.id }),
+        scopes: granted,
+        revokedAt: null,
+        updatedAt: new Date(),
+      });
+      await this.auditService.record(
+        user,
+        'oauth_consent.grant',
+        'oauth_client',
+        client.id,
+        consent && !consent.revokedAt ? { scopes: consent.scopes } : null,
+        { scopes: granted },
+        { ...ctx, companyId: client.companyId },
+      );
+    } else if (!consented) {
+      return { ...result, consentRequired: true };
+    }
+
+    const code = crypto.randomBytes(32).toString('base64url');
+    const grant: OAuthCodeGrant = {
+      oauthClientId: client.id,
+      userId: user.id,
+      redirectUri: params.redirectUri,
+      scopes,
+      codeChallenge: params.codeChallenge,
+    };
+    await this.redis.set(
+      `oauth:code:${this.hash(code)}`,
+      JSON.stringify(grant),
+      'EX',
+      CODE_TTL_SECONDS,
+    );
+
+    return {
+      ...result,
+      redirectTo: this.redirectWith(params.redirectUri, {
+        code,
+        state: params.state,
+      }),
+    };
+  }
+
+  /**
+   * Authenticate a client from HTTP Basic or body credentials. Public
+   * clients only identify themselves.
+   */
+  private async authenticateClient(
+    credentials: OAuthClientCredentials,
+  ): Promise<OauthClients> {
+    const invalid = () =>
+      new UnauthorizedException({
+        error: 'invalid_client',
+        error_description: 'Client authentication failed',
+      });
+
+    if (!credentials.clientId) throw invalid();
+    const client = await this.findActiveClient(credentials.clientId);
+    if (!client) throw invalid();
+
+    if (client.clientSecretHash) {
+      if (!credentials.clientSecret) throw invalid();
+      const expected = Buffer.from(client.clientSecretHash, 'hex');
+      const actual = Buffer.from(this.hash(credentials.clientSecret), 'hex');
+      if (!crypto.timingSafeEqual(expected, actual)) throw invalid();
+    }
+    return client;
+  }
+
+  /**
+   * Token endpoint: redeem an authorization code for an access token.
+   */
+  async exchangeCode(
+    dto: OAuthTokenDto,
+    credentials: OAuthClientCredentials,
+  ): Promise<OAuthTokenResponse> {
+    if (dto.grant_type !== 'authorization_code') {
+      throw new BadRequestException({
+        error: 'unsupported_grant_type',
+        error_description: 'Only authorization_code is supported',
+      });
+    }
+    const client = await this.authenticateClient(credentials);
+
+    const invalidGrant = (description: string) =>
+      new BadRequestException({
+        error: 'invalid_grant',
+        error_description: description,
+      });
+
+    // Single use: the code is gone once read
+    const raw = await this.redis.getdel(`oauth:code:${this.hash(dto.code)}`);
+    if (!raw) throw invalidGrant('Invalid or expired authorization code');
+    const grant = JSON.parse(raw) as OAuthCodeGrant;
+
+    if (grant.oauthClientId !== client.id) {
+      throw invalidGrant('Authorization code was issued to another client');
+    }
+    if (grant.redirectUri !== dto.redirect_uri) {
+      throw invalidGrant('redirect_uri does not match');
+    }
+    const challenge = crypto
+      .createHash('sha256')
+      .update(dto.code_verifier)
+      .digest('base64url');
+    if (challenge !== grant.codeChallenge) {
+      throw invalidGrant('code_verifier does not match');
+    }
+
+    // Consent may have been withdrawn since the code was issued
+    const consent = await this.consentsRepo.findOne({
+      where: {
+        userId: grant.userId,
+        oauthClientId: client.id,
+        revokedAt: IsNull(),
+      },
+    });
+    if (!consent || grant.scopes.some((s) => !consent.scopes.includes(s))) {
+      throw invalidGrant('Consent was revoked');
+    }
+
+    const user = await this.usersRepo.findOne({
+      where: { id: grant.userId },
+      relations: ['company', 'department', 'role', 'userRoles.role'],
+    });
+    if (!user || !user.isActive || user.isDeleted) {
+      throw invalidGrant('User is no longer active');
+    }
+
+    const ttl = Number(
+      this.configService.get('OAUTH_ACCESS_TOKEN_TTL_SECONDS', 3600),
+    );
+    const jti = crypto.randomUUID();
+    await this.tokensRepo.save({
+      jti,
+      oauthClientId: client.id,
+      userId: user.id,
+      scopes: grant.scopes,
+      expiresAt: new Date(Date.now() + ttl * 1000),
+    });
+
+    // Same claims as a session access token, plus the client and scope
+    const payload: OAuthAccessTokenPayload = {
+      sub: user.id,
+      email: user.email,
+      companyId: user.company?.id ?? null,
+      departmentId: user.department?.id ?? null,
+      roles: [user.role, ...(user.userRoles || []).map((ur) => ur.role)]
+        .filter((role) => Boolean(role?.slug))
+        .map((role) => role.slug.toLowerCase()),
+      clientId: client.clientId,
+      scope: grant.scopes.join(' '),
+      jti,
+    };
+
+    return {
+      access_token: this.jwtService.sign(payload, { expiresIn: ttl }),
+      token_type: 'Bearer',
+      expires_in: ttl,
+      scope: payload.scope,
+    };
+  }
+
+  // Token row behind a JWT of this client, whatever its state
+  private async findClientToken(
+    client: OauthClients,
+    token: string,
+  ): Promise<{
+    payload: OAuthAccessTokenPayload;
+    row: OauthAccessTokens;
+  } | null> {
+    let payload: OAuthAccessTokenPayload;
+    try {
+      payload = this.jwtService.verify<OAuthAccessTokenPayload>(token, {
+        ignoreExpiration: true,
+      });
+    } catch {
+      return null;
+    }
+    if (!payload.jti || payload.clientId !== client.clientId) return null;
+
+    const row = await this.tokensRepo.findOne({
+      where: { jti: payload.jti, oauthClientId: client.id },
+    });
+    return row ? { payload, row } : null;
+  }
+
+  /**
+   * Token introspection (RFC 7662). Only confidential clients may ask, and
+   * only about their own tokens; anything else reads as inactive.
+   */
+  async introspect(
+    credentials: OAuthClientCredentials,
+    token: string,
+  ): Promise<OAuthIntrospection> {
+    const client = await this.authenticateClient(credentials);
+    if (!client.clientSecretHash) {
+      throw new UnauthorizedException({
+        error: 'invalid_client',
+        error_description: 'Public clients cannot introspect tokens',
+      });
+    }
+
+    const found = await this.findClientToken(client, token);
+    if (
+      !found ||
+      found.row.revokedAt ||
+      found.row.expiresAt.getTime() <= Date.now()
+    ) {
+      return { active: false };
+    }
+
+    return {
+      active: true,
+      scope: found.row.scopes.join(' '),
+      client_id: client.clientId,
+      sub: String(found.row.userId),
+      username: found.payload.email,
+      token_type: 'Bearer',
+      exp: found.payload.exp,
+      iat: found.payload.iat,
+    };
+  }
+
+  /**
+   * Token revocation (RFC 7009). Unknown tokens are not an error.
+   */
+  async revokeToken(
+    credentials: OAuthClientCredentials,
+    token: string,
+  ): Promise<void> {
+    const client = await this.authenticateClient(credentials);
+    const found = await this.findClientToken(client, token);
+    if (found && !found.row.revokedAt) {
+      await this.tokensRepo.update(found.row.id, { revokedAt: new Date() });
+    }
+  }
+
+  /**
+   * Active token by `jti`, used by the `oauth` strategy on every request
+   */
+  findActiveToken(jti: string): Promise<OauthAccessTokens | null> {
+    return this.tokensRepo.findOne({
+      where: {
+        jti,
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+        client: { revokedAt: IsNull() },
+      },
+      relations: ['client'],
+    });
+  }
+
+  /**
+   * Apps the user has granted access to
+   */
+  async findConsents(user: AuthUser): Promise<OAuthConsentSummary[]> {
+    const consents = await this.consentsRepo.find({
+      where: {
+        userId: user.id,
+        revokedAt: IsNull(),
+        client: { revokedAt: IsNull() },
+      },
+      relations: ['client'],
+      order: { updatedAt: 'DESC' },
+    });
+    return consents.map((c) => ({
+      clientId: c.client.clientId,
+      name: c.client.name,
+      scopes: c.scopes,
+      grantedAt: c.updatedAt,
+    }));
+  }
+
+  /**
+   * Withdraw consent for an app; its tokens for this user stop working.
+   */
+  async revokeConsent(
+    user: AuthUser,
+    clientId: string,
+    ctx?: RequestContext,
+  ): Promise<void> {
+    const client = await this.clientsRepo.findOne({ where: { clientId } });
+    const consent = client
+      ? await this.consentsRepo.findOne({
+          where: {
+            userId: user.id,
+            oauthClientId: client.id,
+            revokedAt: IsNull(),
+          },
+        })
+      : null;
+    if (!client || !consent) throw new NotFoundException('Consent not found');
+
+    const now = new Date();
+    await this.consentsRepo.update(consent.id, { revokedAt: now });
+    await this.tokensRepo.update(
+      { userId: user.id, oauthClientId: client.id, revokedAt: IsNull() },
+      { revokedAt: now },
+    );
+
+    await this.auditService.record(
+      user,
+      'oauth_consent.revoke',
+      'oauth_client',
+      client.id,
+      { scopes: consent.scopes },
+      null,
+      { ...ctx, companyId: client.companyId },
+    );
+  }
+}
@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayUnique, IsArray, IsString } from 'class-validator';
+
+export class SetRolePermissionsDto {
+  @ApiProperty({ example: ['users.create', 'users.update'] })
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  permissions: string[];
+}
@@ -0,0 +1,29 @@
+/**
+ * Permission catalog. Seeded into the `permissions` table; roles are
+ * granted permissions through `role_permissions`.
+ */
+export const PERMISSION_CATALOG: { slug: string; description: string }[] = [
+  { slug: 'users.create', description: 'Create users' },
+  { slug: 'users.update', description: 'Update users' },
+  { slug: 'users.delete', description: 'Delete users' },
+  { slug: 'users.status', description: 'Activate or deactivate users' },
+  { slug: 'users.roles.assign', description: 'Assign and remove user roles' },
+  { slug: 'roles.manage', description: 'Manage company custom roles' },
+];
+
+/**
+ * Default grants, matching the previous hard-coded role checks.
+ * super_admin is not listed: it passes every permission check.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<string, string[]> = {
+  company_admin: [
+    'users.create',
+    'users.update',
+    'users.delete',
+    'users.status',
+    'users.roles.assign',
+    'roles.manage',
+  ],
+  manager: [],
+  user: [],
+};
@@ -0,0 +1,87 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { PermissionsService } from './permissions.service';
+import { SetRolePermissionsDto } from './dto/set-role-permissions.dto';
+import { ApiResponse } from 'src/common/utils/api-response';
+import { Roles } from 'src/common/decorators/roles.decorator';
+import { RolesGuard } from 'src/common/guards/roles.guard';
+
+/**
+ * Controller for the permission catalog and role→permission grants.
+ *
+ * All routes require JWT authentication and appropriate role permissions.
+ */
+@UseGuards(AuthGuard(['jwt', 'api-key', 'oauth']))
+@ApiTags('permissions')
+@ApiBearerAuth('JWT')
+@Controller('permissions')
+export class PermissionsController {
+  constructor(private service: PermissionsService) {}
+
+  /**
+   * Get all permissions that exist in the system.
+   *
+   * @returns API response with the permission catalog.
+   */
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
+  @Roles('company_admin', 'super_admin')
+  @Get('getAll')
+  async findAll() {
+    const data = await this.service.findAll();
+    return ApiResponse.success('Permissions retrieved successfully', 200, data);
+  }
+
+  /**
+   * Get the permissions granted to a role.
+   *
+   * @param roleId - Role identifier.
+   * @returns API response with permission slugs.
+   */
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
+  @Roles('company_admin', 'super_admin')
+  @Get('roles/:roleId')
+  async findForRole(@Param('roleId', ParseIntPipe) roleId: number) {
+    const data = await this.service.findSlugsForRole(roleId);
+    return ApiResponse.success(
+      'Role permissions retrieved successfully',
+      200,
+      data,
+    );
+  }
+
+  /**
+   * Replace the permissions granted to a role.
+   *
+   * Takes effect on the next request of every user holding the role.
+   *
+   * @param roleId - Role identifier.
+   * @param body - Full list of permission slugs for the role.
+   * @returns API response with the new permission slugs.
+   */
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
+  @Roles('super_admin')
+  @Put('roles/:roleId')
+  async setForRole(
+    @Param('roleId', ParseIntPipe) roleId: number,
+    @Body() body: SetRolePermissionsDto,
+  ) {
+    const data = await this.service.setRolePermissions(
+      roleId,
+      body.permissions,
+    );
+    return ApiResponse.success(
+      'Role permissions updated successfully',
+      200,
+      data,
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Permissions } from '../entities/entities/Permissions';
+import { RolePermissions } from '../entities/entities/RolePermissions';
+import { Roles } from '../entities/entities/Roles';
+import { PermissionsService } from './permissions.service';
+import { PermissionsController } from './permissions.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Permissions, RolePermissions, Roles])],
+  controllers: [PermissionsController],
+  providers: [PermissionsService],
+  exports: [PermissionsService],
+})
+export class PermissionsModule {}
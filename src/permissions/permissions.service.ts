@@ -0,0 +1,80 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Permissions } from '../entities/entities/Permissions';
+import { RolePermissions } from '../entities/entities/RolePermissions';
+import { Roles } from '../entities/entities/Roles';
+
+@Injectable()
+export class PermissionsService {
+  constructor(
+    @InjectRepository(Permissions)
+    private repo: Repository<Permissions>,
+    @InjectRepository(RolePermissions)
+    private rolePermissionsRepo: Repository<RolePermissions>,
+    @InjectRepository(Roles)
+    private rolesRepo: Repository<Roles>,
+  ) {}
+
+  findAll() {
+    return this.repo.find({ order: { slug: 'ASC' } });
+  }
+
+  /**
+   * Union of permission slugs granted to any of the given roles
+   */
+  async findSlugsForRoles(roleIds: number[]): Promise<string[]> {
+    if (roleIds.length === 0) return [];
+
+    const rows = await this.rolePermissionsRepo
+      .createQueryBuilder('rp')
+      .innerJoin('rp.permission', 'p')
+      .select('DISTINCT p.slug', 'slug')
+      .where('rp.role_id IN (:...roleIds)', { roleIds })
+      .getRawMany<{ slug: string }>();
+
+    return rows.map((r) => r.slug).sort();
+  }
+
+  async findSlugsForRole(roleId: number): Promise<string[]> {
+    const role = await this.rolesRepo.findOne({ where: { id: roleId } });
+    if (!role) throw new NotFoundException('Role not found');
+    return this.findSlugsForRoles([roleId]);
+  }
+
+  /**
+   * Replace the permission set of a role
+   */
+  async setRolePermissions(roleId: number, slugs: string[]): Promise<string[]> {
+    const role = await this.rolesRepo.findOne({ where: { id: roleId } });
+    if (!role) throw new NotFoundException('Role not found');
+
+    const permissions = slugs.length
+      ? await this.repo.find({ where: { slug: In(slugs) } })
+      : [];
+    const unknown = slugs.filter(
+      (slug) => !permissions.some((p) => p.slug === slug),
+    );
+    if (unknown.length) {
+      throw new BadRequestException(
+        `Unknown permissions: ${unknown.join(', ')}`,
+      );
+    }
+
+    await this.rolePermissionsRepo.manager.transaction(async (manager) => {
+      await manager.delete(RolePermissions, { role: { id: roleId } });
+      if (permissions.length) {
+        await manager.save(
+          RolePermissions,
+          permissions.map((permission) => ({ role, permission })),
+        );
+      }
+    });
+
+    return permissions.map((p) => p.slug).sort();
+  }
+}
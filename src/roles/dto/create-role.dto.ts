@@ -0,0 +1,39 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayUnique,
+  IsArray,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateRoleDto {
+  @ApiProperty({ example: 'HR Reviewer' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    example: 'hr_reviewer',
+    description: 'Defaults to a slug derived from the name',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  slug?: string;
+
+  @ApiProperty({ example: ['users.update'] })
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  permissions: string[];
+
+  @ApiPropertyOptional({
+    example: 1,
+    description: 'Owning company (super_admin only; others use their own)',
+  })
+  @IsOptional()
+  @IsNumber()
+  companyId?: number;
+}
@@ -1,17 +1,33 @@
-import { Controller, Get, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
 import { RolesService } from './roles.service';
 import { AuthGuard } from '@nestjs/passport';
 import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
 import { ApiResponse } from 'src/common/utils/api-response';
 import { Roles } from 'src/common/decorators/roles.decorator';
 import { RolesGuard } from 'src/common/guards/roles.guard';
+import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import { PermissionsGuard } from 'src/common/guards/permissions.guard';
+import type { RequestWithUser } from 'src/common/interfaces/request-with-user.interface';
+import { CreateRoleDto } from './dto/create-role.dto';
+import { UpdateRoleDto } from './dto/update-role.dto';
 
 /**
- * Controller for querying available roles.
+ * Controller for querying system roles and managing company custom roles.
  *
  * All routes require JWT authentication and appropriate role permissions.
  */
-@UseGuards(AuthGuard('jwt'))
+@UseGuards(AuthGuard(['jwt', 'api-key', 'oauth']))
 @ApiTags('roles')
 @ApiBearerAuth('JWT')
 @Controller('roles')
@@ -19,15 +35,72 @@ export class RolesController {
   constructor(private service: RolesService) {}
 
   /**
-   * Get all roles that exist in the system.
+   * Get the system roles plus the custom roles of the current user's company.
    *
+   * @param req - Authenticated request providing the current user.
    * @returns API response with the list of roles.
    */
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
   @Roles('company_admin', 'super_admin', 'manager')
   @Get('getAll')
-  async findAll() {
-    const data = await this.service.findAll();
+  async findAll(@Req() req: RequestWithUser) {
+    const data = await this.service.findAll(req.user);
     return ApiResponse.success('Roles retrieved successfully', 200, data);
   }
+
+  /**
+   * Create a custom role for a company from a permission set.
+   *
+   * The slug may not collide with a system role or another role of the
+   * same company.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param body - Role name, optional slug and permission slugs.
+   * @returns API response with the created role and its permissions.
+   */
+  @UseGuards(AuthGuard(['jwt', 'api-key', 'oauth']), PermissionsGuard)
+  @RequirePermissions('roles.manage')
+  @Post('create')
+  async create(@Req() req: RequestWithUser, @Body() body: CreateRoleDto) {
+    const data = await this.service.createCustomRole(body, req.user);
+    return ApiResponse.success('Role created successfully', 201, data);
+  }
+
+  /**
+   * Rename a custom role or replace its permission set.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param id - Role identifier.
+   * @param body - Fields to update.
+   * @returns API response with the updated role and its permissions.
+   */
+  @UseGuards(AuthGuard(['jwt', 'api-key', 'oauth']), PermissionsGuard)
+  @RequirePermissions('roles.manage')
+  @Put('update/:id')
+  async update(
+    @Req() req: RequestWithUser,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: UpdateRoleDto,
+  ) {
+    const data = await this.service.updateCustomRole(id, body, req.user);
+    return ApiResponse.success('Role updated successfully', 200, data);
+  }
+
+  /**
+   * Delete a custom role. Users holding it lose it immediately.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param id - Role identifier.
+   * @returns API response with the deleted role.
+   */
+  @UseGuards(AuthGuard(['jwt', 'api-key', 'oauth']), PermissionsGuard)
+  @RequirePermissions('roles.manage')
+  @Delete('delete/:id')
+  async delete(
+    @Req() req: RequestWithUser,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    const data = await this.service.deleteCustomRole(id, req.user);
+    return ApiResponse.success('Role deleted successfully', 200, data);
+  }
 }
@@ -3,9 +3,10 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { Roles } from '../entities/entities/Roles';
 import { RolesService } from './roles.service';
 import { RolesController } from './roles.controller';
+import { PermissionsModule } from '../permissions/permissions.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Roles])],
+  imports: [TypeOrmModule.forFeature([Roles]), PermissionsModule],
   controllers: [RolesController],
   providers: [RolesService],
   exports: [RolesService],
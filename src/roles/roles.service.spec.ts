@@ -0,0 +1,148 @@
+import { Repository } from 'typeorm';
+import { RolesService } from './roles.service';
+import { Roles } from '../entities/entities/Roles';
+import { PermissionsService } from '../permissions/permissions.service';
+import { AuthUser } from '../common/interfaces/auth-user.interface';
+
+describe('RolesService', () => {
+  const companyAdmin: AuthUser = {
+    id: 1,
+    sub: 1,
+    email: 'admin@test.com',
+    companyId: 3,
+    roles: ['company_admin'],
+    permissions: ['roles.manage', 'users.update'],
+  };
+
+  const createService = (existing: Partial<Roles> | null = null) => {
+    const qb = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      getOne: jest.fn().mockResolvedValue(existing),
+    };
+    const repo = {
+      createQueryBuilder: jest.fn(() => qb),
+      create: jest.fn((data: Partial<Roles>) => data),
+      save: jest.fn((data: Partial<Roles>) =>
+        Promise.resolve({ id: 12, ...data }),
+      ),
+      findOne: jest.fn(),
+      delete: jest.fn(),
+    } as unknown as Repository<Roles>;
+    const permissionsService = {
+      setRolePermissions: jest.fn((_id: number, slugs: string[]) =>
+        Promise.resolve(slugs),
+      ),
+      findSlugsForRoles: jest
+        .fn()
+        .mockResolvedValue(['users.delete', 'users.update']),
+    } as unknown as PermissionsService;
+
+    return {
+      service: new RolesService(repo, permissionsService),
+      repo,
+      qb,
+      permissionsService,
+    };
+  };
+
+  it('creates a custom role in the requester company', async () => {
+    const { service, repo, permissionsService } = createService();
+
+    const role = await service.createCustomRole(
+      { name: 'HR Reviewer', permissions: ['users.update'], companyId: 99 },
+      companyAdmin,
+    );
+
+    expect(repo.create).toHaveBeenCalledWith({
+      slug: 'hr_reviewer',
+      name: 'HR Reviewer',
+      companyId: 3,
+    });
+    expect(permissionsService.setRolePermissions).toHaveBeenCalledWith(12, [
+      'users.update',
+    ]);
+    expect(role.permissions).toEqual(['users.update']);
+  });
+
+  it('rejects slugs that shadow a system role', async () => {
+    const { service, repo } = createService({
+      id: 2,
+      slug: 'company_admin',
+      companyId: null,
+    });
+
+    await expect(
+      service.createCustomRole(
+        { name: 'Company Admin', permissions: [] },
+        companyAdmin,
+      ),
+    ).rejects.toThrow('"company_admin" is reserved for a system role');
+    expect(repo.save).not.toHaveBeenCalled();
+  });
+
+  it('cannot grant permissions the requester does not hold', async () => {
+    const { service } = createService();
+
+    await expect(
+      service.createCustomRole(
+        { name: 'Deleter', permissions: ['users.delete'] },
+        companyAdmin,
+      ),
+    ).rejects.toThrow('Cannot grant permissions you do not have: users.delete');
+  });
+
+  it('roles are only grantable within the requester permissions', async () => {
+    const { service } = createService();
+    const auditor = { id: 9, slug: 'auditor', companyId: 3 } as Roles;
+
+    await expect(service.canGrantRoles(companyAdmin, [auditor])).resolves.toBe(
+      false,
+    );
+    await expect(
+      service.canGrantRoles(
+        { ...companyAdmin, permissions: ['users.delete', 'users.update'] },
+        [auditor],
+      ),
+    ).resolves.toBe(true);
+  });
+
+  it('system lookups ignore company roles', async () => {
+    const { service, qb } = createService();
+
+    await service.findBySlug('User');
+
+    expect(qb.where).toHaveBeenCalledWith('LOWER(r.slug) = :slug', {
+      slug: 'user',
+    });
+    expect(qb.andWhere).toHaveBeenCalledWith('r.company_id IS NULL');
+  });
+
+  it('system roles cannot be deleted', async () => {
+    const { service, repo } = createService();
+    (repo.findOne as jest.Mock).mockResolvedValue({
+      id: 4,
+      slug: 'user',
+      companyId: null,
+    });
+
+    await expect(service.deleteCustomRole(4, companyAdmin)).rejects.toThrow(
+      'System roles cannot be modified',
+    );
+    expect(repo.delete).not.toHaveBeenCalled();
+  });
+
+  it('custom roles of another company cannot be changed', async () => {
+    const { service, repo } = createService();
+    (repo.findOne as jest.Mock).mockResolvedValue({
+      id: 20,
+      slug: 'auditor',
+      companyId: 7,
+    });
+
+    await expect(
+      service.updateCustomRole(20, { name: 'Other' }, companyAdmin),
+    ).rejects.toThrow('Not allowed to manage roles of another company');
+  });
+});
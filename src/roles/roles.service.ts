@@ -1,17 +1,49 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { IsNull, Repository } from 'typeorm';
 import { Roles } from '../entities/entities/Roles';
+import { PermissionsService } from '../permissions/permissions.service';
+import { AuthUser } from '../common/interfaces/auth-user.interface';
+import { normalizeRoleSlug } from '../common/utils/roles';
+import { CreateRoleDto } from './dto/create-role.dto';
+import { UpdateRoleDto } from './dto/update-role.dto';
 
 @Injectable()
 export class RolesService {
   constructor(
     @InjectRepository(Roles)
     private repo: Repository<Roles>,
+    private permissionsService: PermissionsService,
   ) {}
 
-  findAll() {
-    return this.repo.find();
+  private isSuperAdmin(requester: AuthUser): boolean {
+    return (requester.roles || [])
+      .map((r) => normalizeRoleSlug(r))
+      .includes('super_admin');
+  }
+
+  /**
+   * System roles plus the custom roles of the requester's company.
+   * super_admin sees every company's custom roles.
+   */
+  findAll(requester?: AuthUser) {
+    if (!requester || this.isSuperAdmin(requester)) {
+      return this.repo.find({ order: { companyId: 'DESC', id: 'ASC' } });
+    }
+
+    return this.repo.find({
+      where: [
+        { companyId: IsNull() },
+        ...(requester.companyId ? [{ companyId: requester.companyId }] : []),
+      ],
+      order: { companyId: 'DESC', id: 'ASC' },
+    });
   }
 
   findAllSlugs(): Promise<string[]> {
@@ -23,12 +55,136 @@ export class RolesService {
   }
 
   // Case-insensitive slug lookup so DB values like 'SUPER_ADMIN' also match 'super_admin'
-  async findBySlug(slug: string) {
+  // Without companyId only system roles match; with it, that company's custom roles too
+  async findBySlug(slug: string, companyId?: number | null) {
     if (!slug) return null;
     const normalized = slug.toString().toLowerCase().trim();
-    return this.repo
+    const qb = this.repo
       .createQueryBuilder('r')
-      .where('LOWER(r.slug) = :slug', { slug: normalized })
-      .getOne();
+      .where('LOWER(r.slug) = :slug', { slug: normalized });
+
+    if (companyId) {
+      qb.andWhere('(r.company_id IS NULL OR r.company_id = :companyId)', {
+        companyId,
+      });
+    } else {
+      qb.andWhere('r.company_id IS NULL');
+    }
+
+    return qb.orderBy('r.companyId', 'ASC', 'NULLS FIRST').getOne();
+  }
+
+  // Load a custom role the requester is allowed to manage
+  private async findManageable(id: number, requester: AuthUser) {
+    const role = await this.repo.findOne({ where: { id } });
+    if (!role) throw new NotFoundException('Role not found');
+
+    if (!role.companyId) {
+      throw new ForbiddenException('System roles cannot be modified');
+    }
+    if (
+      !this.isSuperAdmin(requester) &&
+      role.companyId !== requester.companyId
+    ) {
+      throw new ForbiddenException(
+        'Not allowed to manage roles of another company',
+      );
+    }
+    return role;
+  }
+
+  // Non-super admins can only hand out permissions they hold themselves
+  private missingGrants(requester: AuthUser, permissions: string[]): string[] {
+    if (this.isSuperAdmin(requester)) return [];
+    const granted = requester.permissions || [];
+    return permissions.filter((p) => !granted.includes(p));
+  }
+
+  private assertCanGrant(requester: AuthUser, permissions: string[]) {
+    const missing = this.missingGrants(requester, permissions);
+    if (missing.length) {
+      throw new ForbiddenException(
+        `Cannot grant permissions you do not have: ${missing.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Whether the requester may give these roles to a user: the same rule as
+   * for editing a role, every permission they carry must be held already.
+   */
+  async canGrantRoles(requester: AuthUser, roles: Roles[]): Promise<boolean> {
+    if (this.isSuperAdmin(requester)) return true;
+    const permissions = await this.permissionsService.findSlugsForRoles(
+      roles.map((r) => r.id),
+    );
+    return this.missingGrants(requester, permissions).length === 0;
+  }
+
+  async createCustomRole(dto: CreateRoleDto, requester: AuthUser) {
+    const companyId = this.isSuperAdmin(requester)
+      ? dto.companyId
+      : requester.companyId;
+    if (!companyId) {
+      throw new BadRequestException('companyId is required');
+    }
+
+    const slug = normalizeRoleSlug(dto.slug || dto.name)
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '');
+    if (!slug) {
+      throw new BadRequestException('Role slug must contain letters or digits');
+    }
+
+    // Custom roles must never shadow system slugs like company_admin
+    const existing = await this.findBySlug(slug, companyId);
+    if (existing) {
+      throw new ConflictException(
+        existing.companyId
+          ? `Role "${slug}" already exists in this company`
+          : `"${slug}" is reserved for a system role`,
+      );
+    }
+
+    this.assertCanGrant(requester, dto.permissions);
+
+    const role = await this.repo.save(
+      this.repo.create({ slug, name: dto.name, companyId }),
+    );
+    const permissions = await this.permissionsService.setRolePermissions(
+      role.id,
+      dto.permissions,
+    );
+
+    return { ...role, permissions };
+  }
+
+  async updateCustomRole(id: number, dto: UpdateRoleDto, requester: AuthUser) {
+    const role = await this.findManageable(id, requester);
+
+    if (dto.name !== undefined) {
+      await this.repo.update(id, { name: dto.name, updateAt: new Date() });
+    }
+
+    let permissions: string[];
+    if (dto.permissions !== undefined) {
+      this.assertCanGrant(requester, dto.permissions);
+      permissions = await this.permissionsService.setRolePermissions(
+        id,
+        dto.permissions,
+      );
+    } else {
+      permissions = await this.permissionsService.findSlugsForRole(id);
+    }
+
+    const updated = await this.repo.findOne({ where: { id: role.id } });
+    return { ...updated, permissions };
+  }
+
+  async deleteCustomRole(id: number, requester: AuthUser) {
+    const role = await this.findManageable(id, requester);
+    // user_roles and role_permissions rows cascade
+    await this.repo.delete(role.id);
+    return { id: role.id, slug: role.slug };
   }
 }
@@ -1,10 +1,16 @@
 import 'reflect-metadata';
 import { config } from 'dotenv';
-import { createConnection } from 'typeorm';
+import { createConnection, IsNull } from 'typeorm';
 import { Roles } from '../entities/entities/Roles';
 import { Companies } from '../entities/entities/Companies';
 import { Departments } from '../entities/entities/Departments';
 import { Users } from '../entities/entities/Users';
+import { Permissions } from '../entities/entities/Permissions';
+import { RolePermissions } from '../entities/entities/RolePermissions';
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  PERMISSION_CATALOG,
+} from '../permissions/permissions.constants';
 import * as bcrypt from 'bcrypt';
 
 // Load environment variables
@@ -18,7 +24,14 @@ async function run() {
     username: process.env.DB_USER || 'postgres',
     password: process.env.DB_PASSWORD || '',
     database: process.env.DB_NAME || 'auth_crud',
-    entities: [Roles, Companies, Departments, Users],
+    entities: [
+      Roles,
+      Companies,
+      Departments,
+      Users,
+      Permissions,
+      RolePermissions,
+    ],
     synchronize: false,
   });
 
@@ -26,17 +39,52 @@ async function run() {
   const companyRepo = conn.getRepository(Companies);
   const deptRepo = conn.getRepository(Departments);
   const userRepo = conn.getRepository(Users);
+  const permissionRepo = conn.getRepository(Permissions);
+  const rolePermissionRepo = conn.getRepository(RolePermissions);
 
   const slugs = ['super_admin', 'company_admin', 'manager', 'user'];
 
   for (const slug of slugs) {
-    const exist = await roleRepo.findOne({ where: { slug } });
+    const exist = await roleRepo.findOne({
+      where: { slug, companyId: IsNull() },
+    });
     if (!exist) {
       await roleRepo.save({ slug, name: slug });
       console.log('Inserted role', slug);
     }
   }
 
+  for (const { slug, description } of PERMISSION_CATALOG) {
+    const exist = await permissionRepo.findOne({ where: { slug } });
+    if (!exist) {
+      await permissionRepo.save({ slug, description });
+      console.log('Inserted permission', slug);
+    }
+  }
+
+  // Default grants are only added, never removed, so admin changes survive re-seeding
+  for (const [roleSlug, permissionSlugs] of Object.entries(
+    DEFAULT_ROLE_PERMISSIONS,
+  )) {
+    const role = await roleRepo.findOne({
+      where: { slug: roleSlug, companyId: IsNull() },
+    });
+    if (!role) continue;
+    for (const permissionSlug of permissionSlugs) {
+      const permission = await permissionRepo.findOne({
+        where: { slug: permissionSlug },
+      });
+      if (!permission) continue;
+      const exist = await rolePermissionRepo.findOne({
+        where: { role: { id: role.id }, permission: { id: permission.id } },
+      });
+      if (!exist) {
+        await rolePermissionRepo.save({ role, permission });
+        console.log('Granted', permissionSlug, 'to', roleSlug);
+      }
+    }
+  }
+
   let company = await companyRepo.findOne({ where: { name: 'Seed Company' } });
   if (!company) {
     company = await companyRepo.save({
@@ -56,7 +104,9 @@ async function run() {
     where: { email: 'admin@seed.local' },
     relations: ['role'],
   });
-  const superAdmin = await roleRepo.findOne({ where: { slug: 'super_admin' } });
+  const superAdmin = await roleRepo.findOne({
+    where: { slug: 'super_admin', companyId: IsNull() },
+  });
   if (!admin) {
     if (!superAdmin) {
       throw new Error('Missing super_admin role in DB. Seed roles first.');
@@ -0,0 +1,34 @@
+export interface OwnSession {
+  id: number;
+  browser: string;
+  os: string;
+  ipAddress: string | null;
+  loginAt: Date;
+  lastActivityAt: Date;
+  // The session the request was made with
+  current: boolean;
+  // Opened by a super admin impersonating the user
+  impersonated: boolean;
+}
+
+export interface RevokedOwnSessions {
+  sessionIds: number[];
+  socketsDisconnected: number;
+}
+
+export type SessionLimitStrategy = 'evict_oldest' | 'reject';
+
+export interface SessionPolicy {
+  idleTimeoutMinutes: number;
+  absoluteLifetimeMinutes: number;
+  rememberMeLifetimeMinutes: number;
+  // 0 = unlimited
+  maxConcurrentSessions: number;
+  limitStrategy: SessionLimitStrategy;
+}
+
+export interface SessionExpiry {
+  expiresAt: Date;
+  // idle: no activity for the idle timeout; lifetime: hard end of the session
+  reason: 'idle' | 'lifetime';
+}
@@ -0,0 +1,118 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { SessionsService } from './sessions.service';
+import { AuditService } from '../activity-logs/audit.service';
+import { BlockImpersonation } from '../common/decorators/block-impersonation.decorator';
+import { RateLimit } from '../common/decorators/rate-limit.decorator';
+import { ImpersonationGuard } from '../common/guards/impersonation.guard';
+import { RateLimitGuard } from '../common/guards/rate-limit.guard';
+import type { RequestWithUser } from '../common/interfaces/request-with-user.interface';
+import { ApiResponse } from '../common/utils/api-response';
+
+/**
+ * Lets users see where they are logged in and sign out other devices.
+ * Only session JWTs are accepted, since API keys and OAuth tokens are not
+ * tied to a session.
+ */
+@UseGuards(AuthGuard('jwt'))
+@ApiTags('sessions')
+@ApiBearerAuth('JWT')
+@Controller('sessions')
+export class SessionsController {
+  constructor(
+    private readonly sessionsService: SessionsService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * List the current user's active sessions.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @returns API response with the sessions, the current one flagged.
+   */
+  @Get('me')
+  @ApiOperation({ summary: 'Get active sessions for current user' })
+  async getOwnSessions(@Req() req: RequestWithUser) {
+    const sessions = await this.sessionsService.getOwnSessions(
+      req.user.id,
+      req.user.sessionId,
+    );
+    return ApiResponse.success('Sessions retrieved successfully', 200, {
+      sessions,
+      count: sessions.length,
+    });
+  }
+
+  /**
+   * Sign out every other device of the current user.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @returns API response with the revoked sessions.
+   */
+  @UseGuards(ImpersonationGuard, RateLimitGuard)
+  @BlockImpersonation()
+  @RateLimit({ points: 20, duration: 60, key: 'user' })
+  @Delete('me/others')
+  @ApiOperation({ summary: 'Revoke all other sessions of current user' })
+  async revokeOtherSessions(@Req() req: RequestWithUser) {
+    const data = await this.sessionsService.revokeOtherOwnSessions(req.user);
+
+    await this.auditService.record(
+      req.user,
+      'session.revoke_own_others',
+      'user',
+      req.user.id,
+      null,
+      { sessionIds: data.sessionIds },
+      { ipAddress: req.ip, method: req.method, api: req.originalUrl },
+    );
+
+    return ApiResponse.success('Other sessions revoked successfully', 200, {
+      sessionsInvalidated: data.sessionIds.length,
+      socketsDisconnected: data.socketsDisconnected,
+    });
+  }
+
+  /**
+   * Sign out one of the current user's other sessions.
+   *
+   * @param req - Authenticated request providing the current user.
+   * @param id - Session identifier.
+   * @returns API response with the revoked session.
+   */
+  @UseGuards(ImpersonationGuard, RateLimitGuard)
+  @BlockImpersonation()
+  @RateLimit({ points: 20, duration: 60, key: 'user' })
+  @Delete('me/:id')
+  @ApiOperation({ summary: 'Revoke one session of current user' })
+  async revokeOwnSession(
+    @Req() req: RequestWithUser,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    const data = await this.sessionsService.revokeOwnSession(req.user, id);
+
+    await this.auditService.record(
+      req.user,
+      'session.revoke_own',
+      'session',
+      id,
+      { isValid: true },
+      { isValid: false },
+      { ipAddress: req.ip, method: req.method, api: req.originalUrl },
+    );
+
+    return ApiResponse.success('Session revoked successfully', 200, {
+      sessionId: id,
+      socketsDisconnected: data.socketsDisconnected,
+    });
+  }
+}
@@ -1,14 +1,17 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Sessions } from '../entities/entities/Sessions';
+import { Companies } from '../entities/entities/Companies';
 import { SessionsService } from './sessions.service';
+import { SessionsController } from './sessions.controller';
 import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Sessions]),
+    TypeOrmModule.forFeature([Sessions, Companies]),
     forwardRef(() => NotificationsModule),
   ],
+  controllers: [SessionsController],
   providers: [SessionsService],
   exports: [SessionsService],
 })
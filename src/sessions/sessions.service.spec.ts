@@ -0,0 +1,426 @@
+import { ConfigService } from '@nestjs/config';
+import type Redis from 'ioredis';
+import { Repository } from 'typeorm';
+import { SessionsService } from './sessions.service';
+import { Sessions } from '../entities/entities/Sessions';
+import { Companies } from '../entities/entities/Companies';
+import { NotificationsGateway } from '../notifications/notifications.gateway';
+import { ActivityLogsService } from '../activity-logs/activity-logs.service';
+import { AuthUser } from '../common/interfaces/auth-user.interface';
+
+describe('SessionsService', () => {
+  const user: AuthUser = {
+    id: 7,
+    sub: 7,
+    email: 'u@test.com',
+    companyId: 3,
+    roles: ['user'],
+    sessionId: 11,
+  };
+
+  const createService = (
+    affected = 1,
+    company: Partial<Companies> | null = null,
+  ) => {
+    const sessionsRepo = {
+      find: jest.fn().mockResolvedValue([
+        {
+          id: 11,
+          userAgent: 'Firefox',
+          ipAddress: '10.0.0.1',
+          impersonatorId: null,
+        },
+        {
+          id: 12,
+          userAgent: 'Chrome',
+          ipAddress: '10.0.0.2',
+          impersonatorId: 1,
+        },
+      ]),
+      update: jest.fn().mockResolvedValue({ affected }),
+      create: jest.fn((data: Partial<Sessions>) => data),
+      save: jest.fn((data: Partial<Sessions>) =>
+        Promise.resolve({ id: 13, ...data }),
+      ),
+      manager: {
+        find: jest.fn().mockResolvedValue([
+          { id: 1, email: 'root@test.com' },
+          { id: 7, email: 'u@test.com', company: { id: 3 } },
+        ]),
+        query: jest.fn().mockResolvedValue([]),
+        transaction: jest.fn(),
+        getRepository: jest.fn(),
+      },
+    };
+    // Transactions run on the same mocks
+    sessionsRepo.manager.transaction.mockImplementation(
+      (work: (manager: unknown) => Promise<unknown>) =>
+        work(sessionsRepo.manager),
+    );
+    sessionsRepo.manager.getRepository.mockReturnValue(sessionsRepo);
+    const companiesRepo = {
+      createQueryBuilder: jest.fn().mockReturnValue({
+        innerJoin: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        getOne: jest.fn().mockResolvedValue(company),
+      }),
+    };
+    const gateway = {
+      parseUserAgent: jest.fn((ua: string) => ({ browser: ua, os: 'Linux' })),
+      forceDisconnectSession: jest.fn().mockResolvedValue(2),
+      emitSessionExpiring: jest.fn().mockReturnValue(1),
+      emitSessionExpired: jest.fn().mockReturnValue(1),
+    };
+    const activityLogsService = {
+      logEvent: jest.fn().mockResolvedValue(undefined),
+    };
+    const warned = new Set<string>();
+    const redis = {
+      set: jest.fn((key: string) => {
+        if (warned.has(key)) return Promise.resolve(null);
+        warned.add(key);
+        return Promise.resolve('OK');
+      }),
+    };
+    const service = new SessionsService(
+      sessionsRepo as unknown as Repository<Sessions>,
+      companiesRepo as unknown as Repository<Companies>,
+      gateway as unknown as NotificationsGateway,
+      {
+        get: jest.fn((_key: string, fallback?: unknown) => fallback),
+      } as unknown as ConfigService,
+      activityLogsService as unknown as ActivityLogsService,
+      redis as unknown as Redis,
+    );
+    return { service, sessionsRepo, gateway, activityLogsService, redis };
+  };
+
+  it('lists sessions with parsed user agent and the current one flagged', async () => {
+    const { service } = createService();
+
+    const sessions = await service.getOwnSessions(7, 11);
+
+    expect(sessions).toEqual([
+      expect.objectContaining({
+        id: 11,
+        browser: 'Firefox',
+        os: 'Linux',
+        current: true,
+        impersonated: false,
+      }),
+      expect.objectContaining({
+        id: 12,
+        browser: 'Chrome',
+        current: false,
+        impersonated: true,
+      }),
+    ]);
+  });
+
+  it('revokes one of the user own sessions and disconnects its sockets', async () => {
+    const { service, sessionsRepo, gateway } = createService();
+
+    const result = await service.revokeOwnSession(user, 12);
+
+    expect(sessionsRepo.update).toHaveBeenCalledWith(
+      { id: 12, userId: 7, isValid: true },
+      expect.objectContaining({ isValid: false }),
+    );
+    expect(gateway.forceDisconnectSession).toHaveBeenCalledWith(
+      12,
+      7,
+      3,
+      'Session revoked by user',
+    );
+    expect(result).toEqual({ sessionIds: [12], socketsDisconnected: 2 });
+  });
+
+  it('does not revoke sessions of other users', async () => {
+    const { service, gateway } = createService(0);
+
+    await expect(service.revokeOwnSession(user, 99)).rejects.toThrow(
+      'Session not found',
+    );
+    expect(gateway.forceDisconnectSession).not.toHaveBeenCalled();
+  });
+
+  it('refuses to revoke the current session', async () => {
+    const { service, sessionsRepo } = createService();
+
+    await expect(service.revokeOwnSession(user, 11)).rejects.toThrow(
+      'Use logout to end the current session',
+    );
+    expect(sessionsRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('revokes every session except the current one', async () => {
+    const { service, gateway } = createService();
+
+    const result = await service.revokeOtherOwnSessions(user);
+
+    expect(result).toEqual({ sessionIds: [12], socketsDisconnected: 2 });
+    expect(gateway.forceDisconnectSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('accepts the just-rotated token during the grace period', async () => {
+    const { service, sessionsRepo } = createService();
+    const builder = {
+      update: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      setParameters: jest.fn().mockReturnThis(),
+      execute: jest.fn().mockResolvedValue({ affected: 1 }),
+    };
+    Object.assign(sessionsRepo, {
+      createQueryBuilder: jest.fn().mockReturnValue(builder),
+    });
+
+    await expect(
+      service.rotateSessionToken(11, 'old-refresh', 'new-refresh'),
+    ).resolves.toBe(true);
+
+    const { presented, graceStart } = builder.setParameters.mock
+      .calls[0][0] as { presented: string; graceStart: Date };
+    expect(presented).toBe(service.hashToken('old-refresh'));
+    expect(Date.now() - graceStart.getTime()).toBeGreaterThanOrEqual(10000);
+    expect(builder.set).toHaveBeenCalledWith(
+      expect.objectContaining({
+        refreshTokenHash: service.hashToken('new-refresh'),
+        previousRefreshTokenHash: expect.any(Function),
+      }),
+    );
+  });
+
+  describe('concurrent session limit', () => {
+    it('evicts the oldest sessions when the limit is reached', async () => {
+      const { service, sessionsRepo, gateway, activityLogsService } =
+        createService(1, { id: 3, maxConcurrentSessions: 2 });
+
+      await service.createSession(7, 'refresh-token', '10.0.0.9');
+
+      expect(gateway.emitSessionExpired).toHaveBeenCalledWith(
+        [11],
+        'evicted',
+        expect.any(String),
+      );
+      expect(sessionsRepo.update).toHaveBeenCalledWith(
+        expect.objectContaining({ isValid: true }),
+        expect.objectContaining({ isValid: false }),
+      );
+      expect(sessionsRepo.save).toHaveBeenCalled();
+      expect(activityLogsService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 7,
+          companyId: 3,
+          ipAddress: '10.0.0.9',
+          reason: 'SESSION_EVICTED',
+          changes: expect.objectContaining({
+            sessionIds: { from: [11], to: null },
+          }),
+        }),
+      );
+    });
+
+    it('checks the limit under a per-user lock', async () => {
+      const { service, sessionsRepo } = createService(1, {
+        maxConcurrentSessions: 2,
+      });
+
+      await service.createSession(7, 'refresh-token');
+
+      expect(sessionsRepo.manager.query).toHaveBeenCalledWith(
+        'SELECT pg_advisory_xact_lock(hashtext($1))',
+        ['sessions:7'],
+      );
+      const [lockedAt] = sessionsRepo.manager.query.mock.invocationCallOrder;
+      const [countedAt] = sessionsRepo.find.mock.invocationCallOrder;
+      expect(lockedAt).toBeLessThan(countedAt);
+    });
+
+    it('rejects the login when the company prefers it', async () => {
+      const { service, sessionsRepo } = createService(1, {
+        maxConcurrentSessions: 2,
+        sessionLimitStrategy: 'reject',
+      });
+
+      await expect(service.createSession(7, 'refresh-token')).rejects.toThrow(
+        'Maximum of 2 concurrent session(s) reached',
+      );
+      expect(sessionsRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('does not limit impersonation sessions', async () => {
+      const { service, sessionsRepo } = createService(1, {
+        maxConcurrentSessions: 1,
+        sessionLimitStrategy: 'reject',
+      });
+
+      await service.createSession(7, 'refresh-token', undefined, undefined, {
+        impersonatorId: 1,
+        expiresAt: new Date(Date.now() + 60000),
+      });
+
+      expect(sessionsRepo.find).not.toHaveBeenCalled();
+      expect(sessionsRepo.save).toHaveBeenCalled();
+    });
+
+    it('allows unlimited sessions by default', async () => {
+      const { service, gateway } = createService();
+
+      await service.createSession(7, 'refresh-token');
+
+      expect(gateway.emitSessionExpired).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('session policy', () => {
+    const minutesAgo = (minutes: number) =>
+      new Date(Date.now() - minutes * 60 * 1000);
+    const session = (overrides: Partial<Sessions>) =>
+      ({
+        id: 1,
+        userId: 7,
+        loginAt: minutesAgo(60),
+        lastActivityAt: minutesAgo(10),
+        rememberMe: false,
+        expiresAt: null,
+        ...overrides,
+      }) as Sessions;
+
+    it('falls back to the defaults for settings the company leaves unset', () => {
+      const { service } = createService();
+
+      expect(
+        service.resolvePolicy({
+          sessionIdleTimeoutMinutes: 15,
+          sessionAbsoluteLifetimeMinutes: null,
+          sessionRememberMeLifetimeMinutes: null,
+          maxConcurrentSessions: null,
+          sessionLimitStrategy: null,
+        }),
+      ).toEqual({
+        idleTimeoutMinutes: 15,
+        absoluteLifetimeMinutes: 720,
+        rememberMeLifetimeMinutes: 43200,
+        maxConcurrentSessions: 0,
+        limitStrategy: 'evict_oldest',
+      });
+    });
+
+    it('ends sessions at the earliest of idle timeout and lifetime', () => {
+      const { service } = createService();
+      const policy = service.resolvePolicy(null);
+
+      const idle = session({});
+
+      expect(service.getExpiry(idle, policy)).toEqual({
+        expiresAt: new Date(idle.lastActivityAt.getTime() + 30 * 60000),
+        reason: 'idle',
+      });
+      expect(
+        service.getExpiry(session({ loginAt: minutesAgo(715) }), {
+          ...policy,
+          absoluteLifetimeMinutes: 720,
+        }).reason,
+      ).toBe('lifetime');
+    });
+
+    it('skips the idle timeout for remember-me sessions', () => {
+      const { service } = createService();
+
+      const expiry = service.getExpiry(
+        session({ rememberMe: true, lastActivityAt: minutesAgo(600) }),
+        service.resolvePolicy(null),
+      );
+
+      expect(expiry.reason).toBe('lifetime');
+      expect(expiry.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('expires idle sessions and warns the ones about to expire', async () => {
+      const { service, sessionsRepo, gateway } = createService();
+      const builder = {
+        leftJoin: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getMany: jest
+          .fn()
+          .mockResolvedValue([
+            session({ id: 1, lastActivityAt: minutesAgo(31) }),
+            session({ id: 2, lastActivityAt: minutesAgo(25.5) }),
+            session({ id: 3, lastActivityAt: minutesAgo(5) }),
+            session({ id: 4, lastActivityAt: minutesAgo(28) }),
+          ]),
+      };
+      Object.assign(sessionsRepo, {
+        createQueryBuilder: jest.fn().mockReturnValue(builder),
+      });
+
+      await service.handleExpiredSessions();
+
+      expect(gateway.emitSessionExpired).toHaveBeenCalledWith(
+        [1],
+        'expired',
+        expect.any(String),
+      );
+      expect(gateway.emitSessionExpiring).toHaveBeenCalledTimes(2);
+      expect(gateway.emitSessionExpiring).toHaveBeenCalledWith(
+        2,
+        expect.any(Date),
+        'idle',
+        expect.any(String),
+      );
+      expect(gateway.emitSessionExpiring).toHaveBeenCalledWith(
+        4,
+        expect.any(Date),
+        'idle',
+        expect.any(String),
+      );
+      expect(builder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('LEAST('),
+        expect.objectContaining({
+          idleTimeout: 30,
+          warnUntil: expect.any(Date),
+        }),
+      );
+
+      // Warned sessions are not warned again on the next run
+      await service.handleExpiredSessions();
+      expect(gateway.emitSessionExpiring).toHaveBeenCalledTimes(2);
+    });
+
+    it('logs the end of an impersonation that timed out', async () => {
+      const { service, sessionsRepo, activityLogsService } = createService();
+      const builder = {
+        leftJoin: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getMany: jest
+          .fn()
+          .mockResolvedValue([
+            session({ id: 4, impersonatorId: 1, expiresAt: minutesAgo(1) }),
+            session({ id: 5, lastActivityAt: minutesAgo(40) }),
+          ]),
+      };
+      Object.assign(sessionsRepo, {
+        createQueryBuilder: jest.fn().mockReturnValue(builder),
+      });
+
+      await service.handleExpiredSessions();
+
+      expect(activityLogsService.logEvent).toHaveBeenCalledTimes(1);
+      expect(activityLogsService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 1,
+          username: 'root@test.com',
+          companyId: 3,
+          reason: 'IMPERSONATION_STOP',
+          entityId: '7',
+        }),
+      );
+    });
+  });
+});
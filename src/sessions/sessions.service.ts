@@ -1,10 +1,44 @@
-import { Injectable, Logger, Inject, forwardRef } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  Inject,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, LessThan } from 'typeorm';
+import type Redis from 'ioredis';
+import { Brackets, Repository, LessThan, In, IsNull } from 'typeorm';
 import { Sessions } from '../entities/entities/Sessions';
+import { Companies } from '../entities/entities/Companies';
+import { Users } from '../entities/entities/Users';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import * as crypto from 'crypto';
 import { NotificationsGateway } from '../notifications/notifications.gateway';
+import { ActivityLogsService } from '../activity-logs/activity-logs.service';
+import { AuthUser } from '../common/interfaces/auth-user.interface';
+import { deviceFingerprint } from '../common/utils/device-fingerprint';
+import {
+  OwnSession,
+  RevokedOwnSessions,
+  SessionExpiry,
+  SessionLimitStrategy,
+  SessionPolicy,
+} from './interfaces';
+
+// last_activity_at is only written when older than this, not on every request
+const ACTIVITY_RESOLUTION_MS = 60 * 1000;
+
+type CompanySessionPolicy = Pick<
+  Companies,
+  | 'sessionIdleTimeoutMinutes'
+  | 'sessionAbsoluteLifetimeMinutes'
+  | 'sessionRememberMeLifetimeMinutes'
+  | 'maxConcurrentSessions'
+  | 'sessionLimitStrategy'
+>;
 
 @Injectable()
 export class SessionsService {
@@ -13,8 +47,14 @@ export class SessionsService {
   constructor(
     @InjectRepository(Sessions)
     private sessionsRepository: Repository<Sessions>,
+    @InjectRepository(Companies)
+    private companiesRepository: Repository<Companies>,
     @Inject(forwardRef(() => NotificationsGateway))
     private notificationsGateway: NotificationsGateway,
+    private configService: ConfigService,
+    private activityLogsService: ActivityLogsService,
+    @Inject('REDIS_CLIENT')
+    private redis: Redis,
   ) {}
 
   /**
@@ -26,13 +66,16 @@ export class SessionsService {
 
   /**
    * Create a new session when user logs in
-   * Allows multiple sessions per user (multi-device/browser support)
+   * Allows multiple sessions per user (multi-device/browser support), up to
+   * the company's concurrent session limit
    */
   async createSession(
     userId: number,
     refreshToken: string,
     ipAddress?: string,
     userAgent?: string,
+    impersonation?: { impersonatorId: number; expiresAt: Date },
+    rememberMe = false,
   ): Promise<Sessions> {
     const session = this.sessionsRepository.create({
       userId,
@@ -42,13 +85,244 @@ export class SessionsService {
       isValid: true,
       ipAddress: ipAddress || null,
       userAgent: userAgent || null,
+      deviceFingerprint: deviceFingerprint(userAgent, ipAddress),
+      rememberMe,
+      impersonatorId: impersonation?.impersonatorId ?? null,
+      expiresAt: impersonation?.expiresAt ?? null,
     });
 
-    return this.sessionsRepository.save(session);
+    // Impersonation sessions neither count towards nor trigger the limit
+    if (impersonation) return this.sessionsRepository.save(session);
+
+    // Logins of the same user are serialised so two of them cannot both
+    // pass the limit check
+    const { saved, eviction } =
+      await this.sessionsRepository.manager.transaction(async (manager) => {
+        await manager.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+          `sessions:${userId}`,
+        ]);
+        const repository = manager.getRepository(Sessions);
+        const eviction = await this.enforceConcurrentSessionLimit(
+          repository,
+          userId,
+        );
+        return { saved: await repository.save(session), eviction };
+      });
+
+    if (eviction) {
+      try {
+        await this.activityLogsService.logEvent({
+          userId,
+          companyId: eviction.companyId,
+          ipAddress: ipAddress || '',
+          api: '',
+          method: '',
+          reason: 'SESSION_EVICTED',
+          action: 'session.evict',
+          entityType: 'user',
+          entityId: String(userId),
+          changes: {
+            sessionIds: { from: eviction.sessionIds, to: null },
+            newSessionId: { from: null, to: saved.id },
+          },
+        });
+      } catch (error) {
+        this.logger.error(
+          `Failed to log session eviction of user ${userId}`,
+          error instanceof Error ? error.stack : String(error),
+        );
+      }
+    }
+
+    return saved;
+  }
+
+  /**
+   * Make room for one more session of a user: evict the oldest sessions or
+   * reject the login, depending on the company's policy. Returns the
+   * evicted sessions, if any.
+   */
+  private async enforceConcurrentSessionLimit(
+    repository: Repository<Sessions>,
+    userId: number,
+  ): Promise<{ sessionIds: number[]; companyId?: number } | null> {
+    const company = await this.findCompanyOfUser(userId);
+    const { maxConcurrentSessions, limitStrategy } =
+      this.resolvePolicy(company);
+    if (!maxConcurrentSessions) return null;
+
+    const sessions = await repository.find({
+      where: { userId, isValid: true, impersonatorId: IsNull() },
+      select: ['id'],
+      order: { loginAt: 'ASC' },
+    });
+    const excess = sessions.length - maxConcurrentSessions + 1;
+    if (excess <= 0) return null;
+
+    if (limitStrategy === 'reject') {
+      throw new ForbiddenException(
+        `Maximum of ${maxConcurrentSessions} concurrent session(s) reached. Log out on another device and try again.`,
+      );
+    }
+
+    const sessionIds = sessions.slice(0, excess).map((s) => s.id);
+
+    // Tell the evicted tabs why BEFORE invalidating
+    this.notificationsGateway.emitSessionExpired(
+      sessionIds,
+      'evicted',
+      'You were logged out because your account signed in on another device.',
+    );
+
+    await repository.update(
+      { id: In(sessionIds), isValid: true },
+      { isValid: false, updatedAt: new Date() },
+    );
+
+    this.logger.log(
+      `Evicted ${sessionIds.length} session(s) of user ${userId} (limit ${maxConcurrentSessions})`,
+    );
+    return { sessionIds, companyId: company?.id };
+  }
+
+  /**
+   * Session policy of a company, falling back to the SESSION_* defaults
+   */
+  resolvePolicy(company?: CompanySessionPolicy | null): SessionPolicy {
+    return {
+      idleTimeoutMinutes:
+        company?.sessionIdleTimeoutMinutes ??
+        Number(this.configService.get('SESSION_IDLE_TIMEOUT_MINUTES', 30)),
+      absoluteLifetimeMinutes:
+        company?.sessionAbsoluteLifetimeMinutes ??
+        Number(
+          this.configService.get('SESSION_ABSOLUTE_LIFETIME_MINUTES', 720),
+        ),
+      rememberMeLifetimeMinutes:
+        company?.sessionRememberMeLifetimeMinutes ??
+        Number(
+          this.configService.get('SESSION_REMEMBER_ME_LIFETIME_MINUTES', 43200),
+        ),
+      maxConcurrentSessions:
+        company?.maxConcurrentSessions ??
+        Number(this.configService.get('SESSION_MAX_CONCURRENT', 0)),
+      limitStrategy:
+        (company?.sessionLimitStrategy as SessionLimitStrategy) ??
+        this.configService.get<SessionLimitStrategy>(
+          'SESSION_LIMIT_STRATEGY',
+          'evict_oldest',
+        ),
+    };
+  }
+
+  /**
+   * Session policy of the company a user belongs to
+   */
+  async getPolicyForUser(userId: number): Promise<SessionPolicy> {
+    return this.resolvePolicy(await this.findCompanyOfUser(userId));
+  }
+
+  private findCompanyOfUser(userId: number): Promise<Companies | null> {
+    return this.companiesRepository
+      .createQueryBuilder('company')
+      .innerJoin('company.users', 'user')
+      .where('user.id = :userId', { userId })
+      .getOne();
   }
 
   /**
-   * Validate session by checking if it exists and is valid
+   * When a session ends under a policy: the earliest of the idle timeout
+   * (skipped for remember-me logins), the absolute lifetime and its own
+   * expiresAt (impersonation)
+   */
+  getExpiry(session: Sessions, policy: SessionPolicy): SessionExpiry {
+    const lifetimeMinutes = session.rememberMe
+      ? policy.rememberMeLifetimeMinutes
+      : policy.absoluteLifetimeMinutes;
+    let expiry: SessionExpiry = {
+      expiresAt: new Date(
+        new Date(session.loginAt).getTime() + lifetimeMinutes * 60 * 1000,
+      ),
+      reason: 'lifetime',
+    };
+
+    if (session.expiresAt && session.expiresAt < expiry.expiresAt) {
+      expiry = { expiresAt: session.expiresAt, reason: 'lifetime' };
+    }
+
+    if (!session.rememberMe) {
+      const idleAt = new Date(
+        new Date(session.lastActivityAt).getTime() +
+          policy.idleTimeoutMinutes * 60 * 1000,
+      );
+      if (idleAt < expiry.expiresAt) {
+        expiry = { expiresAt: idleAt, reason: 'idle' };
+      }
+    }
+
+    return expiry;
+  }
+
+  /**
+   * When a session ends under its user's company policy
+   */
+  async getSessionExpiry(session: Sessions): Promise<SessionExpiry> {
+    return this.getExpiry(session, await this.getPolicyForUser(session.userId));
+  }
+
+  /**
+   * Log the end of an impersonation that ran out instead of being stopped,
+   * on behalf of the impersonator like an explicit stop
+   */
+  private async logImpersonationTimeout(
+    session: Pick<Sessions, 'id' | 'userId' | 'impersonatorId'>,
+  ): Promise<void> {
+    if (!session.impersonatorId) return;
+    try {
+      const users = await this.sessionsRepository.manager.find(Users, {
+        where: { id: In([session.impersonatorId, session.userId]) },
+        relations: ['company'],
+      });
+      const impersonator = users.find((u) => u.id === session.impersonatorId);
+      const target = users.find((u) => u.id === session.userId);
+      await this.activityLogsService.logEvent({
+        userId: session.impersonatorId,
+        username: impersonator?.email,
+        companyId: target?.company?.id,
+        ipAddress: '',
+        api: '',
+        method: '',
+        reason: 'IMPERSONATION_STOP',
+        action: 'auth.impersonation.timeout',
+        entityType: 'user',
+        entityId: String(session.userId),
+        changes: { sessionId: { from: null, to: session.id } },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to log the end of impersonated session ${session.id}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+
+  /**
+   * End a session found past its expiry, logging the end of an
+   * impersonation if it was one
+   */
+  async expireSession(session: Sessions): Promise<void> {
+    const result = await this.sessionsRepository.update(
+      { id: session.id, isValid: true },
+      { isValid: false, updatedAt: new Date() },
+    );
+    if (result.affected) {
+      await this.logImpersonationTimeout(session);
+    }
+  }
+
+  /**
+   * Validate session by checking if it exists, is valid and has not
+   * outlived the session policy
    */
   async validateSession(
     userId: number,
@@ -65,6 +339,12 @@ export class SessionsService {
     });
 
     if (session) {
+      const { expiresAt } = await this.getSessionExpiry(session);
+      if (expiresAt.getTime() <= Date.now()) {
+        await this.expireSession(session);
+        return null;
+      }
+
       // Update last activity timestamp
       await this.sessionsRepository.update(session.id, {
         lastActivityAt: new Date(),
@@ -75,6 +355,21 @@ export class SessionsService {
     return session;
   }
 
+  /**
+   * Record activity on a session for the idle timeout
+   * Writes at most once per minute per session
+   */
+  async touchSession(sessionId: number): Promise<void> {
+    await this.sessionsRepository.update(
+      {
+        id: sessionId,
+        isValid: true,
+        lastActivityAt: LessThan(new Date(Date.now() - ACTIVITY_RESOLUTION_MS)),
+      },
+      { lastActivityAt: new Date() },
+    );
+  }
+
   /**
    * Invalidate a specific session (logout)
    */
@@ -140,28 +435,100 @@ export class SessionsService {
   }
 
   /**
-   * Cron job: Runs every minute (FOR TESTING - change back to EVERY_DAY_AT_MIDNIGHT for production)
-   * Invalidates sessions that are older than 30 minutes from login time (FOR TESTING - change back to 12 hours)
+   * Cron job: Runs every minute
+   * Invalidates sessions past their company's idle timeout or lifetime, and
+   * warns the ones about to expire with a session-expiring event (once per
+   * session). The database only returns sessions within the warning window.
    */
   @Cron(CronExpression.EVERY_MINUTE)
   async handleExpiredSessions(): Promise<void> {
     this.logger.log('Running session expiry cron job...');
 
-    // FOR TESTING: 30 minutes ago (change back to 12 hours for production)
-    // const twelveHoursAgo = new Date();
-    // twelveHoursAgo.setHours(twelveHoursAgo.getHours() - 12);
+    const now = Date.now();
+    const warningMs =
+      Number(this.configService.get('SESSION_EXPIRY_WARNING_MINUTES', 5)) *
+      60 *
+      1000;
+    const defaults = this.resolvePolicy(null);
 
-    const expiryTime = new Date();
-    expiryTime.setMinutes(expiryTime.getMinutes() - 30);
+    // Same rules as getExpiry; LEAST skips the NULL terms
+    const sessions = await this.sessionsRepository
+      .createQueryBuilder('sessions')
+      .leftJoin('sessions.user', 'user')
+      .leftJoin('user.company', 'company')
+      .select([
+        'sessions.id',
+        'sessions.userId',
+        'sessions.loginAt',
+        'sessions.lastActivityAt',
+        'sessions.rememberMe',
+        'sessions.expiresAt',
+        'sessions.impersonatorId',
+        'user.id',
+        'company.id',
+        'company.sessionIdleTimeoutMinutes',
+        'company.sessionAbsoluteLifetimeMinutes',
+        'company.sessionRememberMeLifetimeMinutes',
+      ])
+      .where('sessions.is_valid = :isValid', { isValid: true })
+      .andWhere(
+        `LEAST(
+          sessions.login_at + make_interval(mins => CASE WHEN sessions.remember_me
+            THEN COALESCE(company.session_remember_me_lifetime_minutes, :rememberMeLifetime)
+            ELSE COALESCE(company.session_absolute_lifetime_minutes, :absoluteLifetime) END),
+          sessions.expires_at,
+          CASE WHEN sessions.remember_me THEN NULL
+            ELSE sessions.last_activity_at + make_interval(mins => COALESCE(company.session_idle_timeout_minutes, :idleTimeout)) END
+        ) <= :warnUntil`,
+        {
+          rememberMeLifetime: defaults.rememberMeLifetimeMinutes,
+          absoluteLifetime: defaults.absoluteLifetimeMinutes,
+          idleTimeout: defaults.idleTimeoutMinutes,
+          warnUntil: new Date(now + warningMs),
+        },
+      )
+      .getMany();
 
-    // First, find sessions that will be expired (to notify them via WebSocket)
-    const sessionsToExpire = await this.sessionsRepository.find({
-      where: {
-        isValid: true,
-        loginAt: LessThan(expiryTime),
-      },
-      select: ['id'],
-    });
+    const sessionsToExpire: Sessions[] = [];
+
+    for (const session of sessions) {
+      const { expiresAt, reason } = this.getExpiry(
+        session,
+        this.resolvePolicy(session.user?.company),
+      );
+      const remaining = expiresAt.getTime() - now;
+
+      if (remaining <= 0) {
+        sessionsToExpire.push(session);
+      } else if (remaining <= warningMs) {
+        // Warn once, across instances; the key lives until the session ends
+        try {
+          const first = await this.redis.set(
+            `session:expiry-warned:${session.id}`,
+            '1',
+            'PX',
+            remaining,
+            'NX',
+          );
+          if (!first) continue;
+        } catch (error) {
+          this.logger.error(
+            `Failed to record the expiry warning of session ${session.id}`,
+            error instanceof Error ? error.stack : String(error),
+          );
+          continue;
+        }
+
+        this.notificationsGateway.emitSessionExpiring(
+          session.id,
+          expiresAt,
+          reason,
+          reason === 'idle'
+            ? 'You will be logged out soon due to inactivity.'
+            : 'Your session is about to expire. Please log in again.',
+        );
+      }
+    }
 
     if (sessionsToExpire.length === 0) {
       this.logger.log('No sessions to expire');
@@ -179,10 +546,7 @@ export class SessionsService {
 
     // Now invalidate the sessions
     const result = await this.sessionsRepository.update(
-      {
-        isValid: true,
-        loginAt: LessThan(expiryTime),
-      },
+      { id: In(sessionIds), isValid: true },
       {
         isValid: false,
         updatedAt: new Date(),
@@ -192,6 +556,10 @@ export class SessionsService {
     this.logger.log(
       `Expired ${result.affected || 0} sessions (notified ${notifiedCount} connected clients)`,
     );
+
+    for (const session of sessionsToExpire) {
+      await this.logImpersonationTimeout(session);
+    }
   }
 
   /**
@@ -223,6 +591,102 @@ export class SessionsService {
     });
   }
 
+  /**
+   * Get the current user's active sessions with browser/OS details
+   */
+  async getOwnSessions(
+    userId: number,
+    currentSessionId?: number,
+  ): Promise<OwnSession[]> {
+    const sessions = await this.getActiveUserSessions(userId);
+
+    return sessions.map((session) => {
+      const { browser, os } = this.notificationsGateway.parseUserAgent(
+        session.userAgent,
+      );
+      return {
+        id: session.id,
+        browser,
+        os,
+        ipAddress: session.ipAddress,
+        loginAt: session.loginAt,
+        lastActivityAt: session.lastActivityAt,
+        current: session.id === currentSessionId,
+        impersonated: Boolean(session.impersonatorId),
+      };
+    });
+  }
+
+  /**
+   * Revoke one of the current user's other sessions and disconnect its sockets
+   * The current session is ended through logout instead
+   */
+  async revokeOwnSession(
+    user: AuthUser,
+    sessionId: number,
+  ): Promise<RevokedOwnSessions> {
+    if (sessionId === user.sessionId) {
+      throw new BadRequestException('Use logout to end the current session');
+    }
+
+    const result = await this.sessionsRepository.update(
+      { id: sessionId, userId: user.id, isValid: true },
+      { isValid: false, updatedAt: new Date() },
+    );
+    if (!result.affected) {
+      throw new NotFoundException('Session not found');
+    }
+
+    const socketsDisconnected =
+      await this.notificationsGateway.forceDisconnectSession(
+        sessionId,
+        user.id,
+        user.companyId,
+        'Session revoked by user',
+      );
+
+    return { sessionIds: [sessionId], socketsDisconnected };
+  }
+
+  /**
+   * Revoke all of the current user's sessions except the current one
+   */
+  async revokeOtherOwnSessions(user: AuthUser): Promise<RevokedOwnSessions> {
+    if (!user.sessionId) {
+      throw new BadRequestException('No current session');
+    }
+
+    const sessions = await this.sessionsRepository.find({
+      where: { userId: user.id, isValid: true },
+      select: ['id'],
+    });
+    const sessionIds = sessions
+      .map((s) => s.id)
+      .filter((id) => id !== user.sessionId);
+
+    if (sessionIds.length === 0) {
+      return { sessionIds, socketsDisconnected: 0 };
+    }
+
+    await this.sessionsRepository.update(
+      { id: In(sessionIds), userId: user.id },
+      { isValid: false, updatedAt: new Date() },
+    );
+
+    let socketsDisconnected = 0;
+    for (const sessionId of sessionIds) {
+      socketsDisconnected +=
+        await this.notificationsGateway.forceDisconnectSession(
+          sessionId,
+          user.id,
+          user.companyId,
+          'Session revoked by user',
+        );
+    }
+
+    return { sessionIds, socketsDisconnected };
+  }
+
   /**
    * Get active sessions for multiple users
    */
@@ -281,4 +745,47 @@ export class SessionsService {
       updatedAt: new Date(),
     });
   }
+
+  /**
+   * Rotate the refresh token of a session (compare-and-swap on the current hash)
+   * The token replaced by the previous rotation is accepted for a few seconds
+   * so that tabs refreshing at the same time are not treated as reuse.
+   * Returns false when the presented token is no longer accepted
+   */
+  async rotateSessionToken(
+    sessionId: number,
+    currentRefreshToken: string,
+    newRefreshToken: string,
+  ): Promise<boolean> {
+    const now = new Date();
+    const graceMs =
+      Number(this.configService.get('REFRESH_TOKEN_GRACE_SECONDS', 10)) * 1000;
+
+    const result = await this.sessionsRepository
+      .createQueryBuilder()
+      .update(Sessions)
+      .set({
+        previousRefreshTokenHash: () => 'refresh_token_hash',
+        refreshTokenHash: this.hashToken(newRefreshToken),
+        rotatedAt: now,
+        lastActivityAt: now,
+        updatedAt: now,
+      })
+      .where('id = :sessionId', { sessionId })
+      .andWhere('is_valid = true')
+      .andWhere(
+        new Brackets((qb) => {
+          qb.where('refresh_token_hash = :presented').orWhere(
+            'previous_refresh_token_hash = :presented AND rotated_at > :graceStart',
+          );
+        }),
+      )
+      .setParameters({
+        presented: this.hashToken(currentRefreshToken),
+        graceStart: new Date(now.getTime() - graceMs),
+      })
+      .execute();
+
+    return (result.affected || 0) > 0;
+  }
 }
@@ -1,5 +1,11 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsEmail, IsOptional, IsString, IsNumber } from 'class-validator';
+import {
+  IsBoolean,
+  IsEmail,
+  IsOptional,
+  IsString,
+  IsNumber,
+} from 'class-validator';
 
 export class CreateUserDto {
   @ApiPropertyOptional({ example: 'new@gmail.com' })
@@ -40,4 +46,13 @@ export class CreateUserDto {
   @IsOptional()
   @IsNumber()
   companyId?: number;
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'Email an invitation so the user sets their own password (password must be omitted)',
+  })
+  @IsOptional()
+  @IsBoolean()
+  invite?: boolean;
 }
@@ -0,0 +1,163 @@
+import { Repository } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { EmailVerificationService } from './email-verification.service';
+import { Users } from '../entities/entities/Users';
+import { MailService } from '../mail/mail.service';
+
+describe('EmailVerificationService', () => {
+  const createMockDependencies = (overrides?: {
+    usersRepo?: Partial<Repository<Users>>;
+    config?: Record<string, string>;
+  }) => {
+    const usersRepo = {
+      findOne: jest.fn(),
+      update: jest.fn(),
+      ...overrides?.usersRepo,
+    } as unknown as Repository<Users>;
+    const jwtService = {
+      sign: jest.fn().mockReturnValue('verify-token'),
+      verify: jest.fn().mockReturnValue({
+        sub: 7,
+        email: 'u@test.com',
+        purpose: 'verify-email',
+      }),
+    } as unknown as JwtService;
+    const mailService = {
+      send: jest.fn(),
+      buildFrontendUrl: jest.fn().mockReturnValue('http://app/verify-email'),
+    } as unknown as MailService;
+    const configService = {
+      get: jest.fn(
+        (key: string, fallback: unknown) =>
+          overrides?.config?.[key] ?? fallback,
+      ),
+    } as unknown as ConfigService;
+
+    const service = new EmailVerificationService(
+      usersRepo,
+      jwtService,
+      mailService,
+      configService,
+    );
+
+    return { service, usersRepo, mailService };
+  };
+
+  it('marks the email as verified', async () => {
+    const { service, usersRepo } = createMockDependencies({
+      usersRepo: {
+        findOne: jest.fn().mockResolvedValue({
+          id: 7,
+          email: 'u@test.com',
+          emailVerifiedAt: null,
+        }),
+      },
+    });
+
+    await service.verify('verify-token');
+
+    expect(usersRepo.update).toHaveBeenCalledWith(7, {
+      emailVerifiedAt: expect.any(Date),
+    });
+  });
+
+  it('rejects links issued for a previous email address', async () => {
+    const { service, usersRepo } = createMockDependencies({
+      usersRepo: {
+        findOne: jest
+          .fn()
+          .mockResolvedValue({ id: 7, email: 'changed@test.com' }),
+      },
+    });
+
+    await expect(service.verify('verify-token')).rejects.toThrow(
+      'Invalid or expired verification link',
+    );
+    expect(usersRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('requires verification when the company policy is enabled', () => {
+    const { service } = createMockDependencies();
+
+    expect(
+      service.isVerificationRequired({
+        emailVerifiedAt: null,
+        company: { requireVerifiedEmail: true },
+      } as Users),
+    ).toBe(true);
+    expect(
+      service.isVerificationRequired({
+        emailVerifiedAt: new Date(),
+        company: { requireVerifiedEmail: true },
+      } as Users),
+    ).toBe(false);
+    expect(
+      service.isVerificationRequired({
+        emailVerifiedAt: null,
+        company: { requireVerifiedEmail: false },
+      } as Users),
+    ).toBe(false);
+  });
+
+  it('gives accounts that predate the policy a grace period', () => {
+    const { service } = createMockDependencies();
+    const days = (n: number) => new Date(Date.now() - n * 24 * 60 * 60 * 1000);
+    const existingUser = (enabledDaysAgo: number) =>
+      ({
+        emailVerifiedAt: null,
+        createdAt: days(30),
+        company: {
+          requireVerifiedEmail: true,
+          requireVerifiedEmailSince: days(enabledDaysAgo),
+        },
+      }) as Users;
+
+    expect(service.isVerificationRequired(existingUser(2))).toBe(false);
+    expect(service.isVerificationRequired(existingUser(8))).toBe(true);
+    expect(
+      service.isVerificationRequired({
+        emailVerifiedAt: null,
+        createdAt: days(1),
+        company: {
+          requireVerifiedEmail: true,
+          requireVerifiedEmailSince: days(2),
+        },
+      } as Users),
+    ).toBe(true);
+  });
+
+  it('applies the grace period to the global policy when its start is set', () => {
+    const { service } = createMockDependencies({
+      config: {
+        REQUIRE_VERIFIED_EMAIL: 'true',
+        REQUIRE_VERIFIED_EMAIL_SINCE: new Date().toISOString(),
+      },
+    });
+
+    expect(
+      service.isVerificationRequired({
+        emailVerifiedAt: null,
+        createdAt: new Date(Date.now() - 60000),
+        company: null,
+      } as Users),
+    ).toBe(false);
+  });
+
+  it('mails every unverified user of a company', async () => {
+    const { service, mailService } = createMockDependencies({
+      usersRepo: {
+        find: jest.fn().mockResolvedValue([
+          { id: 1, email: 'a@test.com' },
+          { id: 2, email: 'b@test.com' },
+        ]),
+      },
+    });
+    (mailService.send as jest.Mock)
+      .mockRejectedValueOnce(new Error('SMTP down'))
+      .mockResolvedValueOnce(undefined);
+
+    await expect(service.remindUnverifiedUsers(3)).resolves.toBe(1);
+    expect(mailService.send).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,172 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { Users } from '../entities/entities/Users';
+import { MailService } from '../mail/mail.service';
+
+interface EmailVerificationPayload {
+  sub: number;
+  email: string;
+  purpose: 'verify-email';
+}
+
+@Injectable()
+export class EmailVerificationService {
+  private readonly logger = new Logger(EmailVerificationService.name);
+
+  constructor(
+    @InjectRepository(Users)
+    private readonly usersRepo: Repository<Users>,
+    private readonly jwtService: JwtService,
+    private readonly mailService: MailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // Accounts created before the policy started may still get in during the
+  // grace period; without a known start the policy applies right away
+  private isEnforcedFor(
+    since: Date | string | null | undefined,
+    user: Pick<Users, 'createdAt'>,
+  ): boolean {
+    if (!since) return true;
+    const start = new Date(since).getTime();
+    if (user.createdAt && user.createdAt.getTime() >= start) return true;
+
+    const graceDays = Number(
+      this.configService.get('EMAIL_VERIFICATION_GRACE_DAYS', 7),
+    );
+    return Date.now() >= start + graceDays * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Whether the user has to verify their email before being let in
+   * (required globally via env or by the user's company)
+   */
+  isVerificationRequired(
+    user: Pick<Users, 'emailVerifiedAt' | 'createdAt' | 'company'>,
+  ) {
+    if (user.emailVerifiedAt) return false;
+
+    const requiredGlobally =
+      this.configService.get<string>('REQUIRE_VERIFIED_EMAIL') === 'true';
+    if (
+      requiredGlobally &&
+      this.isEnforcedFor(
+        this.configService.get<string>('REQUIRE_VERIFIED_EMAIL_SINCE'),
+        user,
+      )
+    ) {
+      return true;
+    }
+
+    return Boolean(
+      user.company?.requireVerifiedEmail &&
+      this.isEnforcedFor(user.company.requireVerifiedEmailSince, user),
+    );
+  }
+
+  /**
+   * Mail a verification link. The token is bound to the current address,
+   * so links sent before an email change stop working.
+   */
+  async sendVerification(user: Pick<Users, 'id' | 'email'>): Promise<void> {
+    const ttlHours = Number(
+      this.configService.get('EMAIL_VERIFICATION_TTL_HOURS', 24),
+    );
+    const payload: EmailVerificationPayload = {
+      sub: user.id,
+      email: user.email,
+      purpose: 'verify-email',
+    };
+    const token = this.jwtService.sign(payload, {
+      expiresIn: ttlHours * 60 * 60,
+    });
+
+    const verifyUrl = this.mailService.buildFrontendUrl('/verify-email', {
+      token,
+    });
+
+    await this.mailService.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: `Please confirm this email address by opening the link below within ${ttlHours} hours:\n${verifyUrl}\n\nIf you did not expect this, you can ignore this email.`,
+    });
+  }
+
+  /**
+   * Mail a link to every unverified user of a company, e.g. when the
+   * company starts requiring verified emails
+   */
+  async remindUnverifiedUsers(companyId: number): Promise<number> {
+    const users = await this.usersRepo.find({
+      where: {
+        company: { id: companyId },
+        emailVerifiedAt: IsNull(),
+        isActive: true,
+        isDeleted: false,
+      },
+      select: ['id', 'email'],
+    });
+
+    let sent = 0;
+    for (const user of users) {
+      try {
+        await this.sendVerification(user);
+        sent++;
+      } catch {
+        // Already logged by MailService; the user can ask for a new link
+      }
+    }
+    return sent;
+  }
+
+  /**
+   * Resend the link for an unverified account.
+   * Resolves silently for unknown or already verified emails.
+   */
+  async resendVerification(email: string): Promise<void> {
+    const user = await this.usersRepo.findOne({ where: { email } });
+    if (!user || user.emailVerifiedAt || user.isDeleted) {
+      this.logger.log(`Verification resend skipped for ${email}`);
+      return;
+    }
+    await this.sendVerification(user);
+  }
+
+  /**
+   * Tell the previous address that the account email was changed
+   */
+  async notifyEmailChanged(previousEmail: string, newEmail: string) {
+    await this.mailService.send({
+      to: previousEmail,
+      subject: 'Your email address was changed',
+      text: `The email address of your account was changed to ${newEmail}.\n\nIf you did not expect this, please contact your administrator.`,
+    });
+  }
+
+  /**
+   * Mark the email as verified from a verification token
+   */
+  async verify(token: string): Promise<void> {
+    let payload: EmailVerificationPayload;
+    try {
+      payload = this.jwtService.verify<EmailVerificationPayload>(token);
+    } catch {
+      throw new BadRequestException('Invalid or expired verification link');
+    }
+    if (payload.purpose !== 'verify-email') {
+      throw new BadRequestException('Invalid or expired verification link');
+    }
+
+    const user = await this.usersRepo.findOne({ where: { id: payload.sub } });
+    if (!user || user.email !== payload.email) {
+      throw new BadRequestException('Invalid or expired verification link');
+    }
+
+    if (!user.emailVerifiedAt) {
+      await this.usersRepo.update(user.id, { emailVerifiedAt: new Date() });
+    }
+  }
+}
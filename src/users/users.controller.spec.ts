@@ -1,12 +1,21 @@
 import { UserController } from './users.controller';
 import { UserService } from './users.service';
+import { InvitationsService } from '../invitations/invitations.service';
+import { EmailVerificationService } from './email-verification.service';
 
 describe('UserController', () => {
   let controller: UserController;
 
   beforeEach(() => {
     const mockUserService = {} as unknown as UserService;
-    controller = new UserController(mockUserService);
+    const mockInvitationsService = {} as unknown as InvitationsService;
+    const mockEmailVerificationService =
+      {} as unknown as EmailVerificationService;
+    controller = new UserController(
+      mockUserService,
+      mockInvitationsService,
+      mockEmailVerificationService,
+    );
   });
 
   it('should be defined', () => {
@@ -3,6 +3,7 @@ import {
   Body,
   Controller,
   Delete,
+  ForbiddenException,
   Get,
   NotFoundException,
   Param,
@@ -25,6 +26,7 @@ import {
   ApiTags,
 } from '@nestjs/swagger';
 import { UserService } from './users.service';
+import { EmailVerificationService } from './email-verification.service';
 import { avatarUploadOptions } from './avatar-upload.config';
 import type { RequestWithUser } from '../common/interfaces/request-with-user.interface';
 import { UpdateUserDto } from './dto/update-user.dto';
@@ -32,21 +34,32 @@ import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserStatusDto } from './dto/update-user-status.dto';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { RateLimitGuard } from '../common/guards/rate-limit.guard';
+import { RateLimit } from '../common/decorators/rate-limit.decorator';
 import * as bcrypt from 'bcrypt';
+import * as crypto from 'crypto';
 import { AssignRolesDto } from './dto/assign-roles.dto';
 import { ApiResponse } from 'src/common/utils/api-response';
+import { InvitationsService } from '../invitations/invitations.service';
 
 /**
  * Controller for managing users and their roles.
  *
- * All routes are protected by JWT and most are further restricted by role.
+ * All routes are protected by JWT or an API key and most are further
+ * restricted by role. Profile routes only accept a session JWT.
  */
-@UseGuards(AuthGuard('jwt'))
+@UseGuards(AuthGuard(['jwt', 'api-key', 'oauth']))
 @ApiTags('user')
 @ApiBearerAuth('JWT')
 @Controller('users')
 export class UserController {
-  constructor(private userService: UserService) {}
+  constructor(
+    private userService: UserService,
+    private invitationsService: InvitationsService,
+    private emailVerificationService: EmailVerificationService,
+  ) {}
 
   /**
    * Get a paginated list of users visible to the current user.
@@ -55,7 +68,7 @@ export class UserController {
    * @param includeInactive - If `'true'`, include inactive users in the result.
    * @returns API response with the list of users.
    */
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
   @Roles('company_admin', 'super_admin', 'manager')
   @Get('getAll')
   async findAll(
@@ -77,7 +90,7 @@ export class UserController {
    * @param id - Numeric user identifier.
    * @returns API response with the requested user, if accessible.
    */
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard)
   @Roles('company_admin', 'super_admin', 'manager', 'user')
   @Get('getById/:id')
   async findById(@Req() req: RequestWithUser, @Param('id') id: number) {
@@ -97,8 +110,9 @@ export class UserController {
    * @returns API response with the requested user, if accessible.
    * @throws NotFoundException when the user does not exist.
    */
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @UseGuards(AuthGuard(['jwt', 'api-key']), RolesGuard, RateLimitGuard)
   @Roles('company_admin', 'super_admin', 'manager')
+  @RateLimit({ points: 30, duration: 60, key: 'user' })
   @Get('getByEmail/:email')
   async findByEmail(
     @Req() req: RequestWithUser,
@@ -118,28 +132,58 @@ export class UserController {
   /**
    * Create a new user.
    *
-   * Password is required and will be hashed before saving.
+   * Either a password is supplied (hashed before saving) and a verification
+   * link is mailed, or `invite` is set, in which case the user receives an
+   * invitation link to choose their own password via `POST /auth/accept-invite`.
    *
    * @param req - Authenticated request providing the acting user.
    * @param body - User creation payload.
-   * @returns API response with the created user.
-   * @throws BadRequestException if password is missing.
+   * @returns API response with the created user (and invitation, if any).
+   * @throws BadRequestException if password is missing, or set together with `invite`.
    */
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles('company_admin', 'super_admin')
+  @UseGuards(AuthGuard(['jwt', 'api-key', 'oauth']), PermissionsGuard)
+  @RequirePermissions('users.create')
   @Post('create')
   async create(@Req() req: RequestWithUser, @Body() body: CreateUserDto) {
-    if (!body.password) {
+    const { invite, ...userData } = body;
+
+    if (invite) {
+      if (userData.password) {
+        throw new BadRequestException(
+          'Password must not be set when sending an invitation',
+        );
+      }
+      // Unusable placeholder until the invitee picks a password
+      userData.password = crypto.randomBytes(32).toString('hex');
+    } else if (!userData.password) {
       throw new BadRequestException('Password is required');
     }
-    const hashed = await bcrypt.hash(body.password, 10); // Hash the password
-    body.password = hashed;
-    const data = await this.userService.create(req.user, body, {
+
+    const hashed = await bcrypt.hash(userData.password, 10); // Hash the password
+    userData.password = hashed;
+    const user = await this.userService.create(req.user, userData, {
       ipAddress: req.ip,
       method: req.method,
       api: req.originalUrl,
     });
-    return ApiResponse.success('User created successfully', 201, data);
+
+    if (invite) {
+      const invitation = await this.invitationsService.invite(user, req.user);
+      return ApiResponse.success('User invited successfully', 201, {
+        ...user,
+        invitation,
+      });
+    }
+
+    // Invitations prove the address themselves; everyone else gets a link.
+    // The user exists either way, so a mail failure must not fail the request
+    void this.emailVerificationService
+      .sendVerification(user)
+      .catch((error) =>
+        console.error('Failed to send verification email:', error),
+      );
+
+    return ApiResponse.success('User created successfully', 201, user);
   }
 
   /**
@@ -150,8 +194,8 @@ export class UserController {
    * @param body - Partial user data to update.
    * @returns API response with the updated user.
    */
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles('company_admin', 'super_admin')
+  @UseGuards(AuthGuard(['jwt', 'api-key', 'oauth']), PermissionsGuard)
+  @RequirePermissions('users.update')
   @Put('update/:id')
   async update(
     @Req() req: RequestWithUser,
@@ -173,11 +217,15 @@ export class UserController {
    * @param id - ID of the user to delete.
    * @returns API response indicating successful deletion.
    */
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles('company_admin', 'super_admin')
+  @UseGuards(AuthGuard(['jwt', 'api-key', 'oauth']), PermissionsGuard)
+  @RequirePermissions('users.delete')
   @Delete('delete/:id')
   async remove(@Req() req: RequestWithUser, @Param('id') id: number) {
-    const data = await this.userService.delete(+id, req.user);
+    const data = await this.userService.delete(+id, req.user, {
+      ipAddress: req.ip,
+      method: req.method,
+      api: req.originalUrl,
+    });
     return ApiResponse.success('User deleted successfully', 200, data);
   }
 
@@ -189,8 +237,8 @@ export class UserController {
    * @param body - DTO containing role slugs to assign.
    * @returns API response with updated user roles.
    */
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles('super_admin', 'company_admin')
+  @UseGuards(AuthGuard(['jwt', 'api-key', 'oauth']), PermissionsGuard)
+  @RequirePermissions('users.roles.assign')
   @Post(':id/assignRoles')
   async assignRoles(
     @Req() req: RequestWithUser,
@@ -219,8 +267,8 @@ export class UserController {
    * @returns API response with updated user roles.
    */
   @Delete(':id/removeRoles/:slug')
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles('super_admin', 'company_admin')
+  @UseGuards(AuthGuard(['jwt', 'api-key', 'oauth']), PermissionsGuard)
+  @RequirePermissions('users.roles.assign')
   async removeRole(
     @Req() req: RequestWithUser,
     @Param('id') id: number,
@@ -250,8 +298,8 @@ export class UserController {
    * @returns API response with the updated user status.
    */
   @Patch(':id/status')
-  @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles('super_admin', 'company_admin')
+  @UseGuards(AuthGuard(['jwt', 'api-key', 'oauth']), PermissionsGuard)
+  @RequirePermissions('users.status')
   @ApiOperation({ summary: 'Activate or deactivate a user' })
   async updateUserStatus(
     @Req() req: RequestWithUser,
@@ -285,11 +333,11 @@ export class UserController {
   async getUserData(@Req() req: RequestWithUser) {
     // Fetch fresh user data from database instead of JWT
     const data = await this.userService.findOne(req.user.id);
-    return ApiResponse.success(
-      'User profile retrieved successfully',
-      200,
-      data,
-    );
+    return ApiResponse.success('User profile retrieved successfully', 200, {
+      ...data,
+      // Lets the frontend show an impersonation banner
+      impersonatorId: req.user.impersonatorId ?? null,
+    });
   }
 
   /**
@@ -315,6 +363,11 @@ export class UserController {
 
     // If password is being changed, verify current password first
     if (body.password !== undefined) {
+      if (req.user.impersonatorId) {
+        throw new ForbiddenException(
+          'Cannot change the password while impersonating',
+        );
+      }
       if (!body.currentPassword) {
         throw new BadRequestException('Current password is required');
       }
@@ -351,7 +404,8 @@ export class UserController {
    * @param file - Uploaded image file.
    * @returns API response with the updated user including new profile picture URL.
    */
-  @UseGuards(AuthGuard('jwt'))
+  @UseGuards(AuthGuard('jwt'), RateLimitGuard)
+  @RateLimit({ points: 10, duration: 300, key: 'user' })
   @Post('profile/avatar')
   @ApiOperation({ summary: 'Upload profile picture' })
   @ApiConsumes('multipart/form-data')
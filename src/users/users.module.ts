@@ -1,6 +1,9 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
 import { UserController } from './users.controller';
 import { UserService } from './users.service';
+import { EmailVerificationService } from './email-verification.service';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Users } from '../entities/entities/Users';
 import { Departments } from '../entities/entities/Departments';
@@ -9,16 +12,25 @@ import { RolesModule } from '../roles/roles.module';
 import { UserRoles } from 'src/entities/entities/UserRoles';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { SessionsModule } from '../sessions/sessions.module';
+import { InvitationsModule } from '../invitations/invitations.module';
 
 @Module({
   imports: [
+    JwtModule.registerAsync({
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => ({
+        secret: configService.get<string>('JWT_SECRET'),
+      }),
+      inject: [ConfigService],
+    }),
     TypeOrmModule.forFeature([Users, Departments, Companies, UserRoles]),
     RolesModule,
     NotificationsModule,
     SessionsModule,
+    InvitationsModule,
   ],
   controllers: [UserController],
-  providers: [UserService],
-  exports: [UserService],
+  providers: [UserService, EmailVerificationService],
+  exports: [UserService, EmailVerificationService],
 })
 export class UserModule {}
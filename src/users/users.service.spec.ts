@@ -9,6 +9,8 @@ import { AuthUser } from '../common/interfaces/auth-user.interface';
 import { ActivityLogsService } from '../activity-logs/activity-logs.service';
 import { NotificationsGateway } from '../notifications/notifications.gateway';
 import { SessionsService } from 'src/sessions/sessions.service';
+import { EmailVerificationService } from './email-verification.service';
+import { AuditService } from '../activity-logs/audit.service';
 
 describe('UserService', () => {
   let service: UserService;
@@ -40,6 +42,13 @@ describe('UserService', () => {
     const fakeSessions = {
       emitToCompany: jest.fn(),
     } as unknown as SessionsService;
+    const fakeEmailVerification = {
+      sendVerification: jest.fn(),
+      notifyEmailChanged: jest.fn(),
+    } as unknown as EmailVerificationService;
+    const fakeAudit = {
+      record: jest.fn(),
+    } as unknown as AuditService;
 
     return {
       fakeRepo,
@@ -50,6 +59,8 @@ describe('UserService', () => {
       fakeActivityLogsService,
       fakeNotificationsGateway,
       fakeSessions,
+      fakeEmailVerification,
+      fakeAudit,
     };
   };
 
@@ -63,6 +74,8 @@ describe('UserService', () => {
       deps.fakeActivityLogsService,
       deps.fakeNotificationsGateway,
       deps.fakeSessions,
+      deps.fakeEmailVerification,
+      deps.fakeAudit,
     );
   };
 
@@ -163,4 +176,397 @@ describe('UserService', () => {
 
     await expect(svc.findOneWithAccess(3, requester)).rejects.toThrow();
   });
+
+  it('changing the email resets verification and sends a new link', async () => {
+    const deps = createMockDependencies({
+      repo: {
+        findOne: jest
+          .fn()
+          .mockResolvedValueOnce({ id: 5, email: 'old@test.com' })
+          .mockResolvedValueOnce({ id: 5, email: 'new@test.com' }),
+        update: jest.fn(),
+      },
+    });
+
+    const svc = createService(deps);
+
+    const requester: AuthUser = {
+      id: 1,
+      sub: 1,
+      email: 'root@test.com',
+      roles: ['super_admin'],
+    };
+
+    await svc.update(requester, 5, { email: 'new@test.com' });
+
+    expect(deps.fakeRepo.update).toHaveBeenCalledWith(
+      5,
+      expect.objectContaining({ emailVerifiedAt: null }),
+    );
+    expect(deps.fakeEmailVerification.sendVerification).toHaveBeenCalledWith(
+      expect.objectContaining({ email: 'new@test.com' }),
+    );
+    expect(deps.fakeEmailVerification.notifyEmailChanged).toHaveBeenCalledWith(
+      'old@test.com',
+      'new@test.com',
+    );
+    expect(deps.fakeAudit.record).toHaveBeenCalledWith(
+      requester,
+      'user.update',
+      'user',
+      5,
+      expect.objectContaining({ email: 'old@test.com' }),
+      expect.objectContaining({ email: 'new@test.com' }),
+      expect.anything(),
+    );
+  });
+
+  it('assigning roles requires the users.roles.assign permission', async () => {
+    const deps = createMockDependencies({
+      repo: {
+        findOne: jest.fn().mockResolvedValue({ id: 5, userRoles: [] }),
+      },
+    });
+
+    const svc = createService(deps);
+
+    const requester: AuthUser = {
+      id: 20,
+      sub: 20,
+      email: 'manager@test.com',
+      roles: ['manager'],
+      permissions: [],
+    };
+
+    await expect(
+      svc.assignSecondaryRoles(requester, 5, ['user']),
+    ).rejects.toThrow('Not allowed to assign roles');
+  });
+
+  it('custom grants cannot assign company_admin', async () => {
+    const deps = createMockDependencies({
+      repo: {
+        findOne: jest
+          .fn()
+          .mockResolvedValue({ id: 5, company: { id: 1 }, userRoles: [] }),
+      },
+    });
+
+    const svc = createService(deps);
+
+    const requester: AuthUser = {
+      id: 20,
+      sub: 20,
+      email: 'manager@test.com',
+      roles: ['manager'],
+      companyId: 1,
+      permissions: ['users.roles.assign'],
+    };
+
+    await expect(
+      svc.assignSecondaryRoles(requester, 5, ['company_admin']),
+    ).rejects.toThrow('Cannot assign company_admin role');
+  });
+
+  it('custom roles resolve in the target company and stay scoped to it', async () => {
+    const findBySlug = jest
+      .fn()
+      .mockResolvedValue({ id: 9, slug: 'auditor', companyId: 2 });
+    const deps = createMockDependencies({
+      repo: {
+        findOne: jest
+          .fn()
+          .mockResolvedValue({ id: 5, company: { id: 1 }, userRoles: [] }),
+      },
+      rolesService: { findBySlug },
+    });
+
+    const svc = createService(deps);
+
+    const requester: AuthUser = {
+      id: 10,
+      sub: 10,
+      email: 'admin@test.com',
+      roles: ['company_admin'],
+      companyId: 1,
+      permissions: ['users.roles.assign'],
+    };
+
+    await expect(
+      svc.assignSecondaryRoles(requester, 5, ['auditor']),
+    ).rejects.toThrow('Cannot assign custom roles of another company');
+    expect(findBySlug).toHaveBeenCalledWith('auditor', 1);
+  });
+
+  it('secondary roles cannot be changed on users of another company', async () => {
+    const deps = createMockDependencies({
+      repo: {
+        findOne: jest
+          .fn()
+          .mockResolvedValue({ id: 5, company: { id: 2 }, userRoles: [] }),
+      },
+    });
+
+    const svc = createService(deps);
+
+    const requester: AuthUser = {
+      id: 10,
+      sub: 10,
+      email: 'admin@test.com',
+      roles: ['company_admin'],
+      companyId: 1,
+      permissions: ['users.roles.assign'],
+    };
+
+    await expect(
+      svc.assignSecondaryRoles(requester, 5, ['user']),
+    ).rejects.toThrow('Cannot manage users outside your company');
+    await expect(svc.removeSecondaryRole(requester, 5, 'user')).rejects.toThrow(
+      'Cannot manage users outside your company',
+    );
+  });
+
+  it('secondary roles cannot be changed on your own account', async () => {
+    const deps = createMockDependencies({
+      repo: {
+        findOne: jest
+          .fn()
+          .mockResolvedValue({ id: 20, company: { id: 1 }, userRoles: [] }),
+      },
+    });
+
+    const svc = createService(deps);
+
+    const requester: AuthUser = {
+      id: 20,
+      sub: 20,
+      email: 'manager@test.com',
+      roles: ['manager'],
+      companyId: 1,
+      permissions: ['users.roles.assign'],
+    };
+
+    await expect(
+      svc.assignSecondaryRoles(requester, 20, ['manager']),
+    ).rejects.toThrow('Cannot change your own roles');
+    await expect(
+      svc.removeSecondaryRole(requester, 20, 'user'),
+    ).rejects.toThrow('Cannot change your own roles');
+  });
+
+  it('secondary roles are limited to roles within the requester permissions', async () => {
+    const deps = createMockDependencies({
+      repo: {
+        findOne: jest
+          .fn()
+          .mockResolvedValue({ id: 5, company: { id: 1 }, userRoles: [] }),
+      },
+      rolesService: {
+        findBySlug: jest
+          .fn()
+          .mockResolvedValue({ id: 4, slug: 'manager', companyId: null }),
+        canGrantRoles: jest.fn().mockResolvedValue(false),
+      },
+    });
+
+    const svc = createService(deps);
+
+    const requester: AuthUser = {
+      id: 20,
+      sub: 20,
+      email: 'hr@test.com',
+      roles: ['hr_reviewer'],
+      companyId: 1,
+      permissions: ['users.roles.assign'],
+    };
+
+    await expect(
+      svc.assignSecondaryRoles(requester, 5, ['manager']),
+    ).rejects.toThrow('Cannot assign roles with permissions you do not have');
+    await expect(
+      svc.removeSecondaryRole(requester, 5, 'manager'),
+    ).rejects.toThrow('Cannot remove roles with permissions you do not have');
+  });
+
+  it('users.update holders cannot update users of another company', async () => {
+    const deps = createMockDependencies({
+      repo: {
+        findOne: jest.fn().mockResolvedValue({
+          id: 5,
+          email: 'u@other.com',
+          company: { id: 2 },
+          role: { slug: 'user' },
+          userRoles: [],
+        }),
+        update: jest.fn(),
+      },
+    });
+
+    const svc = createService(deps);
+
+    const requester: AuthUser = {
+      id: 10,
+      sub: 10,
+      email: 'admin@test.com',
+      roles: ['company_admin'],
+      companyId: 1,
+      permissions: ['users.update'],
+    };
+
+    await expect(
+      svc.update(requester, 5, { firstname: 'Mallory' }),
+    ).rejects.toThrow('Cannot manage users outside your company');
+    expect(deps.fakeRepo.update).not.toHaveBeenCalled();
+    expect(deps.fakeActivityLogsService.logForbiddenAccess).toHaveBeenCalled();
+  });
+
+  it('users.update holders cannot escalate roles through update', async () => {
+    const deps = createMockDependencies({
+      repo: {
+        findOne: jest.fn().mockResolvedValue({
+          id: 5,
+          email: 'u@test.com',
+          company: { id: 1 },
+          role: { slug: 'user' },
+          userRoles: [],
+        }),
+        update: jest.fn(),
+      },
+      rolesService: {
+        findBySlug: jest
+          .fn()
+          .mockImplementation((slug: string) =>
+            Promise.resolve({ id: 2, slug, companyId: null }),
+          ),
+      },
+    });
+
+    const svc = createService(deps);
+
+    const requester: AuthUser = {
+      id: 20,
+      sub: 20,
+      email: 'hr@test.com',
+      roles: ['hr_reviewer'],
+      companyId: 1,
+      permissions: ['users.update'],
+    };
+
+    await expect(
+      svc.update(requester, 5, { roleSlug: 'company_admin' }),
+    ).rejects.toThrow('Not allowed to assign this role');
+    await expect(
+      svc.update(requester, 20, { roleSlug: 'super_admin' }),
+    ).rejects.toThrow('Not allowed to assign this role');
+    expect(deps.fakeRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('users.update holders cannot change their own role', async () => {
+    const deps = createMockDependencies({
+      repo: {
+        findOne: jest.fn().mockResolvedValue({
+          id: 20,
+          email: 'hr@test.com',
+          company: { id: 1 },
+          role: { id: 3, slug: 'user' },
+          userRoles: [],
+        }),
+        update: jest.fn(),
+      },
+      rolesService: {
+        findBySlug: jest
+          .fn()
+          .mockResolvedValue({ id: 4, slug: 'manager', companyId: null }),
+        canGrantRoles: jest.fn().mockResolvedValue(true),
+      },
+    });
+
+    const svc = createService(deps);
+
+    const requester: AuthUser = {
+      id: 20,
+      sub: 20,
+      email: 'hr@test.com',
+      roles: ['user'],
+      companyId: 1,
+      permissions: ['users.update'],
+    };
+
+    await expect(
+      svc.update(requester, 20, { roleSlug: 'manager' }),
+    ).rejects.toThrow('Not allowed to assign this role');
+    expect(deps.fakeRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('role changes are limited to roles within the requester permissions', async () => {
+    const canGrantRoles = jest.fn().mockResolvedValue(false);
+    const deps = createMockDependencies({
+      repo: {
+        findOne: jest.fn().mockResolvedValue({
+          id: 5,
+          email: 'u@test.com',
+          company: { id: 1 },
+          role: { id: 3, slug: 'user' },
+          userRoles: [],
+        }),
+        update: jest.fn(),
+      },
+      rolesService: {
+        findBySlug: jest
+          .fn()
+          .mockResolvedValue({ id: 9, slug: 'auditor', companyId: 1 }),
+        canGrantRoles,
+      },
+    });
+
+    const svc = createService(deps);
+
+    const requester: AuthUser = {
+      id: 20,
+      sub: 20,
+      email: 'hr@test.com',
+      roles: ['hr_reviewer'],
+      companyId: 1,
+      permissions: ['users.update'],
+    };
+
+    await expect(
+      svc.update(requester, 5, { roleSlug: 'auditor' }),
+    ).rejects.toThrow('Not allowed to assign this role');
+    expect(canGrantRoles).toHaveBeenCalledWith(requester, [
+      expect.objectContaining({ id: 9 }),
+    ]);
+    expect(deps.fakeRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('users.delete holders cannot delete users of another company', async () => {
+    const deps = createMockDependencies({
+      repo: {
+        findOne: jest.fn().mockResolvedValue({
+          id: 5,
+          email: 'u@other.com',
+          company: { id: 2 },
+          role: { slug: 'user' },
+          userRoles: [],
+        }),
+        delete: jest.fn(),
+      },
+    });
+
+    const svc = createService(deps);
+
+    const requester: AuthUser = {
+      id: 10,
+      sub: 10,
+      email: 'admin@test.com',
+      roles: ['company_admin'],
+      companyId: 1,
+      permissions: ['users.delete'],
+    };
+
+    await expect(svc.delete(5, requester)).rejects.toThrow(
+      'Cannot manage users outside your company',
+    );
+    expect(deps.fakeRepo.delete).not.toHaveBeenCalled();
+  });
 });
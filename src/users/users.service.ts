@@ -16,10 +16,13 @@ import { normalizeRoleSlug } from '../common/utils/roles';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { AuthUser } from '../common/interfaces/auth-user.interface';
 import { UserRoles } from 'src/entities/entities/UserRoles';
+import { Roles } from 'src/entities/entities/Roles';
 import { ActivityLogsService } from 'src/activity-logs/activity-logs.service';
+import { AuditService } from 'src/activity-logs/audit.service';
 import { RequestContext } from 'src/common/interfaces/request-context.interface';
 import { NotificationsGateway } from '../notifications/notifications.gateway';
 import { SessionsService } from '../sessions/sessions.service';
+import { EmailVerificationService } from './email-verification.service';
 
 @Injectable()
 export class UserService {
@@ -36,6 +39,8 @@ export class UserService {
     private readonly activityLogsService: ActivityLogsService,
     private readonly notificationsGateway: NotificationsGateway,
     private readonly sessionsService: SessionsService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly auditService: AuditService,
   ) {}
 
   // Normalize requester roles to accept either `roles` array or legacy `role` property
@@ -52,6 +57,72 @@ export class UserService {
       .filter((r): r is string => Boolean(r));
   }
 
+  // super_admin passes every check; everyone else needs the permission
+  // (resolved from role_permissions in JwtStrategy)
+  private _hasPermission(requester: AuthUser, permission: string): boolean {
+    const requesterRoles = this._normalizeRequesterRoles(requester);
+    return (
+      requesterRoles.includes('super_admin') ||
+      (requester.permissions || []).includes(permission)
+    );
+  }
+
+  // System roles are usable everywhere; custom roles only inside their company
+  private _canUseRole(requester: AuthUser, role: Roles): boolean {
+    if (!role.companyId) return true;
+    return (
+      this._normalizeRequesterRoles(requester).includes('super_admin') ||
+      requester.companyId === role.companyId
+    );
+  }
+
+  // Below super_admin, managing another user is limited to non-admin users of
+  // the requester's own company (mirrors setUserActiveStatus)
+  private async _assertCanManageUser(
+    requester: AuthUser,
+    target: Users,
+    ctx?: RequestContext,
+  ): Promise<void> {
+    if (requester.id === target.id) return;
+
+    const requesterRoles = this._normalizeRequesterRoles(requester);
+    const targetRoles = [
+      target.role?.slug,
+      ...(target.userRoles || []).map((ur) => ur.role?.slug),
+    ]
+      .filter(Boolean)
+      .map((r) => r.toLowerCase().trim());
+
+    let message: string | null = null;
+    if (requesterRoles.includes('super_admin')) {
+      if (targetRoles.includes('super_admin')) {
+        message = 'Cannot manage another super_admin';
+      }
+    } else if (
+      targetRoles.includes('super_admin') ||
+      targetRoles.includes('company_admin')
+    ) {
+      message = 'Cannot manage super_admin or company_admin';
+    } else if (
+      !requester.companyId ||
+      target.company?.id !== requester.companyId
+    ) {
+      message = 'Cannot manage users outside your company';
+    }
+
+    if (message) {
+      await this.activityLogsService.logForbiddenAccess({
+        userId: requester.id,
+        username: requester.email,
+        companyId: requester.companyId,
+        ipAddress: ctx?.ipAddress || '',
+        api: ctx?.api || '',
+        method: ctx?.method || '',
+      });
+      throw new ForbiddenException(message);
+    }
+  }
+
   // Transform user to add computed 'roles' array from userRoles relation
   private _transformUser(
     user: Users,
@@ -144,10 +215,10 @@ export class UserService {
       delete (toSave as Partial<Users> & { companyId?: number }).companyId;
     }
 
-    // If requester is company_admin, enforce they cannot assign higher roles and ensure department belongs to their company
+    // Anyone below super_admin cannot assign higher roles and must stay within their company
     if (requester) {
       const requesterRoles = this._normalizeRequesterRoles(requester);
-      if (requesterRoles.includes('company_admin')) {
+      if (!requesterRoles.includes('super_admin')) {
         // cannot assign super_admin or company_admin
         const incomingRole = data.roleSlug?.toString().toLowerCase().trim();
         if (
@@ -166,7 +237,7 @@ export class UserService {
 
           throw new ForbiddenException('Not allowed to assign this role');
         }
-        // Option C: Validate department belongs to company_admin's company
+        // Option C: Validate department belongs to requester's company
         if (typeof data.departmentId !== 'undefined' && data.departmentId) {
           if (!requester.companyId) {
             void this.activityLogsService.logForbiddenAccess({
@@ -202,6 +273,16 @@ export class UserService {
 
     const savedUser = await this.repo.save(toSave as Users);
 
+    await this.auditService.record(
+      requester,
+      'user.create',
+      'user',
+      savedUser.id,
+      null,
+      savedUser,
+      { ...ctx, companyId: toSave.company?.id },
+    );
+
     // Emit notification to company users
     // Option C: Use company from saved user directly (single source of truth)
     if (requester && toSave.company?.id) {
@@ -494,6 +575,15 @@ export class UserService {
     return bcrypt.compare(password, user.password);
   }
 
+  // Replace a user's password (used by self-service flows without a requester)
+  async updatePassword(userId: number, password: string): Promise<void> {
+    const bcrypt = await import('bcrypt');
+    await this.repo.update(userId, {
+      password: await bcrypt.hash(password, 10),
+      updatedAt: new Date(),
+    });
+  }
+
   async update(
     requester: AuthUser,
     id: number,
@@ -503,19 +593,44 @@ export class UserService {
     const existing = await this.findOne(id);
     if (!existing) throw new NotFoundException('User not found');
 
-    const requesterRoles = this._normalizeRequesterRoles(requester);
-    // super_admin and company_admin can update anyone; users can update self
-    if (
-      requesterRoles.includes('super_admin') ||
-      requesterRoles.includes('company_admin') ||
-      requester.id === id
-    ) {
+    // super_admin and holders of users.update can update anyone; users can update self
+    if (this._hasPermission(requester, 'users.update') || requester.id === id) {
+      await this._assertCanManageUser(requester, existing, ctx);
+      const isSuperAdmin =
+        this._normalizeRequesterRoles(requester).includes('super_admin');
+
       console.log('Updating user', id, 'with data', data);
       const toUpdate: Partial<Users> = { ...data };
       // If a roleSlug was provided, resolve it to the relation and remove the raw roleSlug
       if (data.roleSlug) {
-        const r = await this.rolesService.findBySlug(data.roleSlug);
+        const incomingRole = data.roleSlug.toString().toLowerCase().trim();
+        const r = await this.rolesService.findBySlug(
+          incomingRole,
+          existing.company?.id,
+        );
         if (!r) throw new NotFoundException('Role not found');
+        // Same rule as create(): no granting admin roles or foreign custom roles.
+        // A new role must also stay within the requester's own permissions,
+        // and only super_admin may change their own role
+        const roleChanged = r.id !== existing.role?.id;
+        if (
+          (!isSuperAdmin &&
+            ['super_admin', 'company_admin'].includes(incomingRole)) ||
+          !this._canUseRole(requester, r) ||
+          (roleChanged && !isSuperAdmin && requester.id === id) ||
+          (roleChanged &&
+            !(await this.rolesService.canGrantRoles(requester, [r])))
+        ) {
+          await this.activityLogsService.logForbiddenAccess({
+            userId: requester?.id,
+            username: requester?.email,
+            companyId: requester?.companyId,
+            ipAddress: ctx?.ipAddress || '',
+            api: ctx?.api || '',
+            method: ctx?.method || '',
+          });
+          throw new ForbiddenException('Not allowed to assign this role');
+        }
         toUpdate.role = r;
         // remove non-column property to avoid TypeORM error
         delete (toUpdate as Partial<Users> & { roleSlug?: string }).roleSlug;
@@ -527,6 +642,23 @@ export class UserService {
           relations: ['company'],
         });
         if (!dept) throw new NotFoundException('Department not found');
+        // Moving a user is limited to departments of the requester's company
+        if (
+          !isSuperAdmin &&
+          (!requester.companyId || dept.company?.id !== requester.companyId)
+        ) {
+          await this.activityLogsService.logForbiddenAccess({
+            userId: requester?.id,
+            username: requester?.email,
+            companyId: requester?.companyId,
+            ipAddress: ctx?.ipAddress || '',
+            api: ctx?.api || '',
+            method: ctx?.method || '',
+          });
+          throw new ForbiddenException(
+            'Not allowed to move user to this department',
+          );
+        }
         toUpdate.department = dept;
         // Option C: Auto-set company from department when updating
         if (dept.company) {
@@ -543,9 +675,37 @@ export class UserService {
         toUpdate.password = await bcrypt.hash(data.password, 10);
       }
 
+      // A new address has to be verified again
+      const emailChanged = Boolean(data.email && data.email !== existing.email);
+      if (emailChanged) {
+        toUpdate.emailVerifiedAt = null;
+      }
+
       await this.repo.update(id, toUpdate);
       const updatedUser = await this.findOne(id);
 
+      await this.auditService.record(
+        requester,
+        'user.update',
+        'user',
+        id,
+        existing,
+        updatedUser,
+        { ...ctx, companyId: updatedUser?.company?.id ?? existing.company?.id },
+      );
+
+      if (emailChanged && updatedUser) {
+        try {
+          await this.emailVerificationService.sendVerification(updatedUser);
+          await this.emailVerificationService.notifyEmailChanged(
+            existing.email,
+            updatedUser.email,
+          );
+        } catch (error) {
+          console.error('Failed to send email change messages:', error);
+        }
+      }
+
       // Option C: Emit notification using user.company directly (single source of truth)
       // Skip notification if user is updating their own profile (self-update)
       const isSelfUpdate = requester.id === id;
@@ -577,7 +737,7 @@ export class UserService {
     throw new ForbiddenException();
   }
 
-  async delete(id: number, performer?: AuthUser) {
+  async delete(id: number, performer?: AuthUser, ctx?: RequestContext) {
     // Prevent self-deletion
     if (performer && performer.id === id) {
       throw new ForbiddenException('Cannot delete your own account');
@@ -585,12 +745,27 @@ export class UserService {
 
     // Get user before deleting to know their company
     const user = await this.findOne(id);
+    if (performer && user) {
+      await this._assertCanManageUser(performer, user, ctx);
+    }
     // Option C: Use user.company directly (single source of truth)
     const companyId = user?.company?.id;
     const userEmail = user?.email;
 
     const result = await this.repo.delete(id);
 
+    if (user) {
+      await this.auditService.record(
+        performer,
+        'user.delete',
+        'user',
+        id,
+        user,
+        null,
+        { ...ctx, companyId },
+      );
+    }
+
     // Emit notification to company users
     if (companyId && performer) {
       void this.notificationsGateway.emitNotification({
@@ -607,6 +782,31 @@ export class UserService {
     return result;
   }
 
+  // Secondary roles follow _assertCanManageUser, except that nobody below
+  // super_admin may change their own roles
+  private async _assertCanChangeRolesOf(
+    requester: AuthUser,
+    target: Users,
+    ctx?: RequestContext,
+  ): Promise<void> {
+    if (
+      requester.id === target.id &&
+      !this._normalizeRequesterRoles(requester).includes('super_admin')
+    ) {
+      await this.activityLogsService.logForbiddenAccess({
+        userId: requester.id,
+        username: requester.email,
+        companyId: requester.companyId,
+        ipAddress: ctx?.ipAddress || '',
+        api: ctx?.api || '',
+        method: ctx?.method || '',
+      });
+      throw new ForbiddenException('Cannot change your own roles');
+    }
+
+    await this._assertCanManageUser(requester, target, ctx);
+  }
+
   async assignSecondaryRoles(
     requester: AuthUser,
     userId: number,
@@ -619,10 +819,7 @@ export class UserService {
     const requesterRoles = this._normalizeRequesterRoles(requester);
 
     // authorization
-    if (
-      !requesterRoles.includes('super_admin') &&
-      !requesterRoles.includes('company_admin')
-    ) {
+    if (!this._hasPermission(requester, 'users.roles.assign')) {
       // Log forbidden access attempt
       await this.activityLogsService.logForbiddenAccess({
         userId: requester?.id,
@@ -635,6 +832,8 @@ export class UserService {
       throw new ForbiddenException('Not allowed to assign roles');
     }
 
+    await this._assertCanChangeRolesOf(requester, target, ctx);
+
     // super_admin cannot be assigned as secondary role by anyone
     if (roleSlugs.some((r: string) => normalizeRoleSlug(r) === 'super_admin')) {
       await this.activityLogsService.logForbiddenAccess({
@@ -649,8 +848,8 @@ export class UserService {
       throw new ForbiddenException('Cannot assign super_admin role');
     }
 
-    // company_admin cannot assign company_admin as secondary role
-    if (requesterRoles.includes('company_admin')) {
+    // only super_admin can assign company_admin as secondary role
+    if (!requesterRoles.includes('super_admin')) {
       if (
         roleSlugs.some((r: string) => normalizeRoleSlug(r) === 'company_admin')
       ) {
@@ -667,15 +866,48 @@ export class UserService {
       }
     }
 
-    // Resolve roles
+    // Resolve roles; custom roles only resolve within the target's company
     const roles = await Promise.all(
       roleSlugs.map(async (slug) => {
-        const role = await this.rolesService.findBySlug(slug);
+        const role = await this.rolesService.findBySlug(
+          slug,
+          target.company?.id,
+        );
         if (!role) throw new NotFoundException(`Role ${slug} not found`);
         return role;
       }),
     );
 
+    if (roles.some((role) => !this._canUseRole(requester, role))) {
+      await this.activityLogsService.logForbiddenAccess({
+        userId: requester?.id,
+        username: requester?.email,
+        companyId: requester?.companyId,
+        ipAddress: ctx?.ipAddress || '',
+        api: ctx?.api || '',
+        method: ctx?.method || '',
+      });
+
+      throw new ForbiddenException(
+        'Cannot assign custom roles of another company',
+      );
+    }
+
+    if (!(await this.rolesService.canGrantRoles(requester, roles))) {
+      await this.activityLogsService.logForbiddenAccess({
+        userId: requester?.id,
+        username: requester?.email,
+        companyId: requester?.companyId,
+        ipAddress: ctx?.ipAddress || '',
+        api: ctx?.api || '',
+        method: ctx?.method || '',
+      });
+
+      throw new ForbiddenException(
+        'Cannot assign roles with permissions you do not have',
+      );
+    }
+
     // Avoid duplicates
     const existingRoleIds = new Set(
       (target.userRoles || []).map((ur) => ur.role.id),
@@ -696,6 +928,16 @@ export class UserService {
 
     const updatedUser = await this.findOne(userId);
 
+    await this.auditService.record(
+      requester,
+      'user.roles.assign',
+      'user',
+      userId,
+      { roles: (target.userRoles || []).map((ur) => ur.role?.slug) },
+      { roles: (updatedUser?.userRoles || []).map((ur) => ur.role?.slug) },
+      { ...ctx, companyId: target.company?.id },
+    );
+
     // Option C: Emit notification using user.company directly (single source of truth)
     const companyId = target.company?.id;
     if (companyId) {
@@ -721,10 +963,7 @@ export class UserService {
   ) {
     const requesterRoles = this._normalizeRequesterRoles(requester);
 
-    if (
-      !requesterRoles.includes('super_admin') &&
-      !requesterRoles.includes('company_admin')
-    ) {
+    if (!this._hasPermission(requester, 'users.roles.assign')) {
       // Log forbidden access attempt
       await this.activityLogsService.logForbiddenAccess({
         userId: requester?.id,
@@ -738,8 +977,8 @@ export class UserService {
       throw new ForbiddenException();
     }
 
-    // company_admin cannot remove super_admin or company_admin roles
-    if (requesterRoles.includes('company_admin')) {
+    // only super_admin can remove super_admin or company_admin roles
+    if (!requesterRoles.includes('super_admin')) {
       const restrictedRoles: string[] = ['super_admin', 'company_admin'];
       if (restrictedRoles.includes(normalizeRoleSlug(roleSlug))) {
         await this.activityLogsService.logForbiddenAccess({
@@ -760,9 +999,44 @@ export class UserService {
     const target = await this.findOne(userId);
     if (!target) throw new NotFoundException('User not found');
 
-    const role = await this.rolesService.findBySlug(roleSlug);
+    await this._assertCanChangeRolesOf(requester, target, ctx);
+
+    const role = await this.rolesService.findBySlug(
+      roleSlug,
+      target.company?.id,
+    );
     if (!role) throw new NotFoundException('Role not found');
 
+    if (!this._canUseRole(requester, role)) {
+      await this.activityLogsService.logForbiddenAccess({
+        userId: requester?.id,
+        username: requester?.email,
+        companyId: requester?.companyId,
+        ipAddress: ctx?.ipAddress || '',
+        api: ctx?.api || '',
+        method: ctx?.method || '',
+      });
+
+      throw new ForbiddenException(
+        'Cannot remove custom roles of another company',
+      );
+    }
+
+    if (!(await this.rolesService.canGrantRoles(requester, [role]))) {
+      await this.activityLogsService.logForbiddenAccess({
+        userId: requester?.id,
+        username: requester?.email,
+        companyId: requester?.companyId,
+        ipAddress: ctx?.ipAddress || '',
+        api: ctx?.api || '',
+        method: ctx?.method || '',
+      });
+
+      throw new ForbiddenException(
+        'Cannot remove roles with permissions you do not have',
+      );
+    }
+
     await this.userRolesRepo.delete({
       user: { id: userId },
       role: { id: role.id },
@@ -770,6 +1044,16 @@ export class UserService {
 
     const updatedUser = await this.findOne(userId);
 
+    await this.auditService.record(
+      requester,
+      'user.roles.remove',
+      'user',
+      userId,
+      { roles: (target.userRoles || []).map((ur) => ur.role?.slug) },
+      { roles: (updatedUser?.userRoles || []).map((ur) => ur.role?.slug) },
+      { ...ctx, companyId: target.company?.id },
+    );
+
     // Option C: Emit notification using user.company directly (single source of truth)
     const companyId = target.company?.id;
     if (companyId) {
@@ -790,7 +1074,8 @@ export class UserService {
   /**
    * Set user active/inactive status with role-based authorization
    * - super_admin: can change status of company_admin, manager, user (not other super_admin)
-   * - company_admin: can change status of manager, user in their company (not super_admin or company_admin)
+   * - holders of users.status (company_admin by default): can change status of
+   *   manager, user in their company (not super_admin or company_admin)
    */
   async setUserActiveStatus(
     requester: AuthUser,
@@ -830,8 +1115,8 @@ export class UserService {
       }
       // super_admin can change status of company_admin, manager, user
     }
-    // company_admin authorization
-    else if (requesterRoles.includes('company_admin')) {
+    // users.status authorization (company_admin by default)
+    else if (this._hasPermission(requester, 'users.status')) {
       // company_admin cannot change status of super_admin or company_admin
       if (
         targetRoles.includes('super_admin') ||
@@ -865,7 +1150,7 @@ export class UserService {
         );
       }
     }
-    // Only super_admin and company_admin can change user status
+    // Only super_admin and holders of users.status can change user status
     else {
       await this.activityLogsService.logForbiddenAccess({
         userId: requester.id,
@@ -892,6 +1177,19 @@ export class UserService {
 
     const updatedUser = await this.findOne(userId);
 
+    await this.auditService.record(
+      requester,
+      'user.status',
+      'user',
+      userId,
+      { isActive: target.isActive, deactivatedAt: target.deactivatedAt },
+      {
+        isActive: updatedUser?.isActive,
+        deactivatedAt: updatedUser?.deactivatedAt,
+      },
+      { ...ctx, companyId: target.company?.id },
+    );
+
     // Emit notification
     const companyId = target.company?.id;
     if (companyId) {